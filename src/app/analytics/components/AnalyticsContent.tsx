@@ -10,6 +10,7 @@ import { MarketAnalyticsV2 } from "@/components/MarketAnalyticsV2";
 import { PriceHistoryV2 } from "@/components/PriceHistoryV2";
 
 import { MultiOptionPositions } from "@/components/MultiOptionPositions";
+import { CalibrationAnalytics } from "@/components/CalibrationAnalytics";
 import {
   BarChart3,
   TrendingUp,
@@ -17,6 +18,7 @@ import {
   Activity,
   User,
   Target,
+  Crosshair,
 } from "lucide-react";
 import { useAccount } from "wagmi";
 import { Badge } from "@/components/ui/badge";
@@ -85,6 +87,13 @@ function AnalyticsContentInner() {
             <BarChart3 className="h-4 w-4" />
             <span>Markets</span>
           </TabsTrigger>
+          <TabsTrigger
+            value="calibration"
+            className="flex items-center gap-2 flex-1 min-w-[100px] md:min-w-0"
+          >
+            <Crosshair className="h-4 w-4" />
+            <span>Calibration</span>
+          </TabsTrigger>
         </TabsList>
 
         {/* Portfolio Analytics */}
@@ -124,6 +133,11 @@ function AnalyticsContentInner() {
         <TabsContent value="markets" className="space-y-6">
           <MarketAnalyticsV2 />
         </TabsContent>
+
+        {/* Platform Calibration */}
+        <TabsContent value="calibration" className="space-y-6">
+          <CalibrationAnalytics />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -7,6 +7,7 @@ import {
   PolicastViews,
   PolicastViewsAbi,
 } from "@/constants/contract";
+import { marketIndexer } from "@/lib/market-indexer";
 import { MarketBasicInfoTuple } from "@/types/market";
 
 // Typed wrappers to reduce any-casts; generic return typing follows call sites
@@ -156,6 +157,19 @@ async function discoverAdminWithdrawals(
 ): Promise<AdminWithdrawal[]> {
   const withdrawals: AdminWithdrawal[] = [];
 
+  // Indexed path: only the markets this user created need checking
+  try {
+    if (await marketIndexer.ensureFresh()) {
+      const creatorMarkets = await marketIndexer.getCreatorMarkets(userAddress);
+      console.log(
+        `Market indexer returned ${creatorMarkets.length} markets created by user`
+      );
+      return await checkMarketsForAdmin(userAddress, creatorMarkets);
+    }
+  } catch (error) {
+    console.warn("Indexed admin discovery failed, falling back:", error);
+  }
+
   try {
     // First get the actual market count from the contract
     const marketCount = await readCore<bigint>("marketCount");
@@ -177,9 +191,11 @@ async function discoverAdminWithdrawals(
 
     for (let startId = 0; startId < maxMarketId; startId += batchSize) {
       const endId = Math.min(startId + batchSize, maxMarketId);
-      batchPromises.push(() =>
-        checkMarketBatchForAdmin(userAddress, startId, endId)
+      const marketIds = Array.from(
+        { length: endId - startId },
+        (_, i) => startId + i
       );
+      batchPromises.push(() => checkMarketsForAdmin(userAddress, marketIds));
     }
 
     // Process batches with concurrency limit
@@ -211,14 +227,13 @@ async function discoverAdminWithdrawals(
 }
 
 // Check a batch of markets for admin withdrawal opportunities
-async function checkMarketBatchForAdmin(
+async function checkMarketsForAdmin(
   userAddress: string,
-  startId: number,
-  endId: number
+  marketIds: number[]
 ): Promise<AdminWithdrawal[]> {
   const withdrawals: AdminWithdrawal[] = [];
 
-  for (let marketId = startId; marketId < endId; marketId++) {
+  for (const marketId of marketIds) {
     try {
       // Get market info to check market status
       const marketInfo = await readView<readonly any[]>("getMarketInfo", [
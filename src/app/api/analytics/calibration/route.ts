@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { calibrationService } from "@/lib/calibration-service";
+
+export async function GET() {
+  try {
+    return NextResponse.json(await calibrationService.getReport());
+  } catch (error) {
+    console.error("Error fetching calibration report:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      { error: `Failed to fetch calibration report: ${message}` },
+      { status: 500 }
+    );
+  }
+}
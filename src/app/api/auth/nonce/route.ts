@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { createNonce } from "@/lib/auth-session";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ nonce: await createNonce() });
+  } catch (error) {
+    console.error("Error creating sign-in nonce:", error);
+    return NextResponse.json(
+      { error: "Failed to create nonce" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createSession,
+  deleteSession,
+  getSession,
+  requestDomain,
+  setSessionCookie,
+  verifySignIn,
+} from "@/lib/auth-session";
+import type { AuthMethod } from "@/lib/wallet-auth";
+import {
+  attributeReferralCookie,
+  clearReferralCookie,
+} from "@/lib/referral-service";
+import { REFERRAL_COOKIE } from "@/lib/referrals";
+
+export async function GET(request: NextRequest) {
+  try {
+    return NextResponse.json({ session: await getSession(request) });
+  } catch (error) {
+    console.error("Error reading session:", error);
+    return NextResponse.json(
+      { error: "Failed to read session" },
+      { status: 500 }
+    );
+  }
+}
+
+// Exchange a signed SIWE / Sign In with Farcaster message for a session
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { method = "siwe", message, signature } = body as {
+      method?: AuthMethod;
+      message?: string;
+      signature?: `0x${string}`;
+    };
+
+    if (!message || !signature || !["siwe", "farcaster"].includes(method)) {
+      return NextResponse.json(
+        { error: "Sign-in method, message and signature are required" },
+        { status: 400 }
+      );
+    }
+
+    const identity = await verifySignIn(method, {
+      message,
+      signature,
+      domain: requestDomain(request),
+    });
+    if (identity.error !== undefined) {
+      return NextResponse.json({ error: identity.error }, { status: 401 });
+    }
+
+    const { id, session } = await createSession({
+      address: identity.address,
+      fid: identity.fid,
+      method,
+    });
+    const response = NextResponse.json({ session });
+    setSessionCookie(response, id);
+    if (request.cookies.has(REFERRAL_COOKIE)) {
+      // A share link brought this visitor: credit its first-touch referrer
+      await attributeReferralCookie(request, session);
+      clearReferralCookie(response);
+    }
+    return response;
+  } catch (error) {
+    console.error("Error signing in:", error);
+    return NextResponse.json({ error: "Failed to sign in" }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const response = NextResponse.json({ session: null });
+    await deleteSession(request, response);
+    return response;
+  } catch (error) {
+    console.error("Error signing out:", error);
+    return NextResponse.json(
+      { error: "Failed to sign out" },
+      { status: 500 }
+    );
+  }
+}
@@ -7,6 +7,7 @@ import {
   PolicastViews,
   PolicastViewsAbi,
 } from "@/constants/contract";
+import { marketIndexer } from "@/lib/market-indexer";
 
 const alchemyRpc = process.env.NEXT_PUBLIC_ALCHEMY_RPC_URL;
 if (!alchemyRpc && process.env.NODE_ENV === "production") {
@@ -209,6 +210,20 @@ export async function POST(request: NextRequest) {
 async function discoverUserMarkets(userAddress: string): Promise<number[]> {
   const participatedMarkets: Set<number> = new Set();
 
+  // Method 0: Indexed lookup (no chain scan) once the market indexer has data
+  try {
+    if (await marketIndexer.ensureFresh()) {
+      const indexedMarkets = await marketIndexer.getUserMarkets(userAddress);
+      console.log(
+        `Market indexer returned ${indexedMarkets.length} markets for user`
+      );
+      return indexedMarkets;
+    }
+    console.log("Market indexer not initialized, falling back");
+  } catch (error) {
+    console.warn("Method 0 (market indexer) failed, falling back:", error);
+  }
+
   // Method 1: Prefer Views.getUserMarkets(user) if available (efficient)
   try {
     const abiHasFn =
@@ -1,19 +1,23 @@
 import { NextRequest, NextResponse } from "next/server";
+import { getSession, unauthorized } from "@/lib/auth-session";
 import { toggleCommentLike } from "@/lib/supabase-comments";
 
 export async function POST(request: NextRequest) {
   try {
+    const session = await getSession(request);
+    if (!session) return unauthorized();
+
     const body = await request.json();
-    const { commentId, userAddress } = body;
+    const { commentId } = body;
 
-    if (!commentId || !userAddress) {
+    if (!commentId) {
       return NextResponse.json(
         { error: "Missing required fields" },
         { status: 400 }
       );
     }
 
-    const result = await toggleCommentLike(commentId, userAddress);
+    const result = await toggleCommentLike(commentId, session.address);
 
     if (!result) {
       return NextResponse.json(
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession, unauthorized } from "@/lib/auth-session";
+import {
+  MAX_REPORT_DETAILS_LENGTH,
+  REPORT_REASON_LABELS,
+  type ReportReason,
+} from "@/lib/comment-moderation";
+import { getCommentById } from "@/lib/supabase-comments";
+import { createReport } from "@/lib/supabase-moderation";
+
+// Any signed-in user can flag a comment once for the moderation queue
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session) return unauthorized();
+
+    const body = await request.json();
+    const { commentId, reason, details } = body as {
+      commentId?: string;
+      reason?: ReportReason;
+      details?: string;
+    };
+
+    if (!commentId) {
+      return NextResponse.json(
+        { error: "Comment ID is required" },
+        { status: 400 }
+      );
+    }
+    if (!reason || !Object.hasOwn(REPORT_REASON_LABELS, reason)) {
+      return NextResponse.json(
+        { error: "A valid report reason is required" },
+        { status: 400 }
+      );
+    }
+    if (details && details.length > MAX_REPORT_DETAILS_LENGTH) {
+      return NextResponse.json(
+        {
+          error: `Details must be at most ${MAX_REPORT_DETAILS_LENGTH} characters`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const comment = await getCommentById(commentId);
+    if (!comment || comment.status === "deleted") {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+    }
+
+    const report = await createReport({
+      commentId,
+      reporter: session.address,
+      reason,
+      details: details?.trim() || undefined,
+    });
+    if (!report) {
+      return NextResponse.json(
+        { error: "You have already reported this comment" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(report, { status: 201 });
+  } catch (error) {
+    console.error("Error reporting comment:", error);
+    return NextResponse.json(
+      { error: "Failed to report comment" },
+      { status: 500 }
+    );
+  }
+}
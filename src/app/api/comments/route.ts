@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
+import { getSession, unauthorized } from "@/lib/auth-session";
+import { redactThread } from "@/lib/comment-moderation";
 import { getComments, createComment } from "@/lib/supabase-comments";
+import { getActiveSanctions } from "@/lib/supabase-moderation";
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
@@ -15,11 +18,15 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    const comments = await getComments(
-      marketId,
-      version,
-      userAddress || undefined
+    const [thread, sanctions] = await Promise.all([
+      getComments(marketId, version, userAddress || undefined),
+      getActiveSanctions(),
+    ]);
+    // Hidden/deleted comments and banned authors never reach readers
+    const banned = new Set(
+      sanctions.filter((s) => s.type === "ban").map((s) => s.address)
     );
+    const comments = redactThread(thread, banned);
     return NextResponse.json({
       comments,
       total: comments.length,
@@ -35,22 +42,53 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    // The author is whoever holds the session, never a body field
+    const session = await getSession(request);
+    if (!session) return unauthorized();
+    const userAddress = session.address;
+
     const body = await request.json();
-    const { marketId, content, userAddress, version = "v1" } = body;
+    const { marketId, content, parentId, author, version = "v1" } = body;
 
-    if (!marketId || !content || !userAddress) {
+    if (!marketId || !content) {
       return NextResponse.json(
-        { error: "Market ID, content, and user address are required" },
+        { error: "Market ID and content are required" },
         { status: 400 }
       );
     }
 
+    const sanctions = await getActiveSanctions(userAddress);
+    const sanction = sanctions.find((s) => s.type === "ban") ?? sanctions[0];
+    if (sanction) {
+      return NextResponse.json(
+        {
+          error:
+            sanction.type === "ban"
+              ? "This address is banned from commenting"
+              : `This address is muted until ${new Date(
+                  sanction.expiresAt!
+                ).toUTCString()}`,
+        },
+        { status: 403 }
+      );
+    }
+
     const comment = await createComment({
       marketId,
       content,
       userAddress,
       version,
+      parentId: parentId || undefined,
+      fid: session.fid ? String(session.fid) : undefined,
+      username: author?.username,
+      pfpUrl: author?.pfpUrl,
     });
+    if (!comment) {
+      return NextResponse.json(
+        { error: "Failed to create comment" },
+        { status: 500 }
+      );
+    }
 
     return NextResponse.json(comment, { status: 201 });
   } catch (error) {
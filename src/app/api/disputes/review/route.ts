@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkResolverAccess } from "@/lib/contract-roles";
+import { verifySubmission } from "@/lib/evidence-submissions";
+import {
+  DISPUTE_STATUSES,
+  reviewFields,
+  type DisputeStatus,
+} from "@/lib/resolution-evidence";
+import { updateDisputeStatus } from "@/lib/supabase-evidence";
+
+// Resolvers/admins move a dispute through the triage queue
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { disputeId, status, note, address, signature, issuedAt } = body as {
+      disputeId?: string;
+      status?: DisputeStatus;
+      note?: string;
+      address?: string;
+      signature?: `0x${string}`;
+      issuedAt?: number;
+    };
+
+    if (!disputeId || !status || !DISPUTE_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: "Dispute ID and a valid status are required" },
+        { status: 400 }
+      );
+    }
+
+    const signatureError = await verifySubmission(
+      "review",
+      reviewFields({ disputeId, status, note }),
+      { address, signature, issuedAt }
+    );
+    if (signatureError) {
+      return NextResponse.json({ error: signatureError }, { status: 401 });
+    }
+    if (!(await checkResolverAccess(address!))) {
+      return NextResponse.json(
+        { error: "Only resolvers and admins can review disputes" },
+        { status: 403 }
+      );
+    }
+
+    const dispute = await updateDisputeStatus(disputeId, {
+      status,
+      reviewedBy: address!,
+      reviewNote: note?.trim() || undefined,
+    });
+    if (!dispute) {
+      return NextResponse.json({ error: "Dispute not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(dispute);
+  } catch (error) {
+    console.error("Error reviewing dispute:", error);
+    return NextResponse.json(
+      { error: "Failed to review dispute" },
+      { status: 500 }
+    );
+  }
+}
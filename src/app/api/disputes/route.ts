@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  publicClient,
+  PolicastViews,
+  PolicastViewsAbi,
+  V2contractAddress,
+  V2contractAbi,
+} from "@/constants/contract";
+import {
+  isMarketId,
+  loadEvidenceSources,
+  validateRationale,
+  verifySubmission,
+} from "@/lib/evidence-submissions";
+import {
+  DISPUTE_STATUSES,
+  disputeFields,
+  type DisputeQueueItem,
+  type DisputeStatus,
+} from "@/lib/resolution-evidence";
+import { createDispute, getDisputes } from "@/lib/supabase-evidence";
+
+// Admin dispute queue. Defaults to disputes still awaiting a decision.
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const statusParam = searchParams.get("status");
+  const marketId = searchParams.get("marketId") || undefined;
+
+  const statuses = (statusParam ? statusParam.split(",") : ["open", "under_review"])
+    .filter((s): s is DisputeStatus =>
+      DISPUTE_STATUSES.includes(s as DisputeStatus)
+    );
+
+  try {
+    const disputes = await getDisputes({ marketId, statuses });
+
+    // One on-chain status read per market
+    const onChain = new Map<string, boolean | null>();
+    for (const marketId of Array.from(new Set(disputes.map((d) => d.marketId)))) {
+      try {
+        const disputed = await publicClient.readContract({
+          address: V2contractAddress,
+          abi: V2contractAbi,
+          functionName: "getMarketDisputeStatus",
+          args: [BigInt(marketId)],
+        });
+        onChain.set(marketId, Boolean(disputed));
+      } catch (error) {
+        console.error(`Failed to read dispute status for ${marketId}:`, error);
+        onChain.set(marketId, null);
+      }
+    }
+
+    const queue: DisputeQueueItem[] = disputes.map((d) => ({
+      ...d,
+      onChainDisputed: onChain.get(d.marketId) ?? null,
+    }));
+    return NextResponse.json({ disputes: queue, total: queue.length });
+  } catch (error) {
+    console.error("Error fetching disputes:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch disputes" },
+      { status: 500 }
+    );
+  }
+}
+
+// Any user can challenge a resolved market with counter-evidence
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { marketId, reason, sourceUrls = [], address, signature, issuedAt } =
+      body;
+
+    if (!isMarketId(marketId)) {
+      return NextResponse.json(
+        { error: "A valid market ID is required" },
+        { status: 400 }
+      );
+    }
+    const reasonError = validateRationale(reason);
+    if (reasonError) {
+      return NextResponse.json({ error: reasonError }, { status: 400 });
+    }
+    if (!Array.isArray(sourceUrls)) {
+      return NextResponse.json(
+        { error: "sourceUrls must be an array" },
+        { status: 400 }
+      );
+    }
+
+    const signatureError = await verifySubmission(
+      "dispute",
+      disputeFields({ marketId, reason, sourceUrls }),
+      { address, signature, issuedAt }
+    );
+    if (signatureError) {
+      return NextResponse.json({ error: signatureError }, { status: 401 });
+    }
+
+    // getMarketInfo: (question, description, endTime, category, marketType,
+    // resolved, invalidated, creator, lmsrB)
+    const marketInfo = await publicClient.readContract({
+      address: PolicastViews,
+      abi: PolicastViewsAbi,
+      functionName: "getMarketInfo",
+      args: [BigInt(marketId)],
+    });
+    if (!marketInfo[5] || marketInfo[6]) {
+      return NextResponse.json(
+        { error: "Only resolved markets can be disputed" },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getDisputes({
+      marketId: String(marketId),
+      statuses: ["open", "under_review"],
+    });
+    if (existing.some((d) => d.disputer === address.toLowerCase())) {
+      return NextResponse.json(
+        { error: "You already have an open dispute for this market" },
+        { status: 409 }
+      );
+    }
+
+    // Source pages are only fetched for signed, admissible disputes
+    const { sources, error: sourcesError } = await loadEvidenceSources(
+      sourceUrls
+    );
+    if (sourcesError) {
+      return NextResponse.json({ error: sourcesError }, { status: 400 });
+    }
+
+    const dispute = await createDispute({
+      marketId: String(marketId),
+      disputer: address,
+      reason: reason.trim(),
+      sources,
+    });
+    if (!dispute) {
+      return NextResponse.json(
+        { error: "Failed to open dispute" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(dispute, { status: 201 });
+  } catch (error) {
+    console.error("Error opening dispute:", error);
+    return NextResponse.json(
+      { error: "Failed to open dispute" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isHash } from "viem";
+import {
+  publicClient,
+  PolicastViews,
+  PolicastViewsAbi,
+} from "@/constants/contract";
+import { checkResolverAccess } from "@/lib/contract-roles";
+import {
+  isMarketId,
+  loadEvidenceSources,
+  validateRationale,
+  verifySubmission,
+} from "@/lib/evidence-submissions";
+import { resolutionFields } from "@/lib/resolution-evidence";
+import {
+  createResolutionEvidence,
+  getDisputes,
+  getResolutionEvidence,
+} from "@/lib/supabase-evidence";
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const marketId = searchParams.get("marketId");
+
+  if (!marketId) {
+    return NextResponse.json(
+      { error: "Market ID is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const [evidence, disputes] = await Promise.all([
+      getResolutionEvidence(marketId),
+      getDisputes({ marketId }),
+    ]);
+    return NextResponse.json({ evidence, disputes });
+  } catch (error) {
+    console.error("Error fetching resolution evidence:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch resolution evidence" },
+      { status: 500 }
+    );
+  }
+}
+
+// Resolver attaches rationale and sources to a resolution
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const {
+      marketId,
+      winningOptionId,
+      rationale,
+      sourceUrls = [],
+      txHash,
+      address,
+      signature,
+      issuedAt,
+    } = body;
+
+    if (!isMarketId(marketId) || !Number.isInteger(winningOptionId)) {
+      return NextResponse.json(
+        { error: "Market ID and winning option are required" },
+        { status: 400 }
+      );
+    }
+    if (
+      txHash !== undefined &&
+      (typeof txHash !== "string" || !isHash(txHash))
+    ) {
+      return NextResponse.json(
+        { error: "Invalid transaction hash" },
+        { status: 400 }
+      );
+    }
+    const rationaleError = validateRationale(rationale);
+    if (rationaleError) {
+      return NextResponse.json({ error: rationaleError }, { status: 400 });
+    }
+    if (!Array.isArray(sourceUrls)) {
+      return NextResponse.json(
+        { error: "sourceUrls must be an array" },
+        { status: 400 }
+      );
+    }
+
+    const signatureError = await verifySubmission(
+      "resolution",
+      resolutionFields({ marketId, winningOptionId, rationale, sourceUrls }),
+      { address, signature, issuedAt }
+    );
+    if (signatureError) {
+      return NextResponse.json({ error: signatureError }, { status: 401 });
+    }
+    if (!(await checkResolverAccess(address))) {
+      return NextResponse.json(
+        { error: "Only resolvers can attach resolution evidence" },
+        { status: 403 }
+      );
+    }
+
+    // Evidence must describe the resolution that actually happened on chain.
+    // getMarketInfo: (question, description, endTime, category, marketType,
+    // resolved, invalidated, creator, lmsrB)
+    const marketInfo = await publicClient.readContract({
+      address: PolicastViews,
+      abi: PolicastViewsAbi,
+      functionName: "getMarketInfo",
+      args: [BigInt(marketId)],
+    });
+    if (!marketInfo[5] || marketInfo[6]) {
+      return NextResponse.json(
+        { error: "Market is not resolved on chain" },
+        { status: 400 }
+      );
+    }
+    const outcome = await publicClient.readContract({
+      address: PolicastViews,
+      abi: PolicastViewsAbi,
+      functionName: "getMarketResolvedOutcome",
+      args: [BigInt(marketId)],
+    });
+    if (outcome !== BigInt(winningOptionId)) {
+      return NextResponse.json(
+        { error: "Winning option does not match the on-chain outcome" },
+        { status: 400 }
+      );
+    }
+
+    // Source pages are only fetched once the resolver is verified
+    const { sources, error: sourcesError } = await loadEvidenceSources(
+      sourceUrls
+    );
+    if (sourcesError) {
+      return NextResponse.json({ error: sourcesError }, { status: 400 });
+    }
+
+    const evidence = await createResolutionEvidence({
+      marketId: String(marketId),
+      winningOptionId,
+      rationale: rationale.trim(),
+      sources,
+      submittedBy: address,
+      txHash,
+    });
+    if (!evidence) {
+      return NextResponse.json(
+        { error: "Failed to save resolution evidence" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(evidence, { status: 201 });
+  } catch (error) {
+    console.error("Error creating resolution evidence:", error);
+    return NextResponse.json(
+      { error: "Failed to save resolution evidence" },
+      { status: 500 }
+    );
+  }
+}
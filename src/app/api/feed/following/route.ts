@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { marketIndexer } from "@/lib/market-indexer";
+import { socialFeedService } from "@/lib/social-feed-service";
+import { FEED_PAGE_SIZE } from "@/lib/social-feed";
+
+// GET /api/feed/following?fid=123&cursor=<nextCursor>&limit=20
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const fid = Number(searchParams.get("fid"));
+  const cursor = searchParams.get("cursor") || undefined;
+  const limit = Math.min(
+    Math.max(Number(searchParams.get("limit")) || FEED_PAGE_SIZE, 1),
+    50
+  );
+
+  if (!Number.isInteger(fid) || fid <= 0) {
+    return NextResponse.json(
+      { error: "Valid fid is required" },
+      { status: 400 }
+    );
+  }
+  if (cursor && !/^\d+:\d+$/.test(cursor)) {
+    return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+  }
+
+  try {
+    if (!(await marketIndexer.ensureFresh())) {
+      return NextResponse.json(
+        { error: "Market indexer is not ready" },
+        { status: 503 }
+      );
+    }
+    return NextResponse.json(
+      await socialFeedService.getFeed(fid, { cursor, limit })
+    );
+  } catch (error) {
+    console.error("Error fetching following feed:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      { error: `Failed to fetch following feed: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession, unauthorized } from "@/lib/auth-session";
+import { socialFeedService } from "@/lib/social-feed-service";
+
+// Whether the signed-in wallet's trades are hidden from following feeds.
+// Farcaster sign-ins opt out by FID as well (see FeedIdentity).
+export async function GET(request: NextRequest) {
+  const session = await getSession(request);
+  if (!session) return unauthorized();
+
+  try {
+    const optedOut = await socialFeedService.isOptedOut(session);
+    return NextResponse.json({ address: session.address, optedOut });
+  } catch (error) {
+    console.error("Error fetching feed privacy:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch feed privacy setting" },
+      { status: 500 }
+    );
+  }
+}
+
+// Opt in or out as whoever holds the session, never a body field
+export async function POST(request: NextRequest) {
+  const session = await getSession(request);
+  if (!session) return unauthorized();
+
+  try {
+    const body = await request.json();
+    if (typeof body.optedOut !== "boolean") {
+      return NextResponse.json(
+        { error: "optedOut must be a boolean" },
+        { status: 400 }
+      );
+    }
+    const optedOut = await socialFeedService.setOptOut(
+      session,
+      body.optedOut
+    );
+    return NextResponse.json({ address: session.address, optedOut });
+  } catch (error) {
+    console.error("Error saving feed privacy:", error);
+    return NextResponse.json(
+      { error: "Failed to save feed privacy setting" },
+      { status: 500 }
+    );
+  }
+}
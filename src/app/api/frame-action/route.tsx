@@ -1,59 +1,61 @@
 import { NextRequest, NextResponse } from "next/server";
+import {
+  FRAME_DEFAULT_SHARES,
+  FRAME_MAX_BUTTONS,
+  FRAME_OPTIONS_PER_PAGE,
+  decodeFrameState,
+  encodeFrameState,
+  fetchFrameMarket,
+  frameTransactionKind,
+  parseFrameShares,
+  previewFrameBuy,
+  type FrameMarket,
+  type FrameState,
+} from "@/lib/frame-trade";
 
-// V1 and V2 market info types for potential future use//
-type MarketInfoV1ContractReturn = readonly [
-  string,
-  string,
-  string,
-  bigint,
-  number,
-  bigint,
-  bigint,
-  boolean
-];
-
-type MarketInfoV2ContractReturn = readonly [
-  string, // question
-  string[], // options
-  bigint, // endTime
-  number, // category
-  bigint, // optionCount
-  boolean, // resolved
-  bigint, // resolutionTime
-  bigint, // winningOptionId
-  bigint // totalVolume
-];
+type FrameButton = {
+  label: string;
+  action: "post" | "link" | "tx";
+  target?: string;
+  post_url?: string;
+};
+
+// Details view buttons: one Buy per option on the page, then either
+// "More" (long option lists) or a link back to the app
+function detailsLayout(
+  market: FrameMarket | null,
+  page: number
+): ({ kind: "buy"; optionId: number } | { kind: "more" | "home" })[] {
+  if (!market || !market.tradable) return [{ kind: "home" }];
+  const paged = market.options.length > FRAME_MAX_BUTTONS;
+  const perPage = paged ? FRAME_OPTIONS_PER_PAGE : FRAME_MAX_BUTTONS;
+  const start = paged ? (page * perPage) % market.options.length : 0;
+  const buys = market.options
+    .slice(start, start + perPage)
+    .map((_, i) => ({ kind: "buy" as const, optionId: start + i }));
+  if (paged) return [...buys, { kind: "more" }];
+  return buys.length < FRAME_MAX_BUTTONS ? [...buys, { kind: "home" }] : buys;
+}
 
 export async function POST(req: NextRequest) {
   const baseUrl =
     process.env.NEXT_PUBLIC_APP_URL || "https://buster-mkt.vercel.app";
   let marketId: string | undefined;
   let rawState: string | undefined;
-  let currentView: "overview" | "details" = "overview";
 
   try {
     const body = await req.json();
     rawState = body.untrustedData?.state;
+    const buttonIndex = Number(body.untrustedData?.buttonIndex ?? 1);
+    const inputText: string | undefined = body.untrustedData?.inputText;
+    const transactionId: `0x${string}` | undefined =
+      body.untrustedData?.transactionId;
 
     console.log("Frame Action: Raw state received:", rawState);
 
-    const decodedState = rawState
-      ? (() => {
-          try {
-            if (rawState.match(/^[A-Za-z0-9+/=]+$/)) {
-              const base64Decoded = atob(rawState);
-              return JSON.parse(base64Decoded);
-            }
-            return JSON.parse(decodeURIComponent(rawState));
-          } catch (e) {
-            console.error("Frame Action: Failed to parse state:", e);
-            return {};
-          }
-        })()
-      : {};
-
+    const decodedState = decodeFrameState(rawState);
     marketId = decodedState.marketId;
-    currentView = decodedState.view === "details" ? "details" : "overview";
+    const currentView = decodedState.view ?? "overview";
 
     console.log("Frame Action: Extracted marketId:", marketId);
 
@@ -62,31 +64,97 @@ export async function POST(req: NextRequest) {
       throw new Error("Invalid marketId in frame state");
     }
 
-    const imageUrl = `${baseUrl}/api/market-image?marketId=${marketId}&t=${Date.now()}`;
+    const marketImage = `${baseUrl}/api/market-image?marketId=${marketId}&t=${Date.now()}`;
     const postUrl = `${baseUrl}/api/frame-action`;
-
-    let responseButtons: {
-      label: string;
-      action: "post" | "link";
-      target?: string;
-    }[];
-    let responseState: {
-      marketId: string;
-      view: "overview" | "details";
+    const txUrl = `${baseUrl}/api/frame-action/tx`;
+    const marketUrl = `${baseUrl}/market/${marketId}/details`;
+    const homeButton: FrameButton = {
+      label: "Back to Markets",
+      action: "link",
+      target: `${baseUrl}/`,
     };
 
-    if (currentView === "overview") {
-      console.log(
-        `Frame Action: Transitioning to details view for market ${marketId}`
+    let imageUrl = marketImage;
+    let responseButtons: FrameButton[];
+    let responseState: FrameState;
+    let input: { text: string } | undefined;
+    let message: string | undefined;
+
+    const showDetails = async (page: number) => {
+      const market = await fetchFrameMarket(Number(marketId));
+      responseButtons = detailsLayout(market, page).map((button) =>
+        button.kind === "buy"
+          ? {
+              label: `Buy ${market!.options[button.optionId]}`.slice(0, 32),
+              action: "post",
+            }
+          : button.kind === "more"
+          ? { label: "More options ›", action: "post" }
+          : homeButton
       );
+      responseState = { marketId: marketId!, view: "details", page };
+      if (market?.tradable) {
+        input = { text: `Shares to buy (default ${FRAME_DEFAULT_SHARES})` };
+      }
+    };
+
+    const showConfirm = (state: FrameState) => {
+      imageUrl = `${marketImage}&option=${state.optionId}&quantity=${state.quantity}`;
       responseButtons = [
-        { label: "Back to Markets", action: "link", target: `${baseUrl}/` },
+        { label: "Buy", action: "tx", target: txUrl, post_url: postUrl },
+        { label: "Back", action: "post" },
       ];
-      responseState = { marketId, view: "details" };
+      responseState = state;
+    };
+
+    if (transactionId) {
+      // Back from the wallet: after the approval, offer the buy itself
+      const kind = await frameTransactionKind(transactionId);
+      if (kind === "buy") {
+        responseButtons = [
+          { label: "View Market", action: "link", target: marketUrl },
+          { label: "Trade Again", action: "post" },
+        ];
+        responseState = { marketId, view: "done" };
+        message = "Shares bought";
+      } else {
+        showConfirm({ ...decodedState, marketId, view: "confirm" });
+        message = "Approved — tap Buy to place the trade";
+      }
+    } else if (currentView === "details") {
+      const page = decodedState.page ?? 0;
+      const market = await fetchFrameMarket(Number(marketId));
+      const pressed = detailsLayout(market, page)[buttonIndex - 1];
+
+      if (pressed?.kind === "buy") {
+        try {
+          const quantity = parseFrameShares(inputText);
+          // Fails early when the market closed or the option is invalid
+          await previewFrameBuy(Number(marketId), pressed.optionId, quantity);
+          showConfirm({
+            marketId,
+            view: "confirm",
+            page,
+            optionId: pressed.optionId,
+            quantity: quantity.toString(),
+          });
+        } catch (tradeError) {
+          await showDetails(page);
+          message =
+            tradeError instanceof Error ? tradeError.message : "Invalid trade";
+        }
+      } else {
+        await showDetails(pressed?.kind === "more" ? page + 1 : page);
+      }
+    } else if (currentView === "confirm") {
+      // Only the Back button posts here; Buy is a transaction
+      await showDetails(decodedState.page ?? 0);
     } else {
-      console.log(`Frame Action: Showing overview for market ${marketId}`);
-      responseButtons = [{ label: "View", action: "post" }];
-      responseState = { marketId, view: "overview" };
+      // overview and done both lead to the trading view
+      console.log(
+        `Frame Action: Transitioning to details view for market ${marketId}`
+      );
+      await showDetails(0);
     }
 
     return NextResponse.json({
@@ -94,9 +162,11 @@ export async function POST(req: NextRequest) {
         version: "vNext",
         image: imageUrl,
         post_url: postUrl,
-        buttons: responseButtons,
-        state: Buffer.from(JSON.stringify(responseState)).toString("base64"),
+        buttons: responseButtons!,
+        ...(input && { input }),
+        state: encodeFrameState(responseState!),
       },
+      ...(message && { message }),
     });
   } catch (error: unknown) {
     console.error(
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  publicClient,
+  tokenAddress,
+  tokenAbi,
+  V2contractAddress,
+} from "@/constants/contract";
+import {
+  approveTransaction,
+  buySharesTransaction,
+  decodeFrameState,
+  parseFrameQuantity,
+  previewFrameBuy,
+} from "@/lib/frame-trade";
+
+// Frame transaction target for the confirm view's Buy button. Returns the
+// approve call while the viewer's allowance is short, then buyShares.
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const state = decodeFrameState(body.untrustedData?.state);
+    const address = body.untrustedData?.address as `0x${string}` | undefined;
+
+    const marketId = Number(state.marketId);
+    const optionId = Number(state.optionId);
+    if (
+      state.view !== "confirm" ||
+      !Number.isInteger(marketId) ||
+      !Number.isInteger(optionId)
+    ) {
+      return NextResponse.json(
+        { error: "Pick an option and amount first" },
+        { status: 400 }
+      );
+    }
+    if (!address) {
+      return NextResponse.json(
+        { error: "Connect a wallet to trade" },
+        { status: 400 }
+      );
+    }
+
+    let quantity: bigint;
+    try {
+      quantity = parseFrameQuantity(state.quantity);
+    } catch (quantityError) {
+      return NextResponse.json(
+        {
+          error:
+            quantityError instanceof Error
+              ? quantityError.message
+              : "Invalid amount",
+        },
+        { status: 400 }
+      );
+    }
+
+    const preview = await previewFrameBuy(marketId, optionId, quantity);
+    const allowance = (await publicClient.readContract({
+      address: tokenAddress,
+      abi: tokenAbi,
+      functionName: "allowance",
+      args: [address, V2contractAddress],
+    })) as bigint;
+
+    return NextResponse.json(
+      allowance < preview.maxTotalCost
+        ? approveTransaction(preview.maxTotalCost)
+        : buySharesTransaction(marketId, optionId, quantity, preview)
+    );
+  } catch (error) {
+    console.error("Frame tx error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      { error: `Failed to build transaction: ${message}` },
+      { status: 500 }
+    );
+  }
+}
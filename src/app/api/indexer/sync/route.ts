@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { marketIndexer } from "@/lib/market-indexer";
+
+// Triggered by a cron job (or manually against a local node) to advance the
+// market indexer. Each call processes a bounded block range and resumes from
+// the last processed block on the next call.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await marketIndexer.sync();
+    const state = await marketIndexer.getState();
+    return NextResponse.json({ ...result, state });
+  } catch (error) {
+    console.error("Indexer sync error:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      { error: `Indexer sync failed: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { calibrationService } from "@/lib/calibration-service";
+
+// Rebuilds the calibration report over all resolved markets. Run on a cron
+// after the indexer sync so newly resolved markets are included.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const report = await calibrationService.run();
+    return NextResponse.json({
+      generatedAt: report.generatedAt,
+      resolvedMarkets: report.resolvedMarkets,
+    });
+  } catch (error) {
+    console.error("Calibration job error:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      { error: `Calibration job failed: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
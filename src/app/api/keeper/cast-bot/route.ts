@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { marketIndexer } from "@/lib/market-indexer";
+import { castBotService } from "@/lib/cast-bot-service";
+
+// Cron pass that casts new, closing and resolved markets from the bot
+// account. Catches the indexer up first so fresh validations are seen.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    if (!(await marketIndexer.ensureFresh())) {
+      return NextResponse.json(
+        { error: "Market indexer is not ready" },
+        { status: 503 }
+      );
+    }
+    const summary = await castBotService.run();
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error("Cast bot error:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      { error: `Cast bot run failed: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  publicClient,
+  PolicastViews,
+  PolicastViewsAbi,
+} from "@/constants/contract";
+import { limitOrderService } from "@/lib/limit-order-service";
+import {
+  isOrderExpired,
+  isOrderTriggered,
+  type LimitOrder,
+} from "@/lib/limit-orders";
+
+// Keeper pass over active limit orders: expires stale open and triggered
+// orders and marks open orders whose trigger condition is met against
+// getMarketOdds. Run on a cron.
+//
+// Notify-only: the V2 contract trades for msg.sender, so the keeper cannot
+// execute an order. "triggered" tells the owner's client (LimitOrdersPanel)
+// to submit the trade, which is then recorded via /api/limit-orders/fill.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const activeOrders = await limitOrderService.listActive();
+    const now = Math.floor(Date.now() / 1000);
+
+    // One odds read per market regardless of how many orders it has
+    const byMarket = new Map<string, LimitOrder[]>();
+    let expired = 0;
+    for (const order of activeOrders) {
+      if (isOrderExpired(order, now)) {
+        await limitOrderService.markExpired(order);
+        expired++;
+        continue;
+      }
+      // Triggered orders wait for their owner to execute them
+      if (order.status !== "open") continue;
+      byMarket.set(order.marketId, [
+        ...(byMarket.get(order.marketId) ?? []),
+        order,
+      ]);
+    }
+
+    let triggered = 0;
+    for (const [marketId, orders] of Array.from(byMarket.entries())) {
+      try {
+        const odds = (await publicClient.readContract({
+          address: PolicastViews,
+          abi: PolicastViewsAbi,
+          functionName: "getMarketOdds",
+          args: [BigInt(marketId)],
+        })) as readonly bigint[];
+
+        for (const order of orders) {
+          const probability = odds[Number(order.optionId)];
+          if (probability === undefined) continue;
+          if (isOrderTriggered(order, probability)) {
+            await limitOrderService.markTriggered(order, probability);
+            triggered++;
+          }
+        }
+      } catch (error) {
+        console.error(`Keeper failed to read odds for market ${marketId}:`, error);
+      }
+    }
+
+    return NextResponse.json({
+      checked: activeOrders.length,
+      markets: byMarket.size,
+      triggered,
+      expired,
+    });
+  } catch (error) {
+    console.error("Limit order keeper error:", error);
+    return NextResponse.json(
+      { error: "Limit order keeper failed" },
+      { status: 500 }
+    );
+  }
+}
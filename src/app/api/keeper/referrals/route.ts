@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { marketIndexer } from "@/lib/market-indexer";
+import { referralService } from "@/lib/referral-service";
+
+// Credits referrers for fees indexed since the last run. Run on a cron after
+// the indexer sync.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    if (!(await marketIndexer.ensureFresh())) {
+      return NextResponse.json(
+        { error: "Market indexer is not ready" },
+        { status: 503 }
+      );
+    }
+    return NextResponse.json(await referralService.accrue());
+  } catch (error) {
+    console.error("Referral accrual error:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      { error: `Referral accrual failed: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
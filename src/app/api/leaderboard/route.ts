@@ -15,9 +15,10 @@ import {
   V2contractAbi,
 } from "@/constants/contract";
 import { Address } from "viem";
+import { forecasterAccuracyService } from "@/lib/forecaster-accuracy-service";
 
 const cache = new NodeCache({ stdTTL: 3600, checkperiod: 120 }); // 1-hour TTL
-const CACHE_KEY_PREFIX = "leaderboard_v12_"; // Updated version - Pure winnings leaderboard
+const CACHE_KEY_PREFIX = "leaderboard_v13_"; // Updated version - Winnings ("volume") and Brier accuracy boards
 const NEYNAR_CACHE_KEY = "neynar_users_v12";
 const PAGE_SIZE = 100; // Users per V1 contract call
 const V2_BATCH_SIZE = 50; // Addresses per V2 multicall batch
@@ -43,9 +44,21 @@ interface LeaderboardEntry {
   voteCount: number;
   trend: "up" | "down" | "none";
   address: string;
+  brier?: number; // accuracy board only: time-weighted Brier score
+}
+
+// A ranked address before Farcaster profiles are attached
+interface RankedUser {
+  address: string;
+  winnings: number;
+  voteCount: number;
+  brier?: number;
+  rank: number;
+  trend: "up" | "down" | "none";
 }
 
 type TimeFrame = "all" | "monthly" | "weekly";
+// "volume" ranks by winnings, "accuracy" by forecast Brier score
 type LeaderboardType = "accuracy" | "volume";
 
 async function withRetry<T>(
@@ -115,10 +128,266 @@ function calculateTrend(
   return "none";
 }
 
+// Top V1 + V2 winners by total winnings (contract portfolios)
+async function rankByWinnings(): Promise<RankedUser[]> {
+  const [tokenDecimals] = await withRetry(() =>
+    publicClient.multicall({
+      contracts: [
+        {
+          address: defaultTokenAddress,
+          abi: defaultTokenAbi,
+          functionName: "decimals",
+        },
+      ],
+    })
+  ).then((results) => [Number(results[0].result)]);
+  console.log(`💸 Token Decimals: ${tokenDecimals}`);
+
+  console.log("📊 Fetching leaderboard from V1 and V2 contracts...");
+
+  // ==================== V1 LEADERBOARD ====================
+  const totalParticipantsV1 = (await withRetry(() =>
+    publicClient.readContract({
+      address: contractAddress,
+      abi: contractAbi,
+      functionName: "getAllParticipantsCount",
+    })
+  )) as bigint;
+
+  console.log(`📊 V1 Total Participants: ${totalParticipantsV1}`);
+
+  const entriesV1: {
+    user: Address;
+    totalWinnings: bigint;
+    voteCount: number;
+    totalInvested?: bigint;
+  }[] = [];
+
+  for (
+    let start = 0;
+    start < Number(totalParticipantsV1);
+    start += PAGE_SIZE
+  ) {
+    const batch = (await withRetry(() =>
+      publicClient.readContract({
+        address: contractAddress,
+        abi: contractAbi,
+        functionName: "getLeaderboard",
+        args: [BigInt(start), BigInt(PAGE_SIZE)],
+      })
+    )) as unknown as {
+      user: Address;
+      totalWinnings: bigint;
+      voteCount: number;
+    }[];
+    entriesV1.push(...batch);
+  }
+
+  // Fetch V2 leaderboard using allParticipants array and userPortfolios mapping
+  console.log("📊 Fetching V2 participants and portfolios...");
+  const entriesV2: {
+    user: Address;
+    totalWinnings: bigint;
+    voteCount: number;
+    totalInvested: bigint;
+  }[] = [];
+
+  try {
+    const MAX_PARTICIPANTS = 500; // Safety limit
+    const addresses: Address[] = [];
+
+    // Step 1: Fetch participant addresses using multicall batches
+    let currentIndex = 0;
+    let hasMoreParticipants = true;
+
+    while (hasMoreParticipants && currentIndex < MAX_PARTICIPANTS) {
+      const batchContracts = Array.from(
+        { length: Math.min(V2_BATCH_SIZE, MAX_PARTICIPANTS - currentIndex) },
+        (_, i) => ({
+          address: V2contractAddress as Address,
+          abi: V2contractAbi,
+          functionName: "allParticipants" as const,
+          args: [BigInt(currentIndex + i)],
+        })
+      );
+
+      const batchResults = await withRetry(() =>
+        publicClient.multicall({
+          contracts: batchContracts,
+          allowFailure: true,
+        })
+      );
+
+      const validAddresses = batchResults
+        .filter((r) => r.status === "success" && r.result)
+        .map((r) => r.result as Address);
+
+      if (validAddresses.length === 0) {
+        hasMoreParticipants = false;
+        break;
+      }
+
+      addresses.push(...validAddresses);
+      currentIndex += V2_BATCH_SIZE;
+
+      // If we got fewer results than batch size, we've reached the end
+      if (validAddresses.length < V2_BATCH_SIZE) {
+        hasMoreParticipants = false;
+      }
+    }
+
+    console.log(`✅ Found ${addresses.length} V2 participant addresses`);
+
+    // Step 2: Fetch portfolios using multicall batches
+    for (let i = 0; i < addresses.length; i += V2_BATCH_SIZE) {
+      const batchAddresses = addresses.slice(i, i + V2_BATCH_SIZE);
+
+      const portfolioContracts = batchAddresses.map((addr) => ({
+        address: V2contractAddress as Address,
+        abi: V2contractAbi,
+        functionName: "userPortfolios" as const,
+        args: [addr],
+      }));
+
+      const portfolioResults = await withRetry(() =>
+        publicClient.multicall({
+          contracts: portfolioContracts,
+          allowFailure: true,
+        })
+      );
+
+      portfolioResults.forEach((result, idx) => {
+        if (result.status === "success" && result.result) {
+          const portfolio = result.result as [
+            bigint,
+            bigint,
+            bigint,
+            bigint,
+            bigint
+          ];
+          const totalInvested = portfolio[0]; // index 0 = totalInvested
+          const totalWinnings = portfolio[1]; // index 1 = totalWinnings
+          const tradeCount = Number(portfolio[4]); // index 4 = tradeCount
+
+          if (totalWinnings > 0n) {
+            entriesV2.push({
+              user: batchAddresses[idx],
+              totalWinnings,
+              voteCount: tradeCount,
+              totalInvested,
+            });
+          }
+        }
+      });
+    }
+
+    console.log(`✅ Fetched ${entriesV2.length} V2 leaderboard entries`);
+  } catch (v2Error) {
+    console.error("❌ V2 fetch error (continuing with V1 only):", v2Error);
+    // Continue with V1 data only
+  }
+
+  // ==================== COMBINE V1 + V2 ====================
+  const combinedEntries = new Map<
+    string,
+    {
+      user: Address;
+      totalWinnings: bigint;
+      voteCount: number;
+      totalInvested: bigint;
+    }
+  >();
+
+  // Add V1 entries
+  entriesV1.forEach((entry) => {
+    combinedEntries.set(entry.user.toLowerCase(), {
+      user: entry.user,
+      totalWinnings: entry.totalWinnings,
+      voteCount: entry.voteCount,
+      totalInvested: 0n, // V1 doesn't track totalInvested
+    });
+  });
+
+  // Merge V2 entries (add to existing V1 data or create new)
+  entriesV2.forEach((entry) => {
+    const addr = entry.user.toLowerCase();
+    const existing = combinedEntries.get(addr);
+    if (existing) {
+      // User exists in both V1 and V2 - ADD the values
+      combinedEntries.set(addr, {
+        user: entry.user,
+        totalWinnings:
+          BigInt(existing.totalWinnings) + BigInt(entry.totalWinnings),
+        voteCount: Number(existing.voteCount) + Number(entry.voteCount),
+        totalInvested:
+          BigInt(existing.totalInvested) + BigInt(entry.totalInvested),
+      });
+    } else {
+      // User only exists in V2
+      combinedEntries.set(addr, {
+        user: entry.user,
+        totalWinnings: entry.totalWinnings,
+        voteCount: entry.voteCount,
+        totalInvested: entry.totalInvested,
+      });
+    }
+  });
+
+  // First: Calculate all metrics (just winnings, no accuracy)
+  const winnersWithMetrics = Array.from(combinedEntries.values())
+    .filter((entry) => entry.totalWinnings > 0n)
+    .map((entry) => {
+      // Convert BigInt values to numbers before calculations
+      const normalizedWinnings =
+        Number(entry.totalWinnings) / Math.pow(10, tokenDecimals);
+      const voteCount = Number(entry.voteCount);
+
+      return {
+        address: entry.user.toLowerCase(),
+        winnings: normalizedWinnings,
+        voteCount: voteCount,
+      };
+    });
+
+  // Second: Sort by winnings (total volume)
+  const sortedWinners = winnersWithMetrics
+    .sort((a, b) => {
+      // Sort by winnings - highest to lowest
+      return b.winnings - a.winnings;
+    })
+    .slice(0, 100); // Get top 100 users
+
+  // Third: Assign ranks AFTER sorting
+  const winners = sortedWinners.map((winner, index) => ({
+    ...winner,
+    rank: index + 1,
+    trend: calculateTrend(index + 1, 0), // For proper trend implementation, you'd need to store previous ranks
+  }));
+
+  console.log(`📊 Combined ${winners.length} total unique winners`);
+  return winners;
+}
+
+// Top forecasters by time-weighted Brier score over resolved markets
+async function rankByAccuracy(timeframe: TimeFrame): Promise<RankedUser[]> {
+  const scores = await forecasterAccuracyService.getLeaderboard(timeframe);
+  const forecasters = scores.slice(0, 100).map((score, index) => ({
+    address: score.address,
+    winnings: 0,
+    voteCount: score.markets,
+    brier: score.brier,
+    rank: index + 1,
+    trend: calculateTrend(index + 1, 0),
+  }));
+
+  console.log(`🎯 Scored ${forecasters.length} forecasters (${timeframe})`);
+  return forecasters;
+}
+
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const type: LeaderboardType =
-    (searchParams.get("type") as LeaderboardType) || "accuracy";
+    (searchParams.get("type") as LeaderboardType) || "volume";
   const timeframe: TimeFrame =
     (searchParams.get("timeframe") as TimeFrame) || "all";
   const forceRefresh = searchParams.get("refresh") === "true";
@@ -218,241 +487,10 @@ export async function GET(request: Request) {
     const neynar = new NeynarAPIClient({ apiKey: neynarApiKey });
     console.log("✅ Neynar client initialized.");
 
-    const [tokenDecimals] = await withRetry(() =>
-      publicClient.multicall({
-        contracts: [
-          {
-            address: defaultTokenAddress,
-            abi: defaultTokenAbi,
-            functionName: "decimals",
-          },
-        ],
-      })
-    ).then((results) => [Number(results[0].result)]);
-    console.log(`💸 Token Decimals: ${tokenDecimals}`);
-
-    console.log("📊 Fetching leaderboard from V1 and V2 contracts...");
-
-    // ==================== V1 LEADERBOARD ====================
-    const totalParticipantsV1 = (await withRetry(() =>
-      publicClient.readContract({
-        address: contractAddress,
-        abi: contractAbi,
-        functionName: "getAllParticipantsCount",
-      })
-    )) as bigint;
-
-    console.log(`📊 V1 Total Participants: ${totalParticipantsV1}`);
-
-    const entriesV1: {
-      user: Address;
-      totalWinnings: bigint;
-      voteCount: number;
-      totalInvested?: bigint;
-    }[] = [];
-
-    for (
-      let start = 0;
-      start < Number(totalParticipantsV1);
-      start += PAGE_SIZE
-    ) {
-      const batch = (await withRetry(() =>
-        publicClient.readContract({
-          address: contractAddress,
-          abi: contractAbi,
-          functionName: "getLeaderboard",
-          args: [BigInt(start), BigInt(PAGE_SIZE)],
-        })
-      )) as unknown as {
-        user: Address;
-        totalWinnings: bigint;
-        voteCount: number;
-      }[];
-      entriesV1.push(...batch);
-    }
-
-    // Fetch V2 leaderboard using allParticipants array and userPortfolios mapping
-    console.log("📊 Fetching V2 participants and portfolios...");
-    const entriesV2: {
-      user: Address;
-      totalWinnings: bigint;
-      voteCount: number;
-      totalInvested: bigint;
-    }[] = [];
-
-    try {
-      const MAX_PARTICIPANTS = 500; // Safety limit
-      const addresses: Address[] = [];
-
-      // Step 1: Fetch participant addresses using multicall batches
-      let currentIndex = 0;
-      let hasMoreParticipants = true;
-
-      while (hasMoreParticipants && currentIndex < MAX_PARTICIPANTS) {
-        const batchContracts = Array.from(
-          { length: Math.min(V2_BATCH_SIZE, MAX_PARTICIPANTS - currentIndex) },
-          (_, i) => ({
-            address: V2contractAddress as Address,
-            abi: V2contractAbi,
-            functionName: "allParticipants" as const,
-            args: [BigInt(currentIndex + i)],
-          })
-        );
-
-        const batchResults = await withRetry(() =>
-          publicClient.multicall({
-            contracts: batchContracts,
-            allowFailure: true,
-          })
-        );
-
-        const validAddresses = batchResults
-          .filter((r) => r.status === "success" && r.result)
-          .map((r) => r.result as Address);
-
-        if (validAddresses.length === 0) {
-          hasMoreParticipants = false;
-          break;
-        }
-
-        addresses.push(...validAddresses);
-        currentIndex += V2_BATCH_SIZE;
-
-        // If we got fewer results than batch size, we've reached the end
-        if (validAddresses.length < V2_BATCH_SIZE) {
-          hasMoreParticipants = false;
-        }
-      }
-
-      console.log(`✅ Found ${addresses.length} V2 participant addresses`);
-
-      // Step 2: Fetch portfolios using multicall batches
-      for (let i = 0; i < addresses.length; i += V2_BATCH_SIZE) {
-        const batchAddresses = addresses.slice(i, i + V2_BATCH_SIZE);
-
-        const portfolioContracts = batchAddresses.map((addr) => ({
-          address: V2contractAddress as Address,
-          abi: V2contractAbi,
-          functionName: "userPortfolios" as const,
-          args: [addr],
-        }));
-
-        const portfolioResults = await withRetry(() =>
-          publicClient.multicall({
-            contracts: portfolioContracts,
-            allowFailure: true,
-          })
-        );
-
-        portfolioResults.forEach((result, idx) => {
-          if (result.status === "success" && result.result) {
-            const portfolio = result.result as [
-              bigint,
-              bigint,
-              bigint,
-              bigint,
-              bigint
-            ];
-            const totalInvested = portfolio[0]; // index 0 = totalInvested
-            const totalWinnings = portfolio[1]; // index 1 = totalWinnings
-            const tradeCount = Number(portfolio[4]); // index 4 = tradeCount
-
-            if (totalWinnings > 0n) {
-              entriesV2.push({
-                user: batchAddresses[idx],
-                totalWinnings,
-                voteCount: tradeCount,
-                totalInvested,
-              });
-            }
-          }
-        });
-      }
-
-      console.log(`✅ Fetched ${entriesV2.length} V2 leaderboard entries`);
-    } catch (v2Error) {
-      console.error("❌ V2 fetch error (continuing with V1 only):", v2Error);
-      // Continue with V1 data only
-    }
-
-    // ==================== COMBINE V1 + V2 ====================
-    const combinedEntries = new Map<
-      string,
-      {
-        user: Address;
-        totalWinnings: bigint;
-        voteCount: number;
-        totalInvested: bigint;
-      }
-    >();
-
-    // Add V1 entries
-    entriesV1.forEach((entry) => {
-      combinedEntries.set(entry.user.toLowerCase(), {
-        user: entry.user,
-        totalWinnings: entry.totalWinnings,
-        voteCount: entry.voteCount,
-        totalInvested: 0n, // V1 doesn't track totalInvested
-      });
-    });
-
-    // Merge V2 entries (add to existing V1 data or create new)
-    entriesV2.forEach((entry) => {
-      const addr = entry.user.toLowerCase();
-      const existing = combinedEntries.get(addr);
-      if (existing) {
-        // User exists in both V1 and V2 - ADD the values
-        combinedEntries.set(addr, {
-          user: entry.user,
-          totalWinnings:
-            BigInt(existing.totalWinnings) + BigInt(entry.totalWinnings),
-          voteCount: Number(existing.voteCount) + Number(entry.voteCount),
-          totalInvested:
-            BigInt(existing.totalInvested) + BigInt(entry.totalInvested),
-        });
-      } else {
-        // User only exists in V2
-        combinedEntries.set(addr, {
-          user: entry.user,
-          totalWinnings: entry.totalWinnings,
-          voteCount: entry.voteCount,
-          totalInvested: entry.totalInvested,
-        });
-      }
-    });
-
-    // First: Calculate all metrics (just winnings, no accuracy)
-    const winnersWithMetrics = Array.from(combinedEntries.values())
-      .filter((entry) => entry.totalWinnings > 0n)
-      .map((entry) => {
-        // Convert BigInt values to numbers before calculations
-        const normalizedWinnings =
-          Number(entry.totalWinnings) / Math.pow(10, tokenDecimals);
-        const voteCount = Number(entry.voteCount);
-
-        return {
-          address: entry.user.toLowerCase(),
-          winnings: normalizedWinnings,
-          voteCount: voteCount,
-        };
-      });
-
-    // Second: Sort by winnings (total volume)
-    const sortedWinners = winnersWithMetrics
-      .sort((a, b) => {
-        // Sort by winnings - highest to lowest
-        return b.winnings - a.winnings;
-      })
-      .slice(0, 100); // Get top 100 users
-
-    // Third: Assign ranks AFTER sorting
-    const winners = sortedWinners.map((winner, index) => ({
-      ...winner,
-      rank: index + 1,
-      trend: calculateTrend(index + 1, 0), // For proper trend implementation, you'd need to store previous ranks
-    }));
-
-    console.log(`📊 Combined ${winners.length} total unique winners`);
+    const winners =
+      type === "accuracy"
+        ? await rankByAccuracy(timeframe)
+        : await rankByWinnings();
 
     // ==================== FETCH NEYNAR DATA ====================
     console.log("📬 Fetching Farcaster users...");
@@ -497,6 +535,7 @@ export async function GET(request: Request) {
         voteCount: winner.voteCount,
         trend: winner.trend,
         address: winner.address,
+        ...(winner.brier !== undefined && { brier: winner.brier }),
       };
     });
 
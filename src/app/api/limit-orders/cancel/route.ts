@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { limitOrderService } from "@/lib/limit-order-service";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { orderId, signature } = await request.json();
+
+    if (!orderId || !signature) {
+      return NextResponse.json(
+        { error: "Order ID and signature are required" },
+        { status: 400 }
+      );
+    }
+
+    const order = await limitOrderService.cancel(orderId, signature);
+    return NextResponse.json(order);
+  } catch (error) {
+    console.error("Error cancelling limit order:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      { error: `Failed to cancel limit order: ${errorMessage}` },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { limitOrderService } from "@/lib/limit-order-service";
+
+// Called by the owner's client after it submits the trade for a triggered
+// order. The service matches the receipt's TradeExecuted log against the
+// order, so no signature is needed.
+export async function POST(request: NextRequest) {
+  try {
+    const { orderId, txHash } = await request.json();
+
+    if (!orderId || !txHash) {
+      return NextResponse.json(
+        { error: "Order ID and transaction hash are required" },
+        { status: 400 }
+      );
+    }
+
+    const order = await limitOrderService.get(orderId);
+    if (!order) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    }
+
+    const filled = await limitOrderService.markFilled(
+      order,
+      txHash as `0x${string}`
+    );
+    return NextResponse.json(filled);
+  } catch (error) {
+    console.error("Error filling limit order:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      { error: `Failed to fill limit order: ${errorMessage}` },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAddress } from "viem";
+import { limitOrderService } from "@/lib/limit-order-service";
+import type { LimitOrderIntent } from "@/lib/limit-orders";
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const owner = searchParams.get("owner");
+
+  if (!owner || !isAddress(owner)) {
+    return NextResponse.json(
+      { error: "Valid owner address is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const orders = await limitOrderService.listByOwner(owner);
+    return NextResponse.json({ orders, total: orders.length });
+  } catch (error) {
+    console.error("Error fetching limit orders:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch limit orders" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { order, signature } = body as {
+      order?: LimitOrderIntent;
+      signature?: `0x${string}`;
+    };
+
+    if (!order || !signature || !order.owner || !isAddress(order.owner)) {
+      return NextResponse.json(
+        { error: "Order, owner address and signature are required" },
+        { status: 400 }
+      );
+    }
+
+    const created = await limitOrderService.create(order, signature);
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error("Error creating limit order:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      { error: `Failed to create limit order: ${errorMessage}` },
+      { status: 400 }
+    );
+  }
+}
@@ -13,6 +13,11 @@ import sharp from "sharp";
 import { promises as fs } from "fs";
 import path from "node:path";
 import { format } from "date-fns";
+import {
+  parseFrameQuantity,
+  previewFrameBuy,
+  type FrameBuyPreview,
+} from "@/lib/frame-trade";
 //
 interface MarketImageDataV1 {
   question: string;
@@ -349,6 +354,9 @@ const colors = {
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   const marketId = searchParams.get("marketId");
+  // Frame confirm view: odds after buying `quantity` (1e18) of `option`
+  const previewOption = searchParams.get("option");
+  const previewQuantity = searchParams.get("quantity");
 
   console.log(
     `--- Market Image API: Received request for marketId: ${marketId} ---`
@@ -397,6 +405,27 @@ export async function GET(request: NextRequest) {
       market
     );
 
+    let preview: FrameBuyPreview | null = null;
+    if (
+      market.version === "v2" &&
+      previewOption &&
+      /^\d+$/.test(previewOption) &&
+      previewQuantity
+    ) {
+      try {
+        preview = await previewFrameBuy(
+          marketIdNumber,
+          Number(previewOption),
+          parseFrameQuantity(previewQuantity)
+        );
+      } catch (previewError) {
+        console.error(
+          `Market Image API: Trade preview failed for marketId ${cleanMarketId}:`,
+          previewError
+        );
+      }
+    }
+
     // Truncate long questions and adjust font sizes
     const truncateText = (text: string, maxLength: number) => {
       return text.length > maxLength
@@ -408,6 +437,7 @@ export async function GET(request: NextRequest) {
     let optionsData: Array<{
       name: string;
       percentage: number;
+      previous?: number; // odds before the previewed trade
       color: string;
     }> = [];
     let totalVolumeFormatted = "0";
@@ -452,16 +482,20 @@ export async function GET(request: NextRequest) {
         "#8b5cf6", // violet
       ];
 
+      const toPercent = (price: bigint) =>
+        Math.max(0, Math.min(100, (Number(price) / 1e18) * 100));
+
       optionsData = market.options.map((opt, idx) => {
-        // Convert currentPrice from 1e18 to percentage (0-100)
-        const probability = Math.max(
-          0,
-          Math.min(100, (Number(opt.currentPrice) / 1e18) * 100)
+        // Convert currentPrice from 1e18 to percentage (0-100); a trade
+        // preview shows the odds after the trade instead
+        const probability = toPercent(
+          preview?.after[idx] ?? opt.currentPrice
         );
 
         return {
           name: truncateText(opt.name, 25),
           percentage: probability,
+          previous: preview ? toPercent(preview.before[idx] ?? 0n) : undefined,
           color: optionColors[idx % optionColors.length],
         };
       });
@@ -606,6 +640,32 @@ export async function GET(request: NextRequest) {
             >
               {market.resolved ? "🏆 Resolved" : timeStatus.text}
             </div>
+            {preview && market.version === "v2" && (
+              <div
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  padding: "8px 16px",
+                  backgroundColor: "#ede9fe",
+                  color: colors.secondary,
+                  borderRadius: "12px",
+                  fontSize: "14px",
+                  fontWeight: "600",
+                }}
+              >
+                Buy {(Number(previewQuantity) / 1e18).toLocaleString()}{" "}
+                {truncateText(
+                  market.options[Number(previewOption)]?.name ?? "",
+                  20
+                )}{" "}
+                for ~
+                {(Number(preview.quote.totalCost) / 1e18).toLocaleString(
+                  undefined,
+                  { maximumFractionDigits: 2 }
+                )}{" "}
+                BSTR
+              </div>
+            )}
           </div>
 
           {/* Options with progress bars */}
@@ -652,6 +712,8 @@ export async function GET(request: NextRequest) {
                       color: option.color,
                     }}
                   >
+                    {option.previous !== undefined &&
+                      `${option.previous.toFixed(1)}% → `}
                     {option.percentage.toFixed(1)}%
                   </span>
                 </div>
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifySignedMessage } from "@/lib/evidence-submissions";
+import { marketScheduleService } from "@/lib/market-schedule-service";
+import {
+  buildSchedulerMessage,
+  cancelBatchFields,
+} from "@/lib/market-templates";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { batchId, address, signature, issuedAt } = await request.json();
+
+    if (!batchId) {
+      return NextResponse.json(
+        { error: "Batch ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const batch = await marketScheduleService.getBatch(batchId);
+    if (!batch) {
+      return NextResponse.json({ error: "Batch not found" }, { status: 404 });
+    }
+
+    const signatureError = await verifySignedMessage(
+      (time) =>
+        buildSchedulerMessage("cancel", cancelBatchFields(batchId), time),
+      { address, signature, issuedAt }
+    );
+    if (signatureError) {
+      return NextResponse.json({ error: signatureError }, { status: 401 });
+    }
+    if (String(address).toLowerCase() !== batch.creator) {
+      return NextResponse.json(
+        { error: "Only the batch creator can cancel it" },
+        { status: 403 }
+      );
+    }
+
+    const cancelled = await marketScheduleService.cancel(batch);
+    return NextResponse.json(cancelled);
+  } catch (error) {
+    console.error("Error cancelling scheduled markets:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      { error: `Failed to cancel batch: ${errorMessage}` },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAddress } from "viem";
+import { checkCreatorAccess } from "@/lib/contract-roles";
+import { verifySignedMessage } from "@/lib/evidence-submissions";
+import { marketScheduleService } from "@/lib/market-schedule-service";
+import {
+  buildSchedulerMessage,
+  scheduleFields,
+  type MarketDraft,
+} from "@/lib/market-templates";
+
+// ?creator= lists that creator's batches; without it, every pending batch
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const creator = searchParams.get("creator");
+
+  if (creator && !isAddress(creator)) {
+    return NextResponse.json(
+      { error: "Invalid creator address" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const batches = creator
+      ? await marketScheduleService.listByCreator(creator)
+      : await marketScheduleService.listPending();
+    return NextResponse.json({ batches, total: batches.length });
+  } catch (error) {
+    console.error("Error fetching scheduled markets:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch scheduled markets" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { batches, templateId, address, signature, issuedAt } = body as {
+      batches?: { scheduledFor: number; drafts: MarketDraft[] }[];
+      templateId?: string;
+      address?: string;
+      signature?: `0x${string}`;
+      issuedAt?: number;
+    };
+
+    if (
+      !Array.isArray(batches) ||
+      batches.some(
+        (batch) => !batch.scheduledFor || !Array.isArray(batch.drafts)
+      )
+    ) {
+      return NextResponse.json(
+        { error: "Batches with a scheduled time and drafts are required" },
+        { status: 400 }
+      );
+    }
+
+    const signatureError = await verifySignedMessage(
+      (time) =>
+        buildSchedulerMessage(
+          "schedule",
+          scheduleFields({ batches }),
+          time
+        ),
+      { address, signature, issuedAt }
+    );
+    if (signatureError) {
+      return NextResponse.json({ error: signatureError }, { status: 401 });
+    }
+    if (!(await checkCreatorAccess(address!))) {
+      return NextResponse.json(
+        { error: "Only market creators can schedule markets" },
+        { status: 403 }
+      );
+    }
+
+    const scheduled = await marketScheduleService.schedule({
+      creator: address!,
+      batches,
+      templateId,
+    });
+    return NextResponse.json({ batches: scheduled }, { status: 201 });
+  } catch (error) {
+    console.error("Error scheduling markets:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      { error: `Failed to schedule markets: ${errorMessage}` },
+      { status: 400 }
+    );
+  }
+}
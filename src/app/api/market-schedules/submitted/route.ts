@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifySignedMessage } from "@/lib/evidence-submissions";
+import { marketScheduleService } from "@/lib/market-schedule-service";
+import {
+  buildSchedulerMessage,
+  submitBatchFields,
+} from "@/lib/market-templates";
+
+// Called by the creator's client once the batch transactions are mined,
+// with the signature taken before they were sent. The service then matches
+// the receipts' MarketCreated logs against the batch drafts.
+export async function POST(request: NextRequest) {
+  try {
+    const { batchId, txHashes, address, signature, issuedAt } =
+      await request.json();
+
+    if (!batchId || !Array.isArray(txHashes) || txHashes.length === 0) {
+      return NextResponse.json(
+        { error: "Batch ID and transaction hashes are required" },
+        { status: 400 }
+      );
+    }
+
+    const batch = await marketScheduleService.getBatch(batchId);
+    if (!batch) {
+      return NextResponse.json({ error: "Batch not found" }, { status: 404 });
+    }
+
+    const signatureError = await verifySignedMessage(
+      (time) =>
+        buildSchedulerMessage("submit", submitBatchFields(batchId), time),
+      { address, signature, issuedAt }
+    );
+    if (signatureError) {
+      return NextResponse.json({ error: signatureError }, { status: 401 });
+    }
+    if (String(address).toLowerCase() !== batch.creator) {
+      return NextResponse.json(
+        { error: "Only the batch creator can record its submission" },
+        { status: 403 }
+      );
+    }
+
+    const submitted = await marketScheduleService.markSubmitted(
+      batch,
+      txHashes as `0x${string}`[]
+    );
+    return NextResponse.json(submitted);
+  } catch (error) {
+    console.error("Error marking scheduled markets submitted:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      { error: `Failed to record submission: ${errorMessage}` },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkCreatorAccess } from "@/lib/contract-roles";
+import { verifySignedMessage } from "@/lib/evidence-submissions";
+import { marketScheduleService } from "@/lib/market-schedule-service";
+import {
+  buildSchedulerMessage,
+  deleteTemplateFields,
+  templateFields,
+  type MarketDraft,
+} from "@/lib/market-templates";
+
+export async function GET() {
+  try {
+    const templates = await marketScheduleService.listTemplates();
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error("Error fetching market templates:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch market templates" },
+      { status: 500 }
+    );
+  }
+}
+
+// Creators save (or overwrite, when id is given) a template
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { id, name, draft, address, signature, issuedAt } = body as {
+      id?: string;
+      name?: string;
+      draft?: MarketDraft;
+      address?: string;
+      signature?: `0x${string}`;
+      issuedAt?: number;
+    };
+
+    if (!name || !draft || !Array.isArray(draft.options)) {
+      return NextResponse.json(
+        { error: "Template name and draft are required" },
+        { status: 400 }
+      );
+    }
+
+    const signatureError = await verifySignedMessage(
+      (time) =>
+        buildSchedulerMessage(
+          "save_template",
+          templateFields({ name, draft }),
+          time
+        ),
+      { address, signature, issuedAt }
+    );
+    if (signatureError) {
+      return NextResponse.json({ error: signatureError }, { status: 401 });
+    }
+    if (!(await checkCreatorAccess(address!))) {
+      return NextResponse.json(
+        { error: "Only market creators can save templates" },
+        { status: 403 }
+      );
+    }
+
+    const template = await marketScheduleService.saveTemplate({
+      id,
+      name,
+      draft,
+      createdBy: address!,
+    });
+    return NextResponse.json(template, { status: 201 });
+  } catch (error) {
+    console.error("Error saving market template:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      { error: `Failed to save template: ${errorMessage}` },
+      { status: 400 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { id, address, signature, issuedAt } = await request.json();
+
+    if (!id) {
+      return NextResponse.json(
+        { error: "Template ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const signatureError = await verifySignedMessage(
+      (time) =>
+        buildSchedulerMessage(
+          "delete_template",
+          deleteTemplateFields(id),
+          time
+        ),
+      { address, signature, issuedAt }
+    );
+    if (signatureError) {
+      return NextResponse.json({ error: signatureError }, { status: 401 });
+    }
+    if (!(await checkCreatorAccess(address))) {
+      return NextResponse.json(
+        { error: "Only market creators can delete templates" },
+        { status: 403 }
+      );
+    }
+
+    await marketScheduleService.deleteTemplate(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting market template:", error);
+    return NextResponse.json(
+      { error: "Failed to delete template" },
+      { status: 500 }
+    );
+  }
+}
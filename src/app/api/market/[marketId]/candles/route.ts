@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { candleService } from "@/lib/candle-service";
+import { CANDLE_INTERVALS, isCandleInterval } from "@/lib/candles";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ marketId: string }> }
+) {
+  const { marketId } = await params;
+  const { searchParams } = new URL(request.url);
+  const option = searchParams.get("option") ?? "0";
+  const interval = searchParams.get("interval") ?? "1h";
+
+  if (!/^\d+$/.test(marketId)) {
+    return NextResponse.json({ error: "Invalid market ID" }, { status: 400 });
+  }
+  if (!/^\d+$/.test(option)) {
+    return NextResponse.json({ error: "Invalid option" }, { status: 400 });
+  }
+  if (!isCandleInterval(interval)) {
+    return NextResponse.json(
+      {
+        error: `Invalid interval. Use one of: ${Object.keys(
+          CANDLE_INTERVALS
+        ).join(", ")}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const series = await candleService.getCandles(
+      Number(marketId),
+      Number(option),
+      interval
+    );
+    return NextResponse.json(series);
+  } catch (error) {
+    console.error("Error building candles:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      { error: `Failed to fetch candles: ${message}` },
+      { status: 500 }
+    );
+  }
+}
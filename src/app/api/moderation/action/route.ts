@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAddress } from "viem";
+import { checkValidatorAccess } from "@/lib/contract-roles";
+import {
+  COMMENT_ACTIONS,
+  MUTE_DURATION_OPTIONS,
+  SANCTION_ACTIONS,
+  buildModerationMessage,
+  moderationFields,
+  type CommentStatus,
+  type ModerationAction,
+} from "@/lib/comment-moderation";
+import { verifySignedMessage } from "@/lib/evidence-submissions";
+import { getCommentById, setCommentStatus } from "@/lib/supabase-comments";
+import {
+  createSanction,
+  liftSanctions,
+  logModerationAction,
+  resolveReports,
+} from "@/lib/supabase-moderation";
+
+const STATUS_FOR_ACTION: Partial<Record<ModerationAction, CommentStatus>> = {
+  hide: "hidden",
+  unhide: "visible",
+  delete: "deleted",
+};
+
+// Validators/admins hide or delete comments, dismiss reports, and mute, ban
+// or reinstate addresses. Every applied action is written to the audit log.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const {
+      action,
+      target,
+      reason,
+      durationHours,
+      address,
+      signature,
+      issuedAt,
+    } = body as {
+      action?: ModerationAction;
+      target?: string;
+      reason?: string;
+      durationHours?: number;
+      address?: string;
+      signature?: `0x${string}`;
+      issuedAt?: number;
+    };
+
+    const isCommentAction = !!action && COMMENT_ACTIONS.includes(action);
+    if (!action || (!isCommentAction && !SANCTION_ACTIONS.includes(action))) {
+      return NextResponse.json(
+        { error: "A valid moderation action is required" },
+        { status: 400 }
+      );
+    }
+    if (!target || (!isCommentAction && !isAddress(target))) {
+      return NextResponse.json(
+        {
+          error: isCommentAction
+            ? "Comment ID is required"
+            : "A valid target address is required",
+        },
+        { status: 400 }
+      );
+    }
+    if (
+      action === "mute" &&
+      !MUTE_DURATION_OPTIONS.includes(Number(durationHours))
+    ) {
+      return NextResponse.json(
+        { error: "A valid mute duration is required" },
+        { status: 400 }
+      );
+    }
+
+    const fields = moderationFields({
+      target,
+      reason: reason?.trim(),
+      durationHours: action === "mute" ? Number(durationHours) : undefined,
+    });
+    const signatureError = await verifySignedMessage(
+      (issuedAt) => buildModerationMessage(action, fields, issuedAt),
+      { address, signature, issuedAt }
+    );
+    if (signatureError) {
+      return NextResponse.json({ error: signatureError }, { status: 401 });
+    }
+    if (!(await checkValidatorAccess(address!))) {
+      return NextResponse.json(
+        { error: "Only validators and admins can moderate comments" },
+        { status: 403 }
+      );
+    }
+
+    const details: Record<string, unknown> = {};
+    if (isCommentAction) {
+      const comment = await getCommentById(target);
+      if (!comment) {
+        return NextResponse.json(
+          { error: "Comment not found" },
+          { status: 404 }
+        );
+      }
+      details.marketId = comment.marketId;
+      details.author = comment.user?.address.toLowerCase();
+      details.previousStatus = comment.status;
+
+      const status = STATUS_FOR_ACTION[action];
+      if (status && !(await setCommentStatus(target, status, address!))) {
+        return NextResponse.json(
+          { error: "Failed to update comment" },
+          { status: 500 }
+        );
+      }
+      if (action !== "unhide") {
+        await resolveReports(
+          target,
+          action === "dismiss" ? "dismissed" : "actioned",
+          address!
+        );
+      }
+    } else if (action === "lift") {
+      const lifted = await liftSanctions(target, address!);
+      if (lifted === 0) {
+        return NextResponse.json(
+          { error: "No active mute or ban for this address" },
+          { status: 404 }
+        );
+      }
+      details.lifted = lifted;
+    } else {
+      const sanction = await createSanction({
+        address: target,
+        type: action === "ban" ? "ban" : "mute",
+        reason: reason?.trim() || undefined,
+        expiresAt:
+          action === "mute"
+            ? new Date(
+                Date.now() + Number(durationHours) * 3600 * 1000
+              ).toISOString()
+            : undefined,
+        createdBy: address!,
+      });
+      if (!sanction) {
+        return NextResponse.json(
+          { error: "Failed to save sanction" },
+          { status: 500 }
+        );
+      }
+      details.sanctionId = sanction.id;
+      details.expiresAt = sanction.expiresAt;
+    }
+
+    const entry = await logModerationAction({
+      moderator: address!,
+      action,
+      targetType: isCommentAction ? "comment" : "address",
+      targetId: isCommentAction ? target : target.toLowerCase(),
+      reason: reason?.trim() || undefined,
+      details,
+    });
+    if (!entry) {
+      return NextResponse.json(
+        { error: "Action applied but the audit log write failed" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, entry });
+  } catch (error) {
+    console.error("Error applying moderation action:", error);
+    return NextResponse.json(
+      { error: "Failed to apply moderation action" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession, unauthorized } from "@/lib/auth-session";
+import { checkValidatorAccess } from "@/lib/contract-roles";
+import type {
+  CommentReport,
+  ModerationQueueItem,
+} from "@/lib/comment-moderation";
+import { getCommentById } from "@/lib/supabase-comments";
+import {
+  getActiveSanctions,
+  getAuditLog,
+  getReports,
+} from "@/lib/supabase-moderation";
+
+// Moderation queue: open reports grouped by comment, active sanctions and
+// the latest audit log entries. Validators and admins only, like the actions.
+export async function GET(request: NextRequest) {
+  const session = await getSession(request);
+  if (!session) return unauthorized();
+  if (!(await checkValidatorAccess(session.address))) {
+    return NextResponse.json(
+      { error: "Only validators and admins can view the moderation queue" },
+      { status: 403 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const logLimit = Math.min(Number(searchParams.get("logLimit")) || 50, 200);
+
+  try {
+    const [reports, sanctions, auditLog] = await Promise.all([
+      getReports({ statuses: ["open"] }),
+      getActiveSanctions(),
+      getAuditLog(logLimit),
+    ]);
+
+    const byComment = new Map<string, CommentReport[]>();
+    reports.forEach((report) => {
+      byComment.set(report.commentId, [
+        ...(byComment.get(report.commentId) || []),
+        report,
+      ]);
+    });
+
+    const queue: ModerationQueueItem[] = [];
+    for (const [commentId, commentReports] of Array.from(byComment)) {
+      const comment = await getCommentById(commentId);
+      const author = comment?.user?.address.toLowerCase();
+      queue.push({
+        commentId,
+        comment: comment
+          ? {
+              id: comment.id,
+              marketId: comment.marketId,
+              content: comment.content,
+              author,
+              status: comment.status,
+              createdAt: comment.createdAt,
+            }
+          : null,
+        reports: commentReports,
+        authorSanction: sanctions.find((s) => s.address === author) || null,
+      });
+    }
+    // Most-reported first
+    queue.sort((a, b) => b.reports.length - a.reports.length);
+
+    return NextResponse.json({ queue, sanctions, auditLog });
+  } catch (error) {
+    console.error("Error fetching moderation queue:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch moderation queue" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { marketIndexer } from "@/lib/market-indexer";
+import { notificationService } from "@/lib/notification-service";
+
+// Cron pass that sends market lifecycle notifications. Catches the indexer
+// up first so resolution/dispute events from the last few blocks are seen.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    if (!(await marketIndexer.ensureFresh())) {
+      return NextResponse.json(
+        { error: "Market indexer is not ready" },
+        { status: 503 }
+      );
+    }
+    const summary = await notificationService.dispatch();
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error("Notification dispatch error:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      { error: `Notification dispatch failed: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
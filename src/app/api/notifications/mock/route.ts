@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getKVStore } from "@/lib/kv-store";
+import { notificationKeys } from "@/lib/notification-service";
+
+// Stand-in for a Farcaster client's notification endpoint. Point
+// NOTIFICATION_URL_OVERRIDE here to capture sends locally; tokens starting
+// with "invalid" or "ratelimited" exercise the dispatcher's error paths.
+const isEnabled = () =>
+  process.env.NODE_ENV !== "production" ||
+  process.env.NOTIFICATIONS_MOCK_ENABLED === "true";
+
+export async function POST(request: NextRequest) {
+  if (!isEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  try {
+    const payload = await request.json();
+    const tokens: string[] = Array.isArray(payload.tokens)
+      ? payload.tokens
+      : [];
+
+    await getKVStore().rpush(notificationKeys.mockInbox, {
+      ...payload,
+      receivedAt: Date.now(),
+    });
+
+    return NextResponse.json({
+      result: {
+        successfulTokens: tokens.filter(
+          (t) => !t.startsWith("invalid") && !t.startsWith("ratelimited")
+        ),
+        invalidTokens: tokens.filter((t) => t.startsWith("invalid")),
+        rateLimitedTokens: tokens.filter((t) => t.startsWith("ratelimited")),
+      },
+    });
+  } catch (error) {
+    console.error("Mock notification error:", error);
+    return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+  }
+}
+
+export async function GET() {
+  if (!isEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const notifications = await getKVStore().lrange(
+    notificationKeys.mockInbox,
+    0,
+    -1
+  );
+  return NextResponse.json({ notifications, total: notifications.length });
+}
+
+export async function DELETE() {
+  if (!isEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  await getKVStore().del(notificationKeys.mockInbox);
+  return NextResponse.json({ success: true });
+}
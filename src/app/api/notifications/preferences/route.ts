@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession, unauthorized } from "@/lib/auth-session";
+import { notificationService } from "@/lib/notification-service";
+import type { NotificationPreferences } from "@/lib/notifications";
+
+function parseFid(value: unknown): number | null {
+  const fid = Number(value);
+  return Number.isInteger(fid) && fid > 0 ? fid : null;
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const fid = parseFid(searchParams.get("fid"));
+  if (!fid) {
+    return NextResponse.json({ error: "Valid fid is required" }, { status: 400 });
+  }
+
+  try {
+    const [preferences, subscribed] = await Promise.all([
+      notificationService.getPreferences(fid),
+      notificationService.hasDetails(fid),
+    ]);
+    return NextResponse.json({ fid, preferences, subscribed });
+  } catch (error) {
+    console.error("Error fetching notification preferences:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch notification preferences" },
+      { status: 500 }
+    );
+  }
+}
+
+// Only the fid's own Farcaster sign-in session may change its preferences
+export async function POST(request: NextRequest) {
+  const session = await getSession(request);
+  if (!session) return unauthorized();
+
+  try {
+    const body = await request.json();
+    const fid = parseFid(body.fid);
+    const preferences = body.preferences as
+      | Partial<NotificationPreferences>
+      | undefined;
+
+    if (!fid || !preferences || typeof preferences !== "object") {
+      return NextResponse.json(
+        { error: "fid and preferences are required" },
+        { status: 400 }
+      );
+    }
+    if (session.fid !== fid) {
+      return NextResponse.json(
+        { error: "Sign in with this Farcaster account to change its settings" },
+        { status: 403 }
+      );
+    }
+
+    // Only FIDs that added the mini app (and so have a token) can be configured
+    if (!(await notificationService.hasDetails(fid))) {
+      return NextResponse.json(
+        { error: "Notifications are not enabled for this user" },
+        { status: 404 }
+      );
+    }
+
+    const saved = await notificationService.setPreferences(fid, preferences);
+    return NextResponse.json({ fid, preferences: saved, subscribed: true });
+  } catch (error) {
+    console.error("Error saving notification preferences:", error);
+    return NextResponse.json(
+      { error: "Failed to save notification preferences" },
+      { status: 500 }
+    );
+  }
+}
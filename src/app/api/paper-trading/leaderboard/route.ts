@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { paperTradingService } from "@/lib/paper-trading-service";
+
+const MAX_LIMIT = 100;
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const limit = Math.min(
+    MAX_LIMIT,
+    Math.max(1, Number(searchParams.get("limit")) || MAX_LIMIT)
+  );
+
+  try {
+    const entries = await paperTradingService.leaderboard(limit);
+    return NextResponse.json({ entries, total: entries.length });
+  } catch (error) {
+    console.error("Error fetching paper leaderboard:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch paper leaderboard" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAddress } from "viem";
+import { getSession, unauthorized } from "@/lib/auth-session";
+import { paperTradingService } from "@/lib/paper-trading-service";
+import type { PaperTradeRequest } from "@/lib/paper-trading";
+
+const isUint = (value: unknown): value is string =>
+  typeof value === "string" && /^\d+$/.test(value);
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const address = searchParams.get("address");
+
+  if (!address || !isAddress(address)) {
+    return NextResponse.json(
+      { error: "Valid address is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(await paperTradingService.getSummary(address));
+  } catch (error) {
+    console.error("Error fetching paper account:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch paper account" },
+      { status: 500 }
+    );
+  }
+}
+
+// Paper trades are made by whoever holds the session, never a body field
+export async function POST(request: NextRequest) {
+  const session = await getSession(request);
+  if (!session) return unauthorized();
+
+  try {
+    const body = (await request.json()) as Partial<PaperTradeRequest>;
+    const { marketId, optionId, side, quantity, limit } = body;
+
+    if (
+      !Number.isInteger(marketId) ||
+      !Number.isInteger(optionId) ||
+      (side !== "buy" && side !== "sell") ||
+      !isUint(quantity) ||
+      !isUint(limit)
+    ) {
+      return NextResponse.json(
+        { error: "marketId, optionId, side, quantity and limit are required" },
+        { status: 400 }
+      );
+    }
+
+    const summary = await paperTradingService.trade(session.address, {
+      marketId: marketId!,
+      optionId: optionId!,
+      side,
+      quantity,
+      limit,
+    });
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error("Error executing paper trade:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      { error: `Paper trade failed: ${errorMessage}` },
+      { status: 400 }
+    );
+  }
+}
+
+// Reset the caller's paper portfolio to the starting balance
+export async function DELETE(request: NextRequest) {
+  const session = await getSession(request);
+  if (!session) return unauthorized();
+
+  try {
+    return NextResponse.json(await paperTradingService.reset(session.address));
+  } catch (error) {
+    console.error("Error resetting paper account:", error);
+    return NextResponse.json(
+      { error: "Failed to reset paper account" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAddress } from "viem";
+import { pnlEngine } from "@/lib/pnl-engine";
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const address = searchParams.get("address");
+
+  if (!address || !isAddress(address)) {
+    return NextResponse.json(
+      { error: "Valid wallet address is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const pnl = await pnlEngine.getPortfolioPnL(address);
+    return NextResponse.json(pnl);
+  } catch (error) {
+    console.error("Error calculating portfolio P&L:", error);
+    return NextResponse.json(
+      { error: "Failed to calculate portfolio P&L" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,386 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  publicClient,
+  V2contractAddress,
+  V2contractAbi,
+} from "@/constants/contract";
+import satori from "satori";
+import sharp from "sharp";
+import { promises as fs } from "fs";
+import path from "node:path";
+import { isAddress } from "viem";
+import { pnlEngine } from "@/lib/pnl-engine";
+import { calculateProbabilityFromTokenPrice } from "@/lib/lmsr";
+import type { OptionPnL, PositionStatus } from "@/types/pnl";
+
+const regularFontPath = path.join(
+  process.cwd(),
+  "public",
+  "fonts",
+  "Inter",
+  "static",
+  "Inter_18pt-Regular.ttf"
+);
+const boldFontPath = path.join(
+  process.cwd(),
+  "public",
+  "fonts",
+  "Inter",
+  "static",
+  "Inter_18pt-Bold.ttf"
+);
+
+const regularFontDataPromise = fs.readFile(regularFontPath);
+const boldFontDataPromise = fs.readFile(boldFontPath);
+
+const colors = {
+  background: "#ffffff",
+  cardBg: "#f8fafc",
+  primary: "#2563eb",
+  secondary: "#7c3aed",
+  success: "#059669",
+  danger: "#dc2626",
+  text: {
+    primary: "#111827",
+    secondary: "#4b5563",
+    light: "#9ca3af",
+  },
+  border: "#e5e7eb",
+  gradient: {
+    header: "linear-gradient(90deg, #1e40af 0%, #7e22ce 100%)",
+  },
+};
+
+const STATUS_LABELS: Record<PositionStatus, { text: string; color: string }> =
+  {
+    open: { text: "Open", color: colors.primary },
+    closed: { text: "Closed", color: colors.text.secondary },
+    won: { text: "Won", color: colors.success },
+    lost: { text: "Lost", color: colors.danger },
+    refunded: { text: "Refunded", color: colors.text.secondary },
+  };
+
+// Format a 1e18-scaled amount, signed when `signed` is set
+function formatAmount(amount: bigint, signed = false): string {
+  const formatted = (Number(amount) / 10 ** 18).toLocaleString(undefined, {
+    maximumFractionDigits: 2,
+  });
+  return signed && amount > 0n ? `+${formatted}` : formatted;
+}
+
+// Current odds of the option: the settled outcome once resolved, otherwise
+// the live LMSR price (null when there is nothing to show)
+async function fetchCurrentOdds(
+  marketId: number,
+  position: OptionPnL,
+  market: { resolved: boolean; invalidated: boolean }
+): Promise<number | null> {
+  if (market.invalidated) return null;
+  if (market.resolved) {
+    // Sold-out positions carry no outcome to read the result from
+    if (position.status === "won") return 100;
+    return position.status === "lost" ? 0 : null;
+  }
+  const option = (await publicClient.readContract({
+    address: V2contractAddress,
+    abi: V2contractAbi,
+    functionName: "getMarketOption",
+    args: [BigInt(marketId), BigInt(position.optionId)],
+  })) as readonly [string, string, bigint, bigint, bigint, boolean];
+  return calculateProbabilityFromTokenPrice(option[4]);
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const address = searchParams.get("address");
+  const marketId = searchParams.get("marketId");
+  const optionId = searchParams.get("optionId");
+  const username = searchParams.get("username");
+
+  console.log(
+    `Position Image API: Received request for ${address} on market ${marketId}`
+  );
+
+  if (!address || !isAddress(address)) {
+    return new NextResponse("Missing or invalid address parameter", {
+      status: 400,
+    });
+  }
+  if (!marketId || !/^\d+$/.test(marketId)) {
+    return new NextResponse("Missing or invalid marketId parameter", {
+      status: 400,
+    });
+  }
+  if (optionId !== null && !/^\d+$/.test(optionId)) {
+    return new NextResponse("Invalid optionId parameter", { status: 400 });
+  }
+
+  try {
+    const [regularFontData, boldFontData] = await Promise.all([
+      regularFontDataPromise,
+      boldFontDataPromise,
+    ]);
+
+    const market = await pnlEngine.getMarketPnL(address, Number(marketId));
+    // The requested option, otherwise the largest position in the market
+    const position = market
+      ? optionId !== null
+        ? market.options.find((o) => o.optionId === Number(optionId))
+        : [...market.options].sort((a, b) =>
+            BigInt(b.shares) > BigInt(a.shares) ? 1 : -1
+          )[0]
+      : undefined;
+    if (!market || !position) {
+      return new NextResponse("No position for this address and market", {
+        status: 404,
+      });
+    }
+
+    const odds = await fetchCurrentOdds(market.marketId, position, market);
+    const shares = BigInt(position.shares);
+    const costBasis = BigInt(position.costBasis);
+    const entryOdds =
+      shares > 0n
+        ? calculateProbabilityFromTokenPrice(BigInt(position.avgEntryPrice))
+        : null;
+
+    // Open positions show what they would realize now; anything settled or
+    // sold shows the final result including earlier partial sells
+    const isOpen = position.status === "open";
+    const pnl = isOpen
+      ? BigInt(position.unrealizedPnL)
+      : BigInt(position.realizedPnL) + BigInt(position.unrealizedPnL);
+    // Sold-out positions release their basis, so they show no return %
+    const pnlPercent =
+      costBasis > 0n ? (Number(pnl) / Number(costBasis)) * 100 : null;
+    const pnlColor = pnl >= 0n ? colors.success : colors.danger;
+    const status = STATUS_LABELS[position.status];
+
+    const displayName =
+      username || `${address.slice(0, 6)}...${address.slice(-4)}`;
+    const question =
+      market.question.length > 120
+        ? `${market.question.substring(0, 120)}...`
+        : market.question;
+    const questionFontSize =
+      market.question.length > 80 ? 26 : market.question.length > 50 ? 30 : 34;
+
+    const stats = [
+      {
+        label: "Entry Price",
+        value: entryOdds === null ? "—" : `${entryOdds.toFixed(1)}%`,
+        color: colors.text.primary,
+      },
+      {
+        label: "Current Odds",
+        value: odds === null ? "—" : `${odds.toFixed(1)}%`,
+        color: colors.primary,
+      },
+      {
+        label: "Shares",
+        value: formatAmount(shares),
+        color: colors.secondary,
+      },
+      {
+        label: isOpen ? "Unrealized P&L" : "Final P&L",
+        value: `${formatAmount(pnl, true)} BSTR`,
+        detail:
+          pnlPercent === null
+            ? undefined
+            : `${pnlPercent >= 0 ? "+" : ""}${pnlPercent.toFixed(1)}%`,
+        color: pnlColor,
+      },
+    ];
+
+    const jsx = (
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          width: "900px",
+          height: "600px",
+          backgroundColor: colors.background,
+          padding: "30px",
+          fontFamily: "Inter",
+        }}
+      >
+        {/* Header */}
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "space-between",
+            marginBottom: "28px",
+            padding: "20px 30px",
+            background: colors.gradient.header,
+            borderRadius: "16px",
+            color: "white",
+          }}
+        >
+          <div
+            style={{ display: "flex", fontSize: "24px", fontWeight: "bold" }}
+          >
+            🎯 Policast Position
+          </div>
+          <div style={{ display: "flex", fontSize: "18px", opacity: 0.9 }}>
+            {displayName}
+          </div>
+        </div>
+
+        {/* Market and option */}
+        <div
+          style={{
+            display: "flex",
+            fontSize: `${questionFontSize}px`,
+            fontWeight: "bold",
+            color: colors.text.primary,
+            marginBottom: "16px",
+            lineHeight: 1.3,
+          }}
+        >
+          {question}
+        </div>
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "12px",
+            marginBottom: "28px",
+          }}
+        >
+          <div
+            style={{
+              display: "flex",
+              fontSize: "22px",
+              fontWeight: "bold",
+              color: colors.secondary,
+            }}
+          >
+            {position.optionName}
+          </div>
+          <div
+            style={{
+              display: "flex",
+              fontSize: "16px",
+              fontWeight: "bold",
+              color: status.color,
+              padding: "4px 12px",
+              borderRadius: "999px",
+              border: `2px solid ${status.color}`,
+            }}
+          >
+            {status.text}
+          </div>
+        </div>
+
+        {/* Stats */}
+        <div style={{ display: "flex", gap: "16px", flex: 1 }}>
+          {stats.map((stat) => (
+            <div
+              key={stat.label}
+              style={{
+                display: "flex",
+                flexDirection: "column",
+                justifyContent: "center",
+                flex: 1,
+                padding: "20px",
+                backgroundColor: colors.cardBg,
+                borderRadius: "16px",
+                border: `2px solid ${colors.border}`,
+              }}
+            >
+              <div
+                style={{
+                  display: "flex",
+                  fontSize: "16px",
+                  color: colors.text.secondary,
+                  marginBottom: "8px",
+                }}
+              >
+                {stat.label}
+              </div>
+              <div
+                style={{
+                  display: "flex",
+                  fontSize: "30px",
+                  fontWeight: "bold",
+                  color: stat.color,
+                }}
+              >
+                {stat.value}
+              </div>
+              {stat.detail && (
+                <div
+                  style={{
+                    display: "flex",
+                    fontSize: "18px",
+                    fontWeight: "bold",
+                    color: stat.color,
+                    marginTop: "4px",
+                  }}
+                >
+                  {stat.detail}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            marginTop: "24px",
+            fontSize: "16px",
+            color: colors.text.light,
+          }}
+        >
+          <div style={{ display: "flex" }}>
+            Cost basis {formatAmount(costBasis)} BSTR
+          </div>
+          <div style={{ display: "flex" }}>Market #{market.marketId}</div>
+        </div>
+      </div>
+    );
+
+    const svg = await satori(jsx, {
+      width: 900,
+      height: 600,
+      fonts: [
+        {
+          name: "Inter",
+          data: regularFontData,
+          weight: 400 as const,
+          style: "normal",
+        },
+        {
+          name: "Inter",
+          data: boldFontData,
+          weight: 700 as const,
+          style: "normal",
+        },
+      ],
+    });
+
+    const pngBuffer = await sharp(Buffer.from(svg)).png().toBuffer();
+
+    console.log(
+      `Position Image API: Successfully generated image for ${address} on market ${marketId}`
+    );
+
+    // Short cache: the odds and P&L move with every trade
+    return new NextResponse(new Uint8Array(pngBuffer), {
+      headers: {
+        "Content-Type": "image/png",
+        "Cache-Control": "public, max-age=60, s-maxage=60",
+      },
+    });
+  } catch (error) {
+    console.error(
+      `Position Image API: Error generating image for ${address} on market ${marketId}:`,
+      error
+    );
+    return new NextResponse("Error generating image", { status: 500 });
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAddress } from "viem";
+import { getSession, unauthorized } from "@/lib/auth-session";
+import { checkAdminAccess } from "@/lib/contract-roles";
+import { referralService } from "@/lib/referral-service";
+import type { ReferralPayoutRow } from "@/lib/referrals";
+
+const CSV_COLUMNS: (keyof ReferralPayoutRow)[] = [
+  "referrer",
+  "fid",
+  "code",
+  "referees",
+  "earned",
+  "paid",
+  "owed",
+];
+
+// Amounts stay 1e18-scaled strings so the file can feed a batch transfer
+function toCsv(rows: ReferralPayoutRow[]): string {
+  return [
+    CSV_COLUMNS.join(","),
+    ...rows.map((row) => CSV_COLUMNS.map((key) => row[key] ?? "").join(",")),
+  ].join("\n");
+}
+
+async function requireAdmin(request: NextRequest) {
+  const session = await getSession(request);
+  if (!session) return unauthorized();
+  if (!(await checkAdminAccess(session.address))) {
+    return NextResponse.json(
+      { error: "Only admins can manage referral payouts" },
+      { status: 403 }
+    );
+  }
+  return null;
+}
+
+// GET /api/referrals/admin?format=csv — unpaid referrer balances
+export async function GET(request: NextRequest) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const rows = await referralService.getPayouts();
+    if (new URL(request.url).searchParams.get("format") === "csv") {
+      const date = new Date().toISOString().slice(0, 10);
+      return new NextResponse(toCsv(rows), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="referral-payouts-${date}.csv"`,
+        },
+      });
+    }
+    return NextResponse.json({ rows, shareBps: referralService.shareBps });
+  } catch (error) {
+    console.error("Error exporting referral payouts:", error);
+    return NextResponse.json(
+      { error: "Failed to export referral payouts" },
+      { status: 500 }
+    );
+  }
+}
+
+// Record payouts sent outside the app: { payouts: [{ referrer, amount,
+// txHash? }] } with 1e18-scaled amounts
+export async function POST(request: NextRequest) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    const payouts = body.payouts as
+      | { referrer?: string; amount?: string; txHash?: string }[]
+      | undefined;
+    if (
+      !Array.isArray(payouts) ||
+      payouts.some(
+        (p) =>
+          !p.referrer ||
+          !isAddress(p.referrer) ||
+          typeof p.amount !== "string" ||
+          !/^\d+$/.test(p.amount)
+      )
+    ) {
+      return NextResponse.json(
+        { error: "payouts must list a referrer address and amount each" },
+        { status: 400 }
+      );
+    }
+
+    const results = [];
+    for (const payout of payouts) {
+      try {
+        const totals = await referralService.recordPayout(
+          payout.referrer!,
+          BigInt(payout.amount!),
+          payout.txHash
+        );
+        results.push({ referrer: payout.referrer, recorded: true, totals });
+      } catch (error) {
+        results.push({
+          referrer: payout.referrer,
+          recorded: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error("Error recording referral payouts:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      { error: `Failed to record referral payouts: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
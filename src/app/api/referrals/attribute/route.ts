@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession, unauthorized } from "@/lib/auth-session";
+import {
+  attributeReferralCookie,
+  clearReferralCookie,
+} from "@/lib/referral-service";
+
+// Settle the first-touch referral cookie for the signed-in wallet. Sign-in
+// does the same, so this only matters for visitors who already had a session.
+export async function POST(request: NextRequest) {
+  const session = await getSession(request);
+  if (!session) return unauthorized();
+
+  try {
+    const attributions = await attributeReferralCookie(request, session);
+    const response = NextResponse.json({
+      attributed: attributions.length > 0,
+      referrer: attributions[0]?.referrer ?? null,
+    });
+    clearReferralCookie(response);
+    return response;
+  } catch (error) {
+    console.error("Error attributing referral:", error);
+    return NextResponse.json(
+      { error: "Failed to attribute referral" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAddress } from "viem";
+import { referralService } from "@/lib/referral-service";
+
+// Public lookup used to build share links: codes are meant to be shared
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const address = searchParams.get("address");
+
+  if (!address || !isAddress(address)) {
+    return NextResponse.json(
+      { error: "Valid address is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const code = await referralService.getCode(address);
+    return NextResponse.json({ code: code?.code ?? null });
+  } catch (error) {
+    console.error("Error fetching referral code:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch referral code" },
+      { status: 500 }
+    );
+  }
+}
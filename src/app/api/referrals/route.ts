@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession, unauthorized } from "@/lib/auth-session";
+import {
+  attributeReferralCookie,
+  clearReferralCookie,
+  referralService,
+} from "@/lib/referral-service";
+import { REFERRAL_COOKIE } from "@/lib/referrals";
+
+// The signed-in wallet's referral code, referees and earnings
+export async function GET(request: NextRequest) {
+  const session = await getSession(request);
+  if (!session) return unauthorized();
+
+  try {
+    const response = NextResponse.json(
+      await referralService.getSummary(session.address)
+    );
+    // Visitors who were already signed in when they followed a share link
+    if (request.cookies.has(REFERRAL_COOKIE)) {
+      await attributeReferralCookie(request, session);
+      clearReferralCookie(response);
+    }
+    return response;
+  } catch (error) {
+    console.error("Error fetching referral summary:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch referral summary" },
+      { status: 500 }
+    );
+  }
+}
+
+// Create the caller's code (idempotent); tied to the session's address/fid
+export async function POST(request: NextRequest) {
+  const session = await getSession(request);
+  if (!session) return unauthorized();
+
+  try {
+    await referralService.getOrCreateCode(session.address, session.fid);
+    return NextResponse.json(
+      await referralService.getSummary(session.address)
+    );
+  } catch (error) {
+    console.error("Error creating referral code:", error);
+    return NextResponse.json(
+      { error: "Failed to create referral code" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { marketStreamService } from "@/lib/market-stream-service";
+import {
+  STREAM_HEARTBEAT_MS,
+  encodeStreamEvent,
+  type MarketStreamEvent,
+} from "@/lib/market-stream";
+
+// Long-lived connection fed by the in-process log watcher
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ marketId: string }> }
+) {
+  const { marketId } = await params;
+  if (!/^\d+$/.test(marketId)) {
+    return NextResponse.json({ error: "Invalid market ID" }, { status: 400 });
+  }
+  const id = Number(marketId);
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const send = (event: MarketStreamEvent) =>
+        write(encodeStreamEvent(event));
+
+      // Subscribe before the snapshot so no trade falls in between
+      const unsubscribe = marketStreamService.subscribe(id, send);
+      const heartbeat = setInterval(
+        () => write(": ping\n\n"),
+        STREAM_HEARTBEAT_MS
+      );
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener("abort", () => {
+        // cancel() may already have torn the stream down
+        if (closed) return;
+        cleanup();
+        controller.close();
+      });
+
+      try {
+        send(await marketStreamService.snapshot(id));
+      } catch (error) {
+        console.error(`Market stream snapshot failed for ${id}:`, error);
+        const message = error instanceof Error ? error.message : "Unknown error";
+        // Not "error": that name is taken by EventSource connection errors
+        write(
+          `event: unavailable\ndata: ${JSON.stringify({
+            error: `Failed to load market: ${message}`,
+          })}\n\n`
+        );
+      }
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
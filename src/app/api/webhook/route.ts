@@ -1,9 +1,9 @@
-import { kv } from "@vercel/kv";
 import { NextResponse } from "next/server";
 import {
   parseWebhookEvent,
   verifyAppKeyWithNeynar,
 } from "@farcaster/frame-node";
+import { notificationService } from "@/lib/notification-service";
 
 interface WebhookEvent {
   event: string;
@@ -25,18 +25,18 @@ export async function POST(request: Request) {
     if (eventData.event === "frame_added") {
       const { fid, url, token } = eventData.data;
       if (url && token) {
-        await kv.set(`notification:${fid}`, { url, token });
+        await notificationService.saveDetails(fid, { url, token });
       }
     } else if (
       eventData.event === "frame_removed" ||
       eventData.event === "notifications_disabled"
     ) {
       const { fid } = eventData.data;
-      await kv.del(`notification:${fid}`);
+      await notificationService.removeDetails(fid);
     } else if (eventData.event === "notifications_enabled") {
       const { fid, url, token } = eventData.data;
       if (url && token) {
-        await kv.set(`notification:${fid}`, { url, token });
+        await notificationService.saveDetails(fid, { url, token });
       }
     }
 
@@ -5,6 +5,7 @@ import { Toaster } from "@/components/ui/toaster";
 import WagmiProvider from "@/components/WagmiProvider";
 import { ThemeProvider } from "@/components/theme-provider";
 import { StructuredData } from "@/components/StructuredData";
+import { TradeSlip } from "@/components/TradeSlip";
 
 const geistSans = localFont({
   src: "./fonts/GeistVF.woff",
@@ -108,6 +109,7 @@ export default function RootLayout({
         >
           <WagmiProvider>
             {children}
+            <TradeSlip />
             <Toaster />
           </WagmiProvider>
         </ThemeProvider>
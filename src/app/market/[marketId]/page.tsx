@@ -11,6 +11,7 @@ import { Metadata, ResolvingMetadata } from "next";
 import { notFound, redirect } from "next/navigation";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
+import { REFERRAL_PARAM, isReferralCode } from "@/lib/referrals";
 
 // V1 Market Info Contract Return
 type MarketInfoV1ContractReturn = readonly [
@@ -237,16 +238,24 @@ export async function generateMetadata(
 
 export default async function MarketPage({
   params,
+  searchParams,
 }: {
   params: Promise<{ marketId: string }>;
+  searchParams: Promise<{ [REFERRAL_PARAM]?: string | string[] }>;
 }) {
   const { marketId } = await params;
+  const ref = (await searchParams)[REFERRAL_PARAM];
 
   if (!marketId || isNaN(Number(marketId))) {
     notFound();
   }
 
-  redirect(`/market/${marketId}/details`);
+  // Keep the referral code from share links for the details page to record
+  redirect(
+    `/market/${marketId}/details${
+      isReferralCode(ref) ? `?${REFERRAL_PARAM}=${ref}` : ""
+    }`
+  );
 
   return (
     <div className="flex flex-col items-center justify-center min-h-screen">
@@ -2,6 +2,9 @@
 
 import { UserStats } from "@/components/UserStats";
 import { VoteHistory } from "@/components/VoteHistory";
+import { NotificationSettings } from "@/components/NotificationSettings";
+import { PaperTradingPanel } from "@/components/PaperTradingPanel";
+import { ReferralPanel } from "@/components/ReferralPanel";
 import { useAccount } from "wagmi";
 import { useFarcasterUser } from "@/hooks/useFarcasterUser";
 import { Card, CardContent } from "@/components/ui/card";
@@ -33,6 +36,9 @@ export default function ProfilePage() {
               {/* Stats Section */}
               <div className="lg:col-span-1 space-y-6">
                 <UserStats />
+                <NotificationSettings fid={farcasterUser?.fid} />
+                <PaperTradingPanel />
+                <ReferralPanel />
 
                 {/* V2 Analytics Quick Access
                 <Card className="border-blue-200 bg-gradient-to-br from-blue-50 to-purple-50">
@@ -0,0 +1,359 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  useAccount,
+  useReadContract,
+  useSendCalls,
+  useWaitForCallsStatus,
+} from "wagmi";
+import {
+  AlertTriangle,
+  CheckCircle,
+  Download,
+  FileUp,
+  Loader2,
+  Upload,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  V2contractAddress,
+  V2contractAbi,
+  tokenAddress,
+  tokenAbi,
+} from "@/constants/contract";
+import { CATEGORY_LABELS, MARKET_TYPE_LABELS } from "@/lib/constants";
+import {
+  MAX_IMPORT_ROWS,
+  SAMPLE_IMPORT_CSV,
+  detectImportFormat,
+  parseMarketImport,
+  type ImportRow,
+} from "@/lib/market-import";
+import {
+  buildCreateMarketCalls,
+  getDraftCost,
+  type MarketDraft,
+} from "@/lib/market-templates";
+
+interface ParsedInput {
+  text: string;
+  name: string;
+}
+
+const formatTokens = (wei: bigint) => (Number(wei) / 1e18).toLocaleString();
+
+export function BulkMarketImport() {
+  const { address, isConnected } = useAccount();
+  const { toast } = useToast();
+
+  const [source, setSource] = useState("");
+  const [fileName, setFileName] = useState("");
+  // Last text submitted for parsing; rows re-validate once limits load
+  const [parsedInput, setParsedInput] = useState<ParsedInput | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: minDuration } = useReadContract({
+    address: V2contractAddress,
+    abi: V2contractAbi,
+    functionName: "MIN_MARKET_DURATION",
+  });
+  const { data: maxDuration } = useReadContract({
+    address: V2contractAddress,
+    abi: V2contractAbi,
+    functionName: "MAX_MARKET_DURATION",
+  });
+
+  const { rows, parseError } = useMemo((): {
+    rows: ImportRow[];
+    parseError: string | null;
+  } => {
+    if (!parsedInput || !parsedInput.text.trim()) {
+      return { rows: [], parseError: null };
+    }
+    const limits =
+      minDuration !== undefined && maxDuration !== undefined
+        ? {
+            minSeconds: minDuration as bigint,
+            maxSeconds: maxDuration as bigint,
+          }
+        : undefined;
+    try {
+      const { text, name } = parsedInput;
+      return {
+        rows: parseMarketImport(text, detectImportFormat(name, text), limits),
+        parseError: null,
+      };
+    } catch (error) {
+      return {
+        rows: [],
+        parseError: error instanceof Error ? error.message : "Invalid file",
+      };
+    }
+  }, [parsedInput, minDuration, maxDuration]);
+
+  const { data: allowanceData, refetch: refetchAllowance } = useReadContract({
+    address: tokenAddress,
+    abi: tokenAbi,
+    functionName: "allowance",
+    args: [
+      address || "0x0000000000000000000000000000000000000000",
+      V2contractAddress,
+    ],
+    query: { enabled: isConnected && !!address },
+  });
+  const currentAllowance = (allowanceData as bigint | undefined) ?? 0n;
+
+  const { data: balanceData } = useReadContract({
+    address: tokenAddress,
+    abi: tokenAbi,
+    functionName: "balanceOf",
+    args: [address || "0x0000000000000000000000000000000000000000"],
+    query: { enabled: isConnected && !!address },
+  });
+  const userBalance = (balanceData as bigint | undefined) ?? 0n;
+
+  const { sendCallsAsync, data: callsData } = useSendCalls();
+  const { data: callsStatusData } = useWaitForCallsStatus({
+    id: callsData?.id,
+    query: { enabled: !!callsData?.id },
+  });
+
+  useEffect(() => {
+    if (!callsStatusData || callsStatusData.status === "pending") return;
+    if (callsStatusData.status === "success") {
+      toast({
+        title: "Markets Created",
+        description: "The imported markets may take a moment to appear.",
+      });
+      setParsedInput(null);
+      setSource("");
+      setFileName("");
+      refetchAllowance();
+    } else {
+      toast({
+        title: "Transaction Failed",
+        description: "The import batch did not complete.",
+        variant: "destructive",
+      });
+    }
+    setIsSubmitting(false);
+  }, [callsStatusData, toast, refetchAllowance]);
+
+  const drafts = rows
+    .map((row) => row.draft)
+    .filter((draft): draft is MarketDraft => draft !== null);
+  const invalidCount = rows.length - drafts.length;
+  const totalCost = drafts.reduce(
+    (sum, draft) => sum + getDraftCost(draft),
+    0n
+  );
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setFileName(file.name);
+    setSource(text);
+    setParsedInput({ text, name: file.name });
+  };
+
+  const handleDownloadSample = () => {
+    const blob = new Blob([SAMPLE_IMPORT_CSV], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "markets-sample.csv";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleSubmit = async () => {
+    if (drafts.length === 0 || invalidCount > 0) return;
+    if (userBalance < totalCost) {
+      toast({
+        title: "Insufficient Balance",
+        description: `You need ${formatTokens(
+          totalCost
+        )} BUSTER tokens but only have ${formatTokens(userBalance)}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const { calls } = buildCreateMarketCalls(drafts, currentAllowance);
+      await sendCallsAsync({ calls });
+      toast({
+        title: "Transaction Sent",
+        description: `Creating ${drafts.length} markets in one batch...`,
+      });
+    } catch (error) {
+      console.error("Bulk market creation failed:", error);
+      setIsSubmitting(false);
+      toast({
+        title: "Transaction Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="border-0 shadow-lg bg-gradient-to-br from-[#433952] to-[#544863] max-w-4xl mx-auto">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2 text-white">
+          <FileUp className="h-5 w-5" />
+          Bulk Import
+        </CardTitle>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={handleDownloadSample}
+          className="text-white hover:bg-white/10"
+        >
+          <Download className="h-4 w-4 mr-2" />
+          Sample CSV
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-white/70">
+          Upload a CSV or JSON file with up to {MAX_IMPORT_ROWS} markets. Every
+          row is checked against the minimum liquidity, the contract&apos;s
+          duration limits and the 2–10 option range before anything is sent.
+        </p>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="inline-flex items-center gap-2 px-3 py-2 rounded-md bg-white/10 hover:bg-white/20 text-white text-sm cursor-pointer">
+            <Upload className="h-4 w-4" />
+            Choose File
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+          {fileName && (
+            <span className="text-sm text-white/70">{fileName}</span>
+          )}
+        </div>
+
+        <Textarea
+          placeholder="...or paste CSV / JSON here"
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+          onBlur={() => setParsedInput({ text: source, name: fileName })}
+          rows={5}
+          className="bg-white/10 border-white/20 text-white placeholder:text-white/60 font-mono text-xs"
+        />
+
+        {parseError && (
+          <div className="flex items-center gap-2 p-2 bg-red-900/30 border border-red-400/30 rounded">
+            <AlertTriangle className="h-4 w-4 text-red-300" />
+            <span className="text-red-200 text-sm">{parseError}</span>
+          </div>
+        )}
+
+        {rows.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-sm">
+              <Badge className="bg-green-500/80 text-white">
+                {drafts.length} valid
+              </Badge>
+              {invalidCount > 0 && (
+                <Badge variant="destructive">{invalidCount} invalid</Badge>
+              )}
+            </div>
+            <div className="max-h-80 overflow-y-auto space-y-1">
+              {rows.map((row) => (
+                <div
+                  key={row.row}
+                  className="flex items-start gap-2 p-2 bg-white/10 rounded text-sm"
+                >
+                  {row.error ? (
+                    <AlertTriangle className="h-4 w-4 mt-0.5 text-red-300 flex-shrink-0" />
+                  ) : (
+                    <CheckCircle className="h-4 w-4 mt-0.5 text-green-300 flex-shrink-0" />
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <p className="text-white truncate">
+                      #{row.row} {row.draft?.question ?? ""}
+                    </p>
+                    {row.error ? (
+                      <p className="text-red-200 text-xs">{row.error}</p>
+                    ) : (
+                      row.draft && (
+                        <p className="text-white/60 text-xs">
+                          {CATEGORY_LABELS[row.draft.category]} ·{" "}
+                          {MARKET_TYPE_LABELS[row.draft.marketType]} ·{" "}
+                          {row.draft.options.length} options ·{" "}
+                          {row.draft.durationDays}d ·{" "}
+                          {formatTokens(getDraftCost(row.draft))} BUSTER
+                        </p>
+                      )
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {drafts.length > 0 && (
+          <div className="p-4 bg-[#544863]/30 rounded-lg border border-white/20 space-y-1 text-sm">
+            <div className="flex justify-between text-white/80">
+              <span>Total Required:</span>
+              <span className="text-white">
+                {formatTokens(totalCost)} BUSTER
+              </span>
+            </div>
+            <div className="flex justify-between text-white/80">
+              <span>Your Balance:</span>
+              <span
+                className={
+                  userBalance < totalCost
+                    ? "text-red-300 font-medium"
+                    : "text-green-300 font-medium"
+                }
+              >
+                {formatTokens(userBalance)} BUSTER
+              </span>
+            </div>
+          </div>
+        )}
+
+        <Button
+          onClick={handleSubmit}
+          disabled={
+            isSubmitting ||
+            drafts.length === 0 ||
+            invalidCount > 0 ||
+            userBalance < totalCost
+          }
+          className="w-full bg-white/20 hover:bg-white/30 text-white"
+        >
+          {isSubmitting ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Processing...
+            </>
+          ) : totalCost > currentAllowance ? (
+            `Approve & Create ${drafts.length} Markets`
+          ) : (
+            `Create ${drafts.length} Markets`
+          )}
+        </Button>
+        {invalidCount > 0 && (
+          <p className="text-xs text-red-200 text-center">
+            Fix the invalid rows and re-import before creating.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
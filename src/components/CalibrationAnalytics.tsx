@@ -0,0 +1,309 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Crosshair, RefreshCw } from "lucide-react";
+import { MarketCategory } from "@/types/types";
+import {
+  CALIBRATION_HORIZONS,
+  type CalibrationHorizon,
+  type CalibrationReport,
+} from "@/lib/calibration";
+
+const categoryNames: Record<number, string> = {
+  [MarketCategory.POLITICS]: "Politics",
+  [MarketCategory.SPORTS]: "Sports",
+  [MarketCategory.ENTERTAINMENT]: "Entertainment",
+  [MarketCategory.TECHNOLOGY]: "Technology",
+  [MarketCategory.ECONOMICS]: "Economics",
+  [MarketCategory.SCIENCE]: "Science",
+  [MarketCategory.WEATHER]: "Weather",
+  [MarketCategory.OTHER]: "Other",
+};
+
+const horizonLabels: Record<CalibrationHorizon, string> = {
+  "7d": "7 days before close",
+  "1d": "1 day before close",
+  "1h": "1 hour before close",
+};
+
+// Are Policast prices predictive? Calibration curve and Brier / log scores
+// over resolved markets, by horizon and category.
+export function CalibrationAnalytics() {
+  const [horizon, setHorizon] = useState<CalibrationHorizon>("1d");
+  const [category, setCategory] = useState("all");
+
+  const {
+    data: report,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery({
+    queryKey: ["calibrationReport"],
+    queryFn: async () => {
+      const response = await fetch("/api/analytics/calibration");
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load calibration report");
+      }
+      return data as CalibrationReport;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-72 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !report) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">
+          {error instanceof Error
+            ? error.message
+            : "Calibration data is not available yet."}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const horizonReport = report.horizons[horizon];
+  const scores =
+    category === "all"
+      ? horizonReport.overall
+      : horizonReport.byCategory[Number(category)];
+  const curve = (scores?.bins ?? [])
+    .filter((bin) => bin.forecasts > 0)
+    .map((bin) => ({
+      predicted: Math.round(bin.meanPredicted * 1000) / 10,
+      observed: Math.round(bin.observedFrequency * 1000) / 10,
+      forecasts: bin.forecasts,
+    }));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <Crosshair className="h-5 w-5" />
+            Price Calibration
+          </CardTitle>
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="flex rounded-md border">
+              {(Object.keys(CALIBRATION_HORIZONS) as CalibrationHorizon[]).map(
+                (value) => (
+                  <Button
+                    key={value}
+                    variant={horizon === value ? "default" : "ghost"}
+                    size="sm"
+                    onClick={() => setHorizon(value)}
+                    className="h-8 px-3"
+                  >
+                    T-{value}
+                  </Button>
+                )
+              )}
+            </div>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger className="h-8 w-40">
+                <SelectValue placeholder="Category" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All categories</SelectItem>
+                {Object.entries(categoryNames).map(([value, name]) => (
+                  <SelectItem key={value} value={value}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => refetch()}
+              className="h-8"
+            >
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">Markets Scored</p>
+              <p className="text-2xl font-bold">
+                {scores?.markets ?? 0}
+                <span className="ml-1 text-sm font-normal text-muted-foreground">
+                  of {report.resolvedMarkets} resolved
+                </span>
+              </p>
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                Brier Score (lower is better)
+              </p>
+              <p className="text-2xl font-bold">
+                {scores?.markets ? scores.brier.toFixed(3) : "—"}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                Log Score (closer to 0 is better)
+              </p>
+              <p className="text-2xl font-bold">
+                {scores?.markets ? scores.logScore.toFixed(3) : "—"}
+              </p>
+            </div>
+          </div>
+          <p className="mt-4 text-xs text-muted-foreground">
+            Odds {horizonLabels[horizon]}, from each option&apos;s last trade
+            price, compared with the resolved outcome. Updated{" "}
+            {new Date(report.generatedAt).toLocaleString()}.
+          </p>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-base">Calibration Curve</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {curve.length === 0 ? (
+              <div className="h-64 flex items-center justify-center text-sm text-muted-foreground">
+                No resolved markets with trades at this horizon
+              </div>
+            ) : (
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart
+                    data={curve}
+                    margin={{ top: 10, right: 10, left: 10, bottom: 5 }}
+                  >
+                    <CartesianGrid
+                      strokeDasharray="3 3"
+                      className="stroke-muted-foreground/20"
+                    />
+                    <XAxis
+                      dataKey="predicted"
+                      type="number"
+                      domain={[0, 100]}
+                      className="text-xs fill-muted-foreground"
+                      tickFormatter={(value) => `${value}%`}
+                    />
+                    <YAxis
+                      domain={[0, 100]}
+                      className="text-xs fill-muted-foreground"
+                      tickFormatter={(value) => `${value}%`}
+                      width={40}
+                    />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: "hsl(var(--background))",
+                        border: "1px solid hsl(var(--border))",
+                        borderRadius: "6px",
+                        color: "hsl(var(--foreground))",
+                        fontSize: "12px",
+                      }}
+                      labelFormatter={(value) => `Priced at ${value}%`}
+                      formatter={(value, _, item) => [
+                        `${value}% won (${item.payload.forecasts} forecasts)`,
+                        "Observed",
+                      ]}
+                    />
+                    <ReferenceLine
+                      segment={[
+                        { x: 0, y: 0 },
+                        { x: 100, y: 100 },
+                      ]}
+                      stroke="#a78bfa"
+                      strokeDasharray="4 4"
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="observed"
+                      stroke="hsl(var(--primary))"
+                      strokeWidth={2}
+                      dot={{ r: 4 }}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+            <p className="mt-2 text-xs text-muted-foreground">
+              Points on the dashed line mean options priced at X% won X% of
+              the time.
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">By Category</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-muted-foreground">
+                  <th className="pb-2 font-medium">Category</th>
+                  <th className="pb-2 font-medium text-right">Markets</th>
+                  <th className="pb-2 font-medium text-right">Brier</th>
+                  <th className="pb-2 font-medium text-right">Log</th>
+                </tr>
+              </thead>
+              <tbody>
+                {Object.entries(horizonReport.byCategory)
+                  .sort(([, a], [, b]) => b.markets - a.markets)
+                  .map(([value, categoryScores]) => (
+                    <tr
+                      key={value}
+                      onClick={() => setCategory(value)}
+                      className="cursor-pointer border-t hover:bg-muted/50"
+                    >
+                      <td className="py-1.5">
+                        {categoryNames[Number(value)] ?? `Category ${value}`}
+                      </td>
+                      <td className="py-1.5 text-right">
+                        {categoryScores.markets}
+                      </td>
+                      <td className="py-1.5 text-right">
+                        {categoryScores.brier.toFixed(3)}
+                      </td>
+                      <td className="py-1.5 text-right">
+                        {categoryScores.logScore.toFixed(3)}
+                      </td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
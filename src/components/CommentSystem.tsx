@@ -5,9 +5,23 @@ import { useAccount } from "wagmi";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { MessageCircle, Heart, Reply, Send, Loader2 } from "lucide-react";
+import {
+  MessageCircle,
+  Heart,
+  Reply,
+  Send,
+  Loader2,
+  Flag,
+  LogIn,
+} from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
 import { useFarcasterUser } from "@/hooks/useFarcasterUser";
+import { useWalletSession } from "@/hooks/useWalletSession";
+import {
+  REPORT_REASON_LABELS,
+  type CommentStatus,
+  type ReportReason,
+} from "@/lib/comment-moderation";
 
 interface Comment {
   id: string;
@@ -23,6 +37,7 @@ interface Comment {
   createdAt: string;
   parentId?: string;
   likesCount: number;
+  status?: CommentStatus;
   hasLiked?: boolean;
   replies?: Comment[];
 }
@@ -38,15 +53,19 @@ const CommentItem = ({
   comment,
   onReply,
   onLike,
+  onReport,
   currentUserAddress,
   level = 0,
 }: {
   comment: Comment;
   onReply: (parentId: string) => void;
   onLike: (commentId: string) => void;
+  onReport: (commentId: string, reason: ReportReason) => void;
   currentUserAddress?: string;
   level?: number;
 }) => {
+  const [showReportReasons, setShowReportReasons] = useState(false);
+
   const formatTimeAgo = (createdAt: string) => {
     const now = Date.now();
     const timestamp = new Date(createdAt).getTime();
@@ -63,6 +82,11 @@ const CommentItem = ({
 
   const hasLiked = comment.hasLiked;
   const isMaxDepth = level >= 2; // Limit reply depth
+  // Moderated comments only stay in the thread to anchor their replies
+  const isRemoved = !!comment.status && comment.status !== "visible";
+  const isOwnComment =
+    !!currentUserAddress &&
+    comment.user?.address.toLowerCase() === currentUserAddress.toLowerCase();
 
   return (
     <div
@@ -100,38 +124,80 @@ const CommentItem = ({
         </div>
 
         <div className="text-xs md:text-sm text-gray-700 dark:text-gray-300 mb-2 md:mb-3 leading-relaxed">
-          <LinkifiedText text={comment.content} />
+          {isRemoved ? (
+            <span className="italic text-gray-400">{comment.content}</span>
+          ) : (
+            <LinkifiedText text={comment.content} />
+          )}
         </div>
 
-        <div className="flex items-center gap-2 md:gap-3">
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => onLike(comment.id)}
-            className={`text-xs ${
-              hasLiked
-                ? "text-red-600 dark:text-red-400"
-                : "text-gray-500 dark:text-gray-400"
-            } hover:text-red-600 dark:hover:text-red-400 px-2 py-1 h-auto`}
-          >
-            <Heart
-              className={`w-3 h-3 mr-1 ${hasLiked ? "fill-current" : ""}`}
-            />
-            {comment.likesCount}
-          </Button>
-
-          {!isMaxDepth && (
+        {!isRemoved && (
+          <div className="flex items-center gap-2 md:gap-3">
             <Button
               variant="ghost"
               size="sm"
-              onClick={() => onReply(comment.id)}
-              className="text-xs text-gray-500 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 px-2 py-1 h-auto"
+              onClick={() => onLike(comment.id)}
+              className={`text-xs ${
+                hasLiked
+                  ? "text-red-600 dark:text-red-400"
+                  : "text-gray-500 dark:text-gray-400"
+              } hover:text-red-600 dark:hover:text-red-400 px-2 py-1 h-auto`}
             >
-              <Reply className="w-3 h-3 mr-1" />
-              Reply
+              <Heart
+                className={`w-3 h-3 mr-1 ${hasLiked ? "fill-current" : ""}`}
+              />
+              {comment.likesCount}
             </Button>
-          )}
-        </div>
+
+            {!isMaxDepth && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onReply(comment.id)}
+                className="text-xs text-gray-500 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 px-2 py-1 h-auto"
+              >
+                <Reply className="w-3 h-3 mr-1" />
+                Reply
+              </Button>
+            )}
+
+            {currentUserAddress && !isOwnComment && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowReportReasons(!showReportReasons)}
+                className="text-xs text-gray-500 dark:text-gray-400 hover:text-orange-600 dark:hover:text-orange-400 px-2 py-1 h-auto ml-auto"
+              >
+                <Flag className="w-3 h-3 mr-1" />
+                Report
+              </Button>
+            )}
+          </div>
+        )}
+
+        {showReportReasons && !isRemoved && (
+          <div className="flex flex-wrap items-center gap-1 mt-2">
+            <span className="text-xs text-gray-500 dark:text-gray-400 mr-1">
+              Reason:
+            </span>
+            {(Object.keys(REPORT_REASON_LABELS) as ReportReason[]).map(
+              (reason) => (
+                <Button
+                  key={reason}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    onReport(comment.id, reason);
+                    setShowReportReasons(false);
+                  }}
+                  className="text-xs px-2 py-1 h-auto"
+                >
+                  {REPORT_REASON_LABELS[reason]}
+                </Button>
+              )
+            )}
+          </div>
+        )}
       </div>
 
       {/* Render replies */}
@@ -143,6 +209,7 @@ const CommentItem = ({
               comment={reply}
               onReply={onReply}
               onLike={onLike}
+              onReport={onReport}
               currentUserAddress={currentUserAddress}
               level={level + 1}
             />
@@ -186,6 +253,7 @@ export function CommentSystem({
 }: CommentSystemProps) {
   const { address } = useAccount();
   const farcasterUser = useFarcasterUser();
+  const { isSignedIn, signIn } = useWalletSession();
   const { toast } = useToast();
 
   const [comments, setComments] = useState<Comment[]>([]);
@@ -194,6 +262,7 @@ export function CommentSystem({
   const [newComment, setNewComment] = useState("");
   const [replyingTo, setReplyingTo] = useState<string | null>(null);
   const [replyContent, setReplyContent] = useState("");
+  const [signingIn, setSigningIn] = useState(false);
 
   // Fetch comments
   const fetchComments = useCallback(async () => {
@@ -217,9 +286,31 @@ export function CommentSystem({
     fetchComments();
   }, [fetchComments]);
 
+  // Writes need a signed-in session; returns false if the user declined
+  const ensureSignedIn = async () => {
+    if (isSignedIn) return true;
+    setSigningIn(true);
+    try {
+      await signIn();
+      return true;
+    } catch (error) {
+      console.error("Error signing in:", error);
+      toast({
+        title: "Sign-in failed",
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setSigningIn(false);
+    }
+  };
+
   // Post new comment
   const handlePostComment = async (content: string, parentId?: string) => {
     if (!address || !content.trim()) return;
+    if (!(await ensureSignedIn())) return;
 
     setPosting(true);
     try {
@@ -232,38 +323,40 @@ export function CommentSystem({
           content: content.trim(),
           parentId,
           author: {
-            fid: farcasterUser?.fid || "unknown",
             username: farcasterUser?.username || `User ${address.slice(0, 6)}`,
             pfpUrl: farcasterUser?.pfpUrl,
-            address,
           },
         }),
       });
 
-      if (response.ok) {
-        toast({
-          title: "Comment posted!",
-          description: "Your comment has been added successfully.",
-        });
-
-        // Reset forms
-        if (parentId) {
-          setReplyContent("");
-          setReplyingTo(null);
-        } else {
-          setNewComment("");
-        }
-
-        // Refresh comments
-        fetchComments();
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to post comment");
+      }
+
+      toast({
+        title: "Comment posted!",
+        description: "Your comment has been added successfully.",
+      });
+
+      // Reset forms
+      if (parentId) {
+        setReplyContent("");
+        setReplyingTo(null);
       } else {
-        throw new Error("Failed to post comment");
+        setNewComment("");
       }
+
+      // Refresh comments
+      fetchComments();
     } catch (error) {
       console.error("Error posting comment:", error);
       toast({
         title: "Error",
-        description: "Failed to post comment. Please try again.",
+        description:
+          error instanceof Error && error.message !== "Failed to post comment"
+            ? error.message
+            : "Failed to post comment. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -280,15 +373,13 @@ export function CommentSystem({
       });
       return;
     }
+    if (!(await ensureSignedIn())) return;
 
     try {
       const response = await fetch("/api/comments/like", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          commentId,
-          userAddress: address,
-        }),
+        body: JSON.stringify({ commentId }),
       });
 
       if (response.ok) {
@@ -313,6 +404,33 @@ export function CommentSystem({
     }
   };
 
+  const handleReport = async (commentId: string, reason: ReportReason) => {
+    if (!address || !(await ensureSignedIn())) return;
+
+    try {
+      const response = await fetch("/api/comments/report", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ commentId, reason }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to report");
+
+      toast({
+        title: "Comment reported",
+        description: "Thanks, a moderator will review it.",
+      });
+    } catch (error) {
+      console.error("Error reporting comment:", error);
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to report comment.",
+        variant: "destructive",
+      });
+    }
+  };
+
   // Helper function to update a comment in the nested tree structure
   const updateCommentInTree = (
     comments: Comment[],
@@ -377,16 +495,18 @@ export function CommentSystem({
               </span>
               <Button
                 onClick={() => handlePostComment(newComment)}
-                disabled={!newComment.trim() || posting}
+                disabled={!newComment.trim() || posting || signingIn}
                 size="sm"
                 className="text-xs md:text-sm"
               >
-                {posting ? (
+                {posting || signingIn ? (
                   <Loader2 className="w-3 h-3 md:w-4 md:h-4 animate-spin mr-1 md:mr-2" />
-                ) : (
+                ) : isSignedIn ? (
                   <Send className="w-3 h-3 md:w-4 md:h-4 mr-1 md:mr-2" />
+                ) : (
+                  <LogIn className="w-3 h-3 md:w-4 md:h-4 mr-1 md:mr-2" />
                 )}
-                Post Comment
+                {isSignedIn ? "Post Comment" : "Sign In & Post"}
               </Button>
             </div>
           </div>
@@ -414,6 +534,7 @@ export function CommentSystem({
                   comment={comment}
                   onReply={handleReply}
                   onLike={handleLike}
+                  onReport={handleReport}
                   currentUserAddress={address}
                 />
 
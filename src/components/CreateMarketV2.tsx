@@ -44,6 +44,12 @@ import {
   MARKET_TYPE_LABELS,
   QUESTION_CREATOR_ROLE,
 } from "@/lib/constants";
+import {
+  hasUnfilledVariables,
+  type MarketDraft,
+} from "@/lib/market-templates";
+import { MarketTemplatePanel } from "./MarketTemplatePanel";
+import { ScheduledMarketsQueue } from "./ScheduledMarketsQueue";
 
 interface MarketOption {
   name: string;
@@ -78,6 +84,7 @@ export function CreateMarketV2() {
 
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [marketCreated, setMarketCreated] = useState(false);
+  const [scheduleRefreshKey, setScheduleRefreshKey] = useState(0);
 
   // Transaction hooks
   const {
@@ -247,6 +254,33 @@ export function CreateMarketV2() {
     return true;
   };
 
+  // Form <-> template draft conversion for MarketTemplatePanel
+  const currentDraft: MarketDraft = {
+    question,
+    description,
+    options,
+    category,
+    marketType,
+    durationDays: duration,
+    initialLiquidity,
+    earlyResolutionAllowed,
+    maxFreeParticipants,
+    freeSharesPerUser,
+  };
+
+  const loadDraft = (draft: MarketDraft) => {
+    setQuestion(draft.question);
+    setDescription(draft.description);
+    setOptions(draft.options.map((option) => ({ ...option })));
+    setCategory(draft.category);
+    setMarketType(draft.marketType);
+    setDuration(draft.durationDays);
+    setInitialLiquidity(draft.initialLiquidity);
+    setEarlyResolutionAllowed(draft.earlyResolutionAllowed);
+    setMaxFreeParticipants(draft.maxFreeParticipants || "3");
+    setFreeSharesPerUser(draft.freeSharesPerUser || "100");
+  };
+
   const removeOption = (index: number) => {
     if (options.length > 2) {
       setOptions(options.filter((_, i) => i !== index));
@@ -275,6 +309,21 @@ export function CreateMarketV2() {
       return false;
     }
 
+    const formTexts = [
+      question,
+      description,
+      ...options.flatMap((opt) => [opt.name, opt.description]),
+    ];
+    if (formTexts.some(hasUnfilledVariables)) {
+      toast({
+        title: "Error",
+        description:
+          "Fill the template variables (Fill Form) before creating the market",
+        variant: "destructive",
+      });
+      return false;
+    }
+
     if (!question.trim()) {
       toast({
         title: "Error",
@@ -692,6 +741,12 @@ export function CreateMarketV2() {
 
   return (
     <div className="space-y-6 max-w-4xl mx-auto">
+      <MarketTemplatePanel
+        draft={currentDraft}
+        onLoadDraft={loadDraft}
+        onScheduled={() => setScheduleRefreshKey((key) => key + 1)}
+      />
+
       <Card className="border-0 shadow-lg bg-gradient-to-br from-[#433952] to-[#544863]">
         <CardHeader>
           <CardTitle className="flex items-center gap-2 text-white">
@@ -1226,6 +1281,8 @@ export function CreateMarketV2() {
           </div>
         </CardContent>
       </Card>
+
+      <ScheduledMarketsQueue refreshKey={scheduleRefreshKey} />
     </div>
   );
 }
@@ -0,0 +1,299 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useAccount, useSignMessage, useWriteContract } from "wagmi";
+import { AlertTriangle, Loader2, RefreshCw, ShieldAlert } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  publicClient,
+  V2contractAddress,
+  V2contractAbi,
+} from "@/constants/contract";
+import {
+  buildEvidenceMessage,
+  reviewFields,
+  type DisputeQueueItem,
+  type DisputeStatus,
+} from "@/lib/resolution-evidence";
+import {
+  DISPUTE_STATUS_VARIANTS,
+  EvidenceSourceList,
+} from "./ResolutionEvidencePanel";
+
+type QueueFilter = "pending" | DisputeStatus;
+
+const FILTER_STATUSES: Record<QueueFilter, string> = {
+  pending: "open,under_review",
+  open: "open",
+  under_review: "under_review",
+  upheld: "upheld",
+  rejected: "rejected",
+};
+
+export function DisputeQueue() {
+  const { address } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const { writeContractAsync } = useWriteContract();
+  const { toast } = useToast();
+
+  const [disputes, setDisputes] = useState<DisputeQueueItem[]>([]);
+  const [filter, setFilter] = useState<QueueFilter>("pending");
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(
+        `/api/disputes?status=${FILTER_STATUSES[filter]}`
+      );
+      if (!response.ok) throw new Error("Failed to fetch disputes");
+      const data = await response.json();
+      setDisputes(data.disputes || []);
+    } catch (error) {
+      console.error("Error fetching dispute queue:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const handleReview = async (
+    dispute: DisputeQueueItem,
+    status: DisputeStatus
+  ) => {
+    if (!address) return;
+    const note = notes[dispute.id]?.trim() || undefined;
+
+    try {
+      setPendingId(dispute.id);
+      const issuedAt = Date.now();
+      const signature = await signMessageAsync({
+        message: buildEvidenceMessage(
+          "review",
+          reviewFields({ disputeId: dispute.id, status, note }),
+          issuedAt
+        ),
+      });
+
+      const response = await fetch("/api/disputes/review", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          disputeId: dispute.id,
+          status,
+          note,
+          address,
+          signature,
+          issuedAt,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Review failed");
+
+      toast({ title: `Dispute marked ${status.replace("_", " ")}` });
+      await fetchQueue();
+    } catch (error) {
+      console.error("Error reviewing dispute:", error);
+      toast({
+        title: "Review Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  // Escalate an upheld dispute to the contract's dispute mechanism
+  const handleDisputeOnChain = async (dispute: DisputeQueueItem) => {
+    try {
+      setPendingId(dispute.id);
+      const hash = await writeContractAsync({
+        address: V2contractAddress,
+        abi: V2contractAbi,
+        functionName: "disputeMarket",
+        args: [BigInt(dispute.marketId), dispute.reason.slice(0, 500)],
+      });
+      await publicClient.waitForTransactionReceipt({ hash });
+      toast({ title: "Market Disputed On-Chain" });
+      await fetchQueue();
+    } catch (error) {
+      console.error("Error disputing market on-chain:", error);
+      toast({
+        title: "Transaction Failed",
+        description: "Failed to dispute market.",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <Card className="border-0 shadow-lg bg-gradient-to-br from-[#433952] to-[#544863]">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2 text-white">
+          <ShieldAlert className="h-5 w-5" />
+          Dispute Queue ({disputes.length})
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          <Select
+            value={filter}
+            onValueChange={(value: QueueFilter) => setFilter(value)}
+          >
+            <SelectTrigger className="w-40 bg-white/10 border-white/20 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Needs Review</SelectItem>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="under_review">Under Review</SelectItem>
+              <SelectItem value="upheld">Upheld</SelectItem>
+              <SelectItem value="rejected">Rejected</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={fetchQueue}
+            className="text-white hover:bg-white/10"
+          >
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && disputes.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-white/60" />
+          </div>
+        ) : disputes.length === 0 ? (
+          <p className="text-center text-white/70 py-8">
+            No disputes in this queue.
+          </p>
+        ) : (
+          disputes.map((dispute) => (
+            <Card key={dispute.id} className="border-0 bg-white/10">
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <Link
+                      href={`/market/${dispute.marketId}`}
+                      className="font-medium text-white hover:text-white/80"
+                    >
+                      Market #{dispute.marketId}
+                    </Link>
+                    <p className="text-xs text-white/60">
+                      {dispute.disputer} ·{" "}
+                      {new Date(dispute.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {dispute.onChainDisputed && (
+                      <Badge variant="destructive">Disputed on-chain</Badge>
+                    )}
+                    <Badge variant={DISPUTE_STATUS_VARIANTS[dispute.status]}>
+                      {dispute.status.replace("_", " ")}
+                    </Badge>
+                  </div>
+                </div>
+
+                <p className="text-sm text-white whitespace-pre-wrap">
+                  {dispute.reason}
+                </p>
+                <EvidenceSourceList sources={dispute.sources} />
+
+                {dispute.reviewNote && (
+                  <p className="text-xs text-white/70 italic">
+                    Note: {dispute.reviewNote}
+                  </p>
+                )}
+
+                {(dispute.status === "open" ||
+                  dispute.status === "under_review") && (
+                  <div className="space-y-2">
+                    <Input
+                      placeholder="Review note (optional)"
+                      value={notes[dispute.id] ?? ""}
+                      onChange={(e) =>
+                        setNotes((prev) => ({
+                          ...prev,
+                          [dispute.id]: e.target.value,
+                        }))
+                      }
+                      className="bg-white/10 border-white/20 text-white placeholder:text-white/60"
+                    />
+                    <div className="flex flex-wrap gap-2">
+                      {dispute.status === "open" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={pendingId === dispute.id}
+                          onClick={() => handleReview(dispute, "under_review")}
+                          className="bg-white/10 hover:bg-white/20 text-white border-white/20"
+                        >
+                          Start Review
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        disabled={pendingId === dispute.id}
+                        onClick={() => handleReview(dispute, "upheld")}
+                        className="bg-red-500/80 hover:bg-red-500 text-white"
+                      >
+                        Uphold
+                      </Button>
+                      <Button
+                        size="sm"
+                        disabled={pendingId === dispute.id}
+                        onClick={() => handleReview(dispute, "rejected")}
+                        className="bg-white/20 hover:bg-white/30 text-white"
+                      >
+                        Reject
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {dispute.status === "upheld" &&
+                  dispute.onChainDisputed === false && (
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      disabled={pendingId === dispute.id}
+                      onClick={() => handleDisputeOnChain(dispute)}
+                      className="flex items-center gap-2"
+                    >
+                      {pendingId === dispute.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <AlertTriangle className="h-4 w-4" />
+                      )}
+                      Dispute On-Chain
+                    </Button>
+                  )}
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
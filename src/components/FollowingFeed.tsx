@@ -0,0 +1,256 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { Loader2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { useFarcasterUser } from "@/hooks/useFarcasterUser";
+import { useWalletSession } from "@/hooks/useWalletSession";
+import { cn } from "@/lib/utils";
+import type { FeedPage, FeedTrade } from "@/lib/social-feed";
+
+// Format a 1e18-scaled share count with up to two decimals
+function formatShares(amount: string): string {
+  return (Number(amount) / 1e18).toLocaleString(undefined, {
+    maximumFractionDigits: 2,
+  });
+}
+
+// Lets the signed-in wallet keep its trades out of other users' feeds
+function FeedPrivacyToggle() {
+  const { toast } = useToast();
+  const { isSignedIn, loading, signIn } = useWalletSession();
+  const [optedOut, setOptedOut] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isSignedIn) return;
+    fetch("/api/feed/privacy")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => data && setOptedOut(data.optedOut))
+      .catch((error) => console.error("Error fetching feed privacy:", error));
+  }, [isSignedIn]);
+
+  const handleChange = async (checked: boolean) => {
+    try {
+      setIsSaving(true);
+      const response = await fetch("/api/feed/privacy", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ optedOut: checked }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to save");
+      setOptedOut(data.optedOut);
+    } catch (error) {
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loading) return null;
+
+  return (
+    <div className="flex items-center justify-between gap-2 border-t border-[#544863] px-4 py-3">
+      {isSignedIn ? (
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="feed-opt-out"
+            checked={optedOut}
+            disabled={isSaving}
+            onCheckedChange={(checked) => handleChange(checked === true)}
+          />
+          <Label htmlFor="feed-opt-out" className="text-xs text-gray-300">
+            Hide my trades from my followers&apos; feeds
+          </Label>
+        </div>
+      ) : (
+        <>
+          <p className="text-xs text-gray-400">
+            Sign in to hide your trades from your followers&apos; feeds
+          </p>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() =>
+              signIn().catch((error) =>
+                toast({
+                  title: "Sign-in Failed",
+                  description:
+                    error instanceof Error ? error.message : "Unknown error",
+                  variant: "destructive",
+                })
+              )
+            }
+          >
+            Sign in
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
+
+function FeedItem({ trade }: { trade: FeedTrade }) {
+  return (
+    <div className="flex items-start gap-3 rounded-lg border border-[#544863] bg-[#433952]/50 p-3">
+      <img
+        className="h-9 w-9 rounded-full object-cover border-2 border-[#544863]"
+        src={trade.trader.pfpUrl || "/default-avatar.png"}
+        alt={`${trade.trader.username}'s avatar`}
+      />
+      <div className="min-w-0 flex-grow">
+        <p className="text-sm text-gray-200">
+          <span className="font-semibold text-gray-100">
+            {trade.trader.displayName || trade.trader.username}
+          </span>{" "}
+          <span
+            className={cn(
+              "font-medium",
+              trade.side === "buy" ? "text-green-400" : "text-red-400"
+            )}
+          >
+            {trade.side === "buy" ? "bought" : "sold"}
+          </span>{" "}
+          {formatShares(trade.quantity)} {trade.optionName} at an avg.{" "}
+          {(trade.avgPrice * 100).toFixed(0)}%
+        </p>
+        <Link
+          href={`/market/${trade.marketId}/details`}
+          className="block truncate text-xs text-purple-300 hover:underline"
+        >
+          {trade.question}
+        </Link>
+        <p className="text-xs text-gray-500">
+          @{trade.trader.username} ·{" "}
+          {formatDistanceToNow(new Date(trade.timestamp * 1000), {
+            addSuffix: true,
+          })}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+// Recent trades by the Farcaster accounts the viewer follows
+export function FollowingFeed() {
+  const farcasterUser = useFarcasterUser();
+  const fid = farcasterUser?.fid;
+  const [trades, setTrades] = useState<FeedTrade[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [following, setFollowing] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPage = useCallback(
+    async (cursor?: string) => {
+      if (!fid) return;
+      const params = new URLSearchParams({ fid: String(fid) });
+      if (cursor) params.set("cursor", cursor);
+      try {
+        if (cursor) setIsLoadingMore(true);
+        else setIsLoading(true);
+        const response = await fetch(`/api/feed/following?${params}`);
+        if (!response.ok) throw new Error("Failed to fetch feed");
+        const page: FeedPage = await response.json();
+        setTrades((prev) =>
+          cursor ? [...prev, ...page.trades] : page.trades
+        );
+        setNextCursor(page.nextCursor);
+        setFollowing(page.following);
+        setError(null);
+      } catch (err) {
+        setError("Failed to load following feed");
+        console.error(err);
+      } finally {
+        setIsLoading(false);
+        setIsLoadingMore(false);
+      }
+    },
+    [fid]
+  );
+
+  useEffect(() => {
+    fetchPage();
+  }, [fetchPage]);
+
+  const renderBody = () => {
+    if (!fid) {
+      return (
+        <div className="flex flex-col items-center p-6 text-center">
+          <Users className="h-12 w-12 text-gray-500" />
+          <p className="mt-2 text-sm font-medium text-gray-400">
+            Open Policast in a Farcaster client
+          </p>
+          <p className="mt-1 text-xs text-gray-500">
+            See what the people you follow are trading
+          </p>
+        </div>
+      );
+    }
+    if (isLoading) {
+      return (
+        <div className="flex justify-center p-10">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-400" />
+        </div>
+      );
+    }
+    if (error) {
+      return <div className="p-4 text-center text-red-400">{error}</div>;
+    }
+    if (trades.length === 0) {
+      return (
+        <div className="flex flex-col items-center p-6 text-center">
+          <Users className="h-12 w-12 text-gray-500" />
+          <p className="mt-2 text-sm font-medium text-gray-400">
+            No trades from people you follow yet
+          </p>
+          <p className="mt-1 text-xs text-gray-500">
+            {following > 0
+              ? `Watching ${following} accounts with a verified wallet`
+              : "None of the accounts you follow have a verified wallet"}
+          </p>
+        </div>
+      );
+    }
+    return (
+      <div className="flex flex-col gap-2 p-4">
+        {trades.map((trade) => (
+          <FeedItem key={trade.id} trade={trade} />
+        ))}
+        {nextCursor && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="self-center"
+            disabled={isLoadingMore}
+            onClick={() => fetchPage(nextCursor)}
+          >
+            {isLoadingMore ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              "Load more"
+            )}
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      {renderBody()}
+      <FeedPrivacyToggle />
+    </div>
+  );
+}
@@ -5,7 +5,7 @@ import { MarketOption, MarketV2 } from "@/types/types";
 import { cn } from "@/lib/utils";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
-import { Loader2, Check } from "lucide-react";
+import { Loader2, Check, AlertTriangle, Layers } from "lucide-react";
 import {
   useAccount,
   useReadContract,
@@ -22,20 +22,37 @@ import {
   PolicastViews,
   PolicastViewsAbi,
 } from "@/constants/contract";
-import { encodeFunctionData } from "viem";
+import { sharesToWei } from "@/lib/lmsr";
+import { fetchBuyQuote } from "@/lib/lmsr-state";
+import { useLMSRState, useLMSRBuyQuote } from "@/hooks/useLMSRState";
+import { useSpendQuote } from "@/hooks/useSpendQuote";
+import { useTradeSettings } from "@/hooks/useTradeSettings";
+import { useTradeSlip } from "@/hooks/useTradeSlip";
+import { usePaperTrading } from "@/hooks/usePaperTrading";
+import {
+  buyLimits,
+  checkedBuyLimits,
+  formatBps,
+  isPriceImpactHigh,
+  isQuoteExpired,
+  priceImpactBps,
+} from "@/lib/trade-settings";
+import { TradeSettingsDialog } from "./TradeSettingsDialog";
+import { encodeFunctionData, formatEther } from "viem";
 import { useToast } from "@/components/ui/use-toast";
 
 const MAX_SHARES = 10000;
 
-// Helper functions
-function sharesToWei(amount: string): bigint {
-  if (!amount) return 0n;
-  const parts = amount.split(".");
-  const integer = parts[0] || "0";
-  const fraction = (parts[1] || "").padEnd(18, "0").slice(0, 18);
-  return BigInt(integer + fraction);
+// Convert a decimal token amount to base units
+function toUnits(value: string, decimals: number): bigint {
+  if (!value) return 0n;
+  const [intPart, fracRaw = ""] = value.split(".");
+  const frac = fracRaw.padEnd(decimals, "0").slice(0, decimals);
+  const normalized = `${intPart || "0"}${frac}`.replace(/^0+(?=\d)/, "");
+  return normalized ? BigInt(normalized) : 0n;
 }
 
+// Helper functions
 function formatPrice(amount: bigint, decimals = 18): string {
   const negative = amount < 0n;
   const x = negative ? -amount : amount;
@@ -75,6 +92,7 @@ type BuyingStep = "initial" | "amount" | "allowance" | "confirm" | "success";
 
 export function InteractiveTradingInterface({
   marketId,
+  market,
   options,
   probabilities,
   totalVolume,
@@ -88,6 +106,9 @@ export function InteractiveTradingInterface({
 
   const [selectedOptionId, setSelectedOptionId] = useState<number | null>(null);
   const [amount, setAmount] = useState<string>("");
+  // "spend" mode: the user enters a token budget and `amount` follows it
+  const [buyMode, setBuyMode] = useState<"shares" | "spend">("shares");
+  const [budget, setBudget] = useState<string>("");
   const [buyingStep, setBuyingStep] = useState<BuyingStep>("initial");
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -96,6 +117,15 @@ export function InteractiveTradingInterface({
   );
   const inputRef = useRef<HTMLInputElement>(null);
   const processedStatusRef = useRef<Set<string>>(new Set());
+  // Quantity and bounds confirmed against the contract's quote, and when; the
+  // deadline is checked again before buyShares is sent. Spend mode's solved
+  // quantity is frozen here so the buy matches what was reviewed.
+  const reviewedLimitsRef = useRef<{
+    reviewedAt: number;
+    quantity: bigint;
+    maxPricePerShare: bigint;
+    maxTotalCost: bigint;
+  } | null>(null);
 
   // Token information
   const { data: tokenSymbol } = useReadContract({
@@ -142,27 +172,107 @@ export function InteractiveTradingInterface({
     [marketId, selectedOptionId, sharesInWei]
   );
 
+  // Quote locally from LMSR state; fall back to the on-chain quote until the
+  // state has loaded. Paper mode quotes against the simulated state.
+  const {
+    enabled: paperMode,
+    summary: paperSummary,
+    trade: paperTrade,
+    simulate: simulatePaper,
+    sharesFor: paperSharesFor,
+  } = usePaperTrading();
+  const { state: liveLmsrState } = useLMSRState(marketId, options.length);
+  const lmsrState = useMemo(
+    () => simulatePaper(liveLmsrState, marketId),
+    [simulatePaper, liveLmsrState, marketId]
+  );
+  const heldShares = useMemo(
+    () => (paperMode ? paperSharesFor(marketId, options.length) : userShares),
+    [paperMode, paperSharesFor, marketId, options.length, userShares]
+  );
+  const localBuyQuote = useLMSRBuyQuote(
+    lmsrState,
+    selectedOptionId,
+    sharesInWei
+  );
+
+  // Spend mode: solve the largest share amount the budget covers (fee
+  // included) and feed it into the normal share-based flow
+  const budgetInWei = useMemo(
+    () =>
+      buyMode === "spend"
+        ? toUnits(budget, Number(tokenDecimals ?? 18))
+        : 0n,
+    [buyMode, budget, tokenDecimals]
+  );
+  const { quantity: spendQuantity, isSolving: isSolvingBudget } =
+    useSpendQuote(lmsrState, marketId, selectedOptionId, budgetInWei);
+
+  useEffect(() => {
+    if (buyMode !== "spend") return;
+    setAmount(spendQuantity > 0n ? formatEther(spendQuantity) : "");
+    setError(
+      spendQuantity > BigInt(MAX_SHARES) * 10n ** 18n
+        ? `Maximum ${MAX_SHARES} shares per purchase`
+        : null
+    );
+  }, [buyMode, spendQuantity]);
+
   const { data: buyQuote } = useReadContract({
     address: PolicastViews,
     abi: PolicastViewsAbi,
     functionName: "quoteBuy",
     args: quoteBuyArgs,
     query: {
-      enabled: selectedOptionId !== null && sharesInWei > 0n,
+      enabled: !lmsrState && selectedOptionId !== null && sharesInWei > 0n,
       refetchInterval: 2000,
     },
   });
 
-  const estimatedCost = useMemo(() => {
-    if (!buyQuote) return 0n;
-    const [, , totalCost] = buyQuote as readonly [
+  const quote = useMemo(() => {
+    if (localBuyQuote) return localBuyQuote;
+    if (!buyQuote) return undefined;
+    const [rawCost, fee, totalCost, avgPricePerShare] = buyQuote as readonly [
       bigint,
       bigint,
       bigint,
       bigint
     ];
-    return totalCost;
-  }, [buyQuote]);
+    return { rawCost, fee, totalCost, avgPricePerShare };
+  }, [localBuyQuote, buyQuote]);
+
+  const estimatedCost = quote?.totalCost ?? 0n;
+
+  // Slippage bounds and price impact from the wallet's trade settings
+  const { settings: tradeSettings } = useTradeSettings();
+  const purchaseLimits = useMemo(
+    () =>
+      buyLimits(
+        {
+          totalCost: estimatedCost,
+          avgPricePerShare:
+            quote?.avgPricePerShare ??
+            (selectedOptionId !== null
+              ? options[selectedOptionId].currentPrice
+              : 0n),
+        },
+        tradeSettings
+      ),
+    [estimatedCost, quote, selectedOptionId, options, tradeSettings]
+  );
+  const priceImpact = useMemo(
+    () =>
+      priceImpactBps(
+        selectedOptionId !== null
+          ? options[selectedOptionId]?.currentPrice
+          : undefined,
+        quote?.rawCost ?? 0n,
+        sharesInWei,
+        "buy"
+      ),
+    [selectedOptionId, options, quote, sharesInWei]
+  );
+  const highPriceImpact = isPriceImpactHigh(priceImpact, tradeSettings);
 
   // Check if wallet supports batch transactions
   const supportsBatchTransactions =
@@ -201,18 +311,47 @@ export function InteractiveTradingInterface({
     },
   });
 
-  const calculateMaxPrice = useCallback((currentPrice: bigint): bigint => {
-    return (currentPrice * 110n) / 100n; // 10% slippage
-  }, []);
-
   const resetInterface = useCallback(() => {
     setSelectedOptionId(null);
     setAmount("");
+    setBudget("");
     setBuyingStep("initial");
     setIsProcessing(false);
     setError(null);
   }, []);
 
+  // Park the current option/amount on the cross-market trade slip
+  const { addLeg } = useTradeSlip();
+  const handleAddToSlip = useCallback(() => {
+    if (selectedOptionId === null || sharesToWei(amount) <= 0n) return;
+    try {
+      addLeg({
+        marketId,
+        optionId: selectedOptionId,
+        optionCount: options.length,
+        question: market.question,
+        optionName: options[selectedOptionId].name,
+        shares: amount,
+      });
+      toast({
+        title: "Added to Trade Slip",
+        description: `${amount} shares of ${options[selectedOptionId].name}`,
+      });
+      resetInterface();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, [
+    selectedOptionId,
+    amount,
+    addLeg,
+    marketId,
+    options,
+    market.question,
+    toast,
+    resetInterface,
+  ]);
+
   const dispatchMarketUpdate = useCallback(() => {
     window.dispatchEvent(
       new CustomEvent("market-updated", {
@@ -232,9 +371,16 @@ export function InteractiveTradingInterface({
 
     try {
       setIsProcessing(true);
-      const amountInUnits = sharesToWei(amount);
-      const requiredBalance = estimatedCost;
-      const needsApproval = requiredBalance > (userAllowance || 0n);
+      const reviewed = reviewedLimitsRef.current;
+      if (!reviewed) {
+        throw new Error("Purchase was not reviewed");
+      }
+      const {
+        quantity: amountInUnits,
+        maxPricePerShare,
+        maxTotalCost,
+      } = reviewed;
+      const needsApproval = maxTotalCost > (userAllowance || 0n);
 
       if (needsApproval) {
         setBuyingStep("allowance");
@@ -242,18 +388,18 @@ export function InteractiveTradingInterface({
           address: tokenAddress,
           abi: tokenAbi,
           functionName: "approve",
-          args: [V2contractAddress, requiredBalance],
+          args: [V2contractAddress, maxTotalCost],
         });
       }
 
+      // Approval can sit in the wallet for a while; don't sign a stale quote
+      if (isQuoteExpired(reviewed.reviewedAt, tradeSettings)) {
+        setError("Quote expired. Please review the purchase again.");
+        setBuyingStep("amount");
+        return;
+      }
+
       setBuyingStep("confirm");
-      const avgPricePerShare = estimatedCost
-        ? (estimatedCost * BigInt(1e18)) / amountInUnits
-        : options[selectedOptionId].currentPrice;
-      const maxPricePerShare = calculateMaxPrice(avgPricePerShare);
-      const maxTotalCost = requiredBalance
-        ? (requiredBalance * 102n) / 100n
-        : requiredBalance;
 
       await writeContractAsync({
         address: V2contractAddress,
@@ -291,10 +437,8 @@ export function InteractiveTradingInterface({
     selectedOptionId,
     amount,
     tokenDecimals,
-    estimatedCost,
     userAllowance,
-    options,
-    calculateMaxPrice,
+    tradeSettings,
     marketId,
     writeContractAsync,
     toast,
@@ -311,12 +455,15 @@ export function InteractiveTradingInterface({
 
     try {
       setIsProcessing(true);
-      const amountInUnits = sharesToWei(amount);
-      const requiredBalance = estimatedCost;
-      const avgPricePerShare = estimatedCost
-        ? (estimatedCost * BigInt(1e18)) / amountInUnits
-        : options[selectedOptionId].currentPrice;
-      const maxPricePerShare = calculateMaxPrice(avgPricePerShare);
+      const reviewed = reviewedLimitsRef.current;
+      if (!reviewed) {
+        throw new Error("Purchase was not reviewed");
+      }
+      const {
+        quantity: amountInUnits,
+        maxPricePerShare,
+        maxTotalCost,
+      } = reviewed;
 
       const batchCalls = [
         {
@@ -324,7 +471,7 @@ export function InteractiveTradingInterface({
           data: encodeFunctionData({
             abi: tokenAbi,
             functionName: "approve",
-            args: [V2contractAddress, requiredBalance],
+            args: [V2contractAddress, maxTotalCost],
           }),
         },
         {
@@ -337,7 +484,7 @@ export function InteractiveTradingInterface({
               BigInt(selectedOptionId),
               amountInUnits,
               maxPricePerShare,
-              requiredBalance,
+              maxTotalCost,
             ],
           }),
         },
@@ -355,16 +502,60 @@ export function InteractiveTradingInterface({
     selectedOptionId,
     amount,
     tokenDecimals,
-    estimatedCost,
-    options,
-    calculateMaxPrice,
     marketId,
     sendCalls,
     handleSequentialPurchase,
   ]);
 
-  const handleConfirmPurchase = useCallback(() => {
-    if (!amount || parseFloat(amount) <= 0) {
+  // Paper mode: fill against the simulated market, nothing is sent on-chain
+  const handlePaperPurchase = useCallback(async () => {
+    if (selectedOptionId === null) return;
+    const paperBalance = BigInt(paperSummary?.account.balance ?? "0");
+    if (paperSummary && estimatedCost > paperBalance) {
+      setError(
+        `Insufficient paper balance. Need: ${formatPrice(estimatedCost)}`
+      );
+      return;
+    }
+
+    setIsProcessing(true);
+    setBuyingStep("confirm");
+    try {
+      await paperTrade({
+        marketId,
+        optionId: selectedOptionId,
+        side: "buy",
+        quantity: sharesInWei.toString(),
+        limit: purchaseLimits.maxTotalCost.toString(),
+      });
+      setBuyingStep("success");
+      toast({
+        title: "Paper Trade Filled",
+        description: `Bought ${amount} paper shares of ${options[selectedOptionId]?.name}`,
+      });
+      setAmount("");
+      setBudget("");
+    } catch (err) {
+      setBuyingStep("amount");
+      setError(err instanceof Error ? err.message : "Paper trade failed");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [
+    selectedOptionId,
+    paperSummary,
+    estimatedCost,
+    paperTrade,
+    marketId,
+    sharesInWei,
+    purchaseLimits,
+    toast,
+    amount,
+    options,
+  ]);
+
+  const handleConfirmPurchase = useCallback(async () => {
+    if (!amount || selectedOptionId === null || sharesInWei <= 0n) {
       setError("Please enter a valid amount");
       return;
     }
@@ -376,6 +567,11 @@ export function InteractiveTradingInterface({
       return;
     }
 
+    if (paperMode) {
+      handlePaperPurchase();
+      return;
+    }
+
     if (!userBalance || !tokenDecimals) {
       setError("Unable to fetch balance");
       return;
@@ -391,6 +587,34 @@ export function InteractiveTradingInterface({
       return;
     }
 
+    // The previewed bounds come from the off-chain engine; check them against
+    // the contract's quote for the same trade before anything is signed
+    setIsProcessing(true);
+    let limits: ReturnType<typeof checkedBuyLimits>;
+    try {
+      const onChainQuote = await fetchBuyQuote(
+        marketId,
+        selectedOptionId,
+        sharesInWei
+      );
+      limits = checkedBuyLimits(purchaseLimits, onChainQuote, tradeSettings);
+    } catch (err) {
+      console.error("On-chain buy quote failed:", err);
+      setIsProcessing(false);
+      setError("Unable to confirm the price on-chain. Please try again.");
+      return;
+    }
+    if (!limits) {
+      setIsProcessing(false);
+      setError("The price moved since this quote. Review the new cost.");
+      return;
+    }
+
+    reviewedLimitsRef.current = {
+      reviewedAt: Date.now(),
+      quantity: sharesInWei,
+      ...limits,
+    };
     setBuyingStep("confirm");
 
     if (supportsBatchTransactions) {
@@ -400,11 +624,18 @@ export function InteractiveTradingInterface({
     }
   }, [
     amount,
+    selectedOptionId,
+    sharesInWei,
+    marketId,
     userBalance,
     tokenDecimals,
     estimatedCost,
     tokenSymbol,
+    purchaseLimits,
+    tradeSettings,
     supportsBatchTransactions,
+    paperMode,
+    handlePaperPurchase,
     handleBatchPurchase,
     handleSequentialPurchase,
   ]);
@@ -451,6 +682,7 @@ export function InteractiveTradingInterface({
         description: `Bought shares in ${options[selectedOptionId || 0]?.name}`,
       });
       setAmount("");
+      setBudget("");
       setIsProcessing(false);
       dispatchMarketUpdate();
       onTradeComplete?.();
@@ -490,6 +722,7 @@ export function InteractiveTradingInterface({
           description: `Bought shares in ${options[selectedOptionId!]?.name}`,
         });
         setAmount("");
+        setBudget("");
         setIsProcessing(false);
         dispatchMarketUpdate();
         onTradeComplete?.();
@@ -537,7 +770,7 @@ export function InteractiveTradingInterface({
             normalizedProbability > 0 ? 100 / normalizedProbability : 0;
           const isSelected = selectedOptionId === index;
           const colorScheme = optionColors[index] || optionColors[0];
-          const hasShares = userShares && userShares[index] > 0n;
+          const hasShares = heldShares && heldShares[index] > 0n;
 
           return (
             <div key={index}>
@@ -581,7 +814,8 @@ export function InteractiveTradingInterface({
                       )}
                       {hasShares && (
                         <span className="text-xs px-1.5 py-0.5 bg-purple-500/20 text-purple-300 rounded border border-purple-400/30 flex-shrink-0">
-                          {formatPrice(userShares[index])} owned
+                          {formatPrice(heldShares[index])}{" "}
+                          {paperMode ? "paper" : "owned"}
                         </span>
                       )}
                     </div>
@@ -622,35 +856,103 @@ export function InteractiveTradingInterface({
                   {buyingStep === "amount" && (
                     <>
                       <div>
-                        <label className="block text-xs font-medium text-gray-300 mb-1">
-                          Number of shares
-                        </label>
-                        <Input
-                          ref={inputRef}
-                          type="number"
-                          inputMode="decimal"
-                          placeholder={`Enter amount (max ${MAX_SHARES})`}
-                          value={amount}
-                          onChange={(e) => {
-                            const value = e.target.value;
-                            if (value === "") {
-                              setAmount("");
-                              setError(null);
-                              return;
-                            }
-                            const numValue = parseFloat(value);
-                            if (numValue > MAX_SHARES) {
-                              setError(
-                                `Maximum ${MAX_SHARES} shares per purchase`
-                              );
-                            } else {
-                              setError(null);
-                            }
-                            setAmount(value);
-                          }}
-                          className="w-full h-9 text-sm bg-[#352c3f]/80 border-[#544863] text-gray-100"
-                          style={{ fontSize: "16px" }}
-                        />
+                        <div className="flex items-center justify-between mb-1">
+                          <label className="block text-xs font-medium text-gray-300">
+                            {buyMode === "spend"
+                              ? `Amount to spend (${
+                                  paperMode ? "paper" : tokenSymbol || "tokens"
+                                })`
+                              : "Number of shares"}
+                            {paperMode && (
+                              <span className="ml-1 rounded bg-amber-500/20 px-1 text-[10px] text-amber-300">
+                                Paper
+                              </span>
+                            )}
+                          </label>
+                          <div className="flex items-center gap-1">
+                            <div className="flex rounded border border-[#544863] text-[10px]">
+                              {(["shares", "spend"] as const).map((mode) => (
+                                <button
+                                  key={mode}
+                                  type="button"
+                                  onClick={() => {
+                                    setBuyMode(mode);
+                                    setAmount("");
+                                    setBudget("");
+                                    setError(null);
+                                  }}
+                                  className={cn(
+                                    "px-1.5 py-0.5",
+                                    buyMode === mode
+                                      ? "bg-[#544863] text-gray-100"
+                                      : "text-gray-400 hover:text-gray-200"
+                                  )}
+                                >
+                                  {mode === "shares" ? "Shares" : "Spend"}
+                                </button>
+                              ))}
+                            </div>
+                            <TradeSettingsDialog />
+                          </div>
+                        </div>
+                        {buyMode === "spend" ? (
+                          <>
+                            <Input
+                              ref={inputRef}
+                              type="number"
+                              inputMode="decimal"
+                              placeholder={`Enter ${
+                                tokenSymbol || "token"
+                              } amount`}
+                              value={budget}
+                              onChange={(e) => {
+                                setBudget(e.target.value);
+                                setError(null);
+                              }}
+                              className="w-full h-9 text-sm bg-[#352c3f]/80 border-[#544863] text-gray-100"
+                              style={{ fontSize: "16px" }}
+                            />
+                            <p className="mt-1 text-xs text-gray-400">
+                              {isSolvingBudget ? (
+                                <span className="flex items-center gap-1">
+                                  <Loader2 className="h-3 w-3 animate-spin" />
+                                  Finding share amount...
+                                </span>
+                              ) : budgetInWei > 0n && spendQuantity === 0n ? (
+                                "Budget is too small for any shares"
+                              ) : amount ? (
+                                `Buys ${amount} shares, fees included`
+                              ) : null}
+                            </p>
+                          </>
+                        ) : (
+                          <Input
+                            ref={inputRef}
+                            type="number"
+                            inputMode="decimal"
+                            placeholder={`Enter amount (max ${MAX_SHARES})`}
+                            value={amount}
+                            onChange={(e) => {
+                              const value = e.target.value;
+                              if (value === "") {
+                                setAmount("");
+                                setError(null);
+                                return;
+                              }
+                              const numValue = parseFloat(value);
+                              if (numValue > MAX_SHARES) {
+                                setError(
+                                  `Maximum ${MAX_SHARES} shares per purchase`
+                                );
+                              } else {
+                                setError(null);
+                              }
+                              setAmount(value);
+                            }}
+                            className="w-full h-9 text-sm bg-[#352c3f]/80 border-[#544863] text-gray-100"
+                            style={{ fontSize: "16px" }}
+                          />
+                        )}
                       </div>
 
                       {userBalance && tokenDecimals && (
@@ -674,6 +976,29 @@ export function InteractiveTradingInterface({
                                 </span>
                               </div>
                             )}
+                          {estimatedCost > 0n && (
+                            <div
+                              className={cn(
+                                "flex justify-between text-xs",
+                                highPriceImpact
+                                  ? "text-amber-300"
+                                  : "text-gray-400"
+                              )}
+                            >
+                              <span>Price Impact:</span>
+                              <span>{formatBps(priceImpact)}</span>
+                            </div>
+                          )}
+                        </div>
+                      )}
+
+                      {highPriceImpact && (
+                        <div className="flex items-start gap-1.5 bg-amber-500/20 border border-amber-400/30 rounded-md p-2 text-xs text-amber-300">
+                          <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                          <span>
+                            Price impact {formatBps(priceImpact)} is above your{" "}
+                            {formatBps(tradeSettings.maxPriceImpactBps)} limit.
+                          </span>
                         </div>
                       )}
 
@@ -689,6 +1014,7 @@ export function InteractiveTradingInterface({
                             setBuyingStep("initial");
                             setSelectedOptionId(null);
                             setAmount("");
+                            setBudget("");
                             setError(null);
                           }}
                           variant="outline"
@@ -700,7 +1026,7 @@ export function InteractiveTradingInterface({
                           onClick={handleConfirmPurchase}
                           disabled={
                             !amount ||
-                            parseFloat(amount) <= 0 ||
+                            sharesInWei <= 0n ||
                             parseFloat(amount) > MAX_SHARES ||
                             !!error ||
                             isProcessing
@@ -712,11 +1038,29 @@ export function InteractiveTradingInterface({
                               <Loader2 className="h-3 w-3 animate-spin mr-1" />
                               Processing...
                             </>
+                          ) : highPriceImpact ? (
+                            "Buy Anyway"
                           ) : (
                             "Confirm"
                           )}
                         </Button>
                       </div>
+                      {!paperMode && (
+                        <Button
+                          onClick={handleAddToSlip}
+                          variant="ghost"
+                          disabled={
+                            !amount ||
+                            sharesInWei <= 0n ||
+                            parseFloat(amount) > MAX_SHARES ||
+                            isProcessing
+                          }
+                          className="w-full h-8 text-xs text-purple-300 hover:bg-[#544863]/50"
+                        >
+                          <Layers className="h-3 w-3 mr-1" />
+                          Add to Trade Slip
+                        </Button>
+                      )}
                     </>
                   )}
 
@@ -726,6 +1070,8 @@ export function InteractiveTradingInterface({
                       <p className="text-sm font-medium text-gray-200">
                         {buyingStep === "allowance"
                           ? "Approving tokens..."
+                          : paperMode
+                          ? "Filling paper trade..."
                           : "Processing purchase..."}
                       </p>
                       <p className="text-xs text-gray-300 mt-1">
@@ -740,7 +1086,9 @@ export function InteractiveTradingInterface({
                         <Check className="w-6 h-6 text-green-400" />
                       </div>
                       <p className="text-sm font-medium text-green-300 mb-3">
-                        Purchase successful!
+                        {paperMode
+                          ? "Paper trade filled!"
+                          : "Purchase successful!"}
                       </p>
                       <Button
                         onClick={resetInterface}
@@ -13,6 +13,7 @@ import {
   TimeFrame,
 } from "@/types/leaderboard";
 import { useAccount } from "wagmi";
+import { MIN_SCORED_MARKETS } from "@/lib/forecaster-accuracy";
 
 // UI display types
 type UITimeFrame = "All-Time" | "Monthly" | "Weekly";
@@ -24,6 +25,11 @@ const timeframeMap: Record<UITimeFrame, TimeFrame> = {
   Weekly: "weekly",
 };
 
+const boardTitles: Record<LeaderboardType, string> = {
+  volume: "Top Earners",
+  accuracy: "Forecasters",
+};
+
 interface LeaderboardResponse {
   data: LeaderboardEntry[];
   pagination: {
@@ -43,6 +49,7 @@ export default function LeaderboardComponent({
   onTabChange,
 }: LeaderboardProps) {
   const { address } = useAccount();
+  const [board, setBoard] = useState<LeaderboardType>("volume");
   const [timeFrame, setTimeFrame] = useState<UITimeFrame>("All-Time");
   const [data, setData] = useState<LeaderboardEntry[]>([]);
   const [currentPage, setCurrentPage] = useState(1);
@@ -56,8 +63,9 @@ export default function LeaderboardComponent({
     setError(null);
     try {
       const params = new URLSearchParams({
-        type: "volume",
-        timeframe: "all",
+        type: board,
+        // Winnings are all-time only; accuracy has weekly/monthly windows
+        timeframe: board === "accuracy" ? timeframeMap[timeFrame] : "all",
         page: currentPage.toString(),
         pageSize: "10",
       });
@@ -84,69 +92,141 @@ export default function LeaderboardComponent({
   useEffect(() => {
     fetchLeaderboard();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [currentPage, address]);
+  }, [currentPage, address, board, timeFrame]);
 
-  // State management for filters
+  const isAccuracy = board === "accuracy";
+  const formatScore = (entry: LeaderboardEntry) =>
+    isAccuracy
+      ? `Brier ${(entry.brier ?? 0).toFixed(3)}`
+      : `${entry.winnings.toFixed(0)} BUSTER`;
+
+  // Board tabs and, for accuracy, the timeframe chips; shown in every state
+  const header = (
+    <>
+      {/* Top App Bar */}
+      <div className="sticky top-0 z-10 flex items-center justify-center gap-2 bg-[#433952]/80 backdrop-blur-sm border-b border-[#544863] px-4 pt-4 pb-2">
+        {(["volume", "accuracy"] as const).map((value) => (
+          <button
+            key={value}
+            onClick={() => {
+              setBoard(value);
+              setCurrentPage(1);
+            }}
+            className={`rounded-full px-4 py-1 text-lg font-bold leading-tight tracking-[-0.015em] transition-colors ${
+              board === value
+                ? "bg-[#544863] text-gray-100"
+                : "text-gray-400 hover:text-gray-200"
+            }`}
+          >
+            {boardTitles[value]}
+          </button>
+        ))}
+      </div>
+
+      {/* Chips for Timeframe - accuracy board only */}
+      {isAccuracy && (
+        <div className="flex gap-3 px-4 pt-4 overflow-x-auto">
+          {(["All-Time", "Monthly", "Weekly"] as const).map((time) => (
+            <div
+              key={time}
+              onClick={() => {
+                setTimeFrame(time);
+                setCurrentPage(1);
+              }}
+              className={`flex h-8 shrink-0 cursor-pointer items-center justify-center gap-x-2 rounded-full transition-colors ${
+                timeFrame === time
+                  ? "bg-[#544863] border border-[#544863]"
+                  : "bg-[#352c3f]/80 border border-[#544863]/50"
+              } pl-4 pr-4`}
+            >
+              <p
+                className={`text-sm font-medium leading-normal ${
+                  timeFrame === time ? "text-gray-100" : "text-gray-400"
+                }`}
+              >
+                {time}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+      {isAccuracy && (
+        <p className="px-4 py-3 text-xs text-gray-400">
+          Time-weighted Brier score of every trade against the outcome, lower
+          is better. Needs {MIN_SCORED_MARKETS} resolved markets.
+        </p>
+      )}
+    </>
+  );
 
   if (isLoading) {
     return (
-      <div className="flex justify-center items-center p-10 bg-gray-900 min-h-screen">
-        <svg
-          className="animate-spin h-8 w-8 text-blue-400"
-          xmlns="http://www.w3.org/2000/svg"
-          fill="none"
-          viewBox="0 0 24 24"
-        >
-          <circle
-            className="opacity-25"
-            cx="12"
-            cy="12"
-            r="10"
-            stroke="currentColor"
-            strokeWidth="4"
-          ></circle>
-          <path
-            className="opacity-75"
-            fill="currentColor"
-            d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-          ></path>
-        </svg>
+      <div className="flex flex-col bg-gray-900 min-h-screen">
+        {header}
+        <div className="flex justify-center items-center p-10">
+          <svg
+            className="animate-spin h-8 w-8 text-blue-400"
+            xmlns="http://www.w3.org/2000/svg"
+            fill="none"
+            viewBox="0 0 24 24"
+          >
+            <circle
+              className="opacity-25"
+              cx="12"
+              cy="12"
+              r="10"
+              stroke="currentColor"
+              strokeWidth="4"
+            ></circle>
+            <path
+              className="opacity-75"
+              fill="currentColor"
+              d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+            ></path>
+          </svg>
+        </div>
       </div>
     );
   }
 
   if (error) {
     return (
-      <div className="p-4 text-center text-red-400 bg-gray-900 min-h-screen">
-        {error}
+      <div className="flex flex-col bg-gray-900 min-h-screen">
+        {header}
+        <div className="p-4 text-center text-red-400">{error}</div>
       </div>
     );
   }
 
   if (!data || data.length === 0) {
     return (
-      <div className="flex flex-col items-center justify-center p-6 text-center bg-gray-900 min-h-screen">
-        <svg
-          className="w-12 h-12 text-gray-500"
-          fill="none"
-          stroke="currentColor"
-          viewBox="0 0 24 24"
-          xmlns="http://www.w3.org/2000/svg"
-          aria-hidden="true"
-        >
-          <path
-            strokeLinecap="round"
-            strokeLinejoin="round"
-            strokeWidth="2"
-            d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
-          />
-        </svg>
-        <p className="mt-2 text-sm font-medium text-gray-400">
-          No leaderboard data available
-        </p>
-        <p className="mt-1 text-xs text-gray-500">
-          Leaderboard will appear once predictions are resolved
-        </p>
+      <div className="flex flex-col bg-gray-900 min-h-screen">
+        {header}
+        <div className="flex flex-col items-center justify-center p-6 text-center">
+          <svg
+            className="w-12 h-12 text-gray-500"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+            xmlns="http://www.w3.org/2000/svg"
+            aria-hidden="true"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth="2"
+              d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+            />
+          </svg>
+          <p className="mt-2 text-sm font-medium text-gray-400">
+            No leaderboard data available
+          </p>
+          <p className="mt-1 text-xs text-gray-500">
+            {isAccuracy
+              ? `Forecasters are ranked after trading in ${MIN_SCORED_MARKETS} resolved markets`
+              : "Leaderboard will appear once predictions are resolved"}
+          </p>
+        </div>
       </div>
     );
   }
@@ -156,36 +236,7 @@ export default function LeaderboardComponent({
 
   return (
     <div className="relative flex min-h-screen w-full flex-col bg-gray-900">
-      {/* Top App Bar */}
-      <div className="sticky top-0 z-10 flex items-center bg-[#433952]/80 backdrop-blur-sm border-b border-[#544863] px-4 pt-4 pb-2">
-        <h1 className="flex-1 text-center text-lg font-bold leading-tight tracking-[-0.015em] text-gray-100">
-          Top Earners
-        </h1>
-      </div>
-
-      {/* Chips for Timeframe - Commented out for now since we only have all-time
-      <div className="flex gap-3 px-4 py-4 overflow-x-auto">
-        {(["All-Time", "Monthly", "Weekly"] as const).map((time) => (
-          <div
-            key={time}
-            onClick={() => setTimeFrame(time)}
-            className={`flex h-8 shrink-0 cursor-pointer items-center justify-center gap-x-2 rounded-full transition-colors ${
-              timeFrame === time
-                ? "bg-[#544863] border border-[#544863]"
-                : "bg-[#352c3f]/80 border border-[#544863]/50"
-            } pl-4 pr-4`}
-          >
-            <p
-              className={`text-sm font-medium leading-normal ${
-                timeFrame === time ? "text-gray-100" : "text-gray-400"
-              }`}
-            >
-              {time}
-            </p>
-          </div>
-        ))}
-      </div>
-      */}
+      {header}
 
       {/* Podium Section - Only show on page 1 */}
       {currentPage === 1 && data.length >= 3 && (
@@ -251,7 +302,7 @@ export default function LeaderboardComponent({
                       : "text-gray-400 text-xs"
                   }`}
                 >
-                  {entry.winnings.toFixed(0)} BUSTER
+                  {formatScore(entry)}
                 </p>
               </div>
             ))}
@@ -288,13 +339,12 @@ export default function LeaderboardComponent({
                   )}
                 </p>
                 <p className="text-xs text-gray-400">
-                  {entry.voteCount} predictions
+                  {entry.voteCount}{" "}
+                  {isAccuracy ? "markets scored" : "predictions"}
                 </p>
               </div>
               <div className="flex items-center gap-2">
-                <p className="font-bold text-gray-200">
-                  {entry.winnings.toFixed(0)} BUSTER
-                </p>
+                <p className="font-bold text-gray-200">{formatScore(entry)}</p>
                 {entry.trend !== "none" &&
                   (entry.trend === "up" ? (
                     <ArrowUpCircle className="text-green-400 size-5" />
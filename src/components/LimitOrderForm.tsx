@@ -0,0 +1,251 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount, useSignTypedData } from "wagmi";
+import { Loader2 } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/components/ui/use-toast";
+import { MarketOption } from "@/types/types";
+import {
+  LIMIT_ORDER_DOMAIN,
+  LIMIT_ORDER_TYPES,
+  toTypedMessage,
+  type LimitOrderIntent,
+  type LimitOrderSide,
+} from "@/lib/limit-orders";
+import {
+  DEFAULT_FEE_RATE_BPS,
+  LMSR_SCALE,
+  calculateFee,
+  probabilityToPercent,
+  probabilityToTokenPrice,
+  sharesToWei,
+  withNegBuffer,
+  withPosBuffer,
+} from "@/lib/lmsr";
+
+interface LimitOrderFormProps {
+  marketId: number;
+  options: MarketOption[];
+  onOrderPlaced?: () => void;
+}
+
+// Extra room over the marginal price at the trigger to absorb LMSR price
+// impact for the order size
+const LIMIT_BUFFER_BPS = 300; // 3%
+
+// Bound the signed intent enforces on-chain when the order is executed
+function calculateLimitAmount(
+  side: LimitOrderSide,
+  quantity: bigint,
+  triggerProbability: bigint
+): bigint {
+  const base =
+    (probabilityToTokenPrice(triggerProbability) * quantity) / LMSR_SCALE;
+  const fee = calculateFee(base, DEFAULT_FEE_RATE_BPS);
+  return side === "buy"
+    ? withPosBuffer(base + fee, LIMIT_BUFFER_BPS)
+    : withNegBuffer(base - fee, LIMIT_BUFFER_BPS);
+}
+
+export function LimitOrderForm({
+  marketId,
+  options,
+  onOrderPlaced,
+}: LimitOrderFormProps) {
+  const { address: accountAddress, isConnected } = useAccount();
+  const { signTypedDataAsync } = useSignTypedData();
+  const { toast } = useToast();
+
+  const [side, setSide] = useState<LimitOrderSide>("buy");
+  const [optionId, setOptionId] = useState(0);
+  const [triggerPercent, setTriggerPercent] = useState("");
+  const [shares, setShares] = useState("");
+  const [expiryDays, setExpiryDays] = useState("7");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    if (!accountAddress) return;
+    setError(null);
+
+    const percent = parseFloat(triggerPercent);
+    const quantity = sharesToWei(shares);
+    const days = parseFloat(expiryDays);
+    if (!(percent > 0 && percent < 100)) {
+      setError("Trigger probability must be between 0 and 100%");
+      return;
+    }
+    if (quantity <= 0n) {
+      setError("Enter a number of shares");
+      return;
+    }
+    if (!(days > 0)) {
+      setError("Expiry must be at least part of a day");
+      return;
+    }
+
+    // Percent (0-100) to 1e18-scaled probability
+    const triggerProbability = sharesToWei((percent / 100).toFixed(6));
+
+    const intent: LimitOrderIntent = {
+      owner: accountAddress,
+      marketId: String(marketId),
+      optionId: String(optionId),
+      side,
+      quantity: quantity.toString(),
+      triggerProbability: triggerProbability.toString(),
+      limitAmount: calculateLimitAmount(
+        side,
+        quantity,
+        triggerProbability
+      ).toString(),
+      expiry: String(Math.floor(Date.now() / 1000 + days * 86400)),
+      nonce: String(Date.now()),
+    };
+
+    try {
+      setIsSubmitting(true);
+      const signature = await signTypedDataAsync({
+        domain: LIMIT_ORDER_DOMAIN,
+        types: LIMIT_ORDER_TYPES,
+        primaryType: "LimitOrder",
+        message: toTypedMessage(intent),
+      });
+
+      const response = await fetch("/api/limit-orders", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ order: intent, signature }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to place order");
+      }
+
+      toast({
+        title: "Limit Order Placed",
+        description: `${side === "buy" ? "Buy" : "Sell"} ${shares} ${
+          options[optionId]?.name
+        } shares when probability ${
+          side === "buy" ? "drops to" : "reaches"
+        } ${percent}%`,
+      });
+      setShares("");
+      setTriggerPercent("");
+      onOrderPlaced?.();
+    } catch (err) {
+      console.error("Failed to place limit order:", err);
+      setError(err instanceof Error ? err.message : "Failed to place order");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="text-center py-6 bg-[#352c3f]/80 backdrop-blur-sm rounded-lg border border-[#544863]">
+        <p className="text-gray-300 text-sm">
+          Connect your wallet to place limit orders
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 p-3 bg-[#352c3f]/80 backdrop-blur-sm rounded-lg border border-[#544863]">
+      <div className="grid grid-cols-2 gap-2">
+        {(["buy", "sell"] as const).map((s) => (
+          <Button
+            key={s}
+            size="sm"
+            variant={side === s ? "default" : "outline"}
+            onClick={() => setSide(s)}
+            className="text-xs"
+          >
+            {s === "buy" ? "Buy below" : "Sell above"}
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid gap-1">
+        {options.map((option, index) => (
+          <button
+            key={index}
+            onClick={() => setOptionId(index)}
+            className={cn(
+              "flex items-center justify-between rounded-md border border-[#544863] px-3 py-2 text-xs text-gray-200",
+              optionId === index
+                ? "ring-2 ring-purple-400"
+                : "hover:bg-[#544863]/30"
+            )}
+          >
+            <span className="truncate">{option.name}</span>
+            <span className="text-gray-400">
+              {probabilityToPercent(option.currentPrice).toFixed(1)}%
+            </span>
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <label className="block text-xs font-medium text-gray-300 mb-1">
+            Trigger %
+          </label>
+          <Input
+            type="number"
+            inputMode="decimal"
+            placeholder="e.g. 40"
+            value={triggerPercent}
+            onChange={(e) => setTriggerPercent(e.target.value)}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-300 mb-1">
+            Shares
+          </label>
+          <Input
+            type="number"
+            inputMode="decimal"
+            placeholder="e.g. 10"
+            value={shares}
+            onChange={(e) => setShares(e.target.value)}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-300 mb-1">
+            Expires (days)
+          </label>
+          <Input
+            type="number"
+            inputMode="decimal"
+            value={expiryDays}
+            onChange={(e) => setExpiryDays(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <Button
+        className="w-full"
+        size="sm"
+        onClick={handleSubmit}
+        disabled={isSubmitting}
+      >
+        {isSubmitting ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          "Sign & Place Order"
+        )}
+      </Button>
+      <p className="text-[11px] text-gray-400">
+        Orders are stored off-chain. When the trigger is hit you&apos;ll be
+        asked to confirm the trade from your portfolio.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,304 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useAccount, useSignTypedData, useWriteContract } from "wagmi";
+import { Loader2, Target } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  publicClient,
+  tokenAddress,
+  tokenAbi,
+  V2contractAddress,
+  V2contractAbi,
+} from "@/constants/contract";
+import {
+  LIMIT_ORDER_DOMAIN,
+  LIMIT_ORDER_TYPES,
+  isOrderExpired,
+  type LimitOrder,
+  type LimitOrderStatus,
+} from "@/lib/limit-orders";
+import { LMSR_SCALE, probabilityToPercent } from "@/lib/lmsr";
+
+const STATUS_VARIANTS: Record<
+  LimitOrderStatus,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  open: "outline",
+  triggered: "default",
+  filled: "secondary",
+  cancelled: "secondary",
+  expired: "destructive",
+};
+
+function formatShares(amount: string): string {
+  return (Number(amount) / 1e18).toLocaleString(undefined, {
+    maximumFractionDigits: 2,
+  });
+}
+
+export function LimitOrdersPanel() {
+  const { address: accountAddress } = useAccount();
+  const { signTypedDataAsync } = useSignTypedData();
+  const { writeContractAsync } = useWriteContract();
+  const { toast } = useToast();
+
+  const [orders, setOrders] = useState<LimitOrder[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [pendingOrderId, setPendingOrderId] = useState<string | null>(null);
+
+  const fetchOrders = useCallback(async () => {
+    if (!accountAddress) return;
+    try {
+      setIsLoading(true);
+      const response = await fetch(
+        `/api/limit-orders?owner=${accountAddress}`
+      );
+      if (!response.ok) throw new Error("Failed to fetch limit orders");
+      const data = await response.json();
+      setOrders(data.orders || []);
+    } catch (error) {
+      console.error("Error fetching limit orders:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [accountAddress]);
+
+  useEffect(() => {
+    fetchOrders();
+    const interval = setInterval(fetchOrders, 30000);
+    return () => clearInterval(interval);
+  }, [fetchOrders]);
+
+  const handleCancel = async (order: LimitOrder) => {
+    try {
+      setPendingOrderId(order.id);
+      const signature = await signTypedDataAsync({
+        domain: LIMIT_ORDER_DOMAIN,
+        types: LIMIT_ORDER_TYPES,
+        primaryType: "CancelLimitOrder",
+        message: { orderId: order.id },
+      });
+      const response = await fetch("/api/limit-orders/cancel", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orderId: order.id, signature }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to cancel order");
+      }
+      toast({ title: "Limit Order Cancelled" });
+      await fetchOrders();
+    } catch (error) {
+      console.error("Cancel limit order failed:", error);
+      toast({
+        title: "Cancel Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingOrderId(null);
+    }
+  };
+
+  // Submit the trade for a triggered order, bounded by its signed limit
+  const handleExecute = async (order: LimitOrder) => {
+    if (!accountAddress) return;
+    if (isOrderExpired(order)) {
+      toast({
+        title: "Order Expired",
+        description: "This limit order expired and can no longer be executed.",
+        variant: "destructive",
+      });
+      await fetchOrders();
+      return;
+    }
+    try {
+      setPendingOrderId(order.id);
+      const quantity = BigInt(order.quantity);
+      const limitAmount = BigInt(order.limitAmount);
+      const pricePerShareBound = (limitAmount * LMSR_SCALE) / quantity;
+
+      let hash: `0x${string}`;
+      if (order.side === "buy") {
+        const allowance = (await publicClient.readContract({
+          address: tokenAddress,
+          abi: tokenAbi,
+          functionName: "allowance",
+          args: [accountAddress, V2contractAddress],
+        })) as bigint;
+        if (allowance < limitAmount) {
+          const approveHash = await writeContractAsync({
+            address: tokenAddress,
+            abi: tokenAbi,
+            functionName: "approve",
+            args: [V2contractAddress, limitAmount],
+          });
+          await publicClient.waitForTransactionReceipt({ hash: approveHash });
+        }
+        hash = await writeContractAsync({
+          address: V2contractAddress,
+          abi: V2contractAbi,
+          functionName: "buyShares",
+          args: [
+            BigInt(order.marketId),
+            BigInt(order.optionId),
+            quantity,
+            pricePerShareBound,
+            limitAmount,
+          ],
+        });
+      } else {
+        hash = await writeContractAsync({
+          address: V2contractAddress,
+          abi: V2contractAbi,
+          functionName: "sellShares",
+          args: [
+            BigInt(order.marketId),
+            BigInt(order.optionId),
+            quantity,
+            pricePerShareBound,
+            limitAmount,
+          ],
+        });
+      }
+
+      await publicClient.waitForTransactionReceipt({ hash });
+      const response = await fetch("/api/limit-orders/fill", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orderId: order.id, txHash: hash }),
+      });
+      if (!response.ok) {
+        // The trade went through; only the order record lags behind
+        const data = await response.json().catch(() => ({}));
+        toast({
+          title: "Trade Sent, Order Not Updated",
+          description: data.error || "Failed to record the fill",
+          variant: "destructive",
+        });
+        await fetchOrders();
+        return;
+      }
+      toast({ title: "Limit Order Filled" });
+      await fetchOrders();
+    } catch (error) {
+      console.error("Execute limit order failed:", error);
+      toast({
+        title: "Execution Failed",
+        description:
+          "The price may have moved past your limit. The order stays triggered so you can retry or cancel it.",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingOrderId(null);
+    }
+  };
+
+  if (!accountAddress) return null;
+
+  const activeOrders = orders.filter(
+    (o) => o.status === "open" || o.status === "triggered"
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Target className="h-5 w-5" />
+          Limit Orders ({activeOrders.length} active)
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading && orders.length === 0 ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : orders.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">
+            No limit orders yet.
+          </p>
+        ) : (
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {orders.map((order) => (
+              <div
+                key={order.id}
+                className="border rounded-lg p-3 hover:bg-muted/50 transition-colors"
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center gap-2">
+                    <Badge
+                      variant={order.side === "buy" ? "default" : "secondary"}
+                      className="text-xs"
+                    >
+                      {order.side.toUpperCase()}
+                    </Badge>
+                    <Link
+                      href={`/market/${order.marketId}`}
+                      className="text-sm font-medium hover:text-primary transition-colors"
+                    >
+                      #{order.marketId} · Option {order.optionId}
+                    </Link>
+                  </div>
+                  <Badge
+                    variant={STATUS_VARIANTS[order.status]}
+                    className="text-xs"
+                  >
+                    {order.status}
+                  </Badge>
+                </div>
+
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    {formatShares(order.quantity)} shares{" "}
+                    {order.side === "buy" ? "≤" : "≥"}{" "}
+                    {probabilityToPercent(
+                      BigInt(order.triggerProbability)
+                    ).toFixed(1)}
+                    %
+                  </span>
+                  <span className="text-muted-foreground">
+                    Expires{" "}
+                    {new Date(Number(order.expiry) * 1000).toLocaleDateString()}
+                  </span>
+                </div>
+
+                {(order.status === "open" || order.status === "triggered") && (
+                  <div className="flex gap-2 mt-3">
+                    {order.status === "triggered" &&
+                      !isOrderExpired(order) && (
+                        <Button
+                          size="sm"
+                          onClick={() => handleExecute(order)}
+                          disabled={pendingOrderId === order.id}
+                        >
+                          {pendingOrderId === order.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            "Execute"
+                          )}
+                        </Button>
+                      )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleCancel(order)}
+                      disabled={pendingOrderId === order.id}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,273 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+import { cn } from "@/lib/utils";
+import { useLMSRState } from "@/hooks/useLMSRState";
+import {
+  LMSR_SCALE,
+  marginalPrice,
+  sharesToReachProbability,
+} from "@/lib/lmsr";
+import { DEPTH_TARGETS, depthCurve, whatIf } from "@/lib/market-depth";
+
+interface MarketDepthChartProps {
+  marketId: number;
+  optionNames: string[];
+}
+
+// Slider resolution: the what-if range is split into this many steps
+const SLIDER_STEPS = 100;
+// Buying past this probability needs an unbounded number of shares
+const WHAT_IF_MAX_PROBABILITY = (95n * LMSR_SCALE) / 100n;
+
+const toTokens = (amount: bigint) => Number(amount) / 1e18;
+const toPercent = (probability: bigint) => Number(probability) / 1e16;
+
+const toggleClass = (active: boolean) =>
+  cn(
+    "px-2 py-0.5 text-xs",
+    active
+      ? "bg-[#544863] text-gray-100"
+      : "text-gray-400 hover:text-gray-200"
+  );
+
+// Cost to push an option's odds up, proceeds from selling them down, and a
+// what-if preview of every option's odds after a trade
+export function MarketDepthChart({
+  marketId,
+  optionNames,
+}: MarketDepthChartProps) {
+  const { state } = useLMSRState(marketId, optionNames.length);
+  const [optionId, setOptionId] = useState(0);
+  const [side, setSide] = useState<"buy" | "sell">("buy");
+  const [step, setStep] = useState(0);
+
+  const current = state ? toPercent(marginalPrice(state, optionId)) : 0;
+
+  const chartData = useMemo(() => {
+    if (!state) return [];
+    const points = depthCurve(state, optionId);
+    return DEPTH_TARGETS.map((target) => {
+      const point = points.find((p) => p.target === target);
+      return {
+        target,
+        buy: point?.side === "buy" ? toTokens(point.amount) : undefined,
+        sell:
+          point?.side === "sell" && point.reachable
+            ? toTokens(point.amount)
+            : undefined,
+      };
+    });
+  }, [state, optionId]);
+
+  // Largest what-if trade: buy up to 95%, or sell every outstanding share
+  const maxShares = useMemo(() => {
+    if (!state) return 0n;
+    if (side === "sell") return state.shares[optionId] ?? 0n;
+    const delta = sharesToReachProbability(
+      state,
+      optionId,
+      WHAT_IF_MAX_PROBABILITY
+    );
+    return delta > 0n ? delta : 0n;
+  }, [state, optionId, side]);
+
+  const quantity = (maxShares * BigInt(step)) / BigInt(SLIDER_STEPS);
+  const preview = useMemo(
+    () => (state ? whatIf(state, optionId, side, quantity) : null),
+    [state, optionId, side, quantity]
+  );
+
+  if (!state) {
+    return (
+      <div className="h-48 flex items-center justify-center">
+        <div className="text-sm text-muted-foreground">Loading depth...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-base md:text-lg font-semibold text-gray-900 dark:text-gray-100">
+          Market Depth
+        </h3>
+        <select
+          value={optionId}
+          onChange={(e) => {
+            setOptionId(Number(e.target.value));
+            setStep(0);
+          }}
+          className="h-7 rounded border border-[#544863] bg-[#352c3f]/80 px-2 text-xs text-gray-200"
+        >
+          {optionNames.map((name, index) => (
+            <option key={index} value={index}>
+              {name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="h-48 md:h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart
+            data={chartData}
+            margin={{ top: 10, right: 10, left: 10, bottom: 5 }}
+          >
+            <CartesianGrid
+              strokeDasharray="3 3"
+              className="stroke-muted-foreground/20"
+            />
+            <XAxis
+              dataKey="target"
+              type="number"
+              domain={[10, 90]}
+              ticks={DEPTH_TARGETS}
+              className="text-xs fill-muted-foreground"
+              tickFormatter={(value) => `${value}%`}
+            />
+            <YAxis
+              className="text-xs fill-muted-foreground"
+              tickFormatter={(value) =>
+                value >= 1000 ? `${Math.round(value / 1000)}k` : `${value}`
+              }
+              width={40}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: "hsl(var(--background))",
+                border: "1px solid hsl(var(--border))",
+                borderRadius: "6px",
+                color: "hsl(var(--foreground))",
+                fontSize: "12px",
+              }}
+              labelFormatter={(value) => `Move to ${value}%`}
+              formatter={(value, name) => [
+                `${Number(value).toFixed(2)} Buster`,
+                name,
+              ]}
+            />
+            <Legend wrapperStyle={{ fontSize: "12px" }} iconType="line" />
+            <ReferenceLine
+              x={current}
+              stroke="#a78bfa"
+              strokeDasharray="4 4"
+              label={{
+                value: `Now ${current.toFixed(1)}%`,
+                fill: "#a78bfa",
+                fontSize: 11,
+                position: "top",
+              }}
+            />
+            <Line
+              type="monotone"
+              dataKey="buy"
+              name="Cost to buy up"
+              stroke="#22c55e"
+              strokeWidth={2}
+              connectNulls={false}
+            />
+            <Line
+              type="monotone"
+              dataKey="sell"
+              name="Proceeds selling down"
+              stroke="#ef4444"
+              strokeWidth={2}
+              connectNulls={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* What-if: preview every option's odds after a trade */}
+      <div className="rounded-lg border border-[#544863] bg-[#352c3f]/80 p-3 space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-gray-200">What if</span>
+          <div className="flex rounded border border-[#544863]">
+            {(["buy", "sell"] as const).map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => {
+                  setSide(value);
+                  setStep(0);
+                }}
+                className={toggleClass(side === value)}
+              >
+                {value === "buy" ? "Buy" : "Sell"}
+              </button>
+            ))}
+          </div>
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={SLIDER_STEPS}
+          value={step}
+          disabled={maxShares === 0n}
+          onChange={(e) => setStep(Number(e.target.value))}
+          className="w-full accent-purple-500"
+        />
+        <p className="text-xs text-gray-300">
+          {side === "buy" ? "Buying" : "Selling"}{" "}
+          <span className="font-medium">
+            {toTokens(quantity).toFixed(2)} shares
+          </span>{" "}
+          of {optionNames[optionId]}{" "}
+          {side === "buy" ? "costs" : "returns"}{" "}
+          <span className="font-medium">
+            {toTokens(preview?.amount ?? 0n).toFixed(2)} Buster
+          </span>
+        </p>
+        <ul className="space-y-1">
+          {optionNames.map((name, index) => {
+            const before = toPercent(preview?.before[index] ?? 0n);
+            const after = toPercent(preview?.after[index] ?? 0n);
+            const change = after - before;
+            return (
+              <li
+                key={index}
+                className="flex items-center justify-between text-xs"
+              >
+                <span
+                  className={cn(
+                    "truncate text-gray-300",
+                    index === optionId && "font-medium text-gray-100"
+                  )}
+                >
+                  {name}
+                </span>
+                <span className="text-gray-400">
+                  {before.toFixed(1)}% →{" "}
+                  <span className="text-gray-100">{after.toFixed(1)}%</span>
+                  {Math.abs(change) >= 0.05 && (
+                    <span
+                      className={cn(
+                        "ml-1",
+                        change > 0 ? "text-green-400" : "text-red-400"
+                      )}
+                    >
+                      ({change > 0 ? "+" : ""}
+                      {change.toFixed(1)})
+                    </span>
+                  )}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -22,9 +22,12 @@ import { MarketSharesDisplay } from "@/components/market-shares-display";
 import { UrlPreview } from "@/components/url-preview";
 import { MarketContext } from "@/components/market-context";
 import { MarketChart } from "@/components/market-chart";
+import { MarketDepthChart } from "@/components/MarketDepthChart";
 import { CommentSystem } from "@/components/CommentSystem";
+import { ResolutionEvidencePanel } from "@/components/ResolutionEvidencePanel";
 import { MarketV2, MarketOption, MarketCategory } from "@/types/types";
 import { useV3UserRoles } from "@/hooks/useV3UserRoles";
+import { useReferralCapture } from "@/hooks/useReferrals";
 import { FreeTokenClaimButton } from "@/components/FreeTokenClaimButton";
 import { useReadContract } from "wagmi";
 import { PolicastViews, PolicastViewsAbi } from "@/constants/contract";
@@ -172,6 +175,7 @@ export function MarketDetailsClient({
     isFeeCollector: false,
   });
   const [rolesChecked, setRolesChecked] = useState(false);
+  useReferralCapture();
 
   // Fetch market odds for V2 markets to display accurate probabilities
   const { data: marketOddsRaw } = useReadContract({
@@ -476,6 +480,17 @@ export function MarketDetailsClient({
             </div>
           )}
 
+          {/* Resolution evidence and disputes - V2 only */}
+          {market.version === "v2" && market.resolved && (
+            <div className="mt-6 md:mt-8 border-t border-[#544863] pt-4 md:pt-6">
+              <ResolutionEvidencePanel
+                marketId={marketId}
+                options={optionLabels}
+                resolved={market.resolved}
+              />
+            </div>
+          )}
+
           <div className="mt-6 md:mt-8 border-t border-[#544863] pt-4 md:pt-6">
             <h3 className="text-base md:text-lg font-semibold mb-3 md:mb-4 text-gray-100">
               Current Market Sentiment
@@ -514,6 +529,19 @@ export function MarketDetailsClient({
             />
           </div>
 
+          {/* Market Depth - V2 markets still trading */}
+          {market.version === "v2" &&
+            !market.resolved &&
+            !isEnded &&
+            optionLabels.length > 1 && (
+              <div className="mt-6 md:mt-8 border-t border-[#544863] pt-4 md:pt-6">
+                <MarketDepthChart
+                  marketId={Number(marketId)}
+                  optionNames={optionLabels}
+                />
+              </div>
+            )}
+
           {/* Comment System */}
           <div className="mt-6 md:mt-8 border-t border-[#544863] pt-4 md:pt-6">
             <CommentSystem
@@ -6,6 +6,7 @@ import {
   useWriteContract,
   useWaitForTransactionReceipt,
   useReadContract,
+  useSignMessage,
 } from "wagmi";
 import { useQuery } from "@tanstack/react-query";
 import { useToast } from "@/components/ui/use-toast";
@@ -40,6 +41,11 @@ import {
 import { useUserRoles } from "@/hooks/useUserRoles";
 import Link from "next/link";
 import { formatPrice } from "@/lib/utils";
+import {
+  MAX_EVIDENCE_SOURCES,
+  buildEvidenceMessage,
+  resolutionFields,
+} from "@/lib/resolution-evidence";
 
 interface MarketInfo {
   marketId: number;
@@ -58,8 +64,19 @@ interface MarketInfo {
   earlyResolutionAllowed: boolean;
 }
 
+// Signed evidence held until the resolve transaction confirms
+interface PendingEvidence {
+  marketId: number;
+  winningOptionId: number;
+  rationale: string;
+  sourceUrls: string[];
+  signature: `0x${string}`;
+  issuedAt: number;
+}
+
 export function MarketResolver() {
-  const { isConnected } = useAccount();
+  const { isConnected, address } = useAccount();
+  const { signMessageAsync } = useSignMessage();
   const { hasResolverAccess } = useUserRoles();
   const { toast } = useToast();
 
@@ -68,6 +85,10 @@ export function MarketResolver() {
   const [selectedMarket, setSelectedMarket] = useState<MarketInfo | null>(null);
   const [winningOptionId, setWinningOptionId] = useState<string>("");
   const [disputeReason, setDisputeReason] = useState("");
+  const [rationale, setRationale] = useState("");
+  const [sourcesText, setSourcesText] = useState("");
+  const [pendingEvidence, setPendingEvidence] =
+    useState<PendingEvidence | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [filter, setFilter] = useState<
     "all" | "ready" | "resolved" | "disputed"
@@ -413,8 +434,43 @@ export function MarketResolver() {
     // markets are loaded via React Query; no on-chain count/fetch loop required
   }, [isConnected]);
 
+  // Record the resolution evidence once the resolve transaction confirms
+  useEffect(() => {
+    if (!isConfirmed || !hash || !pendingEvidence || !address) return;
+    const evidence = pendingEvidence;
+    setPendingEvidence(null);
+
+    fetch("/api/evidence", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...evidence, txHash: hash, address }),
+    })
+      .then(async (response) => {
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || "Failed to save evidence");
+        }
+      })
+      .catch((error) => {
+        console.error("Error saving resolution evidence:", error);
+        toast({
+          title: "Evidence Not Saved",
+          description:
+            "The market was resolved, but the evidence could not be recorded.",
+          variant: "destructive",
+        });
+      });
+  }, [isConfirmed, hash, pendingEvidence, address, toast]);
+
   const handleResolveMarket = async () => {
-    if (!selectedMarket || !winningOptionId || !hasResolverAccess) return;
+    if (
+      !selectedMarket ||
+      !winningOptionId ||
+      !rationale.trim() ||
+      !hasResolverAccess
+    ) {
+      return;
+    }
 
     // Check early resolution constraints
     if (selectedMarket.earlyResolutionAllowed) {
@@ -424,6 +480,30 @@ export function MarketResolver() {
     }
 
     try {
+      // Sign the rationale up front so it can be posted after confirmation
+      const sourceUrls = sourcesText.split("\n");
+      const issuedAt = Date.now();
+      const signature = await signMessageAsync({
+        message: buildEvidenceMessage(
+          "resolution",
+          resolutionFields({
+            marketId: selectedMarket.marketId,
+            winningOptionId: Number(winningOptionId),
+            rationale,
+            sourceUrls,
+          }),
+          issuedAt
+        ),
+      });
+      setPendingEvidence({
+        marketId: selectedMarket.marketId,
+        winningOptionId: Number(winningOptionId),
+        rationale,
+        sourceUrls,
+        signature,
+        issuedAt,
+      });
+
       await (writeContract as any)({
         address: V2contractAddress,
         abi: V2contractAbi,
@@ -433,8 +513,11 @@ export function MarketResolver() {
 
       setSelectedMarket(null);
       setWinningOptionId("");
+      setRationale("");
+      setSourcesText("");
     } catch (error) {
       console.error("Error resolving market:", error);
+      setPendingEvidence(null);
       toast({
         title: "Error",
         description: "Failed to resolve market.",
@@ -829,10 +912,43 @@ export function MarketResolver() {
                   </Select>
                 </div>
 
+                <div>
+                  <Label htmlFor="rationale" className="text-white/80">
+                    Resolution Rationale *
+                  </Label>
+                  <Textarea
+                    id="rationale"
+                    placeholder="Explain how the outcome was determined..."
+                    value={rationale}
+                    onChange={(e) => setRationale(e.target.value)}
+                    rows={3}
+                    className="bg-white/10 border-white/20 text-white placeholder:text-white/60"
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="sources" className="text-white/80">
+                    Sources (one URL per line, max {MAX_EVIDENCE_SOURCES})
+                  </Label>
+                  <Textarea
+                    id="sources"
+                    placeholder="https://..."
+                    value={sourcesText}
+                    onChange={(e) => setSourcesText(e.target.value)}
+                    rows={2}
+                    className="bg-white/10 border-white/20 text-white placeholder:text-white/60"
+                  />
+                </div>
+
                 <div className="flex gap-2">
                   <Button
                     onClick={handleResolveMarket}
-                    disabled={!winningOptionId || isPending || isConfirming}
+                    disabled={
+                      !winningOptionId ||
+                      !rationale.trim() ||
+                      isPending ||
+                      isConfirming
+                    }
                     className="flex items-center gap-2 bg-white/20 hover:bg-white/30 text-white"
                   >
                     {isPending || isConfirming ? (
@@ -0,0 +1,474 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useAccount, useSignMessage } from "wagmi";
+import {
+  CalendarClock,
+  FileStack,
+  Loader2,
+  Plus,
+  Save,
+  Trash2,
+  Wand2,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  BUILT_IN_VARIABLES,
+  MAX_BATCH_SIZE,
+  MAX_SCHEDULE_OCCURRENCES,
+  buildSchedulerMessage,
+  deleteTemplateFields,
+  extractTemplateVariables,
+  renderDraft,
+  scheduleFields,
+  templateFields,
+  validateDraft,
+  type MarketDraft,
+  type MarketTemplate,
+} from "@/lib/market-templates";
+
+interface MarketTemplatePanelProps {
+  draft: MarketDraft;
+  onLoadDraft: (draft: MarketDraft) => void;
+  onScheduled?: () => void;
+}
+
+// A form snapshot plus the variable values to render it with
+interface BatchEntry {
+  draft: MarketDraft;
+  variables: Record<string, string>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// datetime-local value for "now + 1 hour", in local time
+const defaultScheduleTime = () => {
+  const date = new Date(Date.now() + 60 * 60 * 1000);
+  date.setSeconds(0, 0);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+    .toISOString()
+    .slice(0, 16);
+};
+
+export function MarketTemplatePanel({
+  draft,
+  onLoadDraft,
+  onScheduled,
+}: MarketTemplatePanelProps) {
+  const { address } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const { toast } = useToast();
+
+  const [templates, setTemplates] = useState<MarketTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState<string>("");
+  const [templateName, setTemplateName] = useState("");
+  const [variables, setVariables] = useState<Record<string, string>>({});
+  const [entries, setEntries] = useState<BatchEntry[]>([]);
+  const [scheduledFor, setScheduledFor] = useState(defaultScheduleTime);
+  const [repeatCount, setRepeatCount] = useState("1");
+  const [repeatEveryDays, setRepeatEveryDays] = useState("7");
+  const [isBusy, setIsBusy] = useState(false);
+
+  const customVariables = extractTemplateVariables(draft);
+  const startAt = new Date(scheduledFor).getTime() || Date.now();
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const response = await fetch("/api/market-templates");
+      if (!response.ok) throw new Error("Failed to fetch templates");
+      const data = await response.json();
+      setTemplates(data.templates || []);
+    } catch (error) {
+      console.error("Error fetching market templates:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const selectedTemplate = templates.find((t) => t.id === selectedId);
+
+  const handleSelectTemplate = (id: string) => {
+    const template = templates.find((t) => t.id === id);
+    if (!template) return;
+    setSelectedId(id);
+    setTemplateName(template.name);
+    onLoadDraft(template.draft);
+  };
+
+  const signAndPost = async (
+    url: string,
+    method: "POST" | "DELETE",
+    message: (issuedAt: number) => string,
+    body: Record<string, unknown>
+  ) => {
+    const issuedAt = Date.now();
+    const signature = await signMessageAsync({ message: message(issuedAt) });
+    const response = await fetch(url, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...body, address, signature, issuedAt }),
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || "Request failed");
+    return data;
+  };
+
+  const runAction = async (label: string, action: () => Promise<void>) => {
+    if (!address) return;
+    try {
+      setIsBusy(true);
+      await action();
+    } catch (error) {
+      console.error(`${label} failed:`, error);
+      toast({
+        title: `${label} Failed`,
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSaveTemplate = () =>
+    runAction("Save Template", async () => {
+      const name = templateName.trim();
+      // Overwrite only when the name still matches the loaded template
+      const id = selectedTemplate?.name === name ? selectedId : undefined;
+      const saved: MarketTemplate = await signAndPost(
+        "/api/market-templates",
+        "POST",
+        (issuedAt) =>
+          buildSchedulerMessage(
+            "save_template",
+            templateFields({ name, draft }),
+            issuedAt
+          ),
+        { id, name, draft }
+      );
+      toast({ title: "Template Saved", description: saved.name });
+      setSelectedId(saved.id);
+      await fetchTemplates();
+    });
+
+  const handleDeleteTemplate = () =>
+    runAction("Delete Template", async () => {
+      if (!selectedId) return;
+      await signAndPost(
+        "/api/market-templates",
+        "DELETE",
+        (issuedAt) =>
+          buildSchedulerMessage(
+            "delete_template",
+            deleteTemplateFields(selectedId),
+            issuedAt
+          ),
+        { id: selectedId }
+      );
+      toast({ title: "Template Deleted" });
+      setSelectedId("");
+      await fetchTemplates();
+    });
+
+  const handleApplyVariables = () => {
+    onLoadDraft(renderDraft(draft, variables, startAt));
+  };
+
+  const handleAddToBatch = () => {
+    const error = validateDraft(renderDraft(draft, variables, startAt));
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+    if (entries.length >= MAX_BATCH_SIZE) {
+      toast({
+        title: "Error",
+        description: `A batch can hold at most ${MAX_BATCH_SIZE} markets`,
+        variant: "destructive",
+      });
+      return;
+    }
+    setEntries([...entries, { draft, variables: { ...variables } }]);
+  };
+
+  // Each occurrence renders every entry with its own start date
+  const buildBatches = () => {
+    const count = Math.min(
+      MAX_SCHEDULE_OCCURRENCES,
+      Math.max(1, parseInt(repeatCount) || 1)
+    );
+    const everyMs = (parseFloat(repeatEveryDays) || 7) * DAY_MS;
+    return Array.from({ length: count }, (_, i) => {
+      const runAt = startAt + i * everyMs;
+      return {
+        scheduledFor: runAt,
+        drafts: entries.map((entry) =>
+          renderDraft(entry.draft, entry.variables, runAt)
+        ),
+      };
+    });
+  };
+
+  const handleSchedule = () =>
+    runAction("Schedule", async () => {
+      if (startAt <= Date.now()) {
+        throw new Error("Pick a time in the future");
+      }
+      const batches = buildBatches();
+      await signAndPost(
+        "/api/market-schedules",
+        "POST",
+        (issuedAt) =>
+          buildSchedulerMessage(
+            "schedule",
+            scheduleFields({ batches }),
+            issuedAt
+          ),
+        { batches, templateId: selectedId || undefined }
+      );
+      toast({
+        title: "Markets Scheduled",
+        description: `${batches.length} batch(es) queued for signing.`,
+      });
+      setEntries([]);
+      onScheduled?.();
+    });
+
+  return (
+    <Card className="border-0 shadow-lg bg-gradient-to-br from-[#433952] to-[#544863]">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-white">
+          <FileStack className="h-5 w-5" />
+          Templates & Scheduling
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Template picker */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label className="text-white/80">Load Template</Label>
+            <Select value={selectedId} onValueChange={handleSelectTemplate}>
+              <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                <SelectValue
+                  placeholder={
+                    templates.length ? "Choose a template" : "No templates yet"
+                  }
+                />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map((template) => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="templateName" className="text-white/80">
+              Template Name
+            </Label>
+            <div className="flex gap-2">
+              <Input
+                id="templateName"
+                placeholder="e.g., Weekly match day"
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+                maxLength={80}
+                className="bg-white/10 border-white/20 text-white placeholder:text-white/60"
+              />
+              <Button
+                size="sm"
+                onClick={handleSaveTemplate}
+                disabled={isBusy || !templateName.trim()}
+                className="bg-white/20 hover:bg-white/30 text-white"
+              >
+                <Save className="h-4 w-4" />
+              </Button>
+              {selectedId && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={handleDeleteTemplate}
+                  disabled={isBusy}
+                  className="text-red-300 hover:text-red-100 hover:bg-white/10"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <p className="text-xs text-white/60">
+          Use {"{{name}}"} placeholders in the question, description or
+          options. Built in:{" "}
+          {BUILT_IN_VARIABLES.map((name) => `{{${name}}}`).join(", ")} (taken
+          from the scheduled time).
+        </p>
+
+        {customVariables.length > 0 && (
+          <div className="space-y-2">
+            <Label className="text-white/80">Variables</Label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {customVariables.map((name) => (
+                <Input
+                  key={name}
+                  placeholder={name}
+                  value={variables[name] ?? ""}
+                  onChange={(e) =>
+                    setVariables((prev) => ({
+                      ...prev,
+                      [name]: e.target.value,
+                    }))
+                  }
+                  className="bg-white/10 border-white/20 text-white placeholder:text-white/60"
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="p-3 bg-white/10 rounded-lg text-sm text-white">
+          <span className="text-white/60">Preview: </span>
+          {renderDraft(draft, variables, startAt).question || "—"}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleApplyVariables}
+            className="bg-white/10 hover:bg-white/20 text-white border-white/20"
+          >
+            <Wand2 className="h-4 w-4 mr-2" />
+            Fill Form
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleAddToBatch}
+            className="bg-white/10 hover:bg-white/20 text-white border-white/20"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add to Batch
+          </Button>
+        </div>
+
+        {/* Scheduling */}
+        <div className="space-y-3 p-4 bg-[#544863]/30 rounded-lg border border-white/20">
+          <h4 className="font-medium flex items-center gap-2 text-white">
+            <CalendarClock className="h-4 w-4" />
+            Scheduled Batch
+            <Badge
+              variant="secondary"
+              className="bg-white/20 text-white border-white/30"
+            >
+              {entries.length}/{MAX_BATCH_SIZE}
+            </Badge>
+          </h4>
+
+          {entries.length === 0 ? (
+            <p className="text-sm text-white/60">
+              Add markets from the form to build a batch.
+            </p>
+          ) : (
+            <ul className="space-y-1">
+              {entries.map((entry, index) => (
+                <li
+                  key={index}
+                  className="flex items-center justify-between gap-2 text-sm text-white"
+                >
+                  <span className="truncate">
+                    {renderDraft(entry.draft, entry.variables, startAt)
+                      .question}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() =>
+                      setEntries(entries.filter((_, i) => i !== index))
+                    }
+                    className="text-red-300 hover:text-red-100 hover:bg-white/10"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="scheduledFor" className="text-xs text-white/80">
+                Create at
+              </Label>
+              <Input
+                id="scheduledFor"
+                type="datetime-local"
+                value={scheduledFor}
+                onChange={(e) => setScheduledFor(e.target.value)}
+                className="bg-white/10 border-white/20 text-white"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="repeatCount" className="text-xs text-white/80">
+                Occurrences
+              </Label>
+              <Input
+                id="repeatCount"
+                type="number"
+                min="1"
+                max={MAX_SCHEDULE_OCCURRENCES}
+                value={repeatCount}
+                onChange={(e) => setRepeatCount(e.target.value)}
+                className="bg-white/10 border-white/20 text-white"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="repeatEvery" className="text-xs text-white/80">
+                Every (days)
+              </Label>
+              <Input
+                id="repeatEvery"
+                type="number"
+                min="1"
+                value={repeatEveryDays}
+                onChange={(e) => setRepeatEveryDays(e.target.value)}
+                disabled={repeatCount === "1"}
+                className="bg-white/10 border-white/20 text-white"
+              />
+            </div>
+          </div>
+
+          <Button
+            onClick={handleSchedule}
+            disabled={isBusy || entries.length === 0}
+            className="w-full bg-white/20 hover:bg-white/30 text-white"
+          >
+            {isBusy ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <CalendarClock className="h-4 w-4 mr-2" />
+            )}
+            Sign & Schedule
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
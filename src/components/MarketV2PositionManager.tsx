@@ -17,6 +17,8 @@ import { Badge } from "./ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
 import { MarketV2SellInterface } from "./MarketV2SellInterface";
 import { MarketV2BuyInterface } from "./market-v2-buy-interface";
+import { PositionBatchActions } from "./PositionBatchActions";
+import { usePaperTrading } from "@/hooks/usePaperTrading";
 import { MarketV2, MarketOption } from "@/types/types";
 import {
   TrendingUp,
@@ -378,7 +380,15 @@ export function MarketV2PositionManager({
     (sum, pos) => sum + pos.unrealizedPnL,
     0n
   );
-  const hasPositions = positions.some((pos) => pos.shares > 0n);
+  // Paper mode: paper holdings also open the tabs; the sell tab trades them
+  const { enabled: paperMode, sharesFor: paperSharesFor } = usePaperTrading();
+  const hasPaperPositions =
+    paperMode &&
+    paperSharesFor(marketId, market.options.length).some(
+      (shares) => shares > 0n
+    );
+  const hasPositions =
+    positions.some((pos) => pos.shares > 0n) || hasPaperPositions;
 
   // Convert shares array to object for interfaces
   const userSharesObject = userSharesQueries.map((query) =>
@@ -607,6 +617,15 @@ export function MarketV2PositionManager({
                   </Card>
                 ))}
               </div>
+
+              {!market.resolved && !market.invalidated && !paperMode && (
+                <PositionBatchActions
+                  marketId={marketId}
+                  market={market}
+                  userShares={userSharesObject}
+                  onComplete={handleRefresh}
+                />
+              )}
             </TabsContent>
 
             <TabsContent value="sell" className="mt-3 md:mt-4">
@@ -22,11 +22,25 @@ import {
   PolicastViewsAbi,
 } from "@/constants/contract";
 import { encodeFunctionData } from "viem";
-import { Loader2, TrendingDown } from "lucide-react";
+import { AlertTriangle, Loader2, TrendingDown } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/components/ui/use-toast";
 import { MarketV2 } from "@/types/types";
 import { MarketV2SharesDisplay } from "./market-v2-shares-display";
+import { sharesToWei, probabilityToTokenPrice } from "@/lib/lmsr";
+import { fetchSellQuote } from "@/lib/lmsr-state";
+import { useLMSRState, useLMSRSellQuote } from "@/hooks/useLMSRState";
+import { useTradeSettings } from "@/hooks/useTradeSettings";
+import { usePaperTrading } from "@/hooks/usePaperTrading";
+import {
+  checkedSellLimits,
+  formatBps,
+  isPriceImpactHigh,
+  isQuoteExpired,
+  priceImpactBps,
+  sellLimits,
+} from "@/lib/trade-settings";
+import { TradeSettingsDialog } from "./TradeSettingsDialog";
 
 interface MarketV2SellInterfaceProps {
   marketId: number;
@@ -42,21 +56,6 @@ type SellingStep =
   | "processing"
   | "sellSuccess";
 
-// Helper function to calculate implied probability from token price
-function calculateProbability(tokenPrice: bigint): number {
-  // PolicastViews returns token prices (0-100 range), convert to percentage
-  const price = Number(tokenPrice) / 1e18;
-  return Math.max(0, Math.min(100, price));
-}
-
-// Helper function to calculate implied odds
-function calculateOdds(tokenPrice: bigint): number {
-  // Convert token price to probability and then to odds
-  const probability = Number(tokenPrice) / (100 * 1e18); // Convert back to 0-1 range
-  if (probability <= 0) return 0;
-  return 1 / probability;
-}
-
 // Format price with proper decimals
 function formatPrice(price: bigint, decimals: number = 18): string {
   const formatted = Number(price) / Math.pow(10, decimals);
@@ -71,17 +70,10 @@ function formatShares(shares: bigint): string {
   return formatted.toFixed(2);
 }
 
-// Convert internal probability to token price (for fallback scenarios)
-function probabilityToTokenPrice(probability: bigint): bigint {
-  // Convert internal probability (0-1 range scaled by 1e18) to token price (0-100 range)
-  const PAYOUT_PER_SHARE = 100n * 10n ** 18n; // 100 tokens per share
-  return (probability * PAYOUT_PER_SHARE) / 1000000000000000000n;
-}
-
 export function MarketV2SellInterface({
   marketId,
   market,
-  userShares,
+  userShares: walletShares,
   onSellComplete,
 }: MarketV2SellInterfaceProps) {
   const { address: accountAddress, isConnected, connector } = useAccount();
@@ -116,21 +108,16 @@ export function MarketV2SellInterface({
     null
   );
 
-  // Slippage config (basis points)
-  const SELL_SLIPPAGE_BPS = 50; // 0.5%
-
-  // Shares utils
-  function sharesToWei(amount: string): bigint {
-    if (!amount) return 0n;
-    const [i, f = ""] = amount.split(".");
-    const frac = (f + "0".repeat(18)).slice(0, 18);
-    return BigInt((i || "0") + frac);
-  }
-
-  function withNegBuffer(x: bigint, bps: number = SELL_SLIPPAGE_BPS): bigint {
-    const denom = 10000n;
-    return (x * (denom - BigInt(bps))) / denom;
-  }
+  // Per-wallet slippage / price-impact / deadline settings
+  const { settings: tradeSettings } = useTradeSettings();
+  // Sale and bounds as shown on the review step, and when; the sale signs
+  // exactly these unless the quote deadline has passed
+  const [reviewedSale, setReviewedSale] = useState<{
+    reviewedAt: number;
+    quantity: bigint;
+    minPricePerShare: bigint;
+    minTotalProceeds: bigint;
+  } | null>(null);
 
   // Token information//
   const { data: tokenSymbol } = useReadContract({
@@ -178,8 +165,38 @@ export function MarketV2SellInterface({
   // Compute quantity in 1e18 shares
   const quantityInShares = useMemo(() => sharesToWei(sellAmount), [sellAmount]);
 
+  // Off-chain LMSR quote; the on-chain quote is only a fallback while the
+  // LMSR state loads. Paper mode sells paper shares against the simulated
+  // state.
+  const {
+    enabled: paperMode,
+    trade: paperTrade,
+    simulate: simulatePaper,
+    sharesFor: paperSharesFor,
+  } = usePaperTrading();
+  const userShares = useMemo(
+    () =>
+      paperMode
+        ? paperSharesFor(marketId, market.options.length)
+        : walletShares,
+    [paperMode, paperSharesFor, marketId, market.options.length, walletShares]
+  );
+  const { state: liveLmsrState } = useLMSRState(
+    marketId,
+    market.options.length
+  );
+  const lmsrState = useMemo(
+    () => simulatePaper(liveLmsrState, marketId),
+    [simulatePaper, liveLmsrState, marketId]
+  );
+  const localSellQuote = useLMSRSellQuote(
+    lmsrState,
+    selectedOptionId,
+    quantityInShares
+  );
+
   // On-chain sell quote (rawRefund, fee, netRefund, avgPricePerShare)
-  const { data: sellQuote } = useReadContract({
+  const { data: onChainSellQuote } = useReadContract({
     address: PolicastViews,
     abi: PolicastViewsAbi,
     functionName: "quoteSell",
@@ -188,11 +205,25 @@ export function MarketV2SellInterface({
         ? undefined
         : [BigInt(marketId), BigInt(selectedOptionId), quantityInShares],
     query: {
-      enabled: selectedOptionId !== null && quantityInShares > 0n,
+      enabled:
+        !lmsrState && selectedOptionId !== null && quantityInShares > 0n,
       refetchInterval: 2000,
     },
   });
 
+  const sellQuote = useMemo(
+    () =>
+      localSellQuote
+        ? ([
+            localSellQuote.rawRefund,
+            localSellQuote.fee,
+            localSellQuote.netRefund,
+            localSellQuote.avgPricePerShare,
+          ] as const)
+        : onChainSellQuote,
+    [localSellQuote, onChainSellQuote]
+  );
+
   const rawRefundFromQuote = (sellQuote?.[0] ?? 0n) as bigint;
   const feeFromQuote = (sellQuote?.[1] ?? 0n) as bigint;
   const netRefundFromQuote = (sellQuote?.[2] ?? 0n) as bigint;
@@ -218,10 +249,46 @@ export function MarketV2SellInterface({
     return rawRefund - fee;
   }, [netRefundFromQuote, tokenPrices, selectedOptionId, sellAmount]);
 
-  // Calculate minimum price with slippage protection (uses SELL_SLIPPAGE_BPS)
-  const calculateMinPrice = useCallback((pricePerShare: bigint): bigint => {
-    return withNegBuffer(pricePerShare, SELL_SLIPPAGE_BPS);
-  }, []);
+  // Bounds from the live quote with the wallet's slippage tolerance,
+  // snapshotted into reviewedSale when the sale is reviewed
+  const saleLimits = useMemo(() => {
+    // Use the quoted avg price per share when available
+    const avgPricePerShare =
+      avgPricePerShareFromQuote > 0n
+        ? avgPricePerShareFromQuote
+        : quantityInShares > 0n
+        ? (estimatedRevenue * 1000000000000000000n) / quantityInShares
+        : 0n;
+    return sellLimits(
+      {
+        avgPricePerShare,
+        netRefund:
+          netRefundFromQuote > 0n ? netRefundFromQuote : estimatedRevenue,
+      },
+      tradeSettings
+    );
+  }, [
+    avgPricePerShareFromQuote,
+    quantityInShares,
+    estimatedRevenue,
+    netRefundFromQuote,
+    tradeSettings,
+  ]);
+
+  // Average fill before fees vs the option's current odds
+  const priceImpact = useMemo(
+    () =>
+      priceImpactBps(
+        selectedOptionId !== null
+          ? marketOddsRaw?.[selectedOptionId]
+          : undefined,
+        rawRefundFromQuote,
+        quantityInShares,
+        "sell"
+      ),
+    [marketOddsRaw, selectedOptionId, rawRefundFromQuote, quantityInShares]
+  );
+  const highPriceImpact = isPriceImpactHigh(priceImpact, tradeSettings);
 
   // Handle sell transaction
   const handleSell = useCallback(async () => {
@@ -229,38 +296,74 @@ export function MarketV2SellInterface({
       !accountAddress ||
       selectedOptionId === null ||
       !sellAmount ||
+      quantityInShares <= 0n ||
       !tokenDecimals ||
       !estimatedRevenue
     )
       return;
 
+    if (
+      !reviewedSale ||
+      isQuoteExpired(reviewedSale.reviewedAt, tradeSettings)
+    ) {
+      setError("Quote expired. Please review the sale again.");
+      setSellingStep("amount");
+      return;
+    }
+
     try {
       setIsProcessing(true);
       setSellingStep("processing");
 
-      const sellAmountBigInt = quantityInShares;
-
-      // Use on-chain avg price per share when available
-      const avgPricePerShare =
-        avgPricePerShareFromQuote > 0n
-          ? avgPricePerShareFromQuote
-          : sellAmountBigInt > 0n
-          ? ((estimatedRevenue as bigint) * 1000000000000000000n) /
-            sellAmountBigInt
-          : 0n;
-      const minPricePerShare = calculateMinPrice(avgPricePerShare);
-      const minTotalProceeds =
-        netRefundFromQuote > 0n
-          ? withNegBuffer(netRefundFromQuote)
-          : withNegBuffer(estimatedRevenue as bigint);
+      // Sign what was reviewed, not the quote as it stands now
+      const {
+        quantity: sellAmountBigInt,
+        minPricePerShare,
+        minTotalProceeds,
+      } = reviewedSale;
+
+      if (paperMode) {
+        await paperTrade({
+          marketId,
+          optionId: selectedOptionId,
+          side: "sell",
+          quantity: sellAmountBigInt.toString(),
+          limit: minTotalProceeds.toString(),
+        });
+        setSellingStep("sellSuccess");
+        setSellAmount("");
+        setSelectedOptionId(null);
+        toast({
+          title: "Paper Trade Filled",
+          description: "Your paper shares were sold at the simulated price.",
+        });
+        onSellComplete?.();
+        setTimeout(() => {
+          setSellingStep("initial");
+          setError(null);
+        }, 3000);
+        return;
+      }
+
+      // The previewed bounds come from the off-chain engine; check them
+      // against the contract's quote for the same sale before signing
+      const limits = checkedSellLimits(
+        { minPricePerShare, minTotalProceeds },
+        await fetchSellQuote(marketId, selectedOptionId, sellAmountBigInt),
+        tradeSettings
+      );
+      if (!limits) {
+        setError("The price moved since this quote. Review the new proceeds.");
+        setSellingStep("amount");
+        return;
+      }
 
       console.log("=== V2 SELL TRANSACTION ===");
       console.log("Market ID:", marketId);
       console.log("Option ID:", selectedOptionId);
       console.log("Sell Amount:", sellAmountBigInt.toString());
       console.log("Estimated Revenue:", estimatedRevenue.toString());
-      console.log("Avg Price Per Share:", avgPricePerShare.toString());
-      console.log("Min Price Per Share:", minPricePerShare.toString());
+      console.log("Min Price Per Share:", limits.minPricePerShare.toString());
 
       await writeContractAsync({
         address: V2contractAddress,
@@ -270,13 +373,17 @@ export function MarketV2SellInterface({
           BigInt(marketId),
           BigInt(selectedOptionId),
           sellAmountBigInt,
-          minPricePerShare,
-          minTotalProceeds, // _minTotalProceeds (net proceeds with slippage buffer)
+          limits.minPricePerShare,
+          limits.minTotalProceeds, // _minTotalProceeds (net proceeds with slippage buffer)
         ],
       });
     } catch (err) {
       console.error("Sell transaction failed:", err);
-      setError("Sell transaction failed. Please try again.");
+      setError(
+        paperMode && err instanceof Error
+          ? err.message
+          : "Sell transaction failed. Please try again."
+      );
       setSellingStep("initial");
     } finally {
       setIsProcessing(false);
@@ -287,9 +394,14 @@ export function MarketV2SellInterface({
     sellAmount,
     tokenDecimals,
     estimatedRevenue,
-    sellQuote,
-    calculateMinPrice,
+    quantityInShares,
+    reviewedSale,
+    tradeSettings,
     marketId,
+    paperMode,
+    paperTrade,
+    toast,
+    onSellComplete,
     writeContractAsync,
   ]);
 
@@ -409,6 +521,12 @@ export function MarketV2SellInterface({
         <div className="flex items-center gap-2 text-red-600">
           <TrendingDown className="h-3 w-3 md:h-4 md:w-4" />
           <span className="font-medium text-sm md:text-base">Sell Shares</span>
+          {paperMode && (
+            <span className="rounded bg-amber-500/20 px-1 text-[10px] text-amber-300">
+              Paper
+            </span>
+          )}
+          <TradeSettingsDialog className="ml-auto" />
         </div>
 
         {/* User's current shares display */}
@@ -552,6 +670,15 @@ export function MarketV2SellInterface({
                       {tokenSymbol || "TOKENS"}
                     </span>
                   </div>
+                  <div
+                    className={cn(
+                      "flex justify-between text-xs",
+                      highPriceImpact ? "text-amber-300" : "text-gray-400"
+                    )}
+                  >
+                    <span>Price Impact:</span>
+                    <span>{formatBps(priceImpact)}</span>
+                  </div>
                 </div>
               )}
               {sellAmount && !estimatedRevenue && (
@@ -574,10 +701,18 @@ export function MarketV2SellInterface({
                 Back
               </Button>
               <Button
-                onClick={() => setSellingStep("confirm")}
+                onClick={() => {
+                  setError(null);
+                  setReviewedSale({
+                    reviewedAt: Date.now(),
+                    quantity: quantityInShares,
+                    ...saleLimits,
+                  });
+                  setSellingStep("confirm");
+                }}
                 disabled={
                   !sellAmount ||
-                  parseFloat(sellAmount) <= 0 ||
+                  quantityInShares <= 0n ||
                   parseFloat(sellAmount) > maxSellAmount
                 }
                 className="flex-1 bg-red-600 hover:bg-red-700 text-xs h-8"
@@ -613,16 +748,33 @@ export function MarketV2SellInterface({
                   </span>
                 </div>
                 <div className="flex justify-between">
-                  <span>Min Price ({SELL_SLIPPAGE_BPS / 100}% slippage):</span>
+                  <span>
+                    Min Price ({formatBps(tradeSettings.slippageBps)}{" "}
+                    slippage):
+                  </span>
                   <span className="font-medium">
-                    {formatPrice(
-                      avgPricePerShareFromQuote > 0n
-                        ? calculateMinPrice(avgPricePerShareFromQuote)
-                        : calculateMinPrice(currentPrice)
-                    )}{" "}
+                    {formatPrice(reviewedSale?.minPricePerShare ?? 0n)}{" "}
                     {tokenSymbol}
                   </span>
                 </div>
+                <div className="flex justify-between">
+                  <span>Min Proceeds:</span>
+                  <span className="font-medium">
+                    {formatPrice(reviewedSale?.minTotalProceeds ?? 0n)}{" "}
+                    {tokenSymbol}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Price Impact:</span>
+                  <span
+                    className={cn(
+                      "font-medium",
+                      highPriceImpact && "text-amber-300"
+                    )}
+                  >
+                    {formatBps(priceImpact)}
+                  </span>
+                </div>
                 <hr className="border-red-400/30" />
                 <div className="flex justify-between font-medium">
                   <span>Estimated Revenue:</span>
@@ -633,6 +785,17 @@ export function MarketV2SellInterface({
               </div>
             </div>
 
+            {highPriceImpact && (
+              <div className="flex items-start gap-1.5 bg-amber-500/20 backdrop-blur-sm border border-amber-400/30 rounded-md p-1.5 text-xs text-amber-300">
+                <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                <span>
+                  This sale moves the price by {formatBps(priceImpact)}, above
+                  your {formatBps(tradeSettings.maxPriceImpactBps)} limit.
+                  Consider selling fewer shares.
+                </span>
+              </div>
+            )}
+
             <div className="flex gap-2">
               <Button
                 onClick={() => setSellingStep("amount")}
@@ -651,6 +814,8 @@ export function MarketV2SellInterface({
                     <Loader2 className="mr-1 md:mr-2 h-3 w-3 md:h-4 md:w-4 animate-spin" />
                     Selling...
                   </>
+                ) : highPriceImpact ? (
+                  "Sell Anyway"
                 ) : (
                   "Confirm Sale"
                 )}
@@ -0,0 +1,475 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useAccount, useSignMessage } from "wagmi";
+import { Flag, Loader2, RefreshCw } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { useWalletSession } from "@/hooks/useWalletSession";
+import {
+  MUTE_DURATION_OPTIONS,
+  REPORT_REASON_LABELS,
+  buildModerationMessage,
+  moderationFields,
+  type ModerationAction,
+  type ModerationLogEntry,
+  type ModerationQueueItem,
+  type UserSanction,
+} from "@/lib/comment-moderation";
+
+type QueueView = "reports" | "sanctions" | "audit";
+
+const ACTION_LABELS: Record<ModerationAction, string> = {
+  hide: "Hid comment",
+  unhide: "Restored comment",
+  delete: "Deleted comment",
+  dismiss: "Dismissed reports",
+  mute: "Muted",
+  ban: "Banned",
+  lift: "Lifted sanctions",
+};
+
+const shortAddress = (address?: string) =>
+  address ? `${address.slice(0, 6)}...${address.slice(-4)}` : "unknown";
+
+const formatDuration = (hours: number) =>
+  hours % 24 === 0 ? `${hours / 24}d` : `${hours}h`;
+
+export function ModerationQueue() {
+  const { address } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const { toast } = useToast();
+  // The queue is only served to a signed-in validator or admin
+  const { isSignedIn, loading: sessionLoading, signIn } = useWalletSession();
+
+  const [view, setView] = useState<QueueView>("reports");
+  const [queue, setQueue] = useState<ModerationQueueItem[]>([]);
+  const [sanctions, setSanctions] = useState<UserSanction[]>([]);
+  const [auditLog, setAuditLog] = useState<ModerationLogEntry[]>([]);
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [muteHours, setMuteHours] = useState(MUTE_DURATION_OPTIONS[1]);
+  const [sanctionTarget, setSanctionTarget] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch("/api/moderation");
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch moderation queue");
+      }
+      setQueue(data.queue || []);
+      setSanctions(data.sanctions || []);
+      setAuditLog(data.auditLog || []);
+    } catch (error) {
+      console.error("Error fetching moderation queue:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isSignedIn) fetchQueue();
+  }, [isSignedIn, fetchQueue]);
+
+  const handleSignIn = async () => {
+    try {
+      await signIn();
+    } catch (error) {
+      toast({
+        title: "Sign-in Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // `key` tracks the busy row and its reason input
+  const handleAction = async (
+    action: ModerationAction,
+    target: string,
+    key: string
+  ) => {
+    if (!address) return;
+    const reason = reasons[key]?.trim() || undefined;
+    const durationHours = action === "mute" ? muteHours : undefined;
+
+    try {
+      setPendingId(key);
+      const issuedAt = Date.now();
+      const signature = await signMessageAsync({
+        message: buildModerationMessage(
+          action,
+          moderationFields({ target, reason, durationHours }),
+          issuedAt
+        ),
+      });
+
+      const response = await fetch("/api/moderation/action", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action,
+          target,
+          reason,
+          durationHours,
+          address,
+          signature,
+          issuedAt,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Action failed");
+
+      toast({ title: ACTION_LABELS[action] });
+      setReasons((prev) => ({ ...prev, [key]: "" }));
+      if (key === "manual") setSanctionTarget("");
+      await fetchQueue();
+    } catch (error) {
+      console.error("Error applying moderation action:", error);
+      toast({
+        title: "Moderation Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const reasonInput = (key: string) => (
+    <Input
+      placeholder="Reason (optional, recorded in the audit log)"
+      value={reasons[key] ?? ""}
+      onChange={(e) =>
+        setReasons((prev) => ({ ...prev, [key]: e.target.value }))
+      }
+      className="bg-white/10 border-white/20 text-white placeholder:text-white/60"
+    />
+  );
+
+  const renderReports = () =>
+    queue.length === 0 ? (
+      <p className="text-center text-white/70 py-8">No open reports.</p>
+    ) : (
+      queue.map((item) => {
+        const author = item.comment?.author;
+        const busy = pendingId === item.commentId;
+        return (
+          <Card key={item.commentId} className="border-0 bg-white/10">
+            <CardContent className="p-4 space-y-3">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  {item.comment ? (
+                    <Link
+                      href={`/market/${item.comment.marketId}`}
+                      className="font-medium text-white hover:text-white/80"
+                    >
+                      Market #{item.comment.marketId}
+                    </Link>
+                  ) : (
+                    <span className="font-medium text-white">
+                      Comment unavailable
+                    </span>
+                  )}
+                  <p className="text-xs text-white/60">
+                    {shortAddress(author)}
+                    {item.comment &&
+                      ` · ${new Date(item.comment.createdAt).toLocaleString()}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {item.authorSanction && (
+                    <Badge variant="destructive">
+                      {item.authorSanction.type === "ban" ? "Banned" : "Muted"}
+                    </Badge>
+                  )}
+                  {item.comment && item.comment.status !== "visible" && (
+                    <Badge variant="secondary">{item.comment.status}</Badge>
+                  )}
+                  <Badge className="bg-orange-500/80 text-white">
+                    {item.reports.length} report
+                    {item.reports.length === 1 ? "" : "s"}
+                  </Badge>
+                </div>
+              </div>
+
+              {item.comment && (
+                <p className="text-sm text-white whitespace-pre-wrap">
+                  {item.comment.content}
+                </p>
+              )}
+
+              <ul className="space-y-1">
+                {item.reports.map((report) => (
+                  <li key={report.id} className="text-xs text-white/70">
+                    <span className="text-white">
+                      {REPORT_REASON_LABELS[report.reason]}
+                    </span>{" "}
+                    · {shortAddress(report.reporter)}
+                    {report.details && ` — ${report.details}`}
+                  </li>
+                ))}
+              </ul>
+
+              {reasonInput(item.commentId)}
+              <div className="flex flex-wrap gap-2">
+                {item.comment?.status === "hidden" ? (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={busy}
+                    onClick={() =>
+                      handleAction("unhide", item.commentId, item.commentId)
+                    }
+                    className="bg-white/10 hover:bg-white/20 text-white border-white/20"
+                  >
+                    Unhide
+                  </Button>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={busy || !item.comment}
+                    onClick={() =>
+                      handleAction("hide", item.commentId, item.commentId)
+                    }
+                    className="bg-white/10 hover:bg-white/20 text-white border-white/20"
+                  >
+                    Hide
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  disabled={busy || !item.comment}
+                  onClick={() =>
+                    handleAction("delete", item.commentId, item.commentId)
+                  }
+                  className="bg-red-500/80 hover:bg-red-500 text-white"
+                >
+                  Delete
+                </Button>
+                <Button
+                  size="sm"
+                  disabled={busy}
+                  onClick={() =>
+                    handleAction("dismiss", item.commentId, item.commentId)
+                  }
+                  className="bg-white/20 hover:bg-white/30 text-white"
+                >
+                  Dismiss
+                </Button>
+                {author && !item.authorSanction && (
+                  <>
+                    <Button
+                      size="sm"
+                      disabled={busy}
+                      onClick={() =>
+                        handleAction("mute", author, item.commentId)
+                      }
+                      className="bg-white/20 hover:bg-white/30 text-white"
+                    >
+                      Mute Author {formatDuration(muteHours)}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      disabled={busy}
+                      onClick={() => handleAction("ban", author, item.commentId)}
+                    >
+                      Ban Author
+                    </Button>
+                  </>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })
+    );
+
+  const renderSanctions = () => (
+    <>
+      <Card className="border-0 bg-white/10">
+        <CardContent className="p-4 space-y-2">
+          <Input
+            placeholder="Wallet address (0x...)"
+            value={sanctionTarget}
+            onChange={(e) => setSanctionTarget(e.target.value.trim())}
+            className="bg-white/10 border-white/20 text-white placeholder:text-white/60"
+          />
+          {reasonInput("manual")}
+          <div className="flex flex-wrap gap-2">
+            <Button
+              size="sm"
+              disabled={!sanctionTarget || pendingId === "manual"}
+              onClick={() => handleAction("mute", sanctionTarget, "manual")}
+              className="bg-white/20 hover:bg-white/30 text-white"
+            >
+              Mute {formatDuration(muteHours)}
+            </Button>
+            <Button
+              size="sm"
+              variant="destructive"
+              disabled={!sanctionTarget || pendingId === "manual"}
+              onClick={() => handleAction("ban", sanctionTarget, "manual")}
+            >
+              Ban
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+      {sanctions.length === 0 ? (
+        <p className="text-center text-white/70 py-8">
+          No active mutes or bans.
+        </p>
+      ) : (
+        sanctions.map((sanction) => (
+          <div
+            key={sanction.id}
+            className="flex items-center justify-between gap-2 p-3 bg-white/10 rounded"
+          >
+            <div className="min-w-0">
+              <p className="text-sm text-white truncate">{sanction.address}</p>
+              <p className="text-xs text-white/60">
+                {sanction.type === "ban"
+                  ? "Banned"
+                  : `Muted until ${new Date(
+                      sanction.expiresAt!
+                    ).toLocaleString()}`}
+                {sanction.reason && ` · ${sanction.reason}`} · by{" "}
+                {shortAddress(sanction.createdBy)}
+              </p>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={pendingId === sanction.id}
+              onClick={() =>
+                handleAction("lift", sanction.address, sanction.id)
+              }
+              className="bg-white/10 hover:bg-white/20 text-white border-white/20"
+            >
+              Lift
+            </Button>
+          </div>
+        ))
+      )}
+    </>
+  );
+
+  const renderAuditLog = () =>
+    auditLog.length === 0 ? (
+      <p className="text-center text-white/70 py-8">No moderator actions yet.</p>
+    ) : (
+      <div className="space-y-1">
+        {auditLog.map((entry) => (
+          <div key={entry.id} className="p-2 bg-white/10 rounded text-sm">
+            <p className="text-white">
+              {ACTION_LABELS[entry.action]}{" "}
+              <span className="text-white/70">
+                {entry.targetType === "address"
+                  ? shortAddress(entry.targetId)
+                  : `#${entry.targetId.slice(0, 8)}`}
+              </span>
+            </p>
+            <p className="text-xs text-white/60">
+              {shortAddress(entry.moderator)} ·{" "}
+              {new Date(entry.createdAt).toLocaleString()}
+              {entry.reason && ` · ${entry.reason}`}
+            </p>
+          </div>
+        ))}
+      </div>
+    );
+
+  return (
+    <Card className="border-0 shadow-lg bg-gradient-to-br from-[#433952] to-[#544863]">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2 text-white">
+          <Flag className="h-5 w-5" />
+          Comment Moderation ({queue.length})
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          <Select
+            value={String(muteHours)}
+            onValueChange={(value) => setMuteHours(Number(value))}
+          >
+            <SelectTrigger className="w-28 bg-white/10 border-white/20 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MUTE_DURATION_OPTIONS.map((hours) => (
+                <SelectItem key={hours} value={String(hours)}>
+                  Mute {formatDuration(hours)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={view}
+            onValueChange={(value: QueueView) => setView(value)}
+          >
+            <SelectTrigger className="w-40 bg-white/10 border-white/20 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="reports">Reports</SelectItem>
+              <SelectItem value="sanctions">Mutes & Bans</SelectItem>
+              <SelectItem value="audit">Audit Log</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={fetchQueue}
+            disabled={!isSignedIn}
+            className="text-white hover:bg-white/10"
+          >
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isSignedIn ? (
+          <div className="space-y-2 py-8 text-center">
+            <p className="text-sm text-white/70">
+              Sign in with your validator wallet to view the moderation queue.
+            </p>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleSignIn}
+              disabled={sessionLoading}
+            >
+              Sign in
+            </Button>
+          </div>
+        ) : isLoading && queue.length === 0 && auditLog.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-white/60" />
+          </div>
+        ) : view === "reports" ? (
+          renderReports()
+        ) : view === "sanctions" ? (
+          renderSanctions()
+        ) : (
+          renderAuditLog()
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -22,11 +22,15 @@ import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { useV3PlatformData } from "@/hooks/useV3PlatformData";
 import { CreateMarketV2 } from "./CreateMarketV2";
+import { BulkMarketImport } from "./BulkMarketImport";
 import { MarketResolver } from "./MarketResolver";
+import { DisputeQueue } from "./DisputeQueue";
+import { ModerationQueue } from "./ModerationQueue";
 import { AdminRoleManager } from "./AdminRoleManager";
 import { MarketValidationManager } from "./MarketValidationManager";
 import { MarketInvalidationManager } from "./MarketInvalidationManager";
 import { AdminWithdrawalsSection } from "./AdminWithdrawalsSection";
+import { ReferralPayoutsSection } from "./ReferralPayoutsSection";
 import { useUserRoles } from "@/hooks/useUserRoles";
 import { V2contractAddress, V2contractAbi } from "@/constants/contract";
 import {
@@ -44,6 +48,9 @@ import {
   Award,
   Activity,
   Loader2,
+  ShieldAlert,
+  Flag,
+  Gift,
 } from "lucide-react";
 
 export function ModernAdminDashboard() {
@@ -397,7 +404,7 @@ export function ModernAdminDashboard() {
 
       {/* Admin Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="flex flex-wrap justify-start gap-1 h-auto p-1 md:grid md:grid-cols-6 bg-muted">
+        <TabsList className="flex flex-wrap justify-start gap-1 h-auto p-1 md:grid md:grid-cols-9 bg-muted">
           {hasCreatorAccess && (
             <TabsTrigger
               value="create"
@@ -434,6 +441,24 @@ export function ModernAdminDashboard() {
               <span className="hidden sm:inline">Resolve</span>
             </TabsTrigger>
           )}
+          {hasResolverAccess && (
+            <TabsTrigger
+              value="disputes"
+              className="flex items-center gap-1 md:gap-2 flex-1 min-w-[100px] md:min-w-0 text-xs md:text-sm px-2 md:px-3 py-1.5 md:py-2"
+            >
+              <ShieldAlert className="h-3 w-3 md:h-4 md:w-4" />
+              <span className="hidden sm:inline">Disputes</span>
+            </TabsTrigger>
+          )}
+          {hasValidatorAccess && (
+            <TabsTrigger
+              value="moderation"
+              className="flex items-center gap-1 md:gap-2 flex-1 min-w-[100px] md:min-w-0 text-xs md:text-sm px-2 md:px-3 py-1.5 md:py-2"
+            >
+              <Flag className="h-3 w-3 md:h-4 md:w-4" />
+              <span className="hidden sm:inline">Moderation</span>
+            </TabsTrigger>
+          )}
           {(isOwner || isAdmin) && (
             <TabsTrigger
               value="withdrawals"
@@ -470,6 +495,7 @@ export function ModernAdminDashboard() {
             className="space-y-4 md:space-y-6 mt-3 md:mt-6"
           >
             <CreateMarketV2 />
+            <BulkMarketImport />
           </TabsContent>
         )}
 
@@ -503,6 +529,26 @@ export function ModernAdminDashboard() {
           </TabsContent>
         )}
 
+        {/* Dispute Queue Tab */}
+        {hasResolverAccess && (
+          <TabsContent
+            value="disputes"
+            className="space-y-4 md:space-y-6 mt-3 md:mt-6"
+          >
+            <DisputeQueue />
+          </TabsContent>
+        )}
+
+        {/* Comment Moderation Tab */}
+        {hasValidatorAccess && (
+          <TabsContent
+            value="moderation"
+            className="space-y-4 md:space-y-6 mt-3 md:mt-6"
+          >
+            <ModerationQueue />
+          </TabsContent>
+        )}
+
         {/* Admin Withdrawals Tab - LMSR Compatible */}
         {(isOwner || isAdmin) && (
           <TabsContent
@@ -527,6 +573,22 @@ export function ModernAdminDashboard() {
                   <AdminWithdrawalsSection />
                 </CardContent>
               </Card>
+              <Card>
+                <CardContent className="p-6">
+                  <div className="flex items-center gap-3 mb-4">
+                    <Gift className="h-6 w-6 text-purple-600" />
+                    <div>
+                      <h2 className="text-xl font-semibold">
+                        Referral Payouts
+                      </h2>
+                      <p className="text-gray-600 text-sm">
+                        Fee shares owed to referrers, exported for payout
+                      </p>
+                    </div>
+                  </div>
+                  <ReferralPayoutsSection />
+                </CardContent>
+              </Card>
             </div>
           </TabsContent>
         )}
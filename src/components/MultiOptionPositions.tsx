@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useAccount, useReadContract } from "wagmi";
 import { useToast } from "@/components/ui/use-toast";
 import {
@@ -26,8 +26,12 @@ import {
   Target,
   PieChart,
   Activity,
+  LogOut,
 } from "lucide-react";
 import Link from "next/link";
+import { BatchExitReview } from "@/components/PositionBatchActions";
+import { usePositionExit } from "@/hooks/usePositionExit";
+import type { ExitLeg } from "@/lib/position-exit";
 
 interface OptionPosition {
   optionId: number;
@@ -45,6 +49,7 @@ interface MarketPosition {
   description: string;
   category: number;
   endTime: bigint;
+  optionCount: number;
   resolved: boolean;
   disputed: boolean;
   winningOptionId?: number;
@@ -337,6 +342,8 @@ export function MultiOptionPositions() {
             description,
             category,
             endTime,
+            // getUserShares returns one entry per option
+            optionCount: userShares.length,
             resolved,
             disputed,
             winningOptionId: resolved ? Number(winningOptionId) : undefined,
@@ -426,6 +433,42 @@ export function MultiOptionPositions() {
     }
   }, [isConnected, address, marketCount]);
 
+  // Every option held in markets that end within 24 hours
+  const endingSoon = useMemo(
+    () => positions.filter((p) => p.status === "ending_soon"),
+    [positions]
+  );
+  const endingSoonLegs = useMemo<ExitLeg[]>(
+    () =>
+      endingSoon.flatMap((p) =>
+        p.options.map((option) => ({
+          marketId: p.marketId,
+          optionId: option.optionId,
+          optionName: option.optionName,
+          quantity: option.shares,
+        }))
+      ),
+    [endingSoon]
+  );
+  const endingSoonMarkets = useMemo(
+    () =>
+      endingSoon.map((p) => ({
+        marketId: p.marketId,
+        optionCount: p.optionCount,
+      })),
+    [endingSoon]
+  );
+
+  const endingSoonExit = usePositionExit(
+    endingSoonLegs,
+    endingSoonMarkets,
+    () => {
+      // Skip the cache so the sold positions drop out immediately
+      localStorage.removeItem(`${CACHE_KEY}_${address}`);
+      fetchPositions();
+    }
+  );
+
   const formatCurrency = (amount: bigint) => {
     const value = Number(amount) / 10 ** tokenDecimals;
     return `${value.toLocaleString(undefined, {
@@ -613,6 +656,35 @@ export function MultiOptionPositions() {
                 </div>
               </div>
             </div>
+
+            {endingSoon.length > 0 && (
+              <div className="mt-6 space-y-2">
+                {endingSoonExit.step === "idle" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={endingSoonExit.open}
+                    className="w-full flex items-center gap-2 border-orange-400/40 text-orange-300 hover:bg-orange-500/20"
+                  >
+                    <LogOut className="h-4 w-4" />
+                    Close All Ending-Soon Positions ({endingSoon.length}{" "}
+                    market{endingSoon.length === 1 ? "" : "s"})
+                  </Button>
+                )}
+                <BatchExitReview
+                  title="Close All Ending-Soon Positions"
+                  plan={endingSoonExit.plan}
+                  quoteError={endingSoonExit.quoteError}
+                  step={endingSoonExit.step}
+                  results={endingSoonExit.results}
+                  slippageBps={endingSoonExit.settings.slippageBps}
+                  tokenSymbol={tokenSymbol}
+                  showMarketIds
+                  onConfirm={endingSoonExit.confirm}
+                  onClose={endingSoonExit.close}
+                />
+              </div>
+            )}
           </CardContent>
         </Card>
       )}
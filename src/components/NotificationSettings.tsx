@@ -0,0 +1,192 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Bell, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { useWalletSession } from "@/hooks/useWalletSession";
+import {
+  CLOSING_LEAD_HOURS_OPTIONS,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NOTIFICATION_EVENT_LABELS,
+  type NotificationEventType,
+  type NotificationPreferences,
+} from "@/lib/notifications";
+
+interface NotificationSettingsProps {
+  fid?: number;
+}
+
+export function NotificationSettings({ fid }: NotificationSettingsProps) {
+  const { toast } = useToast();
+  const { session, signIn } = useWalletSession({ enabled: !!fid });
+  const [preferences, setPreferences] = useState<NotificationPreferences>(
+    DEFAULT_NOTIFICATION_PREFERENCES
+  );
+  const [subscribed, setSubscribed] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchPreferences = useCallback(async () => {
+    if (!fid) return;
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/notifications/preferences?fid=${fid}`);
+      if (!response.ok) throw new Error("Failed to fetch preferences");
+      const data = await response.json();
+      setPreferences(data.preferences);
+      setSubscribed(Boolean(data.subscribed));
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fid]);
+
+  useEffect(() => {
+    fetchPreferences();
+  }, [fetchPreferences]);
+
+  const handleSave = async () => {
+    if (!fid) return;
+    try {
+      setIsSaving(true);
+      // Saving needs a Farcaster sign-in session for this fid
+      if (session?.fid !== fid) await signIn();
+      const response = await fetch("/api/notifications/preferences", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fid, preferences }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save preferences");
+      }
+      setPreferences(data.preferences);
+      toast({ title: "Notification settings saved" });
+    } catch (error) {
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleEvent = (type: NotificationEventType, checked: boolean) => {
+    setPreferences((prev) => ({
+      ...prev,
+      events: { ...prev.events, [type]: checked },
+    }));
+  };
+
+  // Notifications are only available inside a Farcaster client
+  if (!fid) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Bell className="h-5 w-5" />
+          Notifications
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : !subscribed ? (
+          <p className="text-sm text-muted-foreground">
+            Add Policast to your Farcaster client and enable notifications to
+            get alerts about markets you hold shares in.
+          </p>
+        ) : (
+          <>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="notifications-enabled"
+                checked={preferences.enabled}
+                onCheckedChange={(checked) =>
+                  setPreferences((prev) => ({
+                    ...prev,
+                    enabled: checked === true,
+                  }))
+                }
+              />
+              <Label htmlFor="notifications-enabled">
+                Send me market notifications
+              </Label>
+            </div>
+
+            <div className="space-y-2 pl-6">
+              {(
+                Object.keys(NOTIFICATION_EVENT_LABELS) as NotificationEventType[]
+              ).map((type) => (
+                <div key={type} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`notification-${type}`}
+                    checked={preferences.events[type]}
+                    disabled={!preferences.enabled}
+                    onCheckedChange={(checked) =>
+                      toggleEvent(type, checked === true)
+                    }
+                  />
+                  <Label htmlFor={`notification-${type}`} className="text-sm">
+                    {NOTIFICATION_EVENT_LABELS[type]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-sm">Warn me before close</Label>
+              <div className="flex gap-2">
+                {CLOSING_LEAD_HOURS_OPTIONS.map((hours) => (
+                  <Button
+                    key={hours}
+                    size="sm"
+                    variant={
+                      preferences.closingLeadHours === hours
+                        ? "default"
+                        : "outline"
+                    }
+                    disabled={
+                      !preferences.enabled || !preferences.events.market_closing
+                    }
+                    onClick={() =>
+                      setPreferences((prev) => ({
+                        ...prev,
+                        closingLeadHours: hours,
+                      }))
+                    }
+                  >
+                    {hours}h
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <Button
+              className="w-full"
+              size="sm"
+              onClick={handleSave}
+              disabled={isSaving}
+            >
+              {isSaving ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                "Save"
+              )}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
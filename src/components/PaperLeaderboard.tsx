@@ -0,0 +1,115 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAccount } from "wagmi";
+import { FlaskConical, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { PaperLeaderboardEntry } from "@/lib/paper-trading";
+
+// Format a 1e18-scaled amount with no decimals
+function formatAmount(amount: bigint): string {
+  return (Number(amount) / 1e18).toLocaleString(undefined, {
+    maximumFractionDigits: 0,
+  });
+}
+
+// Paper-trading standings, kept apart from the real-money leaderboard
+export function PaperLeaderboard() {
+  const { address } = useAccount();
+  const [entries, setEntries] = useState<PaperLeaderboardEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchLeaderboard = async () => {
+      try {
+        const response = await fetch("/api/paper-trading/leaderboard");
+        if (!response.ok) throw new Error("Failed to fetch leaderboard");
+        const result = await response.json();
+        setEntries(result.entries);
+      } catch (err) {
+        setError("Failed to load paper leaderboard");
+        console.error(err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchLeaderboard();
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-10">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-400" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="p-4 text-center text-red-400">{error}</div>;
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="flex flex-col items-center p-6 text-center">
+        <FlaskConical className="h-12 w-12 text-gray-500" />
+        <p className="mt-2 text-sm font-medium text-gray-400">
+          No paper traders yet
+        </p>
+        <p className="mt-1 text-xs text-gray-500">
+          Turn on paper mode from the flask icon to start practicing
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2 p-4">
+      {entries.map((entry) => {
+        const isCurrentUser =
+          address && entry.address === address.toLowerCase();
+        const pnl = BigInt(entry.pnl);
+        return (
+          <div
+            key={entry.address}
+            className={cn(
+              "flex items-center rounded-lg border p-3 gap-4",
+              isCurrentUser
+                ? "bg-blue-500/20 border-blue-400 ring-2 ring-blue-400"
+                : "bg-[#433952]/50 border-[#544863]"
+            )}
+          >
+            <p className="w-6 text-center text-sm font-semibold text-gray-400">
+              {entry.rank}
+            </p>
+            <div className="flex-grow">
+              <p className="font-semibold text-gray-100">
+                {entry.address.slice(0, 6)}...{entry.address.slice(-4)}
+                {isCurrentUser && (
+                  <span className="ml-2 text-xs text-blue-400">(You)</span>
+                )}
+              </p>
+              <p className="text-xs text-gray-400">
+                {entry.tradeCount} paper trades
+              </p>
+            </div>
+            <div className="text-right">
+              <p className="font-bold text-gray-200">
+                {formatAmount(BigInt(entry.equity))}
+              </p>
+              <p
+                className={cn(
+                  "text-xs",
+                  pnl >= 0n ? "text-green-400" : "text-red-400"
+                )}
+              >
+                {pnl >= 0n ? "+" : ""}
+                {entry.pnlPercent.toFixed(1)}%
+              </p>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
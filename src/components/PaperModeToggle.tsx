@@ -0,0 +1,30 @@
+"use client";
+
+import { FlaskConical } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { usePaperTrading } from "@/hooks/usePaperTrading";
+
+// Navbar switch between real trading and the paper-trading sandbox
+export function PaperModeToggle() {
+  const { enabled, setEnabled } = usePaperTrading();
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={() => setEnabled(!enabled)}
+      title={enabled ? "Paper trading on" : "Paper trading off"}
+      className={cn(
+        "h-9 gap-1 px-2",
+        enabled
+          ? "bg-amber-500/20 text-amber-300 hover:bg-amber-500/30"
+          : "text-gray-400"
+      )}
+    >
+      <FlaskConical className="h-4 w-4" />
+      {enabled && <span className="text-xs font-semibold">Paper</span>}
+      <span className="sr-only">Toggle paper trading</span>
+    </Button>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { FlaskConical, Loader2, RotateCcw } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { cn } from "@/lib/utils";
+import { usePaperTrading } from "@/hooks/usePaperTrading";
+
+// Format a 1e18-scaled amount with 2 decimals
+function formatAmount(amount: bigint): string {
+  return (Number(amount) / 1e18).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
+
+// Paper portfolio: virtual balance, simulated P&L, positions and reset
+export function PaperTradingPanel() {
+  const { enabled, setEnabled, summary, reset } = usePaperTrading();
+  const { toast } = useToast();
+  const [confirmReset, setConfirmReset] = useState(false);
+  const [isResetting, setIsResetting] = useState(false);
+
+  const handleReset = async () => {
+    setIsResetting(true);
+    try {
+      await reset();
+      toast({
+        title: "Paper Portfolio Reset",
+        description: "Your virtual balance is back to the starting amount.",
+      });
+    } catch (error) {
+      toast({
+        title: "Reset Failed",
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsResetting(false);
+      setConfirmReset(false);
+    }
+  };
+
+  const pnl = summary ? BigInt(summary.pnl) : 0n;
+
+  return (
+    <Card className="bg-[#433952]/50 backdrop-blur-sm border-[#544863]">
+      <CardHeader className="flex flex-row items-center justify-between pb-3">
+        <CardTitle className="flex items-center gap-2 text-base text-gray-100">
+          <FlaskConical className="h-4 w-4 text-amber-300" />
+          Paper Trading
+        </CardTitle>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setEnabled(!enabled)}
+          className={cn(
+            "h-7 text-xs",
+            enabled
+              ? "border-amber-400/40 text-amber-300 hover:bg-amber-500/20"
+              : "border-[#544863] text-gray-300 hover:bg-[#544863]/50"
+          )}
+        >
+          {enabled ? "On" : "Off"}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        {!enabled ? (
+          <p className="text-gray-400">
+            Practice on live markets with a virtual balance. While paper mode
+            is on, every buy and sell is simulated and no tokens are spent.
+          </p>
+        ) : !summary ? (
+          <div className="flex items-center gap-2 text-gray-400">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading paper portfolio...
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div>
+                <div className="font-semibold text-gray-100">
+                  {formatAmount(BigInt(summary.account.balance))}
+                </div>
+                <div className="text-xs text-gray-400">Cash</div>
+              </div>
+              <div>
+                <div className="font-semibold text-gray-100">
+                  {formatAmount(BigInt(summary.equity))}
+                </div>
+                <div className="text-xs text-gray-400">Equity</div>
+              </div>
+              <div>
+                <div
+                  className={cn(
+                    "font-semibold",
+                    pnl > 0n
+                      ? "text-green-400"
+                      : pnl < 0n
+                      ? "text-red-400"
+                      : "text-gray-100"
+                  )}
+                >
+                  {pnl >= 0n ? "+" : ""}
+                  {summary.pnlPercent.toFixed(1)}%
+                </div>
+                <div className="text-xs text-gray-400">P&L</div>
+              </div>
+            </div>
+
+            {summary.positions.length > 0 ? (
+              <ul className="space-y-1">
+                {summary.positions.map((position) => {
+                  const positionPnl =
+                    BigInt(position.value) - BigInt(position.costBasis);
+                  return (
+                    <li
+                      key={`${position.marketId}:${position.optionId}`}
+                      className="flex items-center justify-between rounded-md bg-[#352c3f]/80 border border-[#544863] px-2 py-1 text-xs"
+                    >
+                      <Link
+                        href={`/market/${position.marketId}/details`}
+                        className="text-gray-200 hover:underline"
+                      >
+                        Market #{position.marketId} • Option{" "}
+                        {position.optionId + 1}
+                      </Link>
+                      <span className="text-gray-300">
+                        {formatAmount(BigInt(position.shares))} shares •{" "}
+                        <span
+                          className={
+                            positionPnl >= 0n
+                              ? "text-green-400"
+                              : "text-red-400"
+                          }
+                        >
+                          {formatAmount(BigInt(position.value))}
+                        </span>
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            ) : (
+              <p className="text-xs text-gray-400">
+                No paper positions yet. Buy on any market while paper mode is
+                on.
+              </p>
+            )}
+
+            <div className="flex items-center justify-between text-xs text-gray-400">
+              <span>{summary.account.tradeCount} paper trades</span>
+              {confirmReset ? (
+                <div className="flex gap-1">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setConfirmReset(false)}
+                    className="h-7 text-xs border-[#544863] text-gray-300 hover:bg-[#544863]/50"
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={handleReset}
+                    disabled={isResetting}
+                    className="h-7 text-xs bg-red-600 hover:bg-red-700"
+                  >
+                    {isResetting ? (
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                    ) : (
+                      "Reset Portfolio"
+                    )}
+                  </Button>
+                </div>
+              ) : (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setConfirmReset(true)}
+                  className="h-7 text-xs border-[#544863] text-gray-300 hover:bg-[#544863]/50"
+                >
+                  <RotateCcw className="h-3 w-3 mr-1" />
+                  Reset
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
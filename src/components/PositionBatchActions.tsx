@@ -0,0 +1,606 @@
+"use client";
+
+import { useCallback, useMemo, useRef, useState } from "react";
+import { useAccount, useReadContract } from "wagmi";
+import { formatEther } from "viem";
+import { ArrowLeftRight, Check, Loader2, LogOut, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { TradeSettingsDialog } from "./TradeSettingsDialog";
+import { useToast } from "@/components/ui/use-toast";
+import { cn } from "@/lib/utils";
+import {
+  V2contractAddress,
+  tokenAddress,
+  tokenAbi,
+} from "@/constants/contract";
+import { sharesToWei } from "@/lib/lmsr";
+import { formatBps } from "@/lib/trade-settings";
+import type { CallResult } from "@/lib/batch-calls";
+import {
+  planRebalance,
+  rebalanceCalls,
+  type ExitLeg,
+  type ExitPlan,
+  type RebalancePlan,
+} from "@/lib/position-exit";
+import { MarketV2 } from "@/types/types";
+import { useBatchCalls } from "@/hooks/useBatchCalls";
+import { useLMSRState } from "@/hooks/useLMSRState";
+import {
+  usePositionExit,
+  type ExitLegResult,
+  type PositionExitStep,
+} from "@/hooks/usePositionExit";
+import { useTradeSettings } from "@/hooks/useTradeSettings";
+
+// Format bigint token/share amount with up to 4 decimals
+function formatAmount(amount: bigint): string {
+  const formatted = Number(amount) / 1e18;
+  if (formatted === 0) return "0";
+  if (formatted < 0.01) return formatted.toFixed(4);
+  return formatted.toFixed(2);
+}
+
+interface BatchExitReviewProps {
+  title: string;
+  plan: ExitPlan | null;
+  quoteError: string | null;
+  step: PositionExitStep;
+  results: ExitLegResult[];
+  slippageBps: number;
+  tokenSymbol?: string;
+  showMarketIds?: boolean;
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+// Review + per-leg results for a batched exit; shared by the market position
+// manager and the portfolio view
+export function BatchExitReview({
+  title,
+  plan,
+  quoteError,
+  step,
+  results,
+  slippageBps,
+  tokenSymbol,
+  showMarketIds,
+  onConfirm,
+  onClose,
+}: BatchExitReviewProps) {
+  if (step === "idle") return null;
+
+  return (
+    <div className="rounded-md bg-red-500/20 border border-red-400/30 p-2 space-y-1.5 text-xs text-red-200">
+      <div className="flex items-center gap-2">
+        <h4 className="font-medium text-red-300">{title}</h4>
+        <TradeSettingsDialog className="ml-auto" />
+      </div>
+
+      {step === "review" && (
+        <>
+          {quoteError ? (
+            <p className="text-red-300">{quoteError}</p>
+          ) : !plan ? (
+            <div className="flex items-center gap-1 text-gray-300">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Quoting every position...
+            </div>
+          ) : (
+            <>
+              <ul className="space-y-0.5">
+                {plan.legs.map((leg) => (
+                  <li
+                    key={`${leg.marketId}:${leg.optionId}`}
+                    className="flex justify-between gap-2"
+                  >
+                    <span className="truncate">
+                      {showMarketIds && `#${leg.marketId} `}
+                      {leg.optionName} • {formatAmount(leg.quantity)} shares
+                    </span>
+                    <span className="shrink-0">
+                      {formatAmount(leg.quote.netRefund)} {tokenSymbol}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <hr className="border-red-400/30" />
+              <div className="flex justify-between font-medium">
+                <span>Estimated Proceeds:</span>
+                <span>
+                  {formatAmount(plan.netProceeds)} {tokenSymbol}
+                </span>
+              </div>
+              <div className="flex justify-between text-gray-300">
+                <span>Minimum ({formatBps(slippageBps)} slippage):</span>
+                <span>
+                  {formatAmount(plan.minTotalProceeds)} {tokenSymbol}
+                </span>
+              </div>
+            </>
+          )}
+          <div className="flex gap-2 pt-1">
+            <Button
+              variant="outline"
+              onClick={onClose}
+              className="flex-1 h-8 text-xs border-[#544863] text-gray-300 hover:bg-[#544863]/50"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={onConfirm}
+              disabled={!plan}
+              className="flex-1 h-8 text-xs bg-red-600 hover:bg-red-700"
+            >
+              Sell {plan?.legs.length ?? ""} in One Batch
+            </Button>
+          </div>
+        </>
+      )}
+
+      {step === "processing" && (
+        <div className="flex items-center justify-center gap-1 py-2 text-gray-300">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Selling positions...
+        </div>
+      )}
+
+      {step === "done" && (
+        <>
+          <ul className="space-y-0.5">
+            {results.map(({ leg, success }) => (
+              <li
+                key={`${leg.marketId}:${leg.optionId}`}
+                className="flex items-center gap-1"
+              >
+                {success ? (
+                  <Check className="h-3 w-3 text-green-400" />
+                ) : (
+                  <X className="h-3 w-3 text-red-400" />
+                )}
+                <span className="truncate">
+                  {showMarketIds && `#${leg.marketId} `}
+                  {leg.optionName}
+                </span>
+                <span className="ml-auto shrink-0 text-gray-300">
+                  {success ? "Sold" : "Failed"}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <Button
+            onClick={onClose}
+            className="w-full h-8 text-xs font-medium"
+          >
+            Done
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
+
+interface PositionBatchActionsProps {
+  marketId: number;
+  market: MarketV2;
+  userShares: readonly bigint[];
+  onComplete?: () => void;
+}
+
+type RebalanceStep = "idle" | "form" | "processing" | "done";
+
+// "Close entire position" and "Rebalance" for one market. Both submit a
+// single EIP-5792 batch.
+export function PositionBatchActions({
+  marketId,
+  market,
+  userShares,
+  onComplete,
+}: PositionBatchActionsProps) {
+  const { address: accountAddress } = useAccount();
+  const { toast } = useToast();
+  const { settings } = useTradeSettings();
+
+  const { data: tokenSymbol } = useReadContract({
+    address: tokenAddress,
+    abi: tokenAbi,
+    functionName: "symbol",
+  });
+
+  const { data: userAllowance } = useReadContract({
+    address: tokenAddress,
+    abi: tokenAbi,
+    functionName: "allowance",
+    args: [accountAddress as `0x${string}`, V2contractAddress],
+    query: { enabled: !!accountAddress },
+  });
+
+  // --- Close entire market position ---
+  const exitLegs = useMemo<ExitLeg[]>(
+    () =>
+      market.options
+        .map((option, optionId) => ({
+          marketId,
+          optionId,
+          optionName: option.name,
+          quantity: userShares[optionId] ?? 0n,
+        }))
+        .filter((leg) => leg.quantity > 0n),
+    [market.options, marketId, userShares]
+  );
+  const exitMarkets = useMemo(
+    () => [{ marketId, optionCount: market.options.length }],
+    [marketId, market.options.length]
+  );
+  const exit = usePositionExit(exitLegs, exitMarkets, onComplete);
+
+  // --- Rebalance ---
+  const { state: lmsrState } = useLMSRState(marketId, market.options.length);
+  const heldOptions = exitLegs.map((leg) => leg.optionId);
+  const [rebalanceStep, setRebalanceStep] = useState<RebalanceStep>("idle");
+  const [fromOptionId, setFromOptionId] = useState<number | null>(null);
+  const [toOptionId, setToOptionId] = useState<number | null>(null);
+  const [moveShares, setMoveShares] = useState("");
+  const [rebalanceResults, setRebalanceResults] = useState<
+    { label: string; success: boolean }[]
+  >([]);
+  const submittedRef = useRef<{
+    plan: RebalancePlan;
+    includesApproval: boolean;
+  } | null>(null);
+
+  const fromHolding =
+    fromOptionId !== null ? userShares[fromOptionId] ?? 0n : 0n;
+  const moveQuantity = sharesToWei(moveShares);
+
+  const { rebalancePlan, rebalanceError } = useMemo(() => {
+    if (
+      !lmsrState ||
+      fromOptionId === null ||
+      toOptionId === null ||
+      moveQuantity <= 0n
+    ) {
+      return { rebalancePlan: null, rebalanceError: null };
+    }
+    if (moveQuantity > fromHolding) {
+      return {
+        rebalancePlan: null,
+        rebalanceError: "You don't hold that many shares",
+      };
+    }
+    try {
+      const plan = planRebalance(
+        marketId,
+        lmsrState,
+        {
+          optionId: fromOptionId,
+          optionName: market.options[fromOptionId].name,
+        },
+        {
+          optionId: toOptionId,
+          optionName: market.options[toOptionId].name,
+        },
+        moveQuantity,
+        settings
+      );
+      return {
+        rebalancePlan: plan,
+        rebalanceError: plan ? null : "Proceeds are too small to rebalance",
+      };
+    } catch (error) {
+      console.error("Failed to quote rebalance:", error);
+      return { rebalancePlan: null, rebalanceError: "Unable to quote" };
+    }
+  }, [
+    lmsrState,
+    fromOptionId,
+    toOptionId,
+    moveQuantity,
+    fromHolding,
+    marketId,
+    market.options,
+    settings,
+  ]);
+
+  const handleRebalanceSettled = useCallback(
+    (calls: CallResult[]) => {
+      const submitted = submittedRef.current;
+      if (!submitted) return;
+      submittedRef.current = null;
+
+      const { plan, includesApproval } = submitted;
+      const sold = !!calls[0]?.success;
+      const bought =
+        sold &&
+        (!includesApproval || !!calls[1]?.success) &&
+        !!calls[includesApproval ? 2 : 1]?.success;
+      setRebalanceResults([
+        {
+          label: `Sell ${formatAmount(plan.sell.quantity)} ${
+            plan.sell.optionName
+          }`,
+          success: sold,
+        },
+        {
+          label: `Buy ${formatAmount(plan.buy.quantity)} ${
+            plan.buy.optionName
+          }`,
+          success: bought,
+        },
+      ]);
+      setRebalanceStep("done");
+      window.dispatchEvent(
+        new CustomEvent("market-updated", { detail: { marketId } })
+      );
+      toast(
+        bought
+          ? {
+              title: "Rebalance Complete",
+              description: `Moved exposure to ${plan.buy.optionName}.`,
+            }
+          : {
+              title: sold ? "Partial Success" : "Rebalance Failed",
+              description: sold
+                ? `Sold ${plan.sell.optionName}, but the buy did not go through. The proceeds are in your wallet.`
+                : "Nothing was traded. Please try again.",
+              variant: "destructive",
+            }
+      );
+      onComplete?.();
+    },
+    [marketId, toast, onComplete]
+  );
+
+  const { submit: submitRebalance, reset: resetRebalance } = useBatchCalls({
+    onError: (err, unsupported) => {
+      console.error("Rebalance batch submission failed:", err);
+      submittedRef.current = null;
+      toast({
+        title: unsupported
+          ? "Batch Transactions Not Supported"
+          : "Rebalance Failed",
+        description: unsupported
+          ? "Your wallet can't batch transactions. Sell and buy separately instead."
+          : "Failed to submit the rebalance. Please try again.",
+        variant: "destructive",
+      });
+      setRebalanceStep("form");
+    },
+    onSettled: handleRebalanceSettled,
+  });
+
+  const handleRebalance = () => {
+    if (!rebalancePlan) return;
+    const { calls, includesApproval } = rebalanceCalls(
+      rebalancePlan,
+      (userAllowance as bigint | undefined) ?? 0n
+    );
+    submittedRef.current = { plan: rebalancePlan, includesApproval };
+    setRebalanceStep("processing");
+    submitRebalance(calls);
+  };
+
+  const openRebalance = () => {
+    exit.close();
+    resetRebalance();
+    setFromOptionId(heldOptions[0] ?? null);
+    setToOptionId(null);
+    setMoveShares("");
+    setRebalanceResults([]);
+    setRebalanceStep("form");
+  };
+
+  if (exitLegs.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            setRebalanceStep("idle");
+            exit.open();
+          }}
+          className="flex-1 h-8 text-xs border-red-400/40 text-red-300 hover:bg-red-500/20"
+        >
+          <LogOut className="h-3 w-3 mr-1" />
+          Close Entire Position
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={openRebalance}
+          disabled={market.options.length < 2}
+          className="flex-1 h-8 text-xs border-[#544863] text-gray-300 hover:bg-[#544863]/50"
+        >
+          <ArrowLeftRight className="h-3 w-3 mr-1" />
+          Rebalance
+        </Button>
+      </div>
+
+      <BatchExitReview
+        title="Close Entire Position"
+        plan={exit.plan}
+        quoteError={exit.quoteError}
+        step={exit.step}
+        results={exit.results}
+        slippageBps={exit.settings.slippageBps}
+        tokenSymbol={tokenSymbol as string | undefined}
+        onConfirm={exit.confirm}
+        onClose={exit.close}
+      />
+
+      {rebalanceStep !== "idle" && (
+        <div className="rounded-md bg-[#352c3f]/80 border border-[#544863] p-2 space-y-1.5 text-xs text-gray-200">
+          <div className="flex items-center gap-2">
+            <h4 className="font-medium">Rebalance</h4>
+            <TradeSettingsDialog className="ml-auto" />
+          </div>
+
+          {rebalanceStep === "form" && (
+            <>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-0.5">
+                  <label className="text-gray-400">From</label>
+                  <Select
+                    value={fromOptionId !== null ? String(fromOptionId) : ""}
+                    onValueChange={(value) => {
+                      setFromOptionId(Number(value));
+                      setMoveShares("");
+                    }}
+                  >
+                    <SelectTrigger className="h-8 text-xs bg-[#352c3f]/80 border-[#544863] text-gray-100">
+                      <SelectValue placeholder="Option" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {heldOptions.map((optionId) => (
+                        <SelectItem key={optionId} value={String(optionId)}>
+                          {market.options[optionId].name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-0.5">
+                  <label className="text-gray-400">To</label>
+                  <Select
+                    value={toOptionId !== null ? String(toOptionId) : ""}
+                    onValueChange={(value) => setToOptionId(Number(value))}
+                  >
+                    <SelectTrigger className="h-8 text-xs bg-[#352c3f]/80 border-[#544863] text-gray-100">
+                      <SelectValue placeholder="Option" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {market.options.map((option, optionId) =>
+                        optionId === fromOptionId || !option.isActive ? null : (
+                          <SelectItem key={optionId} value={String(optionId)}>
+                            {option.name}
+                          </SelectItem>
+                        )
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-0.5">
+                <label className="text-gray-400">
+                  Shares to move (you hold {formatAmount(fromHolding)})
+                </label>
+                <div className="flex gap-1">
+                  <Input
+                    type="number"
+                    inputMode="decimal"
+                    min="0"
+                    value={moveShares}
+                    onChange={(e) => setMoveShares(e.target.value)}
+                    className="h-8 text-xs bg-[#352c3f]/80 border-[#544863] text-gray-100"
+                    style={{ fontSize: "16px" }}
+                  />
+                  {[25n, 50n, 100n].map((pct) => (
+                    <button
+                      key={pct.toString()}
+                      type="button"
+                      // Exact decimal string so 100% sells every share
+                      onClick={() =>
+                        setMoveShares(formatEther((fromHolding * pct) / 100n))
+                      }
+                      className="rounded border border-[#544863] px-1.5 text-gray-300 hover:bg-[#544863]/50"
+                    >
+                      {pct.toString()}%
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {rebalanceError && (
+                <p className="text-red-300">{rebalanceError}</p>
+              )}
+
+              {rebalancePlan && (
+                <div className="space-y-0.5 rounded bg-purple-500/20 border border-purple-400/30 p-1.5">
+                  <div className="flex justify-between">
+                    <span>Sell proceeds:</span>
+                    <span>
+                      {formatAmount(rebalancePlan.sell.quote.netRefund)}{" "}
+                      {tokenSymbol as string}
+                    </span>
+                  </div>
+                  <div className="flex justify-between font-medium">
+                    <span>Buy:</span>
+                    <span>
+                      ~{formatAmount(rebalancePlan.buy.quantity)}{" "}
+                      {rebalancePlan.buy.optionName} shares
+                    </span>
+                  </div>
+                  <div className="flex justify-between text-gray-400">
+                    <span>Slippage:</span>
+                    <span>{formatBps(settings.slippageBps)} per leg</span>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setRebalanceStep("idle")}
+                  className="flex-1 h-8 text-xs border-[#544863] text-gray-300 hover:bg-[#544863]/50"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleRebalance}
+                  disabled={!rebalancePlan}
+                  className="flex-1 h-8 text-xs"
+                >
+                  Rebalance in One Batch
+                </Button>
+              </div>
+            </>
+          )}
+
+          {rebalanceStep === "processing" && (
+            <div className="flex items-center justify-center gap-1 py-2 text-gray-300">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Rebalancing...
+            </div>
+          )}
+
+          {rebalanceStep === "done" && (
+            <>
+              <ul className="space-y-0.5">
+                {rebalanceResults.map(({ label, success }) => (
+                  <li key={label} className="flex items-center gap-1">
+                    {success ? (
+                      <Check className="h-3 w-3 text-green-400" />
+                    ) : (
+                      <X className="h-3 w-3 text-red-400" />
+                    )}
+                    <span className={cn(!success && "text-red-300")}>
+                      {label}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <Button
+                onClick={() => setRebalanceStep("idle")}
+                className="w-full h-8 text-xs font-medium"
+              >
+                Done
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
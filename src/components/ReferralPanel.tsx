@@ -0,0 +1,224 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Copy, Gift, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { useWalletSession } from "@/hooks/useWalletSession";
+import { forgetReferralCode } from "@/hooks/useReferrals";
+import { referralLink, type ReferralSummary } from "@/lib/referrals";
+
+// Format a 1e18-scaled amount with 2 decimals
+function formatAmount(amount: string): string {
+  return (Number(amount) / 1e18).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
+
+// Referral code, share link, referees and fee-share earnings
+export function ReferralPanel() {
+  const { toast } = useToast();
+  const { session, isSignedIn, loading, signIn } = useWalletSession();
+  const [summary, setSummary] = useState<ReferralSummary | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const fetchSummary = useCallback(async () => {
+    try {
+      const response = await fetch("/api/referrals");
+      if (!response.ok) throw new Error("Failed to fetch referrals");
+      setSummary(await response.json());
+    } catch (error) {
+      console.error("Error fetching referral summary:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isSignedIn) fetchSummary();
+    else setSummary(null);
+  }, [isSignedIn, fetchSummary]);
+
+  const withToast = async (action: () => Promise<void>, title: string) => {
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title,
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCreate = () =>
+    withToast(async () => {
+      setIsCreating(true);
+      try {
+        const response = await fetch("/api/referrals", { method: "POST" });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to create");
+        setSummary(data);
+        if (session) forgetReferralCode(session.address);
+      } finally {
+        setIsCreating(false);
+      }
+    }, "Could Not Create Code");
+
+  const appUrl =
+    process.env.NEXT_PUBLIC_APP_URL || "https://buster-mkt.vercel.app";
+  const link = summary?.code ? referralLink(appUrl, summary.code.code) : null;
+
+  const handleCopy = () =>
+    withToast(async () => {
+      await navigator.clipboard.writeText(link!);
+      toast({ title: "Referral link copied" });
+    }, "Copy Failed");
+
+  const renderBody = () => {
+    if (loading) {
+      return (
+        <div className="flex items-center gap-2 text-gray-400">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading...
+        </div>
+      );
+    }
+    if (!isSignedIn) {
+      return (
+        <div className="space-y-2">
+          <p className="text-gray-400">
+            Sign in to get a referral link and earn a share of the fees from
+            traders you bring.
+          </p>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => withToast(signIn, "Sign-in Failed")}
+            className="h-7 text-xs border-[#544863] text-gray-300 hover:bg-[#544863]/50"
+          >
+            Sign in
+          </Button>
+        </div>
+      );
+    }
+    if (!summary) {
+      return (
+        <div className="flex items-center gap-2 text-gray-400">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading referrals...
+        </div>
+      );
+    }
+    if (!summary.code) {
+      return (
+        <div className="space-y-2">
+          <p className="text-gray-400">
+            Earn {summary.shareBps / 100}% of the platform fees paid by
+            traders who join through your links.
+          </p>
+          <Button
+            size="sm"
+            onClick={handleCreate}
+            disabled={isCreating}
+            className="h-7 text-xs bg-purple-600 hover:bg-purple-700"
+          >
+            {isCreating ? (
+              <Loader2 className="h-3 w-3 animate-spin" />
+            ) : (
+              "Get my referral link"
+            )}
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <>
+        <div className="flex items-center gap-2">
+          <code className="flex-grow truncate rounded-md bg-[#352c3f]/80 border border-[#544863] px-2 py-1 text-xs text-gray-200">
+            {link}
+          </code>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleCopy}
+            className="h-7 text-xs border-[#544863] text-gray-300 hover:bg-[#544863]/50"
+          >
+            <Copy className="h-3 w-3" />
+          </Button>
+        </div>
+        <p className="text-xs text-gray-400">
+          Markets you share from a card carry your code too. You earn{" "}
+          {summary.shareBps / 100}% of the fees on your referees&apos; trades.
+        </p>
+
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div>
+            <div className="font-semibold text-gray-100">
+              {summary.referees}
+            </div>
+            <div className="text-xs text-gray-400">Referees</div>
+          </div>
+          <div>
+            <div className="font-semibold text-green-400">
+              {formatAmount(summary.totals.earned)}
+            </div>
+            <div className="text-xs text-gray-400">Earned</div>
+          </div>
+          <div>
+            <div className="font-semibold text-gray-100">
+              {formatAmount(summary.owed)}
+            </div>
+            <div className="text-xs text-gray-400">Unpaid</div>
+          </div>
+        </div>
+
+        {summary.recent.length > 0 && (
+          <ul className="space-y-1">
+            {summary.recent.map((entry, i) => (
+              <li
+                key={`${entry.type}-${entry.txHash ?? i}-${entry.at}`}
+                className="flex items-center justify-between rounded-md bg-[#352c3f]/80 border border-[#544863] px-2 py-1 text-xs"
+              >
+                {entry.type === "credit" ? (
+                  <Link
+                    href={`/market/${entry.marketId}/details`}
+                    className="text-gray-200 hover:underline"
+                  >
+                    {entry.referee.slice(0, 6)}...{entry.referee.slice(-4)} •
+                    Market #{entry.marketId}
+                  </Link>
+                ) : (
+                  <span className="text-gray-200">Payout</span>
+                )}
+                <span
+                  className={
+                    entry.type === "credit" ? "text-green-400" : "text-gray-300"
+                  }
+                >
+                  {entry.type === "credit" ? "+" : "−"}
+                  {formatAmount(entry.amount)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <Card className="bg-[#433952]/50 backdrop-blur-sm border-[#544863]">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base text-gray-100">
+          <Gift className="h-4 w-4 text-purple-300" />
+          Referrals
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">{renderBody()}</CardContent>
+    </Card>
+  );
+}
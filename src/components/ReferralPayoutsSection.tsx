@@ -0,0 +1,174 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { useWalletSession } from "@/hooks/useWalletSession";
+import type { ReferralPayoutRow } from "@/lib/referrals";
+
+// Format a 1e18-scaled amount with 2 decimals
+function formatAmount(amount: string): string {
+  return (Number(amount) / 1e18).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
+
+// Unpaid referral balances: CSV export for the payout batch, then mark each
+// referrer paid once the tokens are sent
+export function ReferralPayoutsSection() {
+  const { toast } = useToast();
+  const { isSignedIn, loading, signIn } = useWalletSession();
+  const [rows, setRows] = useState<ReferralPayoutRow[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [markingPaid, setMarkingPaid] = useState<string | null>(null);
+
+  const fetchRows = useCallback(async () => {
+    try {
+      const response = await fetch("/api/referrals/admin");
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to load");
+      setRows(data.rows);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load payouts");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isSignedIn) fetchRows();
+  }, [isSignedIn, fetchRows]);
+
+  const handleMarkPaid = async (row: ReferralPayoutRow) => {
+    const txHash = window.prompt(
+      `Transaction hash for ${formatAmount(row.owed)} to ${row.referrer} ` +
+        "(optional)"
+    );
+    if (txHash === null) return;
+    setMarkingPaid(row.referrer);
+    try {
+      const response = await fetch("/api/referrals/admin", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          payouts: [
+            {
+              referrer: row.referrer,
+              amount: row.owed,
+              txHash: txHash.trim() || undefined,
+            },
+          ],
+        }),
+      });
+      const data = await response.json();
+      const result = data.results?.[0];
+      if (!response.ok || !result?.recorded) {
+        throw new Error(result?.error || data.error || "Failed to record");
+      }
+      toast({ title: "Payout recorded" });
+      await fetchRows();
+    } catch (err) {
+      toast({
+        title: "Payout Failed",
+        description: err instanceof Error ? err.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setMarkingPaid(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center p-6">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!isSignedIn) {
+    return (
+      <div className="space-y-2 text-sm">
+        <p className="text-gray-600">
+          Sign in with your admin wallet to view referral payouts.
+        </p>
+        <Button size="sm" variant="outline" onClick={() => signIn()}>
+          Sign in
+        </Button>
+      </div>
+    );
+  }
+
+  if (error) return <p className="text-sm text-red-600">{error}</p>;
+
+  if (!rows) {
+    return (
+      <div className="flex justify-center p-6">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          {rows.length} referrers with an unpaid balance
+        </p>
+        <Button asChild size="sm" variant="outline" disabled={!rows.length}>
+          <a href="/api/referrals/admin?format=csv" download>
+            <Download className="h-4 w-4 mr-1" />
+            Export CSV
+          </a>
+        </Button>
+      </div>
+      {rows.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-1 pr-2">Referrer</th>
+                <th className="py-1 pr-2">Referees</th>
+                <th className="py-1 pr-2">Earned</th>
+                <th className="py-1 pr-2">Unpaid</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.referrer} className="border-t">
+                  <td className="py-1 pr-2 font-mono text-xs">
+                    {row.referrer.slice(0, 6)}...{row.referrer.slice(-4)}
+                    {row.fid && (
+                      <span className="ml-1 text-gray-500">fid {row.fid}</span>
+                    )}
+                  </td>
+                  <td className="py-1 pr-2">{row.referees}</td>
+                  <td className="py-1 pr-2">{formatAmount(row.earned)}</td>
+                  <td className="py-1 pr-2 font-semibold">
+                    {formatAmount(row.owed)}
+                  </td>
+                  <td className="py-1 text-right">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={markingPaid !== null}
+                      onClick={() => handleMarkPaid(row)}
+                    >
+                      {markingPaid === row.referrer ? (
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                      ) : (
+                        "Mark paid"
+                      )}
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useAccount, useSignMessage } from "wagmi";
+import { ExternalLink, FileText, Loader2, ShieldAlert } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  MAX_EVIDENCE_SOURCES,
+  buildEvidenceMessage,
+  disputeFields,
+  type DisputeStatus,
+  type EvidenceSource,
+  type MarketDispute,
+  type ResolutionEvidence,
+} from "@/lib/resolution-evidence";
+
+interface ResolutionEvidencePanelProps {
+  marketId: string;
+  options: string[];
+  resolved: boolean;
+}
+
+export const DISPUTE_STATUS_VARIANTS: Record<
+  DisputeStatus,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  open: "outline",
+  under_review: "default",
+  upheld: "destructive",
+  rejected: "secondary",
+};
+
+const shortAddress = (address: string) =>
+  `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+export function EvidenceSourceList({ sources }: { sources: EvidenceSource[] }) {
+  if (sources.length === 0) return null;
+  return (
+    <ul className="space-y-1">
+      {sources.map((source) => (
+        <li key={source.url}>
+          <a
+            href={source.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 text-xs text-purple-300 hover:text-purple-200"
+          >
+            <ExternalLink className="h-3 w-3 flex-shrink-0" />
+            <span className="truncate">{source.title}</span>
+            <span className="text-gray-400">({source.domain})</span>
+            {!source.trusted && (
+              <Badge variant="outline" className="text-[10px] ml-1">
+                unverified
+              </Badge>
+            )}
+          </a>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function ResolutionEvidencePanel({
+  marketId,
+  options,
+  resolved,
+}: ResolutionEvidencePanelProps) {
+  const { address, isConnected } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const { toast } = useToast();
+
+  const [evidence, setEvidence] = useState<ResolutionEvidence[]>([]);
+  const [disputes, setDisputes] = useState<MarketDispute[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [reason, setReason] = useState("");
+  const [sourcesText, setSourcesText] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchEvidence = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/evidence?marketId=${marketId}`);
+      if (!response.ok) throw new Error("Failed to fetch evidence");
+      const data = await response.json();
+      setEvidence(data.evidence || []);
+      setDisputes(data.disputes || []);
+    } catch (error) {
+      console.error("Error fetching resolution evidence:", error);
+    }
+  }, [marketId]);
+
+  useEffect(() => {
+    fetchEvidence();
+  }, [fetchEvidence]);
+
+  const handleOpenDispute = async () => {
+    if (!address || !reason.trim()) return;
+    const sourceUrls = sourcesText.split("\n");
+
+    try {
+      setIsSubmitting(true);
+      const issuedAt = Date.now();
+      const signature = await signMessageAsync({
+        message: buildEvidenceMessage(
+          "dispute",
+          disputeFields({ marketId, reason, sourceUrls }),
+          issuedAt
+        ),
+      });
+
+      const response = await fetch("/api/disputes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          marketId,
+          reason,
+          sourceUrls,
+          address,
+          signature,
+          issuedAt,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to open dispute");
+
+      toast({
+        title: "Dispute Submitted",
+        description: "Admins will review your counter-evidence.",
+      });
+      setReason("");
+      setSourcesText("");
+      setShowForm(false);
+      await fetchEvidence();
+    } catch (error) {
+      console.error("Failed to open dispute:", error);
+      toast({
+        title: "Dispute Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!resolved && evidence.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-base md:text-lg font-semibold text-gray-100 flex items-center gap-2">
+        <FileText className="h-5 w-5" />
+        Resolution Evidence
+      </h3>
+
+      {evidence.length === 0 ? (
+        <p className="text-sm text-gray-400">
+          No evidence has been attached to this resolution yet.
+        </p>
+      ) : (
+        evidence.map((item) => (
+          <div
+            key={item.id}
+            className="p-3 bg-[#352c3f]/80 rounded-lg border border-[#544863] space-y-2"
+          >
+            <div className="flex items-center justify-between text-xs text-gray-400">
+              <span>
+                Resolved to{" "}
+                <span className="font-medium text-gray-100">
+                  {options[item.winningOptionId] ??
+                    `Option ${item.winningOptionId + 1}`}
+                </span>{" "}
+                by {shortAddress(item.submittedBy)}
+              </span>
+              <span>{new Date(item.createdAt).toLocaleString()}</span>
+            </div>
+            <p className="text-sm text-gray-200 whitespace-pre-wrap">
+              {item.rationale}
+            </p>
+            <EvidenceSourceList sources={item.sources} />
+          </div>
+        ))
+      )}
+
+      {disputes.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-gray-200 flex items-center gap-2">
+            <ShieldAlert className="h-4 w-4" />
+            Disputes ({disputes.length})
+          </h4>
+          {disputes.map((dispute) => (
+            <div
+              key={dispute.id}
+              className="p-3 bg-[#433952]/50 rounded-lg border border-[#544863] space-y-2"
+            >
+              <div className="flex items-center justify-between text-xs text-gray-400">
+                <span>
+                  {shortAddress(dispute.disputer)} ·{" "}
+                  {new Date(dispute.createdAt).toLocaleDateString()}
+                </span>
+                <Badge variant={DISPUTE_STATUS_VARIANTS[dispute.status]}>
+                  {dispute.status.replace("_", " ")}
+                </Badge>
+              </div>
+              <p className="text-sm text-gray-200 whitespace-pre-wrap">
+                {dispute.reason}
+              </p>
+              <EvidenceSourceList sources={dispute.sources} />
+              {dispute.reviewNote && (
+                <p className="text-xs text-gray-400 italic">
+                  Admin note: {dispute.reviewNote}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {resolved && isConnected && (
+        <div>
+          {!showForm ? (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setShowForm(true)}
+            >
+              Dispute this resolution
+            </Button>
+          ) : (
+            <div className="space-y-2 p-3 bg-[#352c3f]/80 rounded-lg border border-[#544863]">
+              <Textarea
+                placeholder="Why is this resolution wrong?"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={3}
+              />
+              <Textarea
+                placeholder={`Counter-evidence links, one per line (max ${MAX_EVIDENCE_SOURCES})`}
+                value={sourcesText}
+                onChange={(e) => setSourcesText(e.target.value)}
+                rows={2}
+              />
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={handleOpenDispute}
+                  disabled={!reason.trim() || isSubmitting}
+                >
+                  {isSubmitting ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    "Sign & Submit"
+                  )}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setShowForm(false)}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
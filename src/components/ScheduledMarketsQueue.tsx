@@ -0,0 +1,352 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  useAccount,
+  useReadContract,
+  useSendCalls,
+  useSignMessage,
+  useWaitForCallsStatus,
+} from "wagmi";
+import { CalendarClock, Loader2, RefreshCw, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  V2contractAddress,
+  tokenAddress,
+  tokenAbi,
+} from "@/constants/contract";
+import {
+  buildCreateMarketCalls,
+  buildSchedulerMessage,
+  cancelBatchFields,
+  isBatchDue,
+  submitBatchFields,
+  type ScheduledBatchStatus,
+  type ScheduledMarketBatch,
+} from "@/lib/market-templates";
+
+const STATUS_VARIANTS: Record<
+  ScheduledBatchStatus,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  scheduled: "outline",
+  submitted: "default",
+  cancelled: "secondary",
+};
+
+interface ScheduledMarketsQueueProps {
+  refreshKey?: number;
+}
+
+// Shows the connected creator's scheduled batches; due ones can be signed
+// as a single EIP-5792 batch (one approval plus a createMarket per draft).
+export function ScheduledMarketsQueue({
+  refreshKey,
+}: ScheduledMarketsQueueProps) {
+  const { address, isConnected } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const { toast } = useToast();
+
+  const [batches, setBatches] = useState<ScheduledMarketBatch[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+  // Signed before the batch is sent; proves the creator records the result
+  const submissionRef = useRef<{
+    batchId: string;
+    signature: `0x${string}`;
+    issuedAt: number;
+  } | null>(null);
+
+  const { sendCallsAsync, data: callsData } = useSendCalls();
+  const { data: callsStatusData } = useWaitForCallsStatus({
+    id: callsData?.id,
+    query: { enabled: !!callsData?.id },
+  });
+
+  const { data: allowanceData, refetch: refetchAllowance } = useReadContract({
+    address: tokenAddress,
+    abi: tokenAbi,
+    functionName: "allowance",
+    args: [
+      address || "0x0000000000000000000000000000000000000000",
+      V2contractAddress,
+    ],
+    query: { enabled: isConnected && !!address },
+  });
+  const currentAllowance = (allowanceData as bigint | undefined) ?? 0n;
+
+  const { data: balanceData } = useReadContract({
+    address: tokenAddress,
+    abi: tokenAbi,
+    functionName: "balanceOf",
+    args: [address || "0x0000000000000000000000000000000000000000"],
+    query: { enabled: isConnected && !!address },
+  });
+  const userBalance = (balanceData as bigint | undefined) ?? 0n;
+
+  const fetchBatches = useCallback(async () => {
+    if (!address) return;
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/market-schedules?creator=${address}`);
+      if (!response.ok) throw new Error("Failed to fetch scheduled markets");
+      const data = await response.json();
+      setBatches(data.batches || []);
+    } catch (error) {
+      console.error("Error fetching scheduled markets:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address]);
+
+  useEffect(() => {
+    fetchBatches();
+  }, [fetchBatches, refreshKey]);
+
+  // Re-check which batches are due once a minute
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Record the submission once the wallet reports the batch mined
+  useEffect(() => {
+    if (!pendingId || !callsStatusData) return;
+    if (callsStatusData.status !== "success") {
+      if (callsStatusData.status === "failure") {
+        toast({
+          title: "Transaction Failed",
+          description: "The scheduled markets were not created.",
+          variant: "destructive",
+        });
+        setPendingId(null);
+      }
+      return;
+    }
+
+    const batchId = pendingId;
+    const submission = submissionRef.current;
+    submissionRef.current = null;
+    const txHashes = (callsStatusData.receipts ?? []).map(
+      (receipt) => receipt.transactionHash
+    );
+    (async () => {
+      try {
+        if (submission?.batchId !== batchId) {
+          throw new Error("Missing submission signature");
+        }
+        const response = await fetch("/api/market-schedules/submitted", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            batchId,
+            txHashes,
+            address,
+            signature: submission.signature,
+            issuedAt: submission.issuedAt,
+          }),
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Request failed");
+        toast({
+          title: "Markets Created",
+          description: `Created ${data.marketIds?.length ?? 0} market(s).`,
+        });
+      } catch (error) {
+        console.error("Error recording scheduled submission:", error);
+        toast({
+          title: "Markets Created",
+          description:
+            "The batch was mined but could not be marked submitted. Refresh to retry.",
+          variant: "destructive",
+        });
+      } finally {
+        setPendingId(null);
+        refetchAllowance();
+        fetchBatches();
+      }
+    })();
+  }, [
+    callsStatusData,
+    pendingId,
+    address,
+    toast,
+    refetchAllowance,
+    fetchBatches,
+  ]);
+
+  const handleSubmit = async (batch: ScheduledMarketBatch) => {
+    try {
+      const { calls, total } = buildCreateMarketCalls(
+        batch.drafts,
+        currentAllowance
+      );
+      if (userBalance < total) {
+        toast({
+          title: "Insufficient Balance",
+          description: `This batch needs ${(
+            Number(total) / 1e18
+          ).toLocaleString()} BUSTER tokens.`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setPendingId(batch.id);
+      const issuedAt = Date.now();
+      const signature = await signMessageAsync({
+        message: buildSchedulerMessage(
+          "submit",
+          submitBatchFields(batch.id),
+          issuedAt
+        ),
+      });
+      submissionRef.current = { batchId: batch.id, signature, issuedAt };
+      await sendCallsAsync({ calls });
+      toast({
+        title: "Transaction Sent",
+        description: `Creating ${batch.drafts.length} market(s)...`,
+      });
+    } catch (error) {
+      console.error("Error submitting scheduled markets:", error);
+      submissionRef.current = null;
+      setPendingId(null);
+      toast({
+        title: "Transaction Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCancel = async (batch: ScheduledMarketBatch) => {
+    try {
+      setPendingId(batch.id);
+      const issuedAt = Date.now();
+      const signature = await signMessageAsync({
+        message: buildSchedulerMessage(
+          "cancel",
+          cancelBatchFields(batch.id),
+          issuedAt
+        ),
+      });
+      const response = await fetch("/api/market-schedules/cancel", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          batchId: batch.id,
+          address,
+          signature,
+          issuedAt,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Cancel failed");
+      toast({ title: "Batch Cancelled" });
+      await fetchBatches();
+    } catch (error) {
+      console.error("Error cancelling scheduled markets:", error);
+      toast({
+        title: "Cancel Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  if (!isConnected) return null;
+
+  const dueCount = batches.filter((batch) => isBatchDue(batch, now)).length;
+
+  return (
+    <Card className="border-0 shadow-lg bg-gradient-to-br from-[#433952] to-[#544863]">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2 text-white">
+          <CalendarClock className="h-5 w-5" />
+          Scheduled Markets
+          {dueCount > 0 && (
+            <Badge variant="destructive">{dueCount} ready to sign</Badge>
+          )}
+        </CardTitle>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={fetchBatches}
+          className="text-white hover:bg-white/10"
+        >
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading && batches.length === 0 ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-white/60" />
+          </div>
+        ) : batches.length === 0 ? (
+          <p className="text-center text-white/70 py-6">
+            No scheduled markets.
+          </p>
+        ) : (
+          batches.map((batch) => {
+            const due = isBatchDue(batch, now);
+            return (
+              <Card key={batch.id} className="border-0 bg-white/10">
+                <CardContent className="p-4 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm text-white/80">
+                      {new Date(batch.scheduledFor).toLocaleString()} ·{" "}
+                      {batch.drafts.length} market(s)
+                    </span>
+                    <Badge variant={STATUS_VARIANTS[batch.status]}>
+                      {due ? "due" : batch.status}
+                    </Badge>
+                  </div>
+                  <ul className="text-sm text-white space-y-1">
+                    {batch.drafts.map((draft, index) => (
+                      <li key={index} className="truncate">
+                        • {draft.question}
+                      </li>
+                    ))}
+                  </ul>
+                  {batch.status === "scheduled" && (
+                    <div className="flex gap-2">
+                      {due && (
+                        <Button
+                          size="sm"
+                          disabled={pendingId !== null}
+                          onClick={() => handleSubmit(batch)}
+                          className="bg-white/20 hover:bg-white/30 text-white"
+                        >
+                          {pendingId === batch.id ? (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          ) : null}
+                          Sign & Create
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={pendingId !== null}
+                        onClick={() => handleCancel(batch)}
+                        className="text-red-300 hover:text-red-100 hover:bg-white/10"
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Cancel
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
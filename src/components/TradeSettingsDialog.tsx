@@ -0,0 +1,227 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Settings } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "./ui/dialog";
+import { cn } from "@/lib/utils";
+import { useTradeSettings } from "@/hooks/useTradeSettings";
+import {
+  DEADLINE_PRESETS_SECONDS,
+  DEFAULT_TRADE_SETTINGS,
+  MAX_DEADLINE_SECONDS,
+  MAX_PRICE_IMPACT_BPS,
+  MAX_SLIPPAGE_BPS,
+  MIN_DEADLINE_SECONDS,
+  SLIPPAGE_PRESETS_BPS,
+  formatBps,
+} from "@/lib/trade-settings";
+
+interface TradeSettingsDialogProps {
+  className?: string;
+}
+
+// Gear button + dialog for the connected wallet's slippage, price-impact
+// warning threshold and quote deadline
+export function TradeSettingsDialog({ className }: TradeSettingsDialogProps) {
+  const { settings, updateSettings, canSave } = useTradeSettings();
+  const [open, setOpen] = useState(false);
+  const [slippage, setSlippage] = useState("");
+  const [impact, setImpact] = useState("");
+  const [deadline, setDeadline] = useState("");
+
+  // Re-seed the form from the saved settings every time it opens
+  useEffect(() => {
+    if (!open) return;
+    setSlippage((settings.slippageBps / 100).toString());
+    setImpact((settings.maxPriceImpactBps / 100).toString());
+    setDeadline(settings.deadlineSeconds.toString());
+  }, [open, settings]);
+
+  const slippageBps = Math.round(parseFloat(slippage) * 100);
+  const impactBps = Math.round(parseFloat(impact) * 100);
+  const deadlineSeconds = Math.round(parseFloat(deadline));
+
+  const validationError =
+    !Number.isFinite(slippageBps) ||
+    slippageBps < 0 ||
+    slippageBps > MAX_SLIPPAGE_BPS
+      ? `Slippage must be between 0% and ${MAX_SLIPPAGE_BPS / 100}%`
+      : !Number.isFinite(impactBps) ||
+        impactBps < 0 ||
+        impactBps > MAX_PRICE_IMPACT_BPS
+      ? `Price impact warning must be between 0% and ${
+          MAX_PRICE_IMPACT_BPS / 100
+        }%`
+      : !Number.isFinite(deadlineSeconds) ||
+        deadlineSeconds < MIN_DEADLINE_SECONDS ||
+        deadlineSeconds > MAX_DEADLINE_SECONDS
+      ? `Deadline must be between ${MIN_DEADLINE_SECONDS} and ${MAX_DEADLINE_SECONDS} seconds`
+      : null;
+
+  const handleSave = () => {
+    if (validationError) return;
+    updateSettings({
+      slippageBps,
+      maxPriceImpactBps: impactBps,
+      deadlineSeconds,
+    });
+    setOpen(false);
+  };
+
+  const handleReset = () => {
+    setSlippage((DEFAULT_TRADE_SETTINGS.slippageBps / 100).toString());
+    setImpact((DEFAULT_TRADE_SETTINGS.maxPriceImpactBps / 100).toString());
+    setDeadline(DEFAULT_TRADE_SETTINGS.deadlineSeconds.toString());
+  };
+
+  const presetClass = (active: boolean) =>
+    cn(
+      "flex-1 rounded border px-1 py-0.5 text-xs transition-colors",
+      active
+        ? "border-purple-400 bg-purple-500/30 text-purple-200"
+        : "border-[#544863] text-gray-300 hover:bg-[#544863]/50"
+    );
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <button
+          type="button"
+          aria-label="Trade settings"
+          title={`Slippage ${formatBps(settings.slippageBps)}`}
+          className={cn(
+            "flex items-center gap-1 rounded px-1 py-0.5 text-xs text-gray-300 hover:bg-[#544863]/50",
+            className
+          )}
+        >
+          <Settings className="h-3 w-3" />
+          {formatBps(settings.slippageBps)}
+        </button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-sm bg-[#433952] border-[#544863] text-gray-100">
+        <DialogHeader>
+          <DialogTitle>Trade Settings</DialogTitle>
+          <DialogDescription className="text-gray-300">
+            {canSave
+              ? "Saved for this wallet and applied to every buy and sell."
+              : "Connect a wallet to save your own settings."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <label className="block text-xs font-medium text-gray-300">
+              Slippage tolerance (%)
+            </label>
+            <div className="flex gap-1">
+              {SLIPPAGE_PRESETS_BPS.map((bps) => (
+                <button
+                  key={bps}
+                  type="button"
+                  onClick={() => setSlippage((bps / 100).toString())}
+                  className={presetClass(slippageBps === bps)}
+                >
+                  {formatBps(bps)}
+                </button>
+              ))}
+            </div>
+            <Input
+              type="number"
+              inputMode="decimal"
+              step="0.1"
+              min="0"
+              max={MAX_SLIPPAGE_BPS / 100}
+              value={slippage}
+              onChange={(e) => setSlippage(e.target.value)}
+              className="h-8 text-xs bg-[#352c3f]/80 border-[#544863] text-gray-100"
+              style={{ fontSize: "16px" }}
+            />
+            {slippageBps > 500 && !validationError && (
+              <p className="text-xs text-amber-300">
+                High slippage: your trade may fill at a much worse price.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <label className="block text-xs font-medium text-gray-300">
+              Warn when price impact exceeds (%)
+            </label>
+            <Input
+              type="number"
+              inputMode="decimal"
+              step="0.5"
+              min="0"
+              max={MAX_PRICE_IMPACT_BPS / 100}
+              value={impact}
+              onChange={(e) => setImpact(e.target.value)}
+              className="h-8 text-xs bg-[#352c3f]/80 border-[#544863] text-gray-100"
+              style={{ fontSize: "16px" }}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <label className="block text-xs font-medium text-gray-300">
+              Quote deadline (seconds)
+            </label>
+            <div className="flex gap-1">
+              {DEADLINE_PRESETS_SECONDS.map((seconds) => (
+                <button
+                  key={seconds}
+                  type="button"
+                  onClick={() => setDeadline(seconds.toString())}
+                  className={presetClass(deadlineSeconds === seconds)}
+                >
+                  {seconds < 60 ? `${seconds}s` : `${seconds / 60}m`}
+                </button>
+              ))}
+            </div>
+            <Input
+              type="number"
+              inputMode="numeric"
+              min={MIN_DEADLINE_SECONDS}
+              max={MAX_DEADLINE_SECONDS}
+              value={deadline}
+              onChange={(e) => setDeadline(e.target.value)}
+              className="h-8 text-xs bg-[#352c3f]/80 border-[#544863] text-gray-100"
+              style={{ fontSize: "16px" }}
+            />
+            <p className="text-xs text-gray-400">
+              Quotes older than this must be reviewed again before signing.
+            </p>
+          </div>
+
+          {validationError && (
+            <p className="text-xs text-red-300">{validationError}</p>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={handleReset}
+              className="flex-1 h-8 text-xs border-[#544863] text-gray-300 hover:bg-[#544863]/50"
+            >
+              Reset
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={!canSave || !!validationError}
+              className="flex-1 h-8 text-xs"
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
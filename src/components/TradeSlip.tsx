@@ -0,0 +1,548 @@
+"use client";
+
+import { useCallback, useMemo, useRef, useState } from "react";
+import { useAccount, useReadContract } from "wagmi";
+import { encodeFunctionData } from "viem";
+import {
+  AlertTriangle,
+  Check,
+  Layers,
+  Loader2,
+  Trash2,
+  X,
+} from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { TradeSettingsDialog } from "./TradeSettingsDialog";
+import { useToast } from "@/components/ui/use-toast";
+import { cn } from "@/lib/utils";
+import type { CallResult } from "@/lib/batch-calls";
+import {
+  V2contractAddress,
+  V2contractAbi,
+  tokenAddress,
+  tokenAbi,
+} from "@/constants/contract";
+import {
+  marginalPrice,
+  quoteBuy,
+  sharesToWei,
+  type BuyQuote,
+} from "@/lib/lmsr";
+import {
+  buyLimits,
+  formatBps,
+  isPriceImpactHigh,
+  priceImpactBps,
+} from "@/lib/trade-settings";
+import {
+  MAX_LEG_SHARES,
+  legKey,
+  legResultsFromCalls,
+  type TradeSlipLeg,
+  type TradeSlipLegResult,
+} from "@/lib/trade-slip";
+import { useBatchCalls } from "@/hooks/useBatchCalls";
+import { useLMSRStates } from "@/hooks/useLMSRState";
+import { useTradeSettings } from "@/hooks/useTradeSettings";
+import { useTradeSlip } from "@/hooks/useTradeSlip";
+
+type SlipStep = "review" | "confirm" | "batchPartialSuccess" | "purchaseSuccess";
+
+interface LegQuote {
+  quantity: bigint;
+  quote?: BuyQuote;
+  maxPricePerShare: bigint;
+  maxTotalCost: bigint;
+  priceImpact: number;
+}
+
+// Format bigint token amount with up to 2 decimals
+function formatPrice(amount: bigint, decimals = 18): string {
+  const negative = amount < 0n;
+  const x = negative ? -amount : amount;
+  const s = x.toString().padStart(decimals + 1, "0");
+  const int = s.slice(0, -decimals);
+  const frac = s.slice(-decimals).slice(0, 2).replace(/0+$/, "");
+  return `${negative ? "-" : ""}${frac ? `${int}.${frac}` : int}`;
+}
+
+// Floating trade slip: legs from any market, quoted together and bought in
+// a single EIP-5792 batch (approve + one buyShares per leg)
+export function TradeSlip() {
+  const { address: accountAddress, isConnected } = useAccount();
+  const { toast } = useToast();
+  const { legs, removeLegs, updateShares, clear } = useTradeSlip();
+  const { settings: tradeSettings } = useTradeSettings();
+
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<SlipStep>("review");
+  const [error, setError] = useState<string | null>(null);
+  const [results, setResults] = useState<TradeSlipLegResult[]>([]);
+  // Legs and approval flag of the batch in flight, for mapping receipts
+  const submittedRef = useRef<{
+    legs: TradeSlipLeg[];
+    includesApproval: boolean;
+  } | null>(null);
+
+  const markets = useMemo(() => {
+    const seen = new Map<number, number>();
+    legs.forEach((l) => seen.set(l.marketId, l.optionCount));
+    return Array.from(seen, ([marketId, optionCount]) => ({
+      marketId,
+      optionCount,
+    }));
+  }, [legs]);
+  const { states } = useLMSRStates(markets);
+
+  const { data: tokenSymbol } = useReadContract({
+    address: tokenAddress,
+    abi: tokenAbi,
+    functionName: "symbol",
+  });
+
+  const { data: userBalance } = useReadContract({
+    address: tokenAddress,
+    abi: tokenAbi,
+    functionName: "balanceOf",
+    args: [accountAddress as `0x${string}`],
+    query: { enabled: !!accountAddress && legs.length > 0 },
+  });
+
+  const { data: userAllowance } = useReadContract({
+    address: tokenAddress,
+    abi: tokenAbi,
+    functionName: "allowance",
+    args: [accountAddress as `0x${string}`, V2contractAddress],
+    query: { enabled: !!accountAddress && legs.length > 0 },
+  });
+
+  // Per-leg local LMSR quotes with the wallet's slippage bounds
+  const legQuotes = useMemo(() => {
+    const byLeg = new Map<string, LegQuote>();
+    for (const leg of legs) {
+      const quantity = sharesToWei(leg.shares);
+      const state = states.get(leg.marketId);
+      let quote: BuyQuote | undefined;
+      if (state && quantity > 0n) {
+        try {
+          quote = quoteBuy(state, leg.optionId, quantity);
+        } catch (err) {
+          console.warn("Trade slip quote failed:", err);
+        }
+      }
+      const limits = quote
+        ? buyLimits(quote, tradeSettings)
+        : { maxPricePerShare: 0n, maxTotalCost: 0n };
+      byLeg.set(legKey(leg), {
+        quantity,
+        quote,
+        ...limits,
+        priceImpact:
+          state && quote
+            ? priceImpactBps(
+                marginalPrice(state, leg.optionId),
+                quote.rawCost,
+                quantity,
+                "buy"
+              )
+            : 0,
+      });
+    }
+    return byLeg;
+  }, [legs, states, tradeSettings]);
+
+  const totals = useMemo(() => {
+    let totalCost = 0n;
+    let fee = 0n;
+    let maxTotalCost = 0n;
+    legQuotes.forEach((q) => {
+      totalCost += q.quote?.totalCost ?? 0n;
+      fee += q.quote?.fee ?? 0n;
+      maxTotalCost += q.maxTotalCost;
+    });
+    return { totalCost, fee, maxTotalCost };
+  }, [legQuotes]);
+
+  const allQuoted =
+    legs.length > 0 &&
+    legs.every((l) => {
+      const q = legQuotes.get(legKey(l));
+      return !!q?.quote && q.quantity > 0n;
+    });
+
+  // Map per-call results to legs once the wallet reports back
+  const handleSettled = useCallback(
+    (calls: CallResult[]) => {
+      const submitted = submittedRef.current;
+      if (!submitted) return;
+      submittedRef.current = null;
+
+      const { approvalFailed, results } = legResultsFromCalls(
+        submitted.legs,
+        calls,
+        submitted.includesApproval
+      );
+
+      const filled = results.filter((r) => r.status === "filled");
+      setResults(results);
+      removeLegs(filled.map((r) => legKey(r.leg)));
+      new Set(filled.map((r) => r.leg.marketId)).forEach((marketId) =>
+        window.dispatchEvent(
+          new CustomEvent("market-updated", { detail: { marketId } })
+        )
+      );
+
+      if (filled.length === results.length) {
+        toast({
+          title: "Purchase Successful!",
+          description: `Bought ${filled.length} positions in one transaction.`,
+        });
+        setStep("purchaseSuccess");
+      } else if (
+        filled.length > 0 ||
+        (submitted.includesApproval && !approvalFailed)
+      ) {
+        toast({
+          title: "Partial Success",
+          description: `${filled.length} of ${results.length} purchases went through. Failed legs stay on your slip.`,
+        });
+        setStep("batchPartialSuccess");
+      } else {
+        toast({
+          title: "Transaction Failed",
+          description: "None of the purchases went through. Please try again.",
+          variant: "destructive",
+        });
+        setStep("review");
+      }
+    },
+    [removeLegs, toast]
+  );
+
+  const { submit, reset: resetSendCalls } = useBatchCalls({
+    onSubmitted: () =>
+      toast({
+        title: "Batch Transaction Submitted",
+        description: `Processing ${
+          submittedRef.current?.legs.length ?? 0
+        } purchases...`,
+      }),
+    onError: (err, unsupported) => {
+      console.error("Trade slip batch submission failed:", err);
+      submittedRef.current = null;
+      toast({
+        title: unsupported
+          ? "Batch Transactions Not Supported"
+          : "Batch Transaction Failed",
+        description: unsupported
+          ? "Your wallet can't batch transactions. Buy each leg from its market instead."
+          : "Failed to submit the trade slip. Please try again.",
+        variant: "destructive",
+      });
+      setStep("review");
+    },
+    onSettled: handleSettled,
+  });
+
+  const handleSubmit = useCallback(async () => {
+    setError(null);
+    if (!isConnected || !accountAddress) {
+      setError("Connect your wallet to submit the trade slip.");
+      return;
+    }
+    const invalid = legs.find((l) => {
+      const shares = parseFloat(l.shares);
+      return !(shares > 0) || shares > MAX_LEG_SHARES;
+    });
+    if (invalid) {
+      setError(
+        `Enter between 0 and ${MAX_LEG_SHARES} shares for ${invalid.optionName}.`
+      );
+      return;
+    }
+    if (!allQuoted) {
+      setError("Quotes are still loading. Please try again.");
+      return;
+    }
+    if (userBalance === undefined || totals.totalCost > userBalance) {
+      setError(
+        `Insufficient balance. Total cost: ${formatPrice(
+          totals.totalCost
+        )} ${tokenSymbol || "tokens"}`
+      );
+      return;
+    }
+
+    const includesApproval = totals.maxTotalCost > (userAllowance ?? 0n);
+    const calls = legs.map((leg) => {
+      const q = legQuotes.get(legKey(leg))!;
+      return {
+        to: V2contractAddress as `0x${string}`,
+        data: encodeFunctionData({
+          abi: V2contractAbi,
+          functionName: "buyShares",
+          args: [
+            BigInt(leg.marketId),
+            BigInt(leg.optionId),
+            q.quantity,
+            q.maxPricePerShare,
+            q.maxTotalCost,
+          ],
+        }),
+      };
+    });
+    if (includesApproval) {
+      calls.unshift({
+        to: tokenAddress as `0x${string}`,
+        data: encodeFunctionData({
+          abi: tokenAbi,
+          functionName: "approve",
+          args: [V2contractAddress, totals.maxTotalCost],
+        }),
+      });
+    }
+
+    submittedRef.current = { legs: [...legs], includesApproval };
+    setStep("confirm");
+    submit(calls);
+  }, [
+    isConnected,
+    accountAddress,
+    legs,
+    allQuoted,
+    userBalance,
+    userAllowance,
+    totals,
+    legQuotes,
+    tokenSymbol,
+    submit,
+  ]);
+
+  const backToReview = () => {
+    resetSendCalls();
+    setResults([]);
+    setError(null);
+    setStep("review");
+  };
+
+  if (legs.length === 0 && step === "review") return null;
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="fixed bottom-4 right-4 z-50 flex items-center gap-2 rounded-full bg-gradient-to-br from-[#433952] to-[#544863] px-4 py-2 text-sm font-medium text-white shadow-lg border border-[#544863]"
+      >
+        <Layers className="h-4 w-4" />
+        Trade Slip
+        <span className="rounded-full bg-purple-500 px-1.5 text-xs">
+          {legs.length}
+        </span>
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-[22rem] max-w-[calc(100vw-2rem)] max-h-[80vh] overflow-y-auto rounded-lg bg-gradient-to-br from-[#433952] to-[#544863] p-3 shadow-xl border border-[#544863] space-y-2 text-gray-100">
+      <div className="flex items-center gap-2">
+        <Layers className="h-4 w-4 text-purple-300" />
+        <span className="text-sm font-medium">Trade Slip</span>
+        <TradeSettingsDialog className="ml-auto" />
+        <button
+          type="button"
+          aria-label="Close trade slip"
+          onClick={() => setOpen(false)}
+          className="text-gray-300 hover:text-white"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      {step === "review" && (
+        <>
+          <div className="space-y-1.5">
+            {legs.map((leg) => {
+              const key = legKey(leg);
+              const q = legQuotes.get(key);
+              const high =
+                !!q && isPriceImpactHigh(q.priceImpact, tradeSettings);
+              return (
+                <div
+                  key={key}
+                  className="rounded-md bg-[#352c3f]/80 border border-[#544863] p-1.5 space-y-1"
+                >
+                  <div className="flex items-start gap-1">
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-xs text-gray-400">
+                        {leg.question}
+                      </p>
+                      <p className="text-xs font-medium">{leg.optionName}</p>
+                    </div>
+                    <button
+                      type="button"
+                      aria-label="Remove leg"
+                      onClick={() => removeLegs([key])}
+                      className="text-gray-400 hover:text-red-300"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      inputMode="decimal"
+                      min="0"
+                      max={MAX_LEG_SHARES}
+                      value={leg.shares}
+                      onChange={(e) => updateShares(key, e.target.value)}
+                      className="h-7 w-24 text-xs bg-[#352c3f]/80 border-[#544863] text-gray-100"
+                      style={{ fontSize: "16px" }}
+                    />
+                    <span className="text-xs text-gray-400">shares</span>
+                    <span className="ml-auto text-xs">
+                      {q?.quote ? (
+                        `${formatPrice(q.quote.totalCost)} ${tokenSymbol ?? ""}`
+                      ) : (
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                      )}
+                    </span>
+                  </div>
+                  {q?.quote && (
+                    <p
+                      className={cn(
+                        "flex items-center gap-1 text-xs",
+                        high ? "text-amber-300" : "text-gray-400"
+                      )}
+                    >
+                      {high && <AlertTriangle className="h-3 w-3" />}
+                      Price impact {formatBps(q.priceImpact)}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="rounded-md bg-purple-500/20 border border-purple-400/30 p-1.5 space-y-0.5 text-xs">
+            <div className="flex justify-between">
+              <span className="text-gray-300">Fees:</span>
+              <span>
+                {formatPrice(totals.fee)} {tokenSymbol}
+              </span>
+            </div>
+            <div className="flex justify-between font-semibold">
+              <span>Total Cost:</span>
+              <span>
+                {formatPrice(totals.totalCost)} {tokenSymbol}
+              </span>
+            </div>
+            <div className="flex justify-between text-gray-400">
+              <span>
+                Max Cost ({formatBps(tradeSettings.slippageBps)} slippage):
+              </span>
+              <span>
+                {formatPrice(totals.maxTotalCost)} {tokenSymbol}
+              </span>
+            </div>
+            {userBalance !== undefined && (
+              <div className="flex justify-between text-gray-400">
+                <span>Your balance:</span>
+                <span>
+                  {formatPrice(userBalance)} {tokenSymbol}
+                </span>
+              </div>
+            )}
+          </div>
+
+          {error && (
+            <div className="rounded-md bg-red-500/20 border border-red-400/30 p-1.5">
+              <p className="text-xs text-red-300">{error}</p>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={clear}
+              className="flex-1 h-8 text-xs border-[#544863] text-gray-300 hover:bg-[#544863]/50"
+            >
+              Clear
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={!allQuoted}
+              className="flex-1 h-8 text-xs font-medium"
+            >
+              Buy {legs.length} in One Batch
+            </Button>
+          </div>
+        </>
+      )}
+
+      {step === "confirm" && (
+        <div className="text-center py-4 space-y-2 bg-[#352c3f]/80 rounded-md border border-[#544863]">
+          <Loader2 className="h-6 w-6 animate-spin mx-auto text-purple-400" />
+          <p className="text-sm font-medium text-gray-200">
+            Processing {submittedRef.current?.legs.length ?? legs.length}{" "}
+            purchases...
+          </p>
+        </div>
+      )}
+
+      {(step === "batchPartialSuccess" || step === "purchaseSuccess") && (
+        <div
+          className={cn(
+            "rounded-md border p-2 space-y-1.5",
+            step === "purchaseSuccess"
+              ? "bg-green-500/20 border-green-400/30"
+              : "bg-amber-500/20 border-amber-400/30"
+          )}
+        >
+          <p
+            className={cn(
+              "text-sm font-medium",
+              step === "purchaseSuccess" ? "text-green-300" : "text-amber-300"
+            )}
+          >
+            {step === "purchaseSuccess"
+              ? "All purchases successful!"
+              : results.some((r) => r.status === "filled")
+              ? "Some purchases failed."
+              : "Approval successful, but purchases failed."}
+          </p>
+          <ul className="space-y-0.5">
+            {results.map((r) => (
+              <li
+                key={legKey(r.leg)}
+                className="flex items-center gap-1 text-xs"
+              >
+                {r.status === "filled" ? (
+                  <Check className="h-3 w-3 text-green-400" />
+                ) : (
+                  <X className="h-3 w-3 text-red-400" />
+                )}
+                <span className="truncate">
+                  {r.leg.optionName} • {r.leg.shares} shares
+                </span>
+                <span className="ml-auto text-gray-400 shrink-0">
+                  {r.status === "filled" ? "Filled" : "Failed"}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <Button
+            onClick={() => {
+              backToReview();
+              if (step === "purchaseSuccess") setOpen(false);
+            }}
+            className="w-full h-8 text-xs font-medium"
+          >
+            {step === "purchaseSuccess" ? "Done" : "Retry Failed Legs"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
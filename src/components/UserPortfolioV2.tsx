@@ -28,6 +28,8 @@ import {
   RefreshCw,
 } from "lucide-react";
 import { useUserPortfolio } from "@/hooks/useSubgraphData";
+import { usePortfolioPnL } from "@/hooks/usePortfolioPnL";
+import { LimitOrdersPanel } from "./LimitOrdersPanel";
 
 interface UserPortfolio {
   totalInvested: string;
@@ -106,6 +108,9 @@ export function UserPortfolioV2() {
     refetch: refetchPortfolio,
   } = useUserPortfolio(accountAddress!);
 
+  // Cost-basis P&L rebuilt from trade history (see /api/portfolio/pnl)
+  const { data: pnl, refresh: refreshPnL } = usePortfolioPnL(accountAddress);
+
   // Fetch accurate unrealized PnL from PolicastViews
   const { data: calculatedUnrealizedPnL } = (useReadContract as any)({
     address: PolicastViews,
@@ -500,9 +505,12 @@ export function UserPortfolioV2() {
     );
   }
 
-  const totalPnL =
-    BigInt(portfolio.realizedPnL) + BigInt(portfolio.unrealizedPnL);
+  // Prefer the trade-history P&L engine; fall back to subgraph/contract values
+  const realizedPnL = pnl?.totals.realizedPnL ?? portfolio.realizedPnL;
+  const unrealizedPnL = pnl?.totals.unrealizedPnL ?? portfolio.unrealizedPnL;
+  const totalPnL = BigInt(realizedPnL) + BigInt(unrealizedPnL);
   const totalPnLFormatted = formatPnLFlexible(totalPnL);
+  const pnlByMarket = new Map(pnl?.markets.map((m) => [m.marketId, m]));
 
   return (
     <div className="space-y-6">
@@ -519,6 +527,7 @@ export function UserPortfolioV2() {
             onClick={() => {
               refetchPortfolio();
               fetchPortfolioData();
+              refreshPnL();
             }}
             className="flex items-center gap-2"
           >
@@ -580,19 +589,19 @@ export function UserPortfolioV2() {
             </div>
           </div>
 
-          <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-4">
             <div className="space-y-2">
               <p className="text-sm text-muted-foreground">Realized P&L</p>
               <div className="flex items-center gap-2">
                 <p
                   className={`text-lg font-semibold ${
-                    Number(portfolio.realizedPnL) >= 0
+                    Number(realizedPnL) >= 0
                       ? "text-green-600"
                       : "text-red-600"
                   }`}
                 >
-                  {Number(portfolio.realizedPnL) >= 0 ? "+" : ""}
-                  {formatAmountFlexible(portfolio.realizedPnL)} {tokenSymbol}
+                  {Number(realizedPnL) >= 0 ? "+" : ""}
+                  {formatAmountFlexible(realizedPnL)} {tokenSymbol}
                 </p>
                 <Badge variant="secondary">Locked</Badge>
               </div>
@@ -603,17 +612,35 @@ export function UserPortfolioV2() {
               <div className="flex items-center gap-2">
                 <p
                   className={`text-lg font-semibold ${
-                    Number(portfolio.unrealizedPnL) >= 0
+                    Number(unrealizedPnL) >= 0
                       ? "text-green-600"
                       : "text-red-600"
                   }`}
                 >
-                  {Number(portfolio.unrealizedPnL) >= 0 ? "+" : ""}
-                  {formatAmountFlexible(portfolio.unrealizedPnL)} {tokenSymbol}
+                  {Number(unrealizedPnL) >= 0 ? "+" : ""}
+                  {formatAmountFlexible(unrealizedPnL)} {tokenSymbol}
                 </p>
                 <Badge variant="outline">Current</Badge>
               </div>
             </div>
+
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">Fees Paid</p>
+              <div className="flex items-center gap-2">
+                <p className="text-lg font-semibold">
+                  {pnl ? formatAmountFlexible(pnl.totals.feesPaid) : "-"}{" "}
+                  {tokenSymbol}
+                </p>
+                {pnl && (
+                  <Badge variant="outline">
+                    Net {formatPnLFlexible(pnl.totals.feeAdjustedPnL).isPositive
+                      ? "+"
+                      : "-"}
+                    {formatPnLFlexible(pnl.totals.feeAdjustedPnL).value}
+                  </Badge>
+                )}
+              </div>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -662,9 +689,37 @@ export function UserPortfolioV2() {
                           </Badge>
                         )}
                       </div>
-                      <p className="text-sm font-semibold ml-4">
-                        {formatAmount(position.totalValue)} {tokenSymbol}
-                      </p>
+                      <div className="text-right ml-4">
+                        <p className="text-sm font-semibold">
+                          {formatAmount(position.totalValue)} {tokenSymbol}
+                        </p>
+                        {pnlByMarket.has(position.marketId) && (
+                          <p
+                            className={`text-xs ${
+                              BigInt(
+                                pnlByMarket.get(position.marketId)!.netPnL
+                              ) >= 0n
+                                ? "text-green-600"
+                                : "text-red-600"
+                            }`}
+                          >
+                            {formatPnLFlexible(
+                              pnlByMarket.get(position.marketId)!.netPnL
+                            ).isPositive
+                              ? "+"
+                              : "-"}
+                            {
+                              formatPnLFlexible(
+                                pnlByMarket.get(position.marketId)!.netPnL
+                              ).value
+                            }{" "}
+                            on{" "}
+                            {formatAmountFlexible(
+                              pnlByMarket.get(position.marketId)!.costBasis
+                            )}
+                          </p>
+                        )}
+                      </div>
                     </div>
 
                     <div className="space-y-2">
@@ -763,6 +818,83 @@ export function UserPortfolioV2() {
           </CardContent>
         </Card>
       </div>
+
+      {/* P&L Breakdown */}
+      {pnl && pnl.markets.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <DollarSign className="h-5 w-5" />
+              P&L Breakdown
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4 max-h-96 overflow-y-auto">
+              {pnl.markets.map((market) => (
+                <div key={market.marketId} className="border rounded-lg p-4">
+                  <div className="flex items-start justify-between mb-3">
+                    <Link
+                      href={`/market/${market.marketId}`}
+                      className="font-medium hover:text-primary transition-colors line-clamp-2"
+                    >
+                      {market.question || `Market #${market.marketId}`}
+                    </Link>
+                    <div className="ml-4 text-right">
+                      <p
+                        className={`text-sm font-semibold ${
+                          BigInt(market.netPnL) >= 0n
+                            ? "text-green-600"
+                            : "text-red-600"
+                        }`}
+                      >
+                        {formatPnLFlexible(market.netPnL).isPositive
+                          ? "+"
+                          : "-"}
+                        {formatPnLFlexible(market.netPnL).value} {tokenSymbol}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatPnLFlexible(market.feeAdjustedPnL).isPositive
+                          ? "+"
+                          : "-"}
+                        {formatPnLFlexible(market.feeAdjustedPnL).value} after
+                        fees
+                      </p>
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    {market.options.map((option) => (
+                      <div
+                        key={option.optionId}
+                        className="grid grid-cols-4 gap-2 text-xs"
+                      >
+                        <span className="flex items-center gap-1 text-muted-foreground truncate">
+                          {option.optionName}
+                          <Badge variant="outline" className="text-[10px]">
+                            {option.status}
+                          </Badge>
+                        </span>
+                        <span>
+                          {formatAmountFlexible(option.shares)} @{" "}
+                          {formatAmountFlexible(option.avgEntryPrice)}
+                        </span>
+                        <span>
+                          Realized {formatAmountFlexible(option.realizedPnL)}
+                        </span>
+                        <span className="text-right">
+                          Unrealized {formatAmountFlexible(option.unrealizedPnL)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Limit Orders */}
+      <LimitOrdersPanel />
     </div>
   );
 }
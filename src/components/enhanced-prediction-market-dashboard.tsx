@@ -21,6 +21,11 @@ import { useFarcasterUser } from "@/hooks/useFarcasterUser";
 
 import { ModernAdminDashboard } from "./ModernAdminDashboard";
 import LeaderboardComponent from "./LeaderboardComponent";
+import { PaperLeaderboard } from "./PaperLeaderboard";
+import { PaperTradingPanel } from "./PaperTradingPanel";
+import { FollowingFeed } from "./FollowingFeed";
+import { ReferralPanel } from "./ReferralPanel";
+import { useReferralCapture } from "@/hooks/useReferrals";
 
 export function EnhancedPredictionMarketDashboard() {
   const { address, isConnected } = useAccount();
@@ -32,6 +37,7 @@ export function EnhancedPredictionMarketDashboard() {
   // Initialize with a fixed default. Will be updated from URL after client mount.
   const [activeTab, setActiveTab] = useState("active");
   const [isClient, setIsClient] = useState(false);
+  useReferralCapture();
 
   useEffect(() => {
     // This effect runs only on the client, after the initial render
@@ -192,9 +198,43 @@ export function EnhancedPredictionMarketDashboard() {
           </TabsContent>
 
           <TabsContent value="leaderboard" className="mt-6">
-            <div className="bg-[#433952]/50 backdrop-blur-sm rounded-lg shadow-lg overflow-hidden border border-[#544863]">
-              <LeaderboardComponent onTabChange={handleTabChange} />
-            </div>
+            <Tabs defaultValue="earners" className="w-full">
+              <TabsList className="grid w-full grid-cols-3 bg-[#433952]/50 border border-[#544863]">
+                <TabsTrigger
+                  value="earners"
+                  className="text-xs px-2 data-[state=active]:bg-purple-600 data-[state=active]:text-white"
+                >
+                  Leaderboard
+                </TabsTrigger>
+                <TabsTrigger
+                  value="paper"
+                  className="text-xs px-2 data-[state=active]:bg-purple-600 data-[state=active]:text-white"
+                >
+                  Paper Traders
+                </TabsTrigger>
+                <TabsTrigger
+                  value="following"
+                  className="text-xs px-2 data-[state=active]:bg-purple-600 data-[state=active]:text-white"
+                >
+                  Following
+                </TabsTrigger>
+              </TabsList>
+              <TabsContent value="earners" className="mt-4">
+                <div className="bg-[#433952]/50 backdrop-blur-sm rounded-lg shadow-lg overflow-hidden border border-[#544863]">
+                  <LeaderboardComponent onTabChange={handleTabChange} />
+                </div>
+              </TabsContent>
+              <TabsContent value="paper" className="mt-4">
+                <div className="bg-[#433952]/50 backdrop-blur-sm rounded-lg shadow-lg overflow-hidden border border-[#544863]">
+                  <PaperLeaderboard />
+                </div>
+              </TabsContent>
+              <TabsContent value="following" className="mt-4">
+                <div className="bg-[#433952]/50 backdrop-blur-sm rounded-lg shadow-lg overflow-hidden border border-[#544863]">
+                  <FollowingFeed />
+                </div>
+              </TabsContent>
+            </Tabs>
           </TabsContent>
 
           <TabsContent value="profile" className="mt-6">
@@ -203,6 +243,8 @@ export function EnhancedPredictionMarketDashboard() {
                 {/* Stats Section */}
                 <div className="lg:col-span-1 space-y-6">
                   <UserStats />
+                  <PaperTradingPanel />
+                  <ReferralPanel />
                 </div>
 
                 {/* Vote History Section */}
@@ -1,9 +1,11 @@
 "use client";
 
-import React from "react";
+import React, { useEffect, useState } from "react";
 import {
   LineChart,
   Line,
+  Bar,
+  ComposedChart,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -12,6 +14,10 @@ import {
   ResponsiveContainer,
 } from "recharts";
 import { useMarketAnalytics } from "@/hooks/useMarketAnalytics";
+import { useCandles } from "@/hooks/useCandles";
+import { useMarketStream } from "@/hooks/useMarketStream";
+import { CANDLE_INTERVALS, type CandleInterval } from "@/lib/candles";
+import { cn } from "@/lib/utils";
 
 interface MarketChartProps {
   marketId: string;
@@ -25,18 +31,262 @@ interface MarketChartProps {
   };
 }
 
+type ChartView = "lines" | "candles";
+
+const toggleClass = (active: boolean) =>
+  cn(
+    "px-2 py-0.5 text-xs",
+    active
+      ? "bg-[#544863] text-gray-100"
+      : "text-gray-400 hover:text-gray-200"
+  );
+
+interface CandleDatum {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  range: [number, number];
+}
+
+// Bar shape for a [low, high] range bar: wick over the full range, body
+// between open and close. Green when the candle closed up.
+function CandleShape(props: unknown) {
+  const {
+    x = 0,
+    y = 0,
+    width = 0,
+    height = 0,
+    payload,
+  } = props as {
+    x?: number;
+    y?: number;
+    width?: number;
+    height?: number;
+    payload?: CandleDatum;
+  };
+  if (!payload) return <g />;
+  const { open, close, high, low } = payload;
+  const color = close >= open ? "#22c55e" : "#ef4444";
+  const span = high - low;
+  const toY = (value: number) =>
+    span > 0 ? y + ((high - value) / span) * height : y;
+  const bodyTop = toY(Math.max(open, close));
+  const bodyHeight = Math.max(1, toY(Math.min(open, close)) - bodyTop);
+  const center = x + width / 2;
+
+  return (
+    <g>
+      <line
+        x1={center}
+        x2={center}
+        y1={y}
+        y2={y + height}
+        stroke={color}
+        strokeWidth={1}
+      />
+      <rect
+        x={x + width * 0.15}
+        y={bodyTop}
+        width={width * 0.7}
+        height={bodyHeight}
+        fill={color}
+      />
+    </g>
+  );
+}
+
+function CandlestickView({
+  marketId,
+  optionNames,
+}: {
+  marketId: string;
+  optionNames: string[];
+}) {
+  const [optionId, setOptionId] = useState(0);
+  const [interval, setCandleInterval] = useState<CandleInterval>("1h");
+  const { data, loading, error } = useCandles({
+    marketId,
+    optionId,
+    interval,
+  });
+
+  const candles: CandleDatum[] = (data?.candles ?? []).map((candle) => {
+    const scaled = {
+      time: candle.time * 1000,
+      open: candle.open * 100,
+      high: candle.high * 100,
+      low: candle.low * 100,
+      close: candle.close * 100,
+      volume: candle.volume,
+    };
+    return { ...scaled, range: [scaled.low, scaled.high] };
+  });
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <select
+          value={optionId}
+          onChange={(e) => setOptionId(Number(e.target.value))}
+          className="h-7 rounded border border-[#544863] bg-[#352c3f]/80 px-2 text-xs text-gray-200"
+        >
+          {optionNames.map((name, index) => (
+            <option key={index} value={index}>
+              {name}
+            </option>
+          ))}
+        </select>
+        <div className="flex rounded border border-[#544863]">
+          {(Object.keys(CANDLE_INTERVALS) as CandleInterval[]).map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setCandleInterval(value)}
+              className={toggleClass(interval === value)}
+            >
+              {value}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="h-48 md:h-64">
+        {loading && !data ? (
+          <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+            Loading chart...
+          </div>
+        ) : error ? (
+          <div className="h-full flex items-center justify-center text-xs md:text-sm text-destructive">
+            Error loading chart data
+          </div>
+        ) : candles.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-xs md:text-sm text-muted-foreground">
+            No trades yet
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart
+              data={candles}
+              margin={{ top: 10, right: 10, left: 10, bottom: 5 }}
+            >
+              <CartesianGrid
+                strokeDasharray="3 3"
+                className="stroke-muted-foreground/20"
+              />
+              <XAxis
+                dataKey="time"
+                className="text-xs fill-muted-foreground"
+                tickFormatter={(value) => {
+                  const date = new Date(value);
+                  return interval === "1d"
+                    ? date.toLocaleDateString()
+                    : date.toLocaleTimeString([], {
+                        hour: "2-digit",
+                        minute: "2-digit",
+                      });
+                }}
+                interval="preserveStartEnd"
+              />
+              <YAxis
+                className="text-xs fill-muted-foreground"
+                domain={["auto", "auto"]}
+                tickFormatter={(value) => `${Math.round(value)}%`}
+                width={40}
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: "hsl(var(--background))",
+                  border: "1px solid hsl(var(--border))",
+                  borderRadius: "6px",
+                  color: "hsl(var(--foreground))",
+                  fontSize: "12px",
+                }}
+                labelFormatter={(value) => new Date(value).toLocaleString()}
+                formatter={(_, __, item) => {
+                  const c = item.payload as CandleDatum;
+                  return [
+                    `O ${c.open.toFixed(1)}% H ${c.high.toFixed(
+                      1
+                    )}% L ${c.low.toFixed(1)}% C ${c.close.toFixed(
+                      1
+                    )}% • Vol ${c.volume.toFixed(2)}`,
+                    optionNames[optionId],
+                  ];
+                }}
+              />
+              <Bar
+                dataKey="range"
+                shape={CandleShape}
+                isAnimationActive={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </>
+  );
+}
+
 export function MarketChart({ marketId, market }: MarketChartProps) {
+  const [view, setView] = useState<ChartView>("lines");
   const {
     data: analyticsData,
     loading,
     error,
+    refresh,
   } = useMarketAnalytics({
     marketId,
     timeRange: "7d",
-    enabled: true,
+    enabled: view === "lines",
   });
 
-  if (loading) {
+  // Redraw the lines after each streamed trade
+  const { version } = useMarketStream(
+    Number(marketId),
+    view === "lines" && market?.version === "v2"
+  );
+  useEffect(() => {
+    if (version > 0) refresh();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [version]);
+
+  const optionNames =
+    market?.version === "v2" && market?.options
+      ? market.options
+      : [market?.optionA || "Option A", market?.optionB || "Option B"];
+
+  const header = (
+    <div className="flex items-center justify-between mb-3 md:mb-4">
+      <h3 className="text-base md:text-lg font-semibold text-gray-900 dark:text-gray-100">
+        Market Sentiment Over Time
+      </h3>
+      <div className="flex rounded border border-[#544863]">
+        {(["lines", "candles"] as const).map((value) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setView(value)}
+            className={toggleClass(view === value)}
+          >
+            {value === "lines" ? "Lines" : "Candles"}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  if (view === "candles") {
+    return (
+      <div className="w-full">
+        {header}
+        <CandlestickView marketId={marketId} optionNames={optionNames} />
+      </div>
+    );
+  }
+
+  if (loading && !analyticsData) {
     return (
       <div className="h-48 md:h-64 flex items-center justify-center">
         <div className="text-sm text-muted-foreground">Loading chart...</div>
@@ -59,10 +309,14 @@ export function MarketChart({ marketId, market }: MarketChartProps) {
     !analyticsData.priceHistory ||
     analyticsData.priceHistory.length === 0
   ) {
+    // Keep the view switch so candles stay reachable
     return (
-      <div className="h-48 md:h-64 flex items-center justify-center">
-        <div className="text-xs md:text-sm text-muted-foreground">
-          No data available
+      <div className="w-full">
+        {header}
+        <div className="h-48 md:h-64 flex items-center justify-center">
+          <div className="text-xs md:text-sm text-muted-foreground">
+            No data available
+          </div>
         </div>
       </div>
     );
@@ -95,9 +349,7 @@ export function MarketChart({ marketId, market }: MarketChartProps) {
 
   return (
     <div className="w-full">
-      <h3 className="text-base md:text-lg font-semibold mb-3 md:mb-4 text-gray-900 dark:text-gray-100">
-        Market Sentiment Over Time
-      </h3>
+      {header}
       <div className="h-48 md:h-64">
         <ResponsiveContainer width="100%" height="100%">
           <LineChart
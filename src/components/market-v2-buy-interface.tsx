@@ -22,14 +22,39 @@ import {
   PolicastViews,
   PolicastViewsAbi,
 } from "@/constants/contract";
-import { decodeErrorResult, encodeFunctionData } from "viem";
-import { Loader2 } from "lucide-react";
+import { decodeErrorResult, encodeFunctionData, formatEther } from "viem";
+import { AlertTriangle, Layers, Loader2, Share2 } from "lucide-react";
+import { sdk } from "@farcaster/miniapp-sdk";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/components/ui/use-toast";
 import { MarketV2 } from "@/types/types";
 import { ValidationNotice } from "./ValidationNotice";
 import { FreeTokenClaimButton } from "./FreeTokenClaimButton";
 import { MarketV2SharesDisplay } from "./market-v2-shares-display";
+import {
+  sharesToWei,
+  calculateProbabilityFromTokenPrice,
+  calculateOddsFromTokenPrice,
+} from "@/lib/lmsr";
+import { fetchBuyQuote } from "@/lib/lmsr-state";
+import { useLMSRState, useLMSRBuyQuote } from "@/hooks/useLMSRState";
+import { useSpendQuote } from "@/hooks/useSpendQuote";
+import { useTradeSettings } from "@/hooks/useTradeSettings";
+import { useTradeSlip } from "@/hooks/useTradeSlip";
+import { usePaperTrading } from "@/hooks/usePaperTrading";
+import { useMarketStream } from "@/hooks/useMarketStream";
+import { useFarcasterUser } from "@/hooks/useFarcasterUser";
+import { useReferralCode } from "@/hooks/useReferrals";
+import { referralLink } from "@/lib/referrals";
+import {
+  buyLimits,
+  checkedBuyLimits,
+  formatBps,
+  isPriceImpactHigh,
+  isQuoteExpired,
+  priceImpactBps,
+} from "@/lib/trade-settings";
+import { TradeSettingsDialog } from "./TradeSettingsDialog";
 
 interface MarketV2BuyInterfaceProps {
   marketId: number;
@@ -47,37 +72,6 @@ type BuyingStep =
 const MAX_BET = 50000000000000000000000000000000;
 const MAX_SHARES = 10000;
 
-// Convert shares to 1e18 units (shares have 18 decimals regardless of token decimals)
-function sharesToWei(amount: string): bigint {
-  if (!amount) return 0n;
-  const parts = amount.split(".");
-  const integer = parts[0] || "0";
-  const fraction = (parts[1] || "").padEnd(18, "0").slice(0, 18);
-  return BigInt(integer + fraction);
-}
-
-// Helper: probability/price conversions
-function calculateProbabilityFromTokenPrice(tokenPrice: bigint): number {
-  // tokenPrice is tokens/share (1e18), which equals prob * 100
-  const tp = Number(tokenPrice) / 1e18; // 0..100
-  return Math.max(0, Math.min(100, tp)); // percentage
-}
-
-function calculateOddsFromTokenPrice(tokenPrice: bigint): number {
-  // prob = tokenPrice / 100
-  const tp = Number(tokenPrice) / 1e18; // 0..100
-  const prob = tp / 100; // 0..1
-  if (prob <= 0) return 0;
-  return 1 / prob;
-}
-
-// Fix TS bigints
-function probabilityToTokenPrice(probability: bigint): bigint {
-  // 1 share pays out 100 tokens at resolution (1e18 scaled)
-  const PAYOUT_PER_SHARE = 100n * BigInt(1e18);
-  return (probability * PAYOUT_PER_SHARE) / BigInt(1e18);
-}
-
 // Convert a decimal string to token/base units with given decimals
 function toUnits(value: string, decimals: number): bigint {
   if (!value) return 0n;
@@ -109,6 +103,8 @@ export function MarketV2BuyInterface({
     hash,
   });
   const { toast } = useToast();
+  const farcasterUser = useFarcasterUser();
+  const referralCode = useReferralCode(accountAddress);
 
   // Fetch market info (validated flag and type)
   const { data: marketInfo } = useReadContract({
@@ -163,9 +159,23 @@ export function MarketV2BuyInterface({
   const contentRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const processedCallsRef = useRef<Set<string>>(new Set());
+  // Quantity and bounds reviewed at confirm time, checked against the
+  // contract's quote; every submit path signs these, including the buy that
+  // follows an approval unless the quote deadline has passed by then. In
+  // spend mode this freezes the solved quantity, which otherwise follows the
+  // live quote.
+  const reviewedLimitsRef = useRef<{
+    reviewedAt: number;
+    quantity: bigint;
+    maxPricePerShare: bigint;
+    maxTotalCost: bigint;
+  } | null>(null);
 
   const [selectedOptionId, setSelectedOptionId] = useState<number | null>(null);
   const [amount, setAmount] = useState<string>("");
+  // "spend" mode: the user enters a token budget and `amount` follows it
+  const [buyMode, setBuyMode] = useState<"shares" | "spend">("shares");
+  const [budget, setBudget] = useState<string>("");
   const [buyingStep, setBuyingStep] = useState<BuyingStep>("initial");
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -179,12 +189,44 @@ export function MarketV2BuyInterface({
   const resetBuyingInterface = useCallback(() => {
     setSelectedOptionId(null);
     setAmount("");
+    setBudget("");
     setBuyingStep("initial");
     setIsBuying(false);
     setIsProcessing(false);
     setError(null);
   }, []);
 
+  // Park the current option/amount on the cross-market trade slip
+  const { addLeg } = useTradeSlip();
+  const handleAddToSlip = useCallback(() => {
+    if (selectedOptionId === null || sharesToWei(amount) <= 0n) return;
+    try {
+      addLeg({
+        marketId,
+        optionId: selectedOptionId,
+        optionCount: market.options.length,
+        question: market.question,
+        optionName: market.options[selectedOptionId].name,
+        shares: amount,
+      });
+      toast({
+        title: "Added to Trade Slip",
+        description: `${amount} shares of ${market.options[selectedOptionId].name}`,
+      });
+      resetBuyingInterface();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, [
+    selectedOptionId,
+    amount,
+    addLeg,
+    marketId,
+    market,
+    toast,
+    resetBuyingInterface,
+  ]);
+
   // Helper to dispatch market update event for price refresh
   const dispatchMarketUpdate = useCallback(() => {
     window.dispatchEvent(
@@ -247,8 +289,9 @@ export function MarketV2BuyInterface({
         }
 
         // Fallback to sequential transactions
-        const amountInUnits = toUnits(amount, tokenDecimals || 18);
-        const needsApproval = amountInUnits > (userAllowance || 0n);
+        const reviewed = reviewedLimitsRef.current;
+        const needsApproval =
+          !reviewed || reviewed.maxTotalCost > (userAllowance || 0n);
         if (needsApproval) {
           setBuyingStep("allowance");
         } else {
@@ -318,7 +361,10 @@ export function MarketV2BuyInterface({
   });
 
   // Fetch token prices directly from PolicastViews (ready for display)
-  // Fetch current prices for selected option with fresher data
+  // Fetch current prices for selected option; reloaded on market stream
+  // trades, polled only while the stream is down
+  const { connected: streamConnected, version: streamVersion } =
+    useMarketStream(marketId);
   const { data: optionData, refetch: refetchOptionData } = useReadContract({
     address: V2contractAddress,
     abi: V2contractAbi,
@@ -326,10 +372,14 @@ export function MarketV2BuyInterface({
     args: [BigInt(marketId), BigInt(selectedOptionId || 0)],
     query: {
       enabled: selectedOptionId !== null,
-      refetchInterval: 2000, // Refresh every 2 seconds for fresher price data
+      refetchInterval: streamConnected ? false : 2000,
     },
   });
 
+  useEffect(() => {
+    if (streamVersion > 0) refetchOptionData();
+  }, [streamVersion, refetchOptionData]);
+
   const optionTuple = optionData as
     | [string, string, bigint, bigint, bigint, boolean]
     | undefined;
@@ -347,18 +397,74 @@ export function MarketV2BuyInterface({
     [marketId, selectedOptionId, sharesInWei]
   );
 
-  const { data: buyQuote } = useReadContract({
+  // Off-chain LMSR quote (no RPC per keystroke); on-chain quote is only
+  // fetched while the LMSR state is still loading. In paper mode quotes run
+  // against the paper account's simulated state.
+  const {
+    enabled: paperMode,
+    summary: paperSummary,
+    trade: paperTrade,
+    simulate: simulatePaper,
+  } = usePaperTrading();
+  const { state: liveLmsrState } = useLMSRState(
+    marketId,
+    market.options.length
+  );
+  const lmsrState = useMemo(
+    () => simulatePaper(liveLmsrState, marketId),
+    [simulatePaper, liveLmsrState, marketId]
+  );
+  const localBuyQuote = useLMSRBuyQuote(
+    lmsrState,
+    selectedOptionId,
+    sharesInWei
+  );
+
+  // Spend mode: solve the largest share amount the budget covers (fee
+  // included) and feed it into the normal share-based flow
+  const budgetInWei = useMemo(
+    () => (buyMode === "spend" ? toUnits(budget, tokenDecimals || 18) : 0n),
+    [buyMode, budget, tokenDecimals]
+  );
+  const { quantity: spendQuantity, isSolving: isSolvingBudget } =
+    useSpendQuote(lmsrState, marketId, selectedOptionId, budgetInWei);
+
+  useEffect(() => {
+    if (buyMode !== "spend") return;
+    setAmount(spendQuantity > 0n ? formatEther(spendQuantity) : "");
+    setError(
+      spendQuantity > BigInt(MAX_SHARES) * 10n ** 18n
+        ? `Maximum ${MAX_SHARES} shares allowed per purchase`
+        : null
+    );
+  }, [buyMode, spendQuantity]);
+
+  const { data: onChainBuyQuote } = useReadContract({
     address: PolicastViews,
     abi: PolicastViewsAbi,
     functionName: "quoteBuy",
     args: quoteBuyArgs,
     query: {
-      enabled: selectedOptionId !== null && sharesInWei > 0n,
+      enabled:
+        !lmsrState && selectedOptionId !== null && sharesInWei > 0n,
       refetchInterval: 2000,
     },
   });
 
-  // Replace linear estimatedCost with on-chain LMSR quote
+  const buyQuote = useMemo(
+    () =>
+      localBuyQuote
+        ? ([
+            localBuyQuote.rawCost,
+            localBuyQuote.fee,
+            localBuyQuote.totalCost,
+            localBuyQuote.avgPricePerShare,
+          ] as const)
+        : onChainBuyQuote,
+    [localBuyQuote, onChainBuyQuote]
+  );
+
+  // Replace linear estimatedCost with LMSR quote
   const estimatedCost = useMemo(() => {
     if (!buyQuote) return 0n;
     const [, , totalCost] = buyQuote as readonly [
@@ -370,10 +476,36 @@ export function MarketV2BuyInterface({
     return totalCost;
   }, [buyQuote]);
 
-  // Calculate slippage protection (10% slippage tolerance)
-  const calculateMaxPrice = useCallback((currentPrice: bigint): bigint => {
-    return (currentPrice * 110n) / 100n; // 10% slippage
-  }, []);
+  // Slippage bounds for buyShares from the wallet's trade settings
+  const { settings: tradeSettings } = useTradeSettings();
+  const purchaseLimits = useMemo(
+    () =>
+      buyLimits(
+        {
+          totalCost: estimatedCost,
+          avgPricePerShare: buyQuote
+            ? (buyQuote[3] as bigint) // avg price per share incl. fee
+            : currentOptionPrice,
+        },
+        tradeSettings
+      ),
+    [estimatedCost, buyQuote, currentOptionPrice, tradeSettings]
+  );
+
+  // Average fill before fees vs the option's current odds
+  const priceImpact = useMemo(
+    () =>
+      priceImpactBps(
+        selectedOptionId !== null
+          ? (marketOdds as readonly bigint[] | undefined)?.[selectedOptionId]
+          : undefined,
+        buyQuote ? (buyQuote[0] as bigint) : 0n,
+        sharesInWei,
+        "buy"
+      ),
+    [marketOdds, selectedOptionId, buyQuote, sharesInWei]
+  );
+  const highPriceImpact = isPriceImpactHigh(priceImpact, tradeSettings);
 
   // Check if market is validated
   const checkMarketValidation = useCallback(() => {
@@ -403,7 +535,6 @@ export function MarketV2BuyInterface({
     )
       return;
     try {
-      const amountInUnits = sharesToWei(amount);
 
       // Check balance using estimated cost instead of share amount
       if (!userBalance) {
@@ -412,14 +543,15 @@ export function MarketV2BuyInterface({
 
       // Use estimated cost for balance check, fallback to approximate calculation if not available
       const requiredBalance = estimatedCost; // from on-chain quote
-      const avgPricePerShare = buyQuote
-        ? ((buyQuote as any)[3] as bigint) // avg price per share incl. fee (1e18-scaled)
-        : currentOptionPrice;
-      const maxPricePerShare = calculateMaxPrice(avgPricePerShare);
-      // 2% buffer for total bound to reduce revert from minor moves
-      const maxTotalCost = requiredBalance
-        ? (requiredBalance * 102n) / 100n
-        : requiredBalance;
+      const reviewed = reviewedLimitsRef.current;
+      if (!reviewed) {
+        throw new Error("Purchase was not reviewed. Please confirm again.");
+      }
+      const {
+        quantity: amountInUnits,
+        maxPricePerShare,
+        maxTotalCost,
+      } = reviewed;
 
       console.log("=== V2 DIRECT PURCHASE DEBUG ===");
       console.log("Market ID:", marketId);
@@ -428,17 +560,11 @@ export function MarketV2BuyInterface({
       console.log("Estimated cost:", estimatedCost?.toString());
       console.log("Required balance:", requiredBalance.toString());
       console.log("User balance:", userBalance?.toString());
-      console.log("Avg price per share:", avgPricePerShare.toString());
       console.log("Max price per share:", maxPricePerShare.toString());
+      console.log("Max total cost:", maxTotalCost.toString());
       console.log("Market info:", marketInfo);
       console.log("Option data:", optionData);
 
-      console.log("=== V2 BATCH PURCHASE ===");
-      console.log("Amount in units:", amountInUnits.toString());
-      console.log("Estimated cost:", estimatedCost?.toString());
-      console.log("Avg price per share:", avgPricePerShare.toString());
-      console.log("Max price per share:", maxPricePerShare.toString());
-
       await writeContractAsync({
         address: V2contractAddress,
         abi: V2contractAbi,
@@ -519,7 +645,6 @@ export function MarketV2BuyInterface({
     tokenSymbol,
     estimatedCost,
     optionData,
-    calculateMaxPrice,
     marketId,
     writeContractAsync,
     toast,
@@ -537,28 +662,27 @@ export function MarketV2BuyInterface({
 
     try {
       setIsProcessing(true);
-      const amountInUnits = sharesToWei(amount);
 
       // Check balance using estimated cost instead of share amount
       if (!userBalance) {
         throw new Error("Unable to fetch balance. Please try again.");
       }
 
-      // Use estimated cost for balance check, fallback to approximate calculation if not available
-      const requiredBalance = estimatedCost; // from on-chain quote
-      const avgPricePerShare = buyQuote
-        ? ((buyQuote as any)[3] as bigint) // avg price per share incl. fee (1e18-scaled)
-        : currentOptionPrice;
-      const maxPricePerShare = calculateMaxPrice(avgPricePerShare);
-      // 2% buffer for total bound to reduce revert from minor moves
-      const maxTotalCost = requiredBalance
-        ? (requiredBalance * 102n) / 100n
-        : requiredBalance;
+      const reviewed = reviewedLimitsRef.current;
+      if (!reviewed) {
+        throw new Error("Purchase was not reviewed. Please confirm again.");
+      }
+      const {
+        quantity: amountInUnits,
+        maxPricePerShare,
+        maxTotalCost,
+      } = reviewed;
 
       console.log("=== V2 SEQUENTIAL PURCHASE ===");
       console.log("Amount in units:", amountInUnits.toString());
-      console.log("Required approval:", requiredBalance.toString());
-      const requiredApproval = requiredBalance;
+      console.log("Required approval:", maxTotalCost.toString());
+      // Approve the slippage-bounded maximum so the follow-up buy can pull it
+      const requiredApproval = maxTotalCost;
       const needsApproval = requiredApproval > (userAllowance || 0n);
       console.log("Needs approval:", needsApproval);
       console.log("Current allowance:", userAllowance?.toString());
@@ -566,7 +690,7 @@ export function MarketV2BuyInterface({
       if (needsApproval) {
         setBuyingStep("allowance");
         console.log("Approving tokens...");
-        // First approve - approve the estimated cost, not the share amount
+        // First approve - approve the max total cost, not the share amount
         await writeContractAsync({
           address: tokenAddress,
           abi: tokenAbi,
@@ -575,15 +699,9 @@ export function MarketV2BuyInterface({
         });
       } else {
         setBuyingStep("confirm");
-        // Direct purchase using estimated cost
-        const avgPricePerShare = estimatedCost
-          ? (estimatedCost * BigInt(1e18)) / amountInUnits
-          : currentOptionPrice;
-        const maxPricePerShare = calculateMaxPrice(avgPricePerShare);
 
         console.log("Making direct purchase...");
         console.log("Estimated cost:", estimatedCost?.toString());
-        console.log("Avg price per share:", avgPricePerShare.toString());
         console.log("Max price per share:", maxPricePerShare.toString());
 
         await writeContractAsync({
@@ -651,7 +769,6 @@ export function MarketV2BuyInterface({
     estimatedCost,
     userAllowance,
     optionData,
-    calculateMaxPrice,
     marketId,
     writeContractAsync,
     toast,
@@ -668,22 +785,24 @@ export function MarketV2BuyInterface({
       return;
     try {
       setIsProcessing(true);
-      const amountInUnits = sharesToWei(amount);
 
       // Check balance using estimated cost instead of share amount
       if (!userBalance) {
         throw new Error("Unable to fetch balance. Please try again.");
       }
 
-      // Use estimated cost for balance check, fallback to approximate calculation if not available
-      const requiredBalance = estimatedCost; // from on-chain quote
       const currentPrice = currentOptionPrice;
 
-      // Calculate max price per share from estimated cost with slippage tolerance
-      const avgPricePerShare = estimatedCost
-        ? (estimatedCost * BigInt(1e18)) / amountInUnits
-        : currentPrice;
-      const maxPricePerShare = calculateMaxPrice(avgPricePerShare);
+      // Bounds reviewed at confirm time with the wallet's slippage tolerance
+      const reviewed = reviewedLimitsRef.current;
+      if (!reviewed) {
+        throw new Error("Purchase was not reviewed. Please confirm again.");
+      }
+      const {
+        quantity: amountInUnits,
+        maxPricePerShare,
+        maxTotalCost,
+      } = reviewed;
 
       console.log("=== V2 BATCH TRANSACTION DEBUG ===");
       console.log("Amount in units:", amountInUnits.toString());
@@ -694,12 +813,10 @@ export function MarketV2BuyInterface({
       console.log("Is Farcaster connector:", isFarcasterConnector);
       console.log("Current price:", currentPrice.toString());
       console.log("Estimated cost:", estimatedCost?.toString());
-      console.log("Avg price per share:", avgPricePerShare.toString());
       console.log("Max price per share:", maxPricePerShare.toString());
 
-      // Use estimated cost for approval, not the share amount
-      const approvalAmount =
-        estimatedCost || (amountInUnits * avgPricePerShare) / BigInt(1e18);
+      // Approve the max total cost, not the share amount
+      const approvalAmount = maxTotalCost;
       console.log("Approval amount:", approvalAmount.toString());
 
       const batchCalls = [
@@ -721,7 +838,7 @@ export function MarketV2BuyInterface({
               BigInt(selectedOptionId),
               amountInUnits,
               maxPricePerShare,
-              requiredBalance, // _maxTotalCost
+              maxTotalCost,
             ],
           }),
         },
@@ -757,7 +874,6 @@ export function MarketV2BuyInterface({
     tokenSymbol,
     estimatedCost,
     optionData,
-    calculateMaxPrice,
     marketId,
     sendCalls,
     handleSequentialPurchase,
@@ -816,9 +932,58 @@ export function MarketV2BuyInterface({
     toast,
   ]);
 
+  // Paper mode: fill against the simulated market, nothing is sent on-chain
+  const handlePaperPurchase = useCallback(async () => {
+    if (selectedOptionId === null) return;
+    const paperBalance = BigInt(paperSummary?.account.balance ?? "0");
+    if (paperSummary && estimatedCost > paperBalance) {
+      setError(
+        `Insufficient paper balance. Total cost: ${formatPrice(
+          estimatedCost
+        )}, You have: ${formatPrice(paperBalance)}`
+      );
+      return;
+    }
+
+    setIsProcessing(true);
+    setBuyingStep("confirm");
+    try {
+      await paperTrade({
+        marketId,
+        optionId: selectedOptionId,
+        side: "buy",
+        quantity: sharesInWei.toString(),
+        limit: purchaseLimits.maxTotalCost.toString(),
+      });
+      setBuyingStep("purchaseSuccess");
+      setAmount("");
+      setBudget("");
+      toast({
+        title: "Paper Trade Filled",
+        description: `Bought ${amount} paper shares of ${market.options[selectedOptionId]?.name}`,
+      });
+    } catch (err) {
+      setBuyingStep("amount");
+      setError(err instanceof Error ? err.message : "Paper trade failed");
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [
+    paperSummary,
+    paperTrade,
+    selectedOptionId,
+    estimatedCost,
+    marketId,
+    sharesInWei,
+    purchaseLimits,
+    amount,
+    market.options,
+    toast,
+  ]);
+
   // Handle amount confirmation
-  const handleConfirmPurchase = useCallback(() => {
-    if (!amount || parseFloat(amount) <= 0) {
+  const handleConfirmPurchase = useCallback(async () => {
+    if (!amount || sharesInWei <= 0n) {
       setError("Please enter a valid amount");
       return;
     }
@@ -835,6 +1000,11 @@ export function MarketV2BuyInterface({
       return;
     }
 
+    if (paperMode) {
+      handlePaperPurchase();
+      return;
+    }
+
     // Skip user shares check for now since getUserShares function doesn't exist
     // if (userShares && selectedOptionId !== null) {
     //   const currentShares =
@@ -895,8 +1065,36 @@ export function MarketV2BuyInterface({
     console.log("Connector:", connector?.name, connector?.id);
     console.log("Supports batch transactions:", supportseBatchTransactions);
 
+    // The previewed bounds come from the off-chain engine; check them against
+    // the contract's quote for the same trade before anything is signed
+    setIsProcessing(true);
+    let limits: ReturnType<typeof checkedBuyLimits>;
+    try {
+      const onChainQuote = await fetchBuyQuote(
+        marketId,
+        selectedOptionId,
+        sharesInWei
+      );
+      limits = checkedBuyLimits(purchaseLimits, onChainQuote, tradeSettings);
+    } catch (err) {
+      console.error("On-chain buy quote failed:", err);
+      setIsProcessing(false);
+      setError("Unable to confirm the price on-chain. Please try again.");
+      return;
+    }
+    if (!limits) {
+      setIsProcessing(false);
+      setError("The price moved since this quote. Review the new cost.");
+      return;
+    }
+
     // Reset processed transaction tracking before kicking off a new flow
     processedCallsRef.current.clear();
+    reviewedLimitsRef.current = {
+      reviewedAt: Date.now(),
+      quantity: sharesInWei,
+      ...limits,
+    };
 
     setBuyingStep("confirm");
 
@@ -910,7 +1108,9 @@ export function MarketV2BuyInterface({
     }
   }, [
     amount,
+    sharesInWei,
     selectedOptionId,
+    marketId,
     userBalance,
     tokenDecimals,
     tokenSymbol,
@@ -920,6 +1120,10 @@ export function MarketV2BuyInterface({
     marketInfo,
     connector,
     supportseBatchTransactions,
+    purchaseLimits,
+    tradeSettings,
+    paperMode,
+    handlePaperPurchase,
     handleBatchPurchase,
     handleSequentialPurchase,
   ]);
@@ -968,6 +1172,7 @@ export function MarketV2BuyInterface({
             console.log("✅ V2 Both transactions successful");
             setBuyingStep("purchaseSuccess");
             setAmount("");
+            setBudget("");
 
             toast({
               title: "Purchase Successful!",
@@ -1016,6 +1221,7 @@ export function MarketV2BuyInterface({
             );
             setBuyingStep("purchaseSuccess");
             setAmount("");
+            setBudget("");
             toast({
               title: "Purchase Successful!",
               description: `Successfully bought shares in ${
@@ -1042,6 +1248,7 @@ export function MarketV2BuyInterface({
             console.log("✅ V2 All receipts successful!");
             setBuyingStep("purchaseSuccess");
             setAmount("");
+            setBudget("");
             toast({
               title: "Purchase Successful!",
               description: `Successfully bought shares in ${
@@ -1060,6 +1267,7 @@ export function MarketV2BuyInterface({
           console.log("Assuming success since batch status is 'success'");
           setBuyingStep("purchaseSuccess");
           setAmount("");
+          setBudget("");
           toast({
             title: "Purchase Successful!",
             description: `Successfully bought shares in ${
@@ -1231,13 +1439,17 @@ export function MarketV2BuyInterface({
       setLastProcessedHash(hash);
 
       if (buyingStep === "allowance") {
-        // Approval confirmed, now purchase
+        // Approval confirmed, now purchase with the bounds that were
+        // reviewed - unless the quote deadline passed while approving
+        const reviewed = reviewedLimitsRef.current;
+        if (!reviewed || isQuoteExpired(reviewed.reviewedAt, tradeSettings)) {
+          setError(
+            "Approval confirmed, but the quote expired. Review the purchase again."
+          );
+          setBuyingStep("amount");
+          return;
+        }
         setBuyingStep("confirm");
-        const amountInUnits = toUnits(amount, tokenDecimals || 18);
-        const avgPricePerShare = estimatedCost
-          ? (estimatedCost * BigInt(1e18)) / amountInUnits
-          : currentOptionPrice;
-        const maxPricePerShare = calculateMaxPrice(avgPricePerShare);
 
         writeContractAsync({
           address: V2contractAddress,
@@ -1246,9 +1458,9 @@ export function MarketV2BuyInterface({
           args: [
             BigInt(marketId),
             BigInt(selectedOptionId!),
-            amountInUnits,
-            maxPricePerShare,
-            estimatedCost || (amountInUnits * avgPricePerShare) / BigInt(1e18), // _maxTotalCost
+            reviewed.quantity,
+            reviewed.maxPricePerShare,
+            reviewed.maxTotalCost,
           ],
         });
       } else {
@@ -1261,6 +1473,7 @@ export function MarketV2BuyInterface({
           }`,
         });
         setAmount("");
+        setBudget("");
         setIsBuying(false);
         refetchOptionData();
         dispatchMarketUpdate(); // Trigger global market update
@@ -1271,16 +1484,11 @@ export function MarketV2BuyInterface({
     hash,
     lastProcessedHash,
     buyingStep,
-    optionData,
-    estimatedCost,
-    calculateMaxPrice,
-    amount,
-    tokenDecimals,
+    tradeSettings,
     selectedOptionId,
     marketId,
     writeContractAsync,
     market.options,
-    currentOptionPrice,
     toast,
     refetchOptionData,
     dispatchMarketUpdate,
@@ -1305,6 +1513,36 @@ export function MarketV2BuyInterface({
     checkMarketValidation();
   }, [checkMarketValidation]);
 
+  // Cast the bought position with its receipt image embedded
+  const handleShareTrade = async () => {
+    if (!accountAddress || selectedOptionId === null) return;
+    const appUrl =
+      process.env.NEXT_PUBLIC_APP_URL || "https://buster-mkt.vercel.app";
+    const imageParams = new URLSearchParams({
+      address: accountAddress,
+      marketId: String(marketId),
+      optionId: String(selectedOptionId),
+      ...(farcasterUser?.username && { username: farcasterUser.username }),
+    });
+    const marketUrl = referralCode
+      ? referralLink(appUrl, referralCode, marketId)
+      : `${appUrl}/market/${marketId}/details`;
+
+    try {
+      await sdk.actions.composeCast({
+        text: `I just bought ${market.options[selectedOptionId]?.name} on Policast: ${market.question}`,
+        embeds: [`${appUrl}/api/position-image?${imageParams}`, marketUrl],
+      });
+    } catch (error) {
+      console.error("Failed to compose cast:", error);
+      toast({
+        title: "Share Failed",
+        description: "Could not share your trade. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   if (!isVisible) return null;
 
   // Show validation notice if market is not validated
@@ -1469,9 +1707,15 @@ export function MarketV2BuyInterface({
           <div className="space-y-2 max-h-[70vh] flex flex-col">
             {buyingStep === "amount" && (
               <>
-                <div className="bg-[#352c3f]/80 backdrop-blur-sm rounded-md p-1.5 text-center border border-[#544863]">
+                <div className="relative bg-[#352c3f]/80 backdrop-blur-sm rounded-md p-1.5 text-center border border-[#544863]">
+                  <TradeSettingsDialog className="absolute right-1 top-1" />
                   <h4 className="text-xs font-medium text-gray-200">
                     Buying: {market.options[selectedOptionId!]?.name}
+                    {paperMode && (
+                      <span className="ml-1 rounded bg-amber-500/20 px-1 text-[10px] text-amber-300">
+                        Paper
+                      </span>
+                    )}
                   </h4>
                   <p className="text-xs text-gray-300">
                     Current price:{" "}
@@ -1490,60 +1734,116 @@ export function MarketV2BuyInterface({
 
                 <div className="flex-grow overflow-y-auto space-y-1.5">
                   <div>
-                    <label className="block text-xs font-medium text-gray-300 mb-0.5">
-                      Number of shares
-                    </label>
-                    <Input
-                      ref={inputRef}
-                      type="number"
-                      inputMode="decimal"
-                      placeholder={`Enter amount (max ${MAX_SHARES})`}
-                      value={amount}
-                      onChange={(e) => {
-                        const value = e.target.value;
-                        // Allow empty string for clearing the input
-                        if (value === "") {
-                          setAmount("");
+                    <div className="flex items-center justify-between mb-0.5">
+                      <label className="block text-xs font-medium text-gray-300">
+                        {buyMode === "spend"
+                          ? `Amount to spend (${tokenSymbol || "tokens"})`
+                          : "Number of shares"}
+                      </label>
+                      <div className="flex rounded border border-[#544863] text-[10px]">
+                        {(["shares", "spend"] as const).map((mode) => (
+                          <button
+                            key={mode}
+                            type="button"
+                            onClick={() => {
+                              setBuyMode(mode);
+                              setAmount("");
+                              setBudget("");
+                              setError(null);
+                            }}
+                            className={cn(
+                              "px-1.5 py-0.5",
+                              buyMode === mode
+                                ? "bg-[#544863] text-gray-100"
+                                : "text-gray-400 hover:text-gray-200"
+                            )}
+                          >
+                            {mode === "shares" ? "Shares" : "Spend"}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    {buyMode === "spend" ? (
+                      <>
+                        <Input
+                          ref={inputRef}
+                          type="number"
+                          inputMode="decimal"
+                          placeholder={`Enter ${tokenSymbol || "token"} amount`}
+                          value={budget}
+                          onChange={(e) => {
+                            setBudget(e.target.value);
+                            setError(null);
+                          }}
+                          className="w-full h-8 text-xs bg-[#352c3f]/80 border-[#544863] text-gray-100 placeholder:text-gray-400"
+                          style={{ fontSize: "16px" }}
+                        />
+                        <p className="mt-0.5 text-xs text-gray-400">
+                          {isSolvingBudget ? (
+                            <span className="flex items-center gap-1">
+                              <Loader2 className="h-3 w-3 animate-spin" />
+                              Finding share amount...
+                            </span>
+                          ) : budgetInWei > 0n && spendQuantity === 0n ? (
+                            "Budget is too small for any shares"
+                          ) : amount ? (
+                            `Buys ${amount} shares, fees included`
+                          ) : null}
+                        </p>
+                      </>
+                    ) : (
+                      <Input
+                        ref={inputRef}
+                        type="number"
+                        inputMode="decimal"
+                        placeholder={`Enter amount (max ${MAX_SHARES})`}
+                        value={amount}
+                        onChange={(e) => {
+                          const value = e.target.value;
+                          // Allow empty string for clearing the input
+                          if (value === "") {
+                            setAmount("");
+                            setError(null);
+                            return;
+                          }
+
+                          const numValue = parseFloat(value);
+
+                          // Check for maximum shares limit per purchase
+                          if (numValue > MAX_SHARES) {
+                            setError(
+                              `Maximum ${MAX_SHARES} shares allowed per purchase`
+                            );
+                            setAmount(value); // Still allow typing to show the error
+                            return;
+                          }
+
+                          // Check combined shares limit (current + new)
+                          // Skip user shares check for now since getUserShares function doesn't exist
+                          // if (userShares && selectedOptionId !== null) {
+                          //   const currentShares =
+                          //     Number(userShares[selectedOptionId] || 0n) /
+                          //     Math.pow(10, 18);
+                          //   const newTotal = currentShares + numValue;
+                          //   if (newTotal > MAX_SHARES) {
+                          //     setError(
+                          //       `Total shares cannot exceed ${MAX_SHARES}. You have ${currentShares} shares. Max additional: ${
+                          //         MAX_SHARES - currentShares
+                          //       }`
+                          //     );
+                          //     setAmount(value);
+                          //     return;
+                          //   }
+                          // }
+
                           setError(null);
-                          return;
-                        }
-
-                        const numValue = parseFloat(value);
-
-                        // Check for maximum shares limit per purchase
-                        if (numValue > MAX_SHARES) {
-                          setError(
-                            `Maximum ${MAX_SHARES} shares allowed per purchase`
-                          );
-                          setAmount(value); // Still allow typing to show the error
-                          return;
-                        }
-
-                        // Check combined shares limit (current + new)
-                        // Skip user shares check for now since getUserShares function doesn't exist
-                        // if (userShares && selectedOptionId !== null) {
-                        //   const currentShares =
-                        //     Number(userShares[selectedOptionId] || 0n) /
-                        //     Math.pow(10, 18);
-                        //   const newTotal = currentShares + numValue;
-                        //   if (newTotal > MAX_SHARES) {
-                        //     setError(
-                        //       `Total shares cannot exceed ${MAX_SHARES}. You have ${currentShares} shares. Max additional: ${
-                        //         MAX_SHARES - currentShares
-                        //       }`
-                        //     );
-                        //     setAmount(value);
-                        //     return;
-                        //   }
-                        // }
-
-                        setError(null);
-                        setAmount(value);
-                      }}
-                      max={MAX_SHARES}
-                      className="w-full h-8 text-xs bg-[#352c3f]/80 border-[#544863] text-gray-100 placeholder:text-gray-400"
-                      style={{ fontSize: "16px" }}
-                    />
+                          setAmount(value);
+                        }}
+                        max={MAX_SHARES}
+                        className="w-full h-8 text-xs bg-[#352c3f]/80 border-[#544863] text-gray-100 placeholder:text-gray-400"
+                        style={{ fontSize: "16px" }}
+                      />
+                    )}
                   </div>
 
                   {userBalance && tokenDecimals && (
@@ -1621,9 +1921,40 @@ export function MarketV2BuyInterface({
                             {tokenSymbol}
                           </span>
                         </div>
+                        <div
+                          className={cn(
+                            "flex justify-between text-xs",
+                            highPriceImpact ? "text-amber-300" : "text-gray-400"
+                          )}
+                        >
+                          <span>Price Impact:</span>
+                          <span>{formatBps(priceImpact)}</span>
+                        </div>
+                        <div className="flex justify-between text-xs">
+                          <span className="text-gray-400">
+                            Max Cost ({formatBps(tradeSettings.slippageBps)}{" "}
+                            slippage):
+                          </span>
+                          <span className="text-gray-300">
+                            {formatPrice(purchaseLimits.maxTotalCost)}{" "}
+                            {tokenSymbol}
+                          </span>
+                        </div>
                       </div>
                     </div>
                   )}
+
+                  {highPriceImpact && amount && parseFloat(amount) > 0 && (
+                    <div className="flex items-start gap-1.5 bg-amber-500/20 backdrop-blur-sm border border-amber-400/30 rounded-md p-1.5 text-xs text-amber-300">
+                      <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                      <span>
+                        This purchase moves the price by{" "}
+                        {formatBps(priceImpact)}, above your{" "}
+                        {formatBps(tradeSettings.maxPriceImpactBps)} limit.
+                        Consider buying fewer shares.
+                      </span>
+                    </div>
+                  )}
                 </div>
 
                 {error && (
@@ -1648,14 +1979,30 @@ export function MarketV2BuyInterface({
                     onClick={handleConfirmPurchase}
                     disabled={
                       !amount ||
-                      parseFloat(amount) <= 0 ||
+                      sharesInWei <= 0n ||
+                      isProcessing ||
                       parseFloat(amount) > MAX_SHARES ||
                       !!error
                     }
                     className="flex-1 h-8 text-xs font-medium"
                   >
-                    Confirm
+                    {highPriceImpact ? "Buy Anyway" : "Confirm"}
                   </Button>
+                  {!paperMode && (
+                    <Button
+                      onClick={handleAddToSlip}
+                      variant="outline"
+                      title="Add to trade slip"
+                      disabled={
+                        !amount ||
+                        sharesInWei <= 0n ||
+                        parseFloat(amount) > MAX_SHARES
+                      }
+                      className="h-8 px-2 text-xs border-[#544863] text-purple-300 hover:bg-[#544863]/50"
+                    >
+                      <Layers className="h-3 w-3" />
+                    </Button>
+                  )}
                 </div>
               </>
             )}
@@ -1667,6 +2014,8 @@ export function MarketV2BuyInterface({
                   <p className="text-sm font-medium text-gray-200">
                     {buyingStep === "allowance"
                       ? "Approving tokens..."
+                      : paperMode
+                      ? "Filling paper trade..."
                       : "Processing purchase..."}
                   </p>
                   <p className="text-xs text-gray-300 mt-1">
@@ -1712,8 +2061,20 @@ export function MarketV2BuyInterface({
                   </svg>
                 </div>
                 <p className="text-sm font-medium text-green-300">
-                  Purchase successful!
+                  {paperMode
+                    ? "Paper trade filled!"
+                    : "Purchase successful!"}
                 </p>
+                {!paperMode && (
+                  <Button
+                    onClick={handleShareTrade}
+                    className="w-full h-9 text-xs font-medium"
+                    variant="outline"
+                  >
+                    <Share2 className="h-3 w-3 mr-1" />
+                    Share this trade
+                  </Button>
+                )}
                 <Button
                   onClick={resetBuyingInterface}
                   className="w-full h-9 text-xs font-medium"
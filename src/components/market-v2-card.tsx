@@ -18,7 +18,13 @@ import {
   PolicastViews,
   PolicastViewsAbi,
 } from "@/constants/contract";
-import { TrendingUp, TrendingDown, MessageCircle, Gift } from "lucide-react";
+import {
+  TrendingUp,
+  TrendingDown,
+  MessageCircle,
+  Gift,
+  Target,
+} from "lucide-react";
 import MarketTime from "./market-time";
 import { MarketResolved } from "./market-resolved";
 import { MarketPending } from "./market-pending";
@@ -34,6 +40,11 @@ import {
 import { MarketV2, MarketOption, MarketCategory } from "@/types/types";
 import { FreeMarketClaimStatus } from "./FreeMarketClaimStatus";
 import { FreeTokenClaimButton } from "./FreeTokenClaimButton";
+import { probabilityToPercent } from "@/lib/lmsr";
+import { LimitOrderForm } from "./LimitOrderForm";
+import { useMarketStream } from "@/hooks/useMarketStream";
+import { useReferralCode } from "@/hooks/useReferrals";
+import { referralLink } from "@/lib/referrals";
 
 // Simple in-memory cache for comment counts (shared across all instances)
 const commentCountCache = new Map<
@@ -171,10 +182,13 @@ interface MarketV2CardProps {
 
 export function MarketV2Card({ index, market }: MarketV2CardProps) {
   const { address } = useAccount();
+  const referralCode = useReferralCode(address);
   const [commentCount, setCommentCount] = useState<number>(0);
   const [options, setOptions] = useState<MarketOption[]>([]);
   const [totalVolume, setTotalVolume] = useState<bigint>(0n);
-  const [activeInterface, setActiveInterface] = useState<"buy" | "sell">("buy");
+  const [activeInterface, setActiveInterface] = useState<
+    "buy" | "sell" | "limit"
+  >("buy");
   const [isRefetching, setIsRefetching] = useState(false);
   // Derived displayOptions: prefer detailed `options` (from /api) but fall back
   // to a lightweight representation built from the passed-in `market` so the
@@ -255,6 +269,14 @@ export function MarketV2Card({ index, market }: MarketV2CardProps) {
   const shouldFetchShares =
     !!address && !market.resolved && !market.invalidated && !marketIsExpired;
 
+  // Live odds, volume and status; shares are refetched after the user's own
+  // trades and only polled while the stream is down
+  const stream = useMarketStream(
+    index,
+    !market.resolved && !market.invalidated
+  );
+  const sharesRefetchInterval = stream.connected ? false : 30000;
+
   // Fetch user shares for this market using getMarketOptionUserShares for each option
   // This matches the approach used in MarketV2PositionManager
   const userShares0Query = useReadContract({
@@ -264,7 +286,7 @@ export function MarketV2Card({ index, market }: MarketV2CardProps) {
     args: [BigInt(index), 0n, address as `0x${string}`],
     query: {
       enabled: shouldFetchShares && (market.options?.length ?? 0) > 0,
-      refetchInterval: 30000, // Reduced from 10s to 30s
+      refetchInterval: sharesRefetchInterval,
       staleTime: 15000, // Cache for 15s
     },
   });
@@ -276,7 +298,7 @@ export function MarketV2Card({ index, market }: MarketV2CardProps) {
     args: [BigInt(index), 1n, address as `0x${string}`],
     query: {
       enabled: shouldFetchShares && (market.options?.length ?? 0) > 1,
-      refetchInterval: 30000,
+      refetchInterval: sharesRefetchInterval,
       staleTime: 15000,
     },
   });
@@ -288,7 +310,7 @@ export function MarketV2Card({ index, market }: MarketV2CardProps) {
     args: [BigInt(index), 2n, address as `0x${string}`],
     query: {
       enabled: shouldFetchShares && (market.options?.length ?? 0) > 2,
-      refetchInterval: 30000,
+      refetchInterval: sharesRefetchInterval,
       staleTime: 15000,
     },
   });
@@ -300,7 +322,7 @@ export function MarketV2Card({ index, market }: MarketV2CardProps) {
     args: [BigInt(index), 3n, address as `0x${string}`],
     query: {
       enabled: shouldFetchShares && (market.options?.length ?? 0) > 3,
-      refetchInterval: 30000,
+      refetchInterval: sharesRefetchInterval,
       staleTime: 15000,
     },
   });
@@ -312,7 +334,7 @@ export function MarketV2Card({ index, market }: MarketV2CardProps) {
     args: [BigInt(index), 4n, address as `0x${string}`],
     query: {
       enabled: shouldFetchShares && (market.options?.length ?? 0) > 4,
-      refetchInterval: 30000,
+      refetchInterval: sharesRefetchInterval,
       staleTime: 15000,
     },
   });
@@ -326,6 +348,14 @@ export function MarketV2Card({ index, market }: MarketV2CardProps) {
     userShares4Query,
   ];
 
+  useEffect(() => {
+    const trader = stream.lastTrade?.trader;
+    if (trader && trader === address?.toLowerCase()) {
+      userSharesQueries.forEach((query) => query.refetch?.());
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [stream.lastTrade, address]);
+
   // Create userShares array from individual queries (matches PositionManager approach)
   const userShares = userSharesQueries.map((query) =>
     query?.data ? (query.data as bigint) : 0n
@@ -484,9 +514,10 @@ export function MarketV2Card({ index, market }: MarketV2CardProps) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [index]); // Only depend on index, not market object to prevent infinite loops
 
-  // Calculate probabilities from prices (pass to MultiOptionProgress)
-  const probabilities = displayOptions.map((option) =>
-    Math.max(0, Math.min(100, (Number(option.currentPrice) / 1e18) * 100))
+  // Calculate probabilities from prices (pass to MultiOptionProgress),
+  // preferring the latest streamed odds
+  const probabilities = displayOptions.map((option, i) =>
+    probabilityToPercent(stream.prices?.[i] ?? option.currentPrice)
   );
 
   // Fetch comment count with caching
@@ -549,8 +580,9 @@ export function MarketV2Card({ index, market }: MarketV2CardProps) {
 
   // Determine market status
   const isExpired = new Date(Number(market.endTime) * 1000) < new Date();
-  const isResolved = market.resolved;
-  const isInvalidated = market.invalidated;
+  const isResolved = market.resolved || stream.resolved;
+  const isInvalidated = market.invalidated || stream.invalidated;
+  const winningOptionId = stream.winningOptionId ?? market.winningOptionId;
 
   // Badge visibility helpers
   const hasCategoryBadge =
@@ -633,7 +665,10 @@ export function MarketV2Card({ index, market }: MarketV2CardProps) {
   // Share handling
   const appUrl =
     process.env.NEXT_PUBLIC_APP_URL || "https://buster-mkt.vercel.app";
-  const marketPageUrl = `${appUrl}/market/${index}/details`;
+  // Share links carry the sharer's referral code when they have one
+  const marketPageUrl = referralCode
+    ? referralLink(appUrl, referralCode, index)
+    : `${appUrl}/market/${index}/details`;
 
   const handleShare = async () => {
     try {
@@ -710,8 +745,8 @@ export function MarketV2Card({ index, market }: MarketV2CardProps) {
             <MarketResolved
               marketId={index}
               outcome={
-                typeof market.winningOptionId !== "undefined"
-                  ? Number(market.winningOptionId) + 1
+                typeof winningOptionId !== "undefined"
+                  ? Number(winningOptionId) + 1
                   : 0
               }
               optionA={displayOptions[0]?.name || "Option 1"}
@@ -745,6 +780,16 @@ export function MarketV2Card({ index, market }: MarketV2CardProps) {
                 >
                   <TrendingDown className="h-3.5 w-3.5" /> Sell
                 </button>
+                <button
+                  onClick={() => setActiveInterface("limit")}
+                  className={`inline-flex items-center justify-center gap-1.5 whitespace-nowrap px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
+                    activeInterface === "limit"
+                      ? "border-blue-500 text-blue-400"
+                      : "border-transparent text-gray-400 hover:border-[#544863] hover:text-gray-300"
+                  }`}
+                >
+                  <Target className="h-3.5 w-3.5" /> Limit
+                </button>
               </nav>
             </div>
 
@@ -755,7 +800,7 @@ export function MarketV2Card({ index, market }: MarketV2CardProps) {
                 market={market}
                 options={displayOptions}
                 probabilities={probabilities}
-                totalVolume={totalVolume}
+                totalVolume={totalVolume + stream.volume}
                 userShares={userShares}
                 onTradeComplete={() => {
                   if (isRefetching) return; // Prevent multiple simultaneous refetches
@@ -775,6 +820,8 @@ export function MarketV2Card({ index, market }: MarketV2CardProps) {
                   }, 500);
                 }}
               />
+            ) : activeInterface === "limit" ? (
+              <LimitOrderForm marketId={index} options={displayOptions} />
             ) : (
               <MarketV2SellInterface
                 marketId={index}
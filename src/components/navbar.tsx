@@ -7,6 +7,7 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { useWallet } from "@/components/WagmiProvider";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { PaperModeToggle } from "@/components/PaperModeToggle";
 import { Button } from "@/components/ui/button";
 import {
   Home,
@@ -226,6 +227,7 @@ export function Navbar() {
         </div>
 
         <div className="flex items-center gap-2">
+          <PaperModeToggle />
           <ThemeToggle />
           <WalletButton />
         </div>
@@ -254,6 +256,7 @@ export function Navbar() {
             </div>
           </div>
           <div className="flex items-center gap-1.5">
+            <PaperModeToggle />
             <ThemeToggle />
             <button
               onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+import { useSendCalls, useWaitForCallsStatus } from "wagmi";
+import {
+  callResultsFromReceipts,
+  type CallReceipt,
+  type CallResult,
+} from "@/lib/batch-calls";
+
+interface BatchCall {
+  to: `0x${string}`;
+  data: `0x${string}`;
+}
+
+interface UseBatchCallsOptions {
+  onSubmitted?: () => void;
+  // Submission failed before anything reached the chain
+  onError?: (error: Error, unsupported: boolean) => void;
+  // Called once per batch with one result per submitted call
+  onSettled: (
+    results: CallResult[],
+    batchStatus: "success" | "failure"
+  ) => void;
+}
+
+// Sends an EIP-5792 batch and reports per-call results once the wallet
+// finishes it. Only one batch is tracked at a time.
+export function useBatchCalls({
+  onSubmitted,
+  onError,
+  onSettled,
+}: UseBatchCallsOptions) {
+  const callCountRef = useRef(0);
+  const processedRef = useRef<Set<string>>(new Set());
+  // Keep the latest callbacks without re-running the status effect
+  const callbacksRef = useRef({ onSubmitted, onError, onSettled });
+  callbacksRef.current = { onSubmitted, onError, onSettled };
+
+  const {
+    sendCalls,
+    data: callsData,
+    isPending: isSubmitting,
+    reset,
+  } = useSendCalls({
+    mutation: {
+      onSuccess: () => callbacksRef.current.onSubmitted?.(),
+      onError: (err) => {
+        const unsupported =
+          err.message?.includes("wallet_sendCalls") ||
+          err.message?.includes("not supported") ||
+          err.message?.includes("Method not found");
+        callbacksRef.current.onError?.(err, !!unsupported);
+      },
+    },
+  });
+
+  const callsId =
+    callsData && typeof callsData === "object" && "id" in callsData
+      ? (callsData.id as `0x${string}`)
+      : undefined;
+
+  const { data: callsStatusData } = useWaitForCallsStatus({
+    id: callsId,
+    query: { enabled: !!callsId, refetchInterval: 1000 },
+  });
+
+  useEffect(() => {
+    if (!callsStatusData || !callsId) return;
+    const { status, receipts } = callsStatusData;
+    if (status !== "success" && status !== "failure") return;
+
+    const statusId = `${callsId}-${status}`;
+    if (processedRef.current.has(statusId)) return;
+    processedRef.current.add(statusId);
+
+    callbacksRef.current.onSettled(
+      callResultsFromReceipts(
+        callCountRef.current,
+        status,
+        receipts as CallReceipt[] | undefined
+      ),
+      status
+    );
+  }, [callsStatusData, callsId]);
+
+  const submit = useCallback(
+    (calls: BatchCall[]) => {
+      callCountRef.current = calls.length;
+      sendCalls({ calls });
+    },
+    [sendCalls]
+  );
+
+  return { submit, isSubmitting, reset };
+}
@@ -0,0 +1,69 @@
+import { useState, useEffect, useCallback } from "react";
+import type { CandleInterval, CandleSeries } from "@/lib/candles";
+import { useMarketStream } from "@/hooks/useMarketStream";
+
+interface UseCandlesOptions {
+  marketId: string;
+  optionId: number;
+  interval?: CandleInterval;
+  refreshInterval?: number; // in milliseconds
+  enabled?: boolean;
+}
+
+export function useCandles({
+  marketId,
+  optionId,
+  interval = "1h",
+  refreshInterval = 60 * 1000,
+  enabled = true,
+}: UseCandlesOptions) {
+  const [data, setData] = useState<CandleSeries | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { connected, version } = useMarketStream(Number(marketId), enabled);
+
+  const fetchCandles = useCallback(async () => {
+    if (!enabled || !marketId) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams({
+        option: optionId.toString(),
+        interval,
+      });
+      const response = await fetch(
+        `/api/market/${marketId}/candles?${params}`
+      );
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to fetch candles");
+      }
+      setData(result as CandleSeries);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error occurred");
+      console.error("Error fetching candles:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [marketId, optionId, interval, enabled]);
+
+  useEffect(() => {
+    fetchCandles();
+  }, [fetchCandles]);
+
+  // Trades arrive over the market stream; poll only while it is down
+  useEffect(() => {
+    if (version > 0) fetchCandles();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [version]);
+
+  useEffect(() => {
+    if (!enabled || connected || refreshInterval <= 0) return;
+    const timer = setInterval(fetchCandles, refreshInterval);
+    return () => clearInterval(timer);
+  }, [fetchCandles, refreshInterval, enabled, connected]);
+
+  return { data, loading, error, refresh: fetchCandles };
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import { useEffect, useMemo } from "react";
+import { useReadContracts } from "wagmi";
+import {
+  quoteBuy,
+  quoteSell,
+  type BuyQuote,
+  type LMSRMarketState,
+  type SellQuote,
+} from "@/lib/lmsr";
+import { lmsrStateContracts, parseLMSRState } from "@/lib/lmsr-state";
+import { useMarketStream } from "@/hooks/useMarketStream";
+
+// Loads the inputs the off-chain LMSR engine needs (b, option share totals,
+// platform fee) in a single multicall. Quotes are then computed locally.
+// Reloads on market stream trades; polls only while the stream is down.
+export function useLMSRState(marketId: number, optionCount: number) {
+  const contracts = useMemo(
+    () => lmsrStateContracts(marketId, optionCount),
+    [marketId, optionCount]
+  );
+  const { connected, version } = useMarketStream(marketId, optionCount > 0);
+
+  const { data, isLoading, refetch } = useReadContracts({
+    contracts,
+    query: {
+      enabled: optionCount > 0,
+      refetchInterval: connected ? false : 5000,
+    },
+  });
+
+  useEffect(() => {
+    if (version > 0) refetch();
+  }, [version, refetch]);
+
+  const state = useMemo<LMSRMarketState | undefined>(
+    () => (data ? parseLMSRState(data) : undefined),
+    [data]
+  );
+
+  return { state, isLoading, refetch };
+}
+
+// Same as useLMSRState for several markets in one multicall (trade slip).
+// Returns states keyed by market id; markets still loading are absent.
+export function useLMSRStates(
+  markets: readonly { marketId: number; optionCount: number }[]
+) {
+  const contracts = useMemo(
+    () =>
+      markets.flatMap(({ marketId, optionCount }) =>
+        lmsrStateContracts(marketId, optionCount)
+      ),
+    [markets]
+  );
+
+  const { data, isLoading, refetch } = useReadContracts({
+    contracts,
+    query: {
+      enabled: contracts.length > 0,
+      refetchInterval: 5000,
+    },
+  });
+
+  const states = useMemo(() => {
+    const byMarket = new Map<number, LMSRMarketState>();
+    if (!data) return byMarket;
+    let offset = 0;
+    for (const { marketId, optionCount } of markets) {
+      const size = optionCount + 2;
+      const state = parseLMSRState(data.slice(offset, offset + size));
+      if (state) byMarket.set(marketId, state);
+      offset += size;
+    }
+    return byMarket;
+  }, [data, markets]);
+
+  return { states, isLoading, refetch };
+}
+
+// Convenience wrapper: instant buy quote for the given option/quantity
+export function useLMSRBuyQuote(
+  state: LMSRMarketState | undefined,
+  optionId: number | null,
+  quantity: bigint
+): BuyQuote | undefined {
+  return useMemo(() => {
+    if (!state || optionId === null || quantity <= 0n) return undefined;
+    try {
+      return quoteBuy(state, optionId, quantity);
+    } catch (error) {
+      console.warn("Local LMSR buy quote failed:", error);
+      return undefined;
+    }
+  }, [state, optionId, quantity]);
+}
+
+// Convenience wrapper: instant sell quote for the given option/quantity
+export function useLMSRSellQuote(
+  state: LMSRMarketState | undefined,
+  optionId: number | null,
+  quantity: bigint
+): SellQuote | undefined {
+  return useMemo(() => {
+    if (!state || optionId === null || quantity <= 0n) return undefined;
+    try {
+      return quoteSell(state, optionId, quantity);
+    } catch (error) {
+      console.warn("Local LMSR sell quote failed:", error);
+      return undefined;
+    }
+  }, [state, optionId, quantity]);
+}
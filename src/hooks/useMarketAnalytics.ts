@@ -137,45 +137,3 @@ export function useInvalidateMarketAnalytics() {
 
   return { invalidateCache };
 }
-
-// Hook for real-time price updates (using WebSocket or SSE)
-export function useRealTimeMarketUpdates(marketId: string) {
-  const [realtimeData, setRealtimeData] = useState<{
-    currentPriceA: number;
-    currentPriceB: number;
-    lastTrade: {
-      timestamp: number;
-      option: "A" | "B";
-      amount: number;
-      price: number;
-    } | null;
-  } | null>(null);
-
-  useEffect(() => {
-    // In a real implementation, you would connect to a WebSocket here
-    // For now, we'll simulate real-time updates with polling
-
-    const pollInterval = setInterval(async () => {
-      try {
-        // This could be a separate lightweight endpoint for current prices
-        const response = await fetch(
-          `/api/market/current-price?marketId=${marketId}`
-        );
-        if (response.ok) {
-          const result = await response.json();
-          // Handle both direct data and wrapped responses
-          const data = result.data || result;
-          if (data && typeof data === "object") {
-            setRealtimeData(data);
-          }
-        }
-      } catch (err) {
-        console.error("Error fetching real-time data:", err);
-      }
-    }, 10000); // Poll every 10 seconds
-
-    return () => clearInterval(pollInterval);
-  }, [marketId]);
-
-  return realtimeData;
-}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type {
+  MarketSnapshotEvent,
+  MarketStatusEvent,
+  MarketTradeEvent,
+} from "@/lib/market-stream";
+
+export interface MarketStreamState {
+  connected: boolean; // false until the snapshot arrives, and after errors
+  prices: bigint[] | null; // marginal price per option, 1e18-scaled
+  volume: bigint; // tokens traded since connecting
+  resolved: boolean;
+  invalidated: boolean;
+  winningOptionId: number | null;
+  lastTrade: MarketTradeEvent | null;
+  version: number; // bumps on every trade or status change
+}
+
+const initialState: MarketStreamState = {
+  connected: false,
+  prices: null,
+  volume: 0n,
+  resolved: false,
+  invalidated: false,
+  winningOptionId: null,
+  lastTrade: null,
+  version: 0,
+};
+
+type Listener = (state: MarketStreamState) => void;
+
+interface Connection {
+  source: EventSource;
+  state: MarketStreamState;
+  listeners: Set<Listener>;
+}
+
+// One EventSource per market, shared by every component on the page
+const connections = new Map<number, Connection>();
+
+function update(connection: Connection, patch: Partial<MarketStreamState>) {
+  connection.state = { ...connection.state, ...patch };
+  connection.listeners.forEach((listener) => listener(connection.state));
+}
+
+function connect(marketId: number): Connection {
+  const existing = connections.get(marketId);
+  if (existing) return existing;
+
+  const source = new EventSource(`/api/stream/market/${marketId}`);
+  const connection: Connection = {
+    source,
+    state: initialState,
+    listeners: new Set(),
+  };
+  const parse = <T>(event: Event) =>
+    JSON.parse((event as MessageEvent).data) as T;
+
+  source.addEventListener("snapshot", (event) => {
+    const snapshot = parse<MarketSnapshotEvent>(event);
+    update(connection, {
+      connected: true,
+      prices: snapshot.prices.length ? snapshot.prices.map(BigInt) : null,
+      resolved: snapshot.resolved,
+      invalidated: snapshot.invalidated,
+      winningOptionId: snapshot.winningOptionId,
+    });
+  });
+  source.addEventListener("trade", (event) => {
+    const trade = parse<MarketTradeEvent>(event);
+    update(connection, {
+      prices: trade.prices.length
+        ? trade.prices.map(BigInt)
+        : connection.state.prices,
+      volume: connection.state.volume + BigInt(trade.volume),
+      lastTrade: trade,
+      version: connection.state.version + 1,
+    });
+  });
+  source.addEventListener("status", (event) => {
+    const status = parse<MarketStatusEvent>(event);
+    update(connection, {
+      resolved: status.resolved,
+      invalidated: status.invalidated,
+      winningOptionId: status.winningOptionId,
+      version: connection.state.version + 1,
+    });
+  });
+  // The server could not load the market: stop retrying, callers poll. The
+  // closed source leaves the map so the next mount connects afresh.
+  source.addEventListener("unavailable", () => {
+    source.close();
+    if (connections.get(marketId) === connection) connections.delete(marketId);
+    update(connection, { connected: false });
+  });
+  // EventSource reconnects by itself; a fresh snapshot marks it connected
+  source.onerror = () => update(connection, { connected: false });
+
+  connections.set(marketId, connection);
+  return connection;
+}
+
+/**
+ * Live price, volume and status updates for a V2 market over SSE. Components
+ * keep their contract reads but refetch when `version` changes instead of
+ * polling, and fall back to polling while `connected` is false.
+ */
+export function useMarketStream(
+  marketId: number | undefined,
+  enabled = true
+): MarketStreamState {
+  const [state, setState] = useState<MarketStreamState>(initialState);
+
+  useEffect(() => {
+    if (!enabled || marketId === undefined) return;
+    if (typeof EventSource === "undefined") return;
+
+    const connection = connect(marketId);
+    connection.listeners.add(setState);
+    setState(connection.state);
+
+    return () => {
+      connection.listeners.delete(setState);
+      if (connection.listeners.size === 0) {
+        connection.source.close();
+        // A newer connection may have replaced this one after "unavailable"
+        if (connections.get(marketId) === connection) {
+          connections.delete(marketId);
+        }
+      }
+      setState(initialState);
+    };
+  }, [marketId, enabled]);
+
+  return state;
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useAccount } from "wagmi";
+import type { LMSRMarketState } from "@/lib/lmsr";
+import {
+  PAPER_ACCOUNT_EVENT,
+  PAPER_MODE_EVENT,
+  loadPaperMode,
+  paperShares,
+  savePaperMode,
+  simulatedState,
+  type PaperAccountSummary,
+  type PaperTradeRequest,
+} from "@/lib/paper-trading";
+import { useWalletSession } from "@/hooks/useWalletSession";
+
+// Trading components mount once per market card; share in-flight fetches
+const pendingSummaries = new Map<string, Promise<PaperAccountSummary>>();
+
+function fetchSummary(address: string): Promise<PaperAccountSummary> {
+  const key = address.toLowerCase();
+  let pending = pendingSummaries.get(key);
+  if (!pending) {
+    pending = fetch(`/api/paper-trading?address=${key}`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load paper account");
+        }
+        return data as PaperAccountSummary;
+      })
+      .finally(() => pendingSummaries.delete(key));
+    pendingSummaries.set(key, pending);
+  }
+  return pending;
+}
+
+// Paper mode switch plus the connected wallet's paper account. Account data
+// and the session are only loaded while paper mode is on.
+export function usePaperTrading() {
+  const { address } = useAccount();
+  const [enabled, setEnabledState] = useState(false);
+  const { session, isSignedIn, signIn } = useWalletSession({ enabled });
+  const [summary, setSummary] = useState<PaperAccountSummary | null>(null);
+
+  // Paper accounts belong to the signed-in address (the fid's address for
+  // Farcaster sessions), falling back to the connected wallet
+  const accountAddress = session?.address ?? address?.toLowerCase();
+
+  useEffect(() => {
+    setEnabledState(loadPaperMode());
+    const handleMode = (event: Event) => {
+      const { detail } = event as CustomEvent<{ enabled: boolean }>;
+      setEnabledState(detail.enabled);
+    };
+    window.addEventListener(PAPER_MODE_EVENT, handleMode);
+    return () => window.removeEventListener(PAPER_MODE_EVENT, handleMode);
+  }, []);
+
+  const refetch = useCallback(async () => {
+    if (!accountAddress) {
+      setSummary(null);
+      return;
+    }
+    try {
+      setSummary(await fetchSummary(accountAddress));
+    } catch (error) {
+      console.error("Error fetching paper account:", error);
+    }
+  }, [accountAddress]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    refetch();
+
+    const handleAccount = (event: Event) => {
+      const { detail } = event as CustomEvent<PaperAccountSummary>;
+      if (detail.account.address === accountAddress) setSummary(detail);
+    };
+    window.addEventListener(PAPER_ACCOUNT_EVENT, handleAccount);
+    return () =>
+      window.removeEventListener(PAPER_ACCOUNT_EVENT, handleAccount);
+  }, [enabled, refetch, accountAddress]);
+
+  const setEnabled = useCallback((next: boolean) => savePaperMode(next), []);
+
+  const send = useCallback(
+    async (method: "POST" | "DELETE", body?: PaperTradeRequest) => {
+      // Writes need a session; ask for a signature the first time
+      if (!isSignedIn) await signIn();
+      const response = await fetch("/api/paper-trading", {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Paper trade failed");
+
+      const next = data as PaperAccountSummary;
+      setSummary(next);
+      window.dispatchEvent(
+        new CustomEvent(PAPER_ACCOUNT_EVENT, { detail: next })
+      );
+      return next;
+    },
+    [isSignedIn, signIn]
+  );
+
+  const trade = useCallback(
+    (request: PaperTradeRequest) => send("POST", request),
+    [send]
+  );
+  const reset = useCallback(() => send("DELETE"), [send]);
+
+  // Quote against the account's simulated state while paper mode is on
+  const simulate = useCallback(
+    (live: LMSRMarketState | undefined, marketId: number) =>
+      enabled && live ? simulatedState(live, summary?.account, marketId) : live,
+    [enabled, summary]
+  );
+
+  const sharesFor = useCallback(
+    (marketId: number, optionCount: number) =>
+      paperShares(summary?.account, marketId, optionCount),
+    [summary]
+  );
+
+  return {
+    enabled,
+    setEnabled,
+    summary,
+    isSignedIn,
+    trade,
+    reset,
+    refetch,
+    simulate,
+    sharesFor,
+  };
+}
@@ -0,0 +1,49 @@
+import { useState, useEffect, useCallback } from "react";
+import type { PortfolioPnL } from "@/types/pnl";
+
+interface UsePortfolioPnLReturn {
+  data: PortfolioPnL | null;
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+export function usePortfolioPnL(
+  address?: string,
+  refreshInterval: number = 60 * 1000
+): UsePortfolioPnLReturn {
+  const [data, setData] = useState<PortfolioPnL | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPnL = useCallback(async () => {
+    if (!address) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/portfolio/pnl?address=${address}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch P&L: ${response.statusText}`);
+      }
+
+      setData((await response.json()) as PortfolioPnL);
+    } catch (err) {
+      console.error("Error fetching portfolio P&L:", err);
+      setError(err instanceof Error ? err.message : "Failed to fetch P&L");
+    } finally {
+      setLoading(false);
+    }
+  }, [address]);
+
+  useEffect(() => {
+    setData(null);
+    fetchPnL();
+    if (refreshInterval <= 0) return;
+    const interval = setInterval(fetchPnL, refreshInterval);
+    return () => clearInterval(interval);
+  }, [fetchPnL, refreshInterval]);
+
+  return { data, loading, error, refresh: fetchPnL };
+}
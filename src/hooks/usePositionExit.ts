@@ -0,0 +1,133 @@
+"use client";
+
+import { useCallback, useMemo, useRef, useState } from "react";
+import { useToast } from "@/components/ui/use-toast";
+import type { CallResult } from "@/lib/batch-calls";
+import {
+  planExit,
+  sellCall,
+  type ExitLeg,
+  type ExitLegQuote,
+} from "@/lib/position-exit";
+import { useBatchCalls } from "@/hooks/useBatchCalls";
+import { useLMSRStates } from "@/hooks/useLMSRState";
+import { useTradeSettings } from "@/hooks/useTradeSettings";
+import { isQuoteExpired } from "@/lib/trade-settings";
+
+export type PositionExitStep = "idle" | "review" | "processing" | "done";
+
+export interface ExitLegResult {
+  leg: ExitLegQuote;
+  success: boolean;
+}
+
+// Quotes and submits a batched exit (one sellShares per leg) for positions
+// across one or more markets
+export function usePositionExit(
+  legs: ExitLeg[],
+  markets: readonly { marketId: number; optionCount: number }[],
+  onComplete?: () => void
+) {
+  const { toast } = useToast();
+  const { settings } = useTradeSettings();
+  const { states } = useLMSRStates(markets);
+
+  const [step, setStep] = useState<PositionExitStep>("idle");
+  const [results, setResults] = useState<ExitLegResult[]>([]);
+  const submittedRef = useRef<ExitLegQuote[] | null>(null);
+  // When the review step opened; the sells are not sent past the deadline
+  const reviewedAtRef = useRef(0);
+
+  const { plan, quoteError } = useMemo(() => {
+    if (legs.length === 0) return { plan: null, quoteError: null };
+    try {
+      return { plan: planExit(legs, states, settings), quoteError: null };
+    } catch (error) {
+      console.error("Failed to quote exit:", error);
+      return { plan: null, quoteError: "Unable to quote this exit" };
+    }
+  }, [legs, states, settings]);
+
+  const handleSettled = useCallback(
+    (calls: CallResult[]) => {
+      const submitted = submittedRef.current;
+      if (!submitted) return;
+      submittedRef.current = null;
+
+      const legResults = submitted.map((leg, i) => ({
+        leg,
+        success: !!calls[i]?.success,
+      }));
+      const sold = legResults.filter((r) => r.success).length;
+      setResults(legResults);
+      setStep("done");
+
+      new Set(submitted.map((l) => l.marketId)).forEach((marketId) =>
+        window.dispatchEvent(
+          new CustomEvent("market-updated", { detail: { marketId } })
+        )
+      );
+
+      if (sold === legResults.length) {
+        toast({
+          title: "Positions Closed",
+          description: `Sold ${sold} position${sold === 1 ? "" : "s"}.`,
+        });
+      } else {
+        toast({
+          title: sold > 0 ? "Partial Success" : "Exit Failed",
+          description: `${sold} of ${legResults.length} sells went through.`,
+          variant: sold > 0 ? "default" : "destructive",
+        });
+      }
+      onComplete?.();
+    },
+    [toast, onComplete]
+  );
+
+  const { submit, reset } = useBatchCalls({
+    onError: (err, unsupported) => {
+      console.error("Exit batch submission failed:", err);
+      submittedRef.current = null;
+      toast({
+        title: unsupported
+          ? "Batch Transactions Not Supported"
+          : "Exit Failed",
+        description: unsupported
+          ? "Your wallet can't batch transactions. Sell each option from the Sell tab instead."
+          : "Failed to submit the sells. Please try again.",
+        variant: "destructive",
+      });
+      setStep("review");
+    },
+    onSettled: handleSettled,
+  });
+
+  const confirm = useCallback(() => {
+    if (!plan) return;
+    if (isQuoteExpired(reviewedAtRef.current, settings)) {
+      // The review shows the live quote, so restart the clock on it
+      reviewedAtRef.current = Date.now();
+      toast({
+        title: "Quote Expired",
+        description: "Check the updated proceeds and confirm again.",
+        variant: "destructive",
+      });
+      return;
+    }
+    submittedRef.current = plan.legs;
+    setStep("processing");
+    submit(plan.legs.map(sellCall));
+  }, [plan, settings, submit, toast]);
+
+  const open = useCallback(() => {
+    reset();
+    reviewedAtRef.current = Date.now();
+    setResults([]);
+    setStep("review");
+  }, [reset]);
+
+  const close = useCallback(() => setStep("idle"), []);
+
+  return { plan, quoteError, step, results, open, confirm, close, settings };
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  REFERRAL_COOKIE,
+  REFERRAL_COOKIE_MAX_AGE_SECONDS,
+  REFERRAL_PARAM,
+  isReferralCode,
+} from "@/lib/referrals";
+
+// Store the `?ref=` code of the first share link a visitor opens. The server
+// attributes it when the visitor signs in (or right away if they already
+// have a session) and then clears the cookie.
+export function useReferralCapture() {
+  useEffect(() => {
+    const code = new URLSearchParams(window.location.search).get(
+      REFERRAL_PARAM
+    );
+    if (!isReferralCode(code)) return;
+    const cookies = document.cookie.split("; ");
+    if (cookies.some((c) => c.startsWith(`${REFERRAL_COOKIE}=`))) {
+      return; // first touch wins
+    }
+    document.cookie =
+      `${REFERRAL_COOKIE}=${code}; Max-Age=${REFERRAL_COOKIE_MAX_AGE_SECONDS}` +
+      "; Path=/; SameSite=None; Secure";
+    fetch("/api/referrals/attribute", { method: "POST" }).catch((error) =>
+      console.error("Error attributing referral:", error)
+    );
+  }, []);
+}
+
+// Market cards mount many times; share one lookup per address
+const codes = new Map<string, Promise<string | null>>();
+
+function fetchCode(address: string): Promise<string | null> {
+  const key = address.toLowerCase();
+  let pending = codes.get(key);
+  if (!pending) {
+    pending = fetch(`/api/referrals/code?address=${key}`)
+      .then((response) => (response.ok ? response.json() : { code: null }))
+      .then((data) => data.code as string | null)
+      .catch(() => null);
+    codes.set(key, pending);
+  }
+  return pending;
+}
+
+// The referral code of `address`, if it created one, for share links
+export function useReferralCode(address: string | undefined): string | null {
+  const [code, setCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!address) {
+      setCode(null);
+      return;
+    }
+    let cancelled = false;
+    fetchCode(address).then((result) => {
+      if (!cancelled) setCode(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [address]);
+
+  return code;
+}
+
+// Drop the cached lookup after the user creates a code
+export function forgetReferralCode(address: string) {
+  codes.delete(address.toLowerCase());
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { maxSharesForBudget, type LMSRMarketState } from "@/lib/lmsr";
+import { maxSharesForBudgetOnChain } from "@/lib/spend-quote";
+
+// Wait for typing to pause before solving against the contract
+const ON_CHAIN_DEBOUNCE_MS = 400;
+
+// Largest share quantity a token budget buys. Solved locally against the
+// LMSR state when it's loaded, otherwise through PolicastViews.quoteBuy.
+export function useSpendQuote(
+  state: LMSRMarketState | undefined,
+  marketId: number,
+  optionId: number | null,
+  budget: bigint
+): { quantity: bigint; isSolving: boolean } {
+  const localQuantity = useMemo(() => {
+    if (!state || optionId === null || budget <= 0n) return undefined;
+    try {
+      return maxSharesForBudget(state, optionId, budget);
+    } catch (error) {
+      console.warn("Local budget solve failed:", error);
+      return undefined;
+    }
+  }, [state, optionId, budget]);
+
+  const key = `${marketId}:${optionId}:${budget}`;
+  const [onChain, setOnChain] = useState<{
+    key: string;
+    quantity: bigint;
+  } | null>(null);
+
+  const needsOnChain =
+    localQuantity === undefined && optionId !== null && budget > 0n;
+
+  useEffect(() => {
+    if (!needsOnChain || optionId === null) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const quantity = await maxSharesForBudgetOnChain(
+          marketId,
+          optionId,
+          budget
+        );
+        if (!cancelled) setOnChain({ key, quantity });
+      } catch (error) {
+        console.error("On-chain budget solve failed:", error);
+        if (!cancelled) setOnChain({ key, quantity: 0n });
+      }
+    }, ON_CHAIN_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [needsOnChain, marketId, optionId, budget, key]);
+
+  if (localQuantity !== undefined) {
+    return { quantity: localQuantity, isSolving: false };
+  }
+  if (!needsOnChain) return { quantity: 0n, isSolving: false };
+  return onChain?.key === key
+    ? { quantity: onChain.quantity, isSolving: false }
+    : { quantity: 0n, isSolving: true };
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useAccount } from "wagmi";
+import {
+  DEFAULT_TRADE_SETTINGS,
+  TRADE_SETTINGS_EVENT,
+  loadTradeSettings,
+  saveTradeSettings,
+  type TradeSettings,
+} from "@/lib/trade-settings";
+
+// Slippage / price-impact / deadline settings for the connected wallet.
+// Disconnected users get the defaults and cannot save.
+export function useTradeSettings() {
+  const { address } = useAccount();
+  const [settings, setSettings] = useState<TradeSettings>(
+    DEFAULT_TRADE_SETTINGS
+  );
+
+  useEffect(() => {
+    setSettings(loadTradeSettings(address));
+
+    const handleUpdate = (event: Event) => {
+      const { detail } = event as CustomEvent<{
+        address: string;
+        settings: TradeSettings;
+      }>;
+      if (address && detail.address === address.toLowerCase()) {
+        setSettings(detail.settings);
+      }
+    };
+    window.addEventListener(TRADE_SETTINGS_EVENT, handleUpdate);
+    return () => window.removeEventListener(TRADE_SETTINGS_EVENT, handleUpdate);
+  }, [address]);
+
+  const updateSettings = useCallback(
+    (next: Partial<TradeSettings>) => {
+      if (!address) return;
+      setSettings(saveTradeSettings(address, next));
+    },
+    [address]
+  );
+
+  return { settings, updateSettings, canSave: !!address };
+}
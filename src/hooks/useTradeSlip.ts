@@ -0,0 +1,46 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  TRADE_SLIP_EVENT,
+  addTradeSlipLeg,
+  clearTradeSlip,
+  legKey,
+  loadTradeSlip,
+  removeTradeSlipLegs,
+  saveTradeSlip,
+  type TradeSlipLeg,
+} from "@/lib/trade-slip";
+
+// Shared trade slip state; every mounted instance sees the same legs
+export function useTradeSlip() {
+  const [legs, setLegs] = useState<TradeSlipLeg[]>([]);
+
+  useEffect(() => {
+    setLegs(loadTradeSlip());
+
+    const handleUpdate = (event: Event) =>
+      setLegs((event as CustomEvent<TradeSlipLeg[]>).detail);
+    window.addEventListener(TRADE_SLIP_EVENT, handleUpdate);
+    return () => window.removeEventListener(TRADE_SLIP_EVENT, handleUpdate);
+  }, []);
+
+  const addLeg = useCallback((leg: TradeSlipLeg) => addTradeSlipLeg(leg), []);
+
+  const removeLegs = useCallback(
+    (keys: string[]) => removeTradeSlipLegs(keys),
+    []
+  );
+
+  const updateShares = useCallback(
+    (key: string, shares: string) =>
+      saveTradeSlip(
+        loadTradeSlip().map((l) => (legKey(l) === key ? { ...l, shares } : l))
+      ),
+    []
+  );
+
+  const clear = useCallback(() => clearTradeSlip(), []);
+
+  return { legs, addLeg, removeLegs, updateShares, clear };
+}
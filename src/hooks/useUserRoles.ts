@@ -3,6 +3,13 @@
 import { useState, useEffect } from "react";
 import { useAccount, useReadContract } from "wagmi";
 import { V2contractAddress, V2contractAbi } from "@/constants/contract";
+import {
+  DEFAULT_ADMIN_ROLE,
+  MARKET_VALIDATOR_ROLE,
+  PAUSER_ROLE,
+  QUESTION_CREATOR_ROLE,
+  QUESTION_RESOLVE_ROLE,
+} from "@/lib/contract-roles";
 
 interface UserRoles {
   isOwner: boolean;
@@ -15,18 +22,6 @@ interface UserRoles {
   hasValidatorAccess: boolean; // Helper: true if can validate markets
 }
 
-const QUESTION_CREATOR_ROLE =
-  "0xef485be696bbc0c91ad541bbd553ffb5bd0e18dac30ba76e992dda23cb807a8a";
-const QUESTION_RESOLVE_ROLE =
-  "0xdcee1d35c83a32b436264a5c9afd68685c124f3f9097e87804c55410e67fc59a";
-const MARKET_VALIDATOR_ROLE =
-  "0xd486618b282cb35034d59c30c062b5b3822d6cdf87ec459191ce7f5b7b8a4873";
-const DEFAULT_ADMIN_ROLE =
-  "0x0000000000000000000000000000000000000000000000000000000000000000";
-
-const PAUSER_ROLE =
-  "0x65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a";
-
 export function useUserRoles(): UserRoles {
   const { address, isConnected } = useAccount();
   const [roles, setRoles] = useState<UserRoles>({
@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAccount, useSignMessage } from "wagmi";
+import { sdk } from "@farcaster/miniapp-sdk";
+import {
+  buildSiweSignInMessage,
+  type AuthMethod,
+  type AuthSession,
+} from "@/lib/wallet-auth";
+
+interface UseWalletSessionReturn {
+  session: AuthSession | null;
+  // Session exists and belongs to the connected wallet (any Farcaster session
+  // counts, since it is tied to the fid rather than the wallet)
+  isSignedIn: boolean;
+  loading: boolean;
+  signIn: () => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+// `enabled: false` skips loading the session until it is turned on, for
+// components mounted many times that only need it in some modes
+export function useWalletSession({
+  enabled = true,
+}: { enabled?: boolean } = {}): UseWalletSessionReturn {
+  const { address } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchSession = useCallback(async () => {
+    try {
+      const response = await fetch("/api/auth/session");
+      if (response.ok) {
+        const data = await response.json();
+        setSession(data.session);
+      }
+    } catch (error) {
+      console.error("Error fetching session:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    fetchSession();
+  }, [fetchSession, address, enabled]);
+
+  const signIn = useCallback(async () => {
+    const nonceResponse = await fetch("/api/auth/nonce");
+    if (!nonceResponse.ok) throw new Error("Failed to start sign-in");
+    const { nonce } = await nonceResponse.json();
+
+    let method: AuthMethod;
+    let message: string;
+    let signature: string;
+    if (await sdk.isInMiniApp()) {
+      method = "farcaster";
+      ({ message, signature } = await sdk.actions.signIn({ nonce }));
+    } else {
+      if (!address) throw new Error("Connect your wallet first");
+      method = "siwe";
+      message = buildSiweSignInMessage({
+        address,
+        nonce,
+        domain: window.location.host,
+        uri: window.location.origin,
+      });
+      signature = await signMessageAsync({ message });
+    }
+
+    const response = await fetch("/api/auth/session", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ method, message, signature }),
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || "Sign-in failed");
+    setSession(data.session);
+  }, [address, signMessageAsync]);
+
+  const signOut = useCallback(async () => {
+    await fetch("/api/auth/session", { method: "DELETE" });
+    setSession(null);
+  }, []);
+
+  const isSignedIn =
+    !!session &&
+    (session.method === "farcaster" ||
+      session.address === address?.toLowerCase());
+
+  return { session, isSignedIn, loading, signIn, signOut };
+}
@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from "next/server";
+import { generateSiweNonce, parseSiweMessage } from "viem/siwe";
+import { createAppClient, viemConnector } from "@farcaster/auth-kit";
+import { publicClient } from "@/constants/contract";
+import { getKVStore } from "@/lib/kv-store";
+import type { AuthMethod, AuthSession } from "@/lib/wallet-auth";
+
+/**
+ * Server side of wallet sign-in: single-use nonces, SIWE / Sign In with
+ * Farcaster verification and KV-backed sessions keyed by an HTTP-only cookie.
+ *
+ * Key layout:
+ *   auth-nonce:{nonce}  -> 1, expires after NONCE_TTL_SECONDS
+ *   auth-session:{id}   -> AuthSession, expires after SESSION_TTL_SECONDS
+ */
+
+export const SESSION_COOKIE = "policast_session";
+
+const NONCE_TTL_SECONDS = 10 * 60;
+const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const nonceKey = (nonce: string) => `auth-nonce:${nonce}`;
+const sessionKey = (id: string) => `auth-session:${id}`;
+
+const farcasterClient = createAppClient({
+  ethereum: viemConnector(),
+});
+
+export async function createNonce(): Promise<string> {
+  const nonce = generateSiweNonce();
+  await getKVStore().set(nonceKey(nonce), 1, { ex: NONCE_TTL_SECONDS });
+  return nonce;
+}
+
+// Nonces are deleted on first use so a signed message cannot be replayed
+async function consumeNonce(nonce: string | undefined): Promise<boolean> {
+  if (!nonce) return false;
+  const store = getKVStore();
+  const issued = await store.get<number>(nonceKey(nonce));
+  if (!issued) return false;
+  await store.del(nonceKey(nonce));
+  return true;
+}
+
+// Domain the message must be bound to: the host the browser called
+export const requestDomain = (request: NextRequest) =>
+  request.headers.get("x-forwarded-host") ||
+  request.headers.get("host") ||
+  new URL(request.url).host;
+
+/**
+ * Verify a sign-in message and return the identity it proves, or an error.
+ * SIWE messages are checked against the wallet (EOA or smart wallet); Sign In
+ * with Farcaster messages are checked against the fid's custody or auth
+ * address on Optimism.
+ */
+export async function verifySignIn(
+  method: AuthMethod,
+  input: { message: string; signature: `0x${string}`; domain: string }
+): Promise<
+  | { address: string; fid?: number; error?: undefined }
+  | { error: string }
+> {
+  const parsed = parseSiweMessage(input.message);
+  if (!parsed.address || !parsed.nonce) {
+    return { error: "Malformed sign-in message" };
+  }
+  if (parsed.domain !== input.domain) {
+    return { error: "Sign-in message is for a different domain" };
+  }
+  if (!(await consumeNonce(parsed.nonce))) {
+    return { error: "Sign-in nonce expired, please try again" };
+  }
+
+  try {
+    if (method === "farcaster") {
+      const result = await farcasterClient.verifySignInMessage({
+        nonce: parsed.nonce,
+        domain: input.domain,
+        message: input.message,
+        signature: input.signature,
+      });
+      if (result.isError || !result.success) {
+        return { error: "Invalid Farcaster signature" };
+      }
+      return { address: parsed.address.toLowerCase(), fid: result.fid };
+    }
+
+    const valid = await publicClient.verifySiweMessage({
+      message: input.message,
+      signature: input.signature,
+      domain: input.domain,
+      nonce: parsed.nonce,
+    });
+    return valid
+      ? { address: parsed.address.toLowerCase() }
+      : { error: "Invalid signature" };
+  } catch (error) {
+    console.error("Sign-in verification failed:", error);
+    return { error: "Invalid signature" };
+  }
+}
+
+export async function createSession(identity: {
+  address: string;
+  fid?: number;
+  method: AuthMethod;
+}): Promise<{ id: string; session: AuthSession }> {
+  const id = crypto.randomUUID();
+  const session: AuthSession = {
+    address: identity.address.toLowerCase(),
+    fid: identity.fid,
+    method: identity.method,
+    expiresAt: Date.now() + SESSION_TTL_SECONDS * 1000,
+  };
+  await getKVStore().set(sessionKey(id), session, {
+    ex: SESSION_TTL_SECONDS,
+  });
+  return { id, session };
+}
+
+// SameSite=None so the session also works inside the Farcaster client's iframe
+export function setSessionCookie(response: NextResponse, id: string) {
+  response.cookies.set(SESSION_COOKIE, id, {
+    httpOnly: true,
+    secure: true,
+    sameSite: "none",
+    path: "/",
+    maxAge: SESSION_TTL_SECONDS,
+  });
+}
+
+export async function getSession(
+  request: NextRequest
+): Promise<AuthSession | null> {
+  const id = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!id) return null;
+  const session = await getKVStore().get<AuthSession>(sessionKey(id));
+  if (!session || session.expiresAt <= Date.now()) return null;
+  return session;
+}
+
+export async function deleteSession(
+  request: NextRequest,
+  response: NextResponse
+): Promise<void> {
+  const id = request.cookies.get(SESSION_COOKIE)?.value;
+  if (id) await getKVStore().del(sessionKey(id));
+  response.cookies.delete(SESSION_COOKIE);
+}
+
+export const unauthorized = () =>
+  NextResponse.json(
+    { error: "Sign in with your wallet to continue" },
+    { status: 401 }
+  );
@@ -0,0 +1,45 @@
+/**
+ * Helpers for reading EIP-5792 (wallet_sendCalls) results call by call.
+ *
+ * Wallets that execute a batch call-by-call return one receipt per call.
+ * Wallets that bundle the batch into a single transaction (smart accounts,
+ * atomic batches) return one receipt whose status applies to every call.
+ * When fewer receipts than calls come back, the missing calls never ran.
+ */
+
+// Minimal shape of a wallet_getCallsStatus receipt
+export interface CallReceipt {
+  status: "success" | "reverted";
+  transactionHash: `0x${string}`;
+}
+
+export interface CallResult {
+  success: boolean;
+  transactionHash?: `0x${string}`;
+}
+
+export function callResultsFromReceipts(
+  callCount: number,
+  batchStatus: "success" | "failure",
+  receipts: readonly CallReceipt[] | undefined
+): CallResult[] {
+  // Success with no receipts: trust the batch status
+  if (!receipts?.length) {
+    return Array.from({ length: callCount }, () => ({
+      success: batchStatus === "success",
+    }));
+  }
+
+  if (receipts.length === 1 && callCount > 1) {
+    const [bundle] = receipts;
+    return Array.from({ length: callCount }, () => ({
+      success: bundle.status === "success",
+      transactionHash: bundle.transactionHash,
+    }));
+  }
+
+  return Array.from({ length: callCount }, (_, i) => ({
+    success: receipts[i]?.status === "success",
+    transactionHash: receipts[i]?.transactionHash,
+  }));
+}
@@ -0,0 +1,119 @@
+import {
+  publicClient,
+  PolicastViews,
+  PolicastViewsAbi,
+} from "@/constants/contract";
+import { getKVStore } from "@/lib/kv-store";
+import { marketIndexer, type IndexedMarket } from "@/lib/market-indexer";
+import {
+  CALIBRATION_HORIZONS,
+  buildHorizonReport,
+  probabilitiesAt,
+  type CalibrationHorizon,
+  type CalibrationReport,
+  type Forecast,
+} from "@/lib/calibration";
+
+const keys = {
+  report: "analytics:calibration",
+};
+
+// The keeper refreshes the report; a request rebuilds it once it expires
+const REPORT_TTL_SECONDS = 6 * 60 * 60;
+
+export class CalibrationService {
+  private store = getKVStore();
+
+  async getReport(): Promise<CalibrationReport> {
+    return (
+      (await this.store.get<CalibrationReport>(keys.report)) ?? this.run()
+    );
+  }
+
+  // Score every resolved market from indexed trades; needs a synced indexer
+  async run(): Promise<CalibrationReport> {
+    if (!(await marketIndexer.ensureFresh())) {
+      throw new Error("Market indexer has not synced yet");
+    }
+
+    const markets = (
+      await Promise.all(
+        (await marketIndexer.getMarketIds()).map((id) =>
+          marketIndexer.getMarket(id)
+        )
+      )
+    ).filter(
+      (m): m is IndexedMarket => m !== null && m.resolved && !m.invalidated
+    );
+    const outcomes = await this.loadOutcomes(markets);
+
+    const forecasts = Object.fromEntries(
+      Object.keys(CALIBRATION_HORIZONS).map((h) => [h, [] as Forecast[]])
+    ) as Record<CalibrationHorizon, Forecast[]>;
+
+    for (const market of markets) {
+      const winningOptionId = outcomes.get(market.marketId);
+      if (winningOptionId === undefined) continue;
+      const trades = (await marketIndexer.getMarketTrades(market.marketId)).map(
+        (t) => ({
+          optionId: t.optionId,
+          price: BigInt(t.price),
+          timestamp: t.timestamp,
+        })
+      );
+      const endTime = Number(market.endTime);
+
+      for (const [horizon, seconds] of Object.entries(CALIBRATION_HORIZONS)) {
+        const probabilities = probabilitiesAt(
+          trades,
+          market.options.length,
+          endTime - seconds
+        );
+        if (!probabilities) continue;
+        forecasts[horizon as CalibrationHorizon].push({
+          marketId: market.marketId,
+          category: market.category,
+          probabilities,
+          winningOptionId,
+        });
+      }
+    }
+
+    const report: CalibrationReport = {
+      generatedAt: Date.now(),
+      resolvedMarkets: outcomes.size,
+      horizons: {
+        "7d": buildHorizonReport(forecasts["7d"]),
+        "1d": buildHorizonReport(forecasts["1d"]),
+        "1h": buildHorizonReport(forecasts["1h"]),
+      },
+    };
+    await this.store.set(keys.report, report, { ex: REPORT_TTL_SECONDS });
+    return report;
+  }
+
+  // Winning option per market from getMarketResolvedOutcome, one multicall
+  private async loadOutcomes(
+    markets: IndexedMarket[]
+  ): Promise<Map<number, number>> {
+    const results = await publicClient.multicall({
+      contracts: markets.map((m) => ({
+        address: PolicastViews as `0x${string}`,
+        abi: PolicastViewsAbi,
+        functionName: "getMarketResolvedOutcome" as const,
+        args: [BigInt(m.marketId)],
+      })),
+      allowFailure: true,
+    });
+
+    const outcomes = new Map<number, number>();
+    results.forEach((result, i) => {
+      if (result.status === "success") {
+        outcomes.set(markets[i].marketId, Number(result.result));
+      }
+    });
+    return outcomes;
+  }
+}
+
+export const calibrationService = new CalibrationService();
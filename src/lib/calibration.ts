@@ -0,0 +1,151 @@
+import { PAYOUT_PER_SHARE } from "@/lib/lmsr";
+
+/**
+ * Calibration of Policast prices: for every resolved market, the odds some
+ * time before trading ended are compared with the resolved outcome.
+ *
+ * Odds at a moment come from price history: each option's last trade price
+ * before then (tokens per share / payout per share). Options that had not
+ * traded yet share what is left of the probability mass, and the result is
+ * normalized to sum to 1. Markets without any trade before a horizon are
+ * left out of that horizon.
+ *
+ * Multi-option markets are scored per option (one-vs-rest) for the
+ * calibration curve, and as a whole for the Brier and log scores.
+ */
+
+export const CALIBRATION_HORIZONS = {
+  "7d": 7 * 24 * 60 * 60,
+  "1d": 24 * 60 * 60,
+  "1h": 60 * 60,
+} as const;
+
+export type CalibrationHorizon = keyof typeof CALIBRATION_HORIZONS;
+
+// Calibration curve buckets: [0, 0.1), [0.1, 0.2), ... [0.9, 1]
+export const CALIBRATION_BINS = 10;
+
+// Log score floor so a 0% forecast on the winner stays finite
+const MIN_PROBABILITY = 1e-4;
+
+export interface PricedTrade {
+  optionId: number;
+  price: bigint; // 1e18-scaled tokens per share
+  timestamp: number; // unix seconds
+}
+
+export interface Forecast {
+  marketId: number;
+  category: number;
+  probabilities: number[]; // per option, sums to 1
+  winningOptionId: number;
+}
+
+export interface CalibrationBin {
+  lower: number;
+  upper: number;
+  forecasts: number; // option-level forecasts in the bucket
+  meanPredicted: number;
+  observedFrequency: number; // share of those options that won
+}
+
+export interface CalibrationScores {
+  markets: number;
+  brier: number; // mean multi-class Brier score, 0 (best) to 2
+  logScore: number; // mean ln(probability of the winner), 0 is best
+  bins: CalibrationBin[];
+}
+
+export interface HorizonReport {
+  overall: CalibrationScores;
+  byCategory: Record<number, CalibrationScores>;
+}
+
+export interface CalibrationReport {
+  generatedAt: number;
+  resolvedMarkets: number; // resolved, non-invalidated markets considered
+  horizons: Record<CalibrationHorizon, HorizonReport>;
+}
+
+// Odds implied by price history at `time`, or null if nothing traded yet
+export function probabilitiesAt(
+  trades: readonly PricedTrade[],
+  optionCount: number,
+  time: number
+): number[] | null {
+  const last: (number | null)[] = Array(optionCount).fill(null);
+  const lastAt: number[] = Array(optionCount).fill(-1);
+  for (const trade of trades) {
+    const { optionId, timestamp } = trade;
+    if (timestamp > time || optionId < 0 || optionId >= optionCount) continue;
+    if (timestamp >= lastAt[optionId]) {
+      lastAt[optionId] = timestamp;
+      last[optionId] = Number((trade.price * 10_000n) / PAYOUT_PER_SHARE) / 1e4;
+    }
+  }
+
+  const known = last.filter((p): p is number => p !== null);
+  if (known.length === 0) return null;
+
+  const knownSum = known.reduce((sum, p) => sum + p, 0);
+  const untraded = optionCount - known.length;
+  const fill = untraded > 0 ? Math.max(0, 1 - knownSum) / untraded : 0;
+  const raw = last.map((p) => p ?? fill);
+  const total = raw.reduce((sum, p) => sum + p, 0);
+  return total > 0 ? raw.map((p) => p / total) : null;
+}
+
+export function scoreForecasts(forecasts: readonly Forecast[]): CalibrationScores {
+  const bins = Array.from({ length: CALIBRATION_BINS }, (_, i) => ({
+    lower: i / CALIBRATION_BINS,
+    upper: (i + 1) / CALIBRATION_BINS,
+    forecasts: 0,
+    predictedSum: 0,
+    wins: 0,
+  }));
+  let brierSum = 0;
+  let logSum = 0;
+
+  for (const { probabilities, winningOptionId } of forecasts) {
+    probabilities.forEach((p, optionId) => {
+      const outcome = optionId === winningOptionId ? 1 : 0;
+      brierSum += (p - outcome) ** 2;
+      const bin =
+        bins[Math.min(CALIBRATION_BINS - 1, Math.floor(p * CALIBRATION_BINS))];
+      bin.forecasts += 1;
+      bin.predictedSum += p;
+      bin.wins += outcome;
+    });
+    logSum += Math.log(
+      Math.max(MIN_PROBABILITY, probabilities[winningOptionId] ?? 0)
+    );
+  }
+
+  const markets = forecasts.length;
+  return {
+    markets,
+    brier: markets > 0 ? brierSum / markets : 0,
+    logScore: markets > 0 ? logSum / markets : 0,
+    bins: bins.map(({ lower, upper, forecasts, predictedSum, wins }) => ({
+      lower,
+      upper,
+      forecasts,
+      meanPredicted: forecasts > 0 ? predictedSum / forecasts : 0,
+      observedFrequency: forecasts > 0 ? wins / forecasts : 0,
+    })),
+  };
+}
+
+// Overall and per-category scores for one horizon
+export function buildHorizonReport(
+  forecasts: readonly Forecast[]
+): HorizonReport {
+  const byCategory: Record<number, CalibrationScores> = {};
+  const categories = new Set(forecasts.map((f) => f.category));
+  for (const category of Array.from(categories)) {
+    byCategory[category] = scoreForecasts(
+      forecasts.filter((f) => f.category === category)
+    );
+  }
+  return { overall: scoreForecasts(forecasts), byCategory };
+}
@@ -0,0 +1,102 @@
+import { getKVStore } from "@/lib/kv-store";
+import { LMSR_SCALE } from "@/lib/lmsr";
+import { marketIndexer } from "@/lib/market-indexer";
+import { getPriceHistory } from "@/lib/subgraph";
+import {
+  buildCandles,
+  priceToProbability,
+  type CandleInterval,
+  type CandleSeries,
+  type PricePoint,
+} from "@/lib/candles";
+
+const keys = {
+  series: (marketId: number, optionId: number, interval: CandleInterval) =>
+    `candles:${marketId}:${optionId}:${interval}`,
+};
+
+// Longer candles change less often, so they are cached longer
+const CACHE_TTL_SECONDS: Record<CandleInterval, number> = {
+  "5m": 30,
+  "1h": 120,
+  "1d": 600,
+};
+
+// Subgraph pages of 1000 points; older history beyond this is dropped
+const SUBGRAPH_PAGE_SIZE = 1000;
+const SUBGRAPH_MAX_PAGES = 5;
+
+const toTokens = (amount: bigint) =>
+  Number((amount * 1_000_000n) / LMSR_SCALE) / 1_000_000;
+
+export class CandleService {
+  private store = getKVStore();
+
+  async getCandles(
+    marketId: number,
+    optionId: number,
+    interval: CandleInterval
+  ): Promise<CandleSeries> {
+    const key = keys.series(marketId, optionId, interval);
+    const cached = await this.store.get<CandleSeries>(key);
+    if (cached) return cached;
+
+    const { source, points } = await this.loadPoints(marketId, optionId);
+    const series: CandleSeries = {
+      marketId,
+      optionId,
+      interval,
+      source,
+      candles: buildCandles(points, interval),
+      updatedAt: Date.now(),
+    };
+    await this.store.set(key, series, { ex: CACHE_TTL_SECONDS[interval] });
+    return series;
+  }
+
+  // Prefer indexed TradeExecuted events; fall back to subgraph priceHistories
+  private async loadPoints(
+    marketId: number,
+    optionId: number
+  ): Promise<{ source: CandleSeries["source"]; points: PricePoint[] }> {
+    if (await marketIndexer.ensureFresh()) {
+      const trades = await marketIndexer.getMarketTrades(marketId);
+      return {
+        source: "indexer",
+        points: trades
+          .filter((t) => t.optionId === optionId)
+          .map((t) => {
+            const price = BigInt(t.price);
+            return {
+              timestamp: t.timestamp,
+              price: priceToProbability(price),
+              volume: toTokens((price * BigInt(t.quantity)) / LMSR_SCALE),
+            };
+          }),
+      };
+    }
+
+    const points: PricePoint[] = [];
+    for (let page = 0; page < SUBGRAPH_MAX_PAGES; page++) {
+      const history = await getPriceHistory(
+        marketId.toString(),
+        optionId.toString(),
+        SUBGRAPH_PAGE_SIZE,
+        page * SUBGRAPH_PAGE_SIZE,
+        "timestamp",
+        "desc"
+      );
+      for (const point of history) {
+        points.push({
+          timestamp: Number(point.timestamp),
+          price: priceToProbability(BigInt(point.price)),
+          volume: toTokens(BigInt(point.volume)),
+        });
+      }
+      if (history.length < SUBGRAPH_PAGE_SIZE) break;
+    }
+    return { source: "subgraph", points };
+  }
+}
+
+export const candleService = new CandleService();
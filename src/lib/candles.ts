@@ -0,0 +1,110 @@
+import { PAYOUT_PER_SHARE } from "@/lib/lmsr";
+
+/**
+ * OHLC candles for one option's price. Built from TradeExecuted events (or
+ * subgraph priceHistories) by candle-service.ts; prices are probabilities
+ * (0..1, trade price / payout per share) and volume is in tokens.
+ */
+
+export const CANDLE_INTERVALS = {
+  "5m": 5 * 60,
+  "1h": 60 * 60,
+  "1d": 24 * 60 * 60,
+} as const;
+
+export type CandleInterval = keyof typeof CANDLE_INTERVALS;
+
+// Most recent candles returned per request
+export const MAX_CANDLES = 500;
+
+export interface PricePoint {
+  timestamp: number; // unix seconds
+  price: number; // probability, 0..1
+  volume: number; // tokens
+}
+
+export interface Candle {
+  time: number; // bucket start, unix seconds
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  trades: number;
+}
+
+export interface CandleSeries {
+  marketId: number;
+  optionId: number;
+  interval: CandleInterval;
+  source: "indexer" | "subgraph";
+  candles: Candle[];
+  updatedAt: number;
+}
+
+export function isCandleInterval(value: string): value is CandleInterval {
+  return value in CANDLE_INTERVALS;
+}
+
+// 1e18-scaled tokens-per-share price to a probability
+export function priceToProbability(price: bigint): number {
+  return Number((price * 10_000n) / PAYOUT_PER_SHARE) / 10_000;
+}
+
+/**
+ * Bucket points into candles. Buckets without trades carry the previous
+ * close forward with zero volume so the series has no gaps; only the last
+ * `MAX_CANDLES` buckets are kept.
+ */
+export function buildCandles(
+  points: PricePoint[],
+  interval: CandleInterval
+): Candle[] {
+  if (points.length === 0) return [];
+  const seconds = CANDLE_INTERVALS[interval];
+  const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp);
+  const bucketOf = (timestamp: number) =>
+    Math.floor(timestamp / seconds) * seconds;
+
+  const first = bucketOf(sorted[0].timestamp);
+  const last = bucketOf(sorted[sorted.length - 1].timestamp);
+  const start = Math.max(first, last - (MAX_CANDLES - 1) * seconds);
+
+  // Close of everything before the window opens the first candle
+  let previousClose = sorted[0].price;
+  let i = 0;
+  while (i < sorted.length && bucketOf(sorted[i].timestamp) < start) {
+    previousClose = sorted[i].price;
+    i++;
+  }
+
+  const candles: Candle[] = [];
+  for (let time = start; time <= last; time += seconds) {
+    const candle: Candle = {
+      time,
+      open: previousClose,
+      high: previousClose,
+      low: previousClose,
+      close: previousClose,
+      volume: 0,
+      trades: 0,
+    };
+    while (i < sorted.length && bucketOf(sorted[i].timestamp) === time) {
+      const { price, volume } = sorted[i];
+      if (candle.trades === 0) {
+        candle.open = price;
+        candle.high = price;
+        candle.low = price;
+      }
+      candle.high = Math.max(candle.high, price);
+      candle.low = Math.min(candle.low, price);
+      candle.close = price;
+      candle.volume += volume;
+      candle.trades += 1;
+      i++;
+    }
+    previousClose = candle.close;
+    candles.push(candle);
+  }
+  return candles;
+}
@@ -0,0 +1,218 @@
+import { NeynarAPIClient } from "@neynar/nodejs-sdk";
+import { getKVStore, type KeyValueStore } from "@/lib/kv-store";
+import { marketIndexer, type IndexedMarket } from "@/lib/market-indexer";
+import {
+  CAST_CLOSING_LEAD_HOURS,
+  CAST_TEMPLATES,
+  renderCast,
+  type CastEventType,
+} from "@/lib/cast-bot";
+
+export interface MarketCast {
+  type: CastEventType;
+  marketId: number;
+  text: string;
+  embeds: string[];
+}
+
+export type CastStatus = "sent" | "dry_run" | "rate_limited" | "failed";
+
+export interface CastBotSummary {
+  dryRun: boolean;
+  bootstrapped: boolean; // first pass: existing markets were marked as seen
+  casts: (MarketCast & { status: CastStatus; hash?: string })[];
+}
+
+// Dry runs keep their own markers and counters so switching to live mode
+// does not skip anything
+export const castBotKeys = {
+  initialized: (mode: string) => `castbot:${mode}:initialized`,
+  sent: (mode: string, castId: string) => `castbot:${mode}:sent:${castId}`,
+  rate: (mode: string, window: number) => `castbot:${mode}:rate:${window}`,
+};
+
+interface CastBotServiceConfig {
+  store: KeyValueStore;
+  appUrl: string;
+  neynarApiKey?: string;
+  signerUuid?: string; // Neynar signer of the bot account
+  channelId?: string;
+  dryRun: boolean;
+  rateLimit: number; // casts per window
+  rateWindowSeconds: number;
+}
+
+const truncate = (text: string, max: number) =>
+  text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+export class CastBotService {
+  constructor(private readonly config: CastBotServiceConfig) {}
+
+  // Without a key and signer there is nothing to post with
+  get dryRun(): boolean {
+    return (
+      this.config.dryRun || !this.config.neynarApiKey || !this.config.signerUuid
+    );
+  }
+
+  private get mode() {
+    return this.dryRun ? "dry" : "live";
+  }
+
+  // Events a market currently qualifies for. Each is cast at most once.
+  dueEvents(market: IndexedMarket, now: number): CastEventType[] {
+    const secondsLeft = Number(market.endTime) - now;
+    const open =
+      market.validated &&
+      !market.resolved &&
+      !market.invalidated &&
+      secondsLeft > 0;
+    const events: CastEventType[] = [];
+    if (open) events.push("market_validated");
+    if (open && secondsLeft <= CAST_CLOSING_LEAD_HOURS * 3600) {
+      events.push("market_closing");
+    }
+    if (market.resolved && !market.invalidated) {
+      events.push("market_resolved");
+    }
+    return events;
+  }
+
+  buildCast(
+    type: CastEventType,
+    market: IndexedMarket,
+    now: number
+  ): MarketCast {
+    const { appUrl } = this.config;
+    const endTime = Number(market.endTime);
+    const text = renderCast(CAST_TEMPLATES[type], {
+      question: market.question,
+      options: truncate(market.options.join(" / "), 120),
+      closes: `${new Date(endTime * 1000)
+        .toISOString()
+        .slice(0, 16)
+        .replace("T", " ")} UTC`,
+      hours: Math.max(1, Math.round((endTime - now) / 3600)),
+      winner:
+        market.winningOptionId !== null
+          ? market.options[market.winningOptionId] ?? ""
+          : "",
+    });
+    return {
+      type,
+      marketId: market.marketId,
+      text,
+      embeds: [
+        `${appUrl}/api/market-image?marketId=${market.marketId}`,
+        `${appUrl}/market/${market.marketId}`,
+      ],
+    };
+  }
+
+  private async publish(
+    cast: MarketCast,
+    castId: string
+  ): Promise<{ status: CastStatus; hash?: string }> {
+    const { store, rateWindowSeconds, rateLimit } = this.config;
+    const window = Math.floor(Date.now() / 1000 / rateWindowSeconds);
+    const count = await store.incr(castBotKeys.rate(this.mode, window), {
+      ex: rateWindowSeconds,
+    });
+    if (count > rateLimit) return { status: "rate_limited" };
+
+    if (this.dryRun) {
+      console.log(
+        `[cast-bot dry run] ${cast.type} market ${cast.marketId}:\n` +
+          `${cast.text}\n${cast.embeds.join("\n")}`
+      );
+      return { status: "dry_run" };
+    }
+
+    try {
+      const neynar = new NeynarAPIClient({
+        apiKey: this.config.neynarApiKey!,
+      });
+      const response = await neynar.publishCast({
+        signerUuid: this.config.signerUuid!,
+        text: cast.text,
+        embeds: cast.embeds.map((url) => ({ url })),
+        channelId: this.config.channelId,
+        idem: castId, // Neynar drops retries of the same cast
+      });
+      return { status: "sent", hash: response.cast.hash };
+    } catch (error) {
+      console.error(`Cast ${castId} failed:`, error);
+      return { status: "failed" };
+    }
+  }
+
+  /**
+   * One pass over indexed markets.
+   *
+   * A cast is due while its condition holds and no sent marker exists, so
+   * rate-limited or failed casts are retried on the next pass (closing
+   * casts only until the market ends). The first pass marks the events of
+   * existing markets as sent without casting, so enabling the bot does not
+   * announce the whole history. That baseline is only taken from a
+   * caught-up index: a partial backfill would leave later-indexed markets
+   * unmarked and the next pass would cast their whole history.
+   */
+  async run(): Promise<CastBotSummary> {
+    const { store } = this.config;
+    const now = Math.floor(Date.now() / 1000);
+    const bootstrapped = !(await store.get(
+      castBotKeys.initialized(this.mode)
+    ));
+    if (bootstrapped && !(await marketIndexer.isReady())) {
+      console.warn("Cast bot: indexer not caught up, deferring first pass");
+      return { dryRun: this.dryRun, bootstrapped: false, casts: [] };
+    }
+    const summary: CastBotSummary = {
+      dryRun: this.dryRun,
+      bootstrapped,
+      casts: [],
+    };
+
+    for (const marketId of await marketIndexer.getMarketIds()) {
+      const market = await marketIndexer.getMarket(marketId);
+      if (!market) continue;
+
+      for (const type of this.dueEvents(market, now)) {
+        const castId = `${type}-${marketId}`;
+        const sentKey = castBotKeys.sent(this.mode, castId);
+        if (await store.get(sentKey)) continue;
+
+        if (bootstrapped) {
+          await store.set(sentKey, now);
+          continue;
+        }
+
+        const cast = this.buildCast(type, market, now);
+        const result = await this.publish(cast, castId);
+        summary.casts.push({ ...cast, ...result });
+        if (result.status === "sent" || result.status === "dry_run") {
+          await store.set(sentKey, now);
+        }
+        // At most one cast per market per pass: a market validated close to
+        // its end gets the closing cast on the next run
+        break;
+      }
+    }
+
+    if (bootstrapped) {
+      await store.set(castBotKeys.initialized(this.mode), now);
+    }
+    return summary;
+  }
+}
+
+export const castBotService = new CastBotService({
+  store: getKVStore(),
+  appUrl: process.env.NEXT_PUBLIC_APP_URL || "https://buster-mkt.vercel.app",
+  neynarApiKey: process.env.NEYNAR_API_KEY || undefined,
+  signerUuid: process.env.CAST_BOT_SIGNER_UUID || undefined,
+  channelId: process.env.CAST_BOT_CHANNEL_ID || undefined,
+  dryRun: process.env.CAST_BOT_DRY_RUN !== "false",
+  rateLimit: Number(process.env.CAST_BOT_RATE_LIMIT || 10),
+  rateWindowSeconds: Number(process.env.CAST_BOT_RATE_WINDOW_SECONDS || 3600),
+});
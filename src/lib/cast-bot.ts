@@ -0,0 +1,55 @@
+/**
+ * Casts posted by the market bot account, one per market lifecycle event.
+ *
+ * Templates use `{name}` placeholders filled by renderCast. Unknown
+ * placeholders render empty.
+ */
+
+export type CastEventType =
+  | "market_validated"
+  | "market_closing"
+  | "market_resolved";
+
+export const CAST_TEMPLATES: Record<CastEventType, string> = {
+  market_validated:
+    "🆕 New market: {question}\n\nOptions: {options}\nCloses {closes}",
+  market_closing:
+    "⏳ Closing in {hours}h: {question}\n\nLast chance to trade.",
+  market_resolved:
+    "✅ Resolved: {question}\n\nWinning outcome: {winner}. " +
+    "Winners can claim now.",
+};
+
+// Farcaster rejects casts over 320 bytes
+export const MAX_CAST_BYTES = 320;
+
+// Hours before endTime at which the closing cast goes out
+export const CAST_CLOSING_LEAD_HOURS = 24;
+
+export type CastVariables = Record<string, string | number>;
+
+function fill(template: string, variables: CastVariables): string {
+  return template.replace(/\{(\w+)\}/g, (_, name: string) =>
+    variables[name] !== undefined ? String(variables[name]) : ""
+  );
+}
+
+const byteLength = (text: string) => new TextEncoder().encode(text).length;
+
+// Fill a template, shortening the question until the cast fits
+export function renderCast(
+  template: string,
+  variables: CastVariables & { question: string }
+): string {
+  let question = variables.question;
+  let text = fill(template, variables);
+  while (byteLength(text) > MAX_CAST_BYTES && question.length > 0) {
+    const overflow = byteLength(text) - MAX_CAST_BYTES;
+    question = question.slice(0, Math.max(0, question.length - overflow - 1));
+    text = fill(template, {
+      ...variables,
+      question: `${question.trimEnd()}…`,
+    });
+  }
+  return text;
+}
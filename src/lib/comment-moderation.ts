@@ -0,0 +1,162 @@
+import { buildSignedMessage } from "@/lib/resolution-evidence";
+
+/**
+ * Comment moderation: user reports, the moderator queue, hide/delete,
+ * per-address mutes and bans, and the audit log.
+ *
+ * Moderators are MARKET_VALIDATOR_ROLE holders or admins. Their actions are
+ * signed with the wallet (personal_sign) and every one is written to the
+ * audit log.
+ */
+
+export type CommentStatus = "visible" | "hidden" | "deleted";
+
+export type ReportReason = "spam" | "abuse" | "misinformation" | "other";
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  spam: "Spam",
+  abuse: "Harassment or abuse",
+  misinformation: "Misleading resolution info",
+  other: "Other",
+};
+
+export type ReportStatus = "open" | "actioned" | "dismissed";
+
+export type SanctionType = "mute" | "ban";
+
+export type ModerationAction =
+  | "hide"
+  | "unhide"
+  | "delete"
+  | "dismiss"
+  | "mute"
+  | "ban"
+  | "lift";
+
+export const COMMENT_ACTIONS: ModerationAction[] = [
+  "hide",
+  "unhide",
+  "delete",
+  "dismiss",
+];
+export const SANCTION_ACTIONS: ModerationAction[] = ["mute", "ban", "lift"];
+
+export const MUTE_DURATION_OPTIONS = [1, 24, 24 * 7]; // hours
+export const MAX_REPORT_DETAILS_LENGTH = 500;
+
+export interface CommentReport {
+  id: string;
+  commentId: string;
+  reporter: string;
+  reason: ReportReason;
+  details?: string;
+  status: ReportStatus;
+  createdAt: string;
+}
+
+export interface UserSanction {
+  id: string;
+  address: string;
+  type: SanctionType;
+  reason?: string;
+  expiresAt?: string; // mutes only; bans are permanent until lifted
+  createdBy: string;
+  createdAt: string;
+  liftedAt?: string;
+}
+
+export interface ModerationLogEntry {
+  id: string;
+  moderator: string;
+  action: ModerationAction;
+  targetType: "comment" | "address";
+  targetId: string;
+  reason?: string;
+  details?: Record<string, unknown>;
+  createdAt: string;
+}
+
+// Queue entry: one reported comment with all of its open reports
+export interface ModerationQueueItem {
+  comment: {
+    id: string;
+    marketId: string;
+    content: string;
+    author?: string;
+    status: CommentStatus;
+    createdAt: string;
+  } | null;
+  commentId: string;
+  reports: CommentReport[];
+  authorSanction: UserSanction | null;
+}
+
+export const isSanctionActive = (sanction: UserSanction, now = Date.now()) =>
+  !sanction.liftedAt &&
+  (!sanction.expiresAt || new Date(sanction.expiresAt).getTime() > now);
+
+export function buildModerationMessage(
+  action: ModerationAction,
+  fields: Record<string, string | number>,
+  issuedAt: number
+): string {
+  return buildSignedMessage(
+    `Policast moderation: ${action}`,
+    fields,
+    issuedAt
+  );
+}
+
+// Signed field set, shared by the moderator UI and the API route
+export function moderationFields(input: {
+  target: string; // comment id or address
+  reason?: string;
+  durationHours?: number;
+}) {
+  return {
+    Target: input.target.toLowerCase(),
+    Reason: input.reason ?? "",
+    Duration: input.durationHours ? `${input.durationHours}h` : "",
+  };
+}
+
+const REMOVED_TEXT: Record<Exclude<CommentStatus, "visible">, string> = {
+  hidden: "[hidden by a moderator]",
+  deleted: "[removed by a moderator]",
+};
+
+interface ThreadComment {
+  content: string;
+  status?: CommentStatus;
+  user?: { address: string };
+  replies?: ThreadComment[];
+}
+
+/**
+ * Strip moderated content from a comment thread before it is returned to
+ * readers. Hidden/deleted comments and comments by banned addresses keep a
+ * placeholder when they still have replies, and are dropped otherwise.
+ */
+export function redactThread<T extends ThreadComment>(
+  comments: T[],
+  bannedAddresses: Set<string>
+): T[] {
+  return comments.flatMap((comment) => {
+    const replies = comment.replies
+      ? redactThread(comment.replies as T[], bannedAddresses)
+      : comment.replies;
+    const banned =
+      !!comment.user &&
+      bannedAddresses.has(comment.user.address.toLowerCase());
+    const status = comment.status ?? "visible";
+    if (status === "visible" && !banned) return [{ ...comment, replies }];
+    if (!replies || replies.length === 0) return [];
+    return [
+      {
+        ...comment,
+        content: REMOVED_TEXT[status === "visible" ? "hidden" : status],
+        replies,
+      },
+    ];
+  });
+}
@@ -0,0 +1,68 @@
+import { publicClient, V2contractAddress, V2contractAbi } from "@/constants/contract";
+
+// AccessControl role ids on the V2 contract
+export const QUESTION_CREATOR_ROLE =
+  "0xef485be696bbc0c91ad541bbd553ffb5bd0e18dac30ba76e992dda23cb807a8a";
+export const QUESTION_RESOLVE_ROLE =
+  "0xdcee1d35c83a32b436264a5c9afd68685c124f3f9097e87804c55410e67fc59a";
+export const MARKET_VALIDATOR_ROLE =
+  "0xd486618b282cb35034d59c30c062b5b3822d6cdf87ec459191ce7f5b7b8a4873";
+export const DEFAULT_ADMIN_ROLE =
+  "0x0000000000000000000000000000000000000000000000000000000000000000";
+export const PAUSER_ROLE =
+  "0x65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a";
+
+async function hasRole(role: string, address: string): Promise<boolean> {
+  try {
+    return Boolean(
+      await publicClient.readContract({
+        address: V2contractAddress,
+        abi: V2contractAbi,
+        functionName: "hasRole",
+        args: [role as `0x${string}`, address as `0x${string}`],
+      })
+    );
+  } catch (error) {
+    console.error(`Failed to check role ${role} for ${address}:`, error);
+    return false;
+  }
+}
+
+async function isOwner(address: string): Promise<boolean> {
+  try {
+    const owner = (await publicClient.readContract({
+      address: V2contractAddress,
+      abi: V2contractAbi,
+      functionName: "owner",
+    })) as string;
+    return owner.toLowerCase() === address.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+// Server-side equivalents of the useUserRoles helpers
+export async function checkAdminAccess(address: string): Promise<boolean> {
+  return (await isOwner(address)) || (await hasRole(DEFAULT_ADMIN_ROLE, address));
+}
+
+export async function checkCreatorAccess(address: string): Promise<boolean> {
+  return (
+    (await hasRole(QUESTION_CREATOR_ROLE, address)) ||
+    (await checkAdminAccess(address))
+  );
+}
+
+export async function checkResolverAccess(address: string): Promise<boolean> {
+  return (
+    (await hasRole(QUESTION_RESOLVE_ROLE, address)) ||
+    (await checkAdminAccess(address))
+  );
+}
+
+export async function checkValidatorAccess(address: string): Promise<boolean> {
+  return (
+    (await hasRole(MARKET_VALIDATOR_ROLE, address)) ||
+    (await checkAdminAccess(address))
+  );
+}
@@ -0,0 +1,108 @@
+import { isAddress, keccak256 } from "viem";
+import { publicClient } from "@/constants/contract";
+import { getKVStore } from "@/lib/kv-store";
+import { fetchUrlMetadata, isValidUrl } from "@/lib/url-metadata";
+import {
+  MAX_RATIONALE_LENGTH,
+  SIGNATURE_MAX_AGE_MS,
+  buildEvidenceMessage,
+  normalizeSourceUrls,
+  type EvidenceAction,
+  type EvidenceSource,
+} from "@/lib/resolution-evidence";
+
+export interface SignedSubmission {
+  address: string;
+  signature: `0x${string}`;
+  issuedAt: number;
+}
+
+/**
+ * Check a signed evidence/dispute submission. Returns an error message, or
+ * null when the signature matches the rebuilt message. Uses the public
+ * client so smart-contract wallets (ERC-1271/6492) verify too.
+ */
+export async function verifySubmission(
+  action: EvidenceAction,
+  fields: Record<string, string | number>,
+  submission: Partial<SignedSubmission>
+): Promise<string | null> {
+  return verifySignedMessage(
+    (issuedAt) => buildEvidenceMessage(action, fields, issuedAt),
+    submission
+  );
+}
+
+// Signatures are single-use: the marker outlives the accepted issue window
+// on either side, so a captured signature cannot be replayed
+const usedSignatureKey = (signature: `0x${string}`) =>
+  `signature:used:${keccak256(signature)}`;
+const USED_SIGNATURE_TTL_SECONDS = (2 * SIGNATURE_MAX_AGE_MS) / 1000;
+
+// Same checks for any personal_sign payload built from the issue time
+export async function verifySignedMessage(
+  buildMessage: (issuedAt: number) => string,
+  submission: Partial<SignedSubmission>
+): Promise<string | null> {
+  const { address, signature, issuedAt } = submission;
+  if (!address || !isAddress(address) || !signature || !issuedAt) {
+    return "Address, signature and issuedAt are required";
+  }
+  if (Math.abs(Date.now() - Number(issuedAt)) > SIGNATURE_MAX_AGE_MS) {
+    return "Signature expired, please sign again";
+  }
+
+  try {
+    const valid = await publicClient.verifyMessage({
+      address,
+      message: buildMessage(Number(issuedAt)),
+      signature,
+    });
+    if (!valid) return "Invalid signature";
+  } catch (error) {
+    console.error("Signature verification failed:", error);
+    return "Invalid signature";
+  }
+
+  const uses = await getKVStore().incr(usedSignatureKey(signature), {
+    ex: USED_SIGNATURE_TTL_SECONDS,
+  });
+  return uses === 1 ? null : "Signature already used, please sign again";
+}
+
+// Market ids arrive as JSON numbers or decimal strings
+export function isMarketId(value: unknown): value is string | number {
+  return (
+    (typeof value === "string" || typeof value === "number") &&
+    /^\d+$/.test(String(value))
+  );
+}
+
+export function validateRationale(text: unknown): string | null {
+  if (typeof text !== "string" || !text.trim()) {
+    return "A rationale is required";
+  }
+  if (text.length > MAX_RATIONALE_LENGTH) {
+    return `Rationale must be at most ${MAX_RATIONALE_LENGTH} characters`;
+  }
+  return null;
+}
+
+// Run each source URL through the url-metadata pipeline
+export async function loadEvidenceSources(
+  urls: unknown
+): Promise<{ sources: EvidenceSource[]; error?: string }> {
+  if (urls !== undefined && !Array.isArray(urls)) {
+    return { sources: [], error: "sourceUrls must be an array" };
+  }
+  const normalized = normalizeSourceUrls((urls as string[] | undefined) ?? []);
+  const invalid = normalized.find((url) => !isValidUrl(url));
+  if (invalid) {
+    return { sources: [], error: `Invalid source URL: ${invalid}` };
+  }
+
+  const sources = await Promise.all(
+    normalized.map(async (url) => ({ url, ...(await fetchUrlMetadata(url)) }))
+  );
+  return { sources };
+}
@@ -0,0 +1,119 @@
+import {
+  publicClient,
+  V2contractAddress,
+  V2contractAbi,
+} from "@/constants/contract";
+import { marketIndexer, type IndexedMarket } from "@/lib/market-indexer";
+import {
+  ACCURACY_WINDOWS,
+  rankForecasters,
+  revealedProbability,
+  scoreMarket,
+  type ForecasterScore,
+  type TradeForecast,
+} from "@/lib/forecaster-accuracy";
+import type { TimeFrame } from "@/types/leaderboard";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+export class ForecasterAccuracyService {
+  // Rank forecasters over markets that closed within the timeframe; needs a
+  // synced indexer
+  async getLeaderboard(timeframe: TimeFrame): Promise<ForecasterScore[]> {
+    if (!(await marketIndexer.ensureFresh())) {
+      throw new Error("Market indexer has not synced yet");
+    }
+
+    const window = ACCURACY_WINDOWS[timeframe];
+    const since = window ? Math.floor(Date.now() / 1000) - window : 0;
+    const markets = (
+      await Promise.all(
+        (await marketIndexer.getMarketIds()).map((id) =>
+          marketIndexer.getMarket(id)
+        )
+      )
+    ).filter(
+      (m): m is IndexedMarket =>
+        m !== null &&
+        m.resolved &&
+        !m.invalidated &&
+        m.winningOptionId !== null &&
+        Number(m.endTime) >= since
+    );
+    const liquidity = await this.loadLiquidity(markets);
+
+    const marketScores = new Map<string, number[]>();
+    const forecastCounts = new Map<string, number>();
+    const contract = V2contractAddress.toLowerCase();
+    const isTrader = (address: string) =>
+      !!address && address !== ZERO_ADDRESS && address !== contract;
+
+    for (const market of markets) {
+      const b = liquidity.get(market.marketId);
+      if (!b) continue;
+
+      const forecasts = new Map<string, TradeForecast[]>();
+      for (const trade of await marketIndexer.getMarketTrades(
+        market.marketId
+      )) {
+        const buyer = trade.buyer.toLowerCase();
+        const seller = trade.seller.toLowerCase();
+        const user = isTrader(buyer) ? buyer : isTrader(seller) ? seller : null;
+        if (!user) continue;
+
+        const quantity = BigInt(trade.quantity);
+        const forecast: TradeForecast = {
+          optionId: trade.optionId,
+          probability: revealedProbability(
+            BigInt(trade.price),
+            user === buyer ? quantity : -quantity,
+            b
+          ),
+          timestamp: trade.timestamp,
+        };
+        forecasts.set(user, [...(forecasts.get(user) ?? []), forecast]);
+      }
+
+      forecasts.forEach((userForecasts, user) => {
+        const score = scoreMarket(
+          userForecasts,
+          Number(market.endTime),
+          market.winningOptionId as number
+        );
+        if (score === null) return;
+        marketScores.set(user, [...(marketScores.get(user) ?? []), score]);
+        forecastCounts.set(
+          user,
+          (forecastCounts.get(user) ?? 0) + userForecasts.length
+        );
+      });
+    }
+
+    return rankForecasters(marketScores, forecastCounts);
+  }
+
+  // LMSR liquidity parameter per market from getMarketLMSRB, one multicall
+  private async loadLiquidity(
+    markets: IndexedMarket[]
+  ): Promise<Map<number, bigint>> {
+    const results = await publicClient.multicall({
+      contracts: markets.map((m) => ({
+        address: V2contractAddress as `0x${string}`,
+        abi: V2contractAbi,
+        functionName: "getMarketLMSRB" as const,
+        args: [BigInt(m.marketId)],
+      })),
+      allowFailure: true,
+    });
+
+    const liquidity = new Map<number, bigint>();
+    results.forEach((result, i) => {
+      if (result.status === "success" && (result.result as bigint) > 0n) {
+        liquidity.set(markets[i].marketId, result.result as bigint);
+      }
+    });
+    return liquidity;
+  }
+}
+
+export const forecasterAccuracyService = new ForecasterAccuracyService();
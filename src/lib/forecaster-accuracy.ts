@@ -0,0 +1,105 @@
+import { PAYOUT_PER_SHARE } from "@/lib/lmsr";
+import type { TimeFrame } from "@/types/leaderboard";
+
+/**
+ * Forecaster accuracy: every trade in a resolved market is read as a
+ * forecast and scored against the outcome with the Brier score.
+ *
+ * A trade's forecast is the probability the trader moved the option to.
+ * With LMSR, buying (or selling) `d` shares of one option from odds p0 to p1
+ * fills at an average price a, where, with u = d / b:
+ *
+ *   a·u = ln((1 - p0) / (1 - p1))    and    u = ln(p1 (1 - p0) / (p0 (1 - p1)))
+ *
+ * so p0 = expm1(a·u) / expm1(u) and p1 = p0 · exp(u - a·u). Buyers push the
+ * odds up and sellers push them down, so the same fill scores differently
+ * depending on the side taken.
+ *
+ * Scores are time-weighted: a forecast stands until the trader's next trade
+ * in that option or the market closes, and counts in proportion to how long
+ * it stood. Early, correct calls score best; a user's score is the mean over
+ * their markets, 0 (perfect) to 1.
+ */
+
+// Users need forecasts in this many resolved markets to be ranked
+export const MIN_SCORED_MARKETS = 3;
+
+// Markets that closed within the window are scored; null means all time
+export const ACCURACY_WINDOWS: Record<TimeFrame, number | null> = {
+  all: null,
+  monthly: 30 * 24 * 60 * 60,
+  weekly: 7 * 24 * 60 * 60,
+};
+
+export interface TradeForecast {
+  optionId: number;
+  probability: number; // odds the trade moved the option to
+  timestamp: number; // unix seconds
+}
+
+export interface ForecasterScore {
+  address: string;
+  brier: number; // mean time-weighted Brier score, 0 is best
+  markets: number;
+  forecasts: number;
+}
+
+const clamp = (p: number) => Math.min(1, Math.max(0, p));
+
+// Odds after a fill of `delta` shares (negative for sells) at `price`
+export function revealedProbability(
+  price: bigint,
+  delta: bigint,
+  b: bigint
+): number {
+  const average = Number(price) / Number(PAYOUT_PER_SHARE);
+  const u = b > 0n ? Number(delta) / Number(b) : 0;
+  if (u === 0 || average <= 0 || average >= 1) return clamp(average);
+
+  const before = Math.expm1(average * u) / Math.expm1(u);
+  return clamp(before * Math.exp(u - average * u));
+}
+
+// One user's time-weighted Brier score in one market, or null if none of
+// their forecasts stood before the market closed
+export function scoreMarket(
+  forecasts: readonly TradeForecast[],
+  endTime: number,
+  winningOptionId: number
+): number | null {
+  const sorted = forecasts
+    .filter((f) => f.timestamp < endTime)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  let weighted = 0;
+  let totalWeight = 0;
+
+  sorted.forEach((forecast, i) => {
+    const next = sorted
+      .slice(i + 1)
+      .find((f) => f.optionId === forecast.optionId);
+    const weight = (next?.timestamp ?? endTime) - forecast.timestamp;
+    if (weight <= 0) return;
+    const outcome = forecast.optionId === winningOptionId ? 1 : 0;
+    weighted += weight * (forecast.probability - outcome) ** 2;
+    totalWeight += weight;
+  });
+
+  return totalWeight > 0 ? weighted / totalWeight : null;
+}
+
+// Users with enough scored markets, best (lowest) Brier first
+export function rankForecasters(
+  marketScores: ReadonlyMap<string, readonly number[]>,
+  forecastCounts: ReadonlyMap<string, number>,
+  minMarkets = MIN_SCORED_MARKETS
+): ForecasterScore[] {
+  return Array.from(marketScores.entries())
+    .filter(([, scores]) => scores.length >= minMarkets)
+    .map(([address, scores]) => ({
+      address,
+      brier: scores.reduce((sum, s) => sum + s, 0) / scores.length,
+      markets: scores.length,
+      forecasts: forecastCounts.get(address) ?? 0,
+    }))
+    .sort((a, b) => a.brier - b.brier || b.markets - a.markets);
+}
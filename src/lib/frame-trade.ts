@@ -0,0 +1,259 @@
+import { encodeFunctionData, parseUnits } from "viem";
+import { base } from "wagmi/chains";
+import {
+  publicClient,
+  tokenAddress,
+  tokenAbi,
+  V2contractAddress,
+  V2contractAbi,
+  PolicastViews,
+  PolicastViewsAbi,
+} from "@/constants/contract";
+import { fetchLMSRState } from "@/lib/lmsr-state";
+import {
+  applyTrade,
+  marginalPrices,
+  quoteBuy,
+  type BuyQuote,
+} from "@/lib/lmsr";
+import { DEFAULT_TRADE_SETTINGS, buyLimits } from "@/lib/trade-settings";
+
+/**
+ * Trading from a cast. The frame walks through:
+ *
+ *   overview → details (amount input + one Buy button per option)
+ *            → confirm (post-trade odds preview, "Buy" tx button)
+ *            → approve tx when the allowance is short, then buyShares tx
+ *            → done
+ *
+ * Frame transactions carry one call each, so approve and buyShares are two
+ * wallet prompts. /api/frame-action/tx re-quotes at signing time with the
+ * default slippage and checks the viewer's allowance to pick the call.
+ */
+
+export type FrameView = "overview" | "details" | "confirm" | "done";
+
+export interface FrameState {
+  marketId: string;
+  view?: FrameView;
+  page?: number; // details: which options the Buy buttons cover
+  optionId?: number; // confirm: the option being bought
+  quantity?: string; // confirm: 1e18-scaled shares
+}
+
+// Frames allow four buttons; long option lists page three at a time
+export const FRAME_MAX_BUTTONS = 4;
+export const FRAME_OPTIONS_PER_PAGE = FRAME_MAX_BUTTONS - 1;
+
+export const FRAME_DEFAULT_SHARES = "10";
+export const FRAME_MAX_SHARES = 10000;
+
+export const FRAME_CHAIN_ID = `eip155:${base.id}`;
+
+export interface FrameMarket {
+  marketId: number;
+  options: string[];
+  tradable: boolean;
+}
+
+// Response body for a frame transaction button
+export interface FrameTransaction {
+  chainId: string;
+  method: "eth_sendTransaction";
+  params: {
+    abi: unknown[];
+    to: `0x${string}`;
+    data: `0x${string}`;
+    value: string;
+  };
+}
+
+export function encodeFrameState(state: FrameState): string {
+  return Buffer.from(JSON.stringify(state)).toString("base64");
+}
+
+// Accepts base64 JSON (what we emit) or URI-encoded JSON
+export function decodeFrameState(
+  raw: string | undefined
+): Partial<FrameState> {
+  if (!raw) return {};
+  try {
+    if (raw.match(/^[A-Za-z0-9+/=]+$/)) {
+      return JSON.parse(atob(raw));
+    }
+    return JSON.parse(decodeURIComponent(raw));
+  } catch (e) {
+    console.error("Frame: Failed to parse state:", e);
+    return {};
+  }
+}
+
+// Whole or decimal share count from the frame's text input, 1e18-scaled
+export function parseFrameShares(input: string | undefined): bigint {
+  const text = input?.trim() || FRAME_DEFAULT_SHARES;
+  if (!/^\d+(\.\d{1,18})?$/.test(text)) {
+    throw new Error("Enter a number of shares, e.g. 10");
+  }
+  const shares = parseUnits(text, 18);
+  if (shares <= 0n) throw new Error("Enter more than 0 shares");
+  if (shares > BigInt(FRAME_MAX_SHARES) * 10n ** 18n) {
+    throw new Error(`Maximum ${FRAME_MAX_SHARES} shares per trade`);
+  }
+  return shares;
+}
+
+// Share count carried in the confirm view's state. The state comes back
+// from the client, so the same bounds as the text input are enforced again.
+export function parseFrameQuantity(raw: unknown): bigint {
+  if (typeof raw !== "string" || !/^\d+$/.test(raw)) {
+    throw new Error("Pick an option and amount first");
+  }
+  const quantity = BigInt(raw);
+  if (quantity <= 0n) throw new Error("Enter more than 0 shares");
+  if (quantity > BigInt(FRAME_MAX_SHARES) * 10n ** 18n) {
+    throw new Error(`Maximum ${FRAME_MAX_SHARES} shares per trade`);
+  }
+  return quantity;
+}
+
+// Option names and tradability of a V2 market; null for V1 / unknown ids
+export async function fetchFrameMarket(
+  marketId: number
+): Promise<FrameMarket | null> {
+  try {
+    const [optionCount, tradable] = await Promise.all([
+      publicClient.readContract({
+        address: PolicastViews,
+        abi: PolicastViewsAbi,
+        functionName: "getMarketOptionCount",
+        args: [BigInt(marketId)],
+      }),
+      publicClient.readContract({
+        address: PolicastViews,
+        abi: PolicastViewsAbi,
+        functionName: "isMarketTradable",
+        args: [BigInt(marketId)],
+      }),
+    ]);
+    if (Number(optionCount) === 0) return null;
+
+    const results = await publicClient.multicall({
+      contracts: Array.from({ length: Number(optionCount) }, (_, i) => ({
+        address: V2contractAddress as `0x${string}`,
+        abi: V2contractAbi,
+        functionName: "getMarketOption" as const,
+        args: [BigInt(marketId), BigInt(i)],
+      })),
+      allowFailure: true,
+    });
+    return {
+      marketId,
+      options: results.map((r, i) =>
+        r.status === "success"
+          ? String((r.result as readonly unknown[])[0])
+          : `Option ${i + 1}`
+      ),
+      tradable,
+    };
+  } catch (error) {
+    console.error(`Frame: market ${marketId} is not a V2 market:`, error);
+    return null;
+  }
+}
+
+export interface FrameBuyPreview {
+  quote: BuyQuote;
+  maxPricePerShare: bigint;
+  maxTotalCost: bigint;
+  before: bigint[]; // odds, 1e18-scaled
+  after: bigint[];
+}
+
+// Fresh quote plus odds before and after the buy
+export async function previewFrameBuy(
+  marketId: number,
+  optionId: number,
+  quantity: bigint
+): Promise<FrameBuyPreview> {
+  const { state, tradable } = await fetchLMSRState(marketId);
+  if (!state) throw new Error("Market state unavailable");
+  if (!tradable) throw new Error("Market is not open for trading");
+  if (optionId < 0 || optionId >= state.shares.length) {
+    throw new Error("Invalid option");
+  }
+
+  const quote = quoteBuy(state, optionId, quantity);
+  return {
+    quote,
+    ...buyLimits(quote, DEFAULT_TRADE_SETTINGS),
+    before: marginalPrices(state),
+    after: marginalPrices(applyTrade(state, optionId, quantity)),
+  };
+}
+
+// Only the called function's ABI fragment is sent for the wallet to decode
+const functionAbi = (
+  abi: readonly { type: string; name?: string }[],
+  name: string
+) => abi.filter((item) => item.type === "function" && item.name === name);
+
+export function approveTransaction(amount: bigint): FrameTransaction {
+  return {
+    chainId: FRAME_CHAIN_ID,
+    method: "eth_sendTransaction",
+    params: {
+      abi: functionAbi(tokenAbi, "approve"),
+      to: tokenAddress as `0x${string}`,
+      data: encodeFunctionData({
+        abi: tokenAbi,
+        functionName: "approve",
+        args: [V2contractAddress, amount],
+      }),
+      value: "0",
+    },
+  };
+}
+
+export function buySharesTransaction(
+  marketId: number,
+  optionId: number,
+  quantity: bigint,
+  preview: Pick<FrameBuyPreview, "maxPricePerShare" | "maxTotalCost">
+): FrameTransaction {
+  return {
+    chainId: FRAME_CHAIN_ID,
+    method: "eth_sendTransaction",
+    params: {
+      abi: functionAbi(V2contractAbi, "buyShares"),
+      to: V2contractAddress as `0x${string}`,
+      data: encodeFunctionData({
+        abi: V2contractAbi,
+        functionName: "buyShares",
+        args: [
+          BigInt(marketId),
+          BigInt(optionId),
+          quantity,
+          preview.maxPricePerShare,
+          preview.maxTotalCost,
+        ],
+      }),
+      value: "0",
+    },
+  };
+}
+
+// Which call a completed frame transaction made: the approval goes to the
+// token, the buy to the V2 contract
+export async function frameTransactionKind(
+  hash: `0x${string}`
+): Promise<"approve" | "buy" | "unknown"> {
+  try {
+    const tx = await publicClient.getTransaction({ hash });
+    const to = tx.to?.toLowerCase();
+    if (to === tokenAddress.toLowerCase()) return "approve";
+    if (to === V2contractAddress.toLowerCase()) return "buy";
+  } catch (error) {
+    console.error(`Frame: could not load transaction ${hash}:`, error);
+  }
+  return "unknown";
+}
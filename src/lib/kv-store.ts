@@ -0,0 +1,209 @@
+import { kv } from "@vercel/kv";
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Minimal key-value interface shared by server-side services.
+ *
+ * In production this is backed by Vercel KV (same store the webhook route
+ * writes notification tokens to). When KV is not configured (local dev,
+ * anvil testing) an in-memory stand-in is used instead, optionally persisted
+ * to a JSON file via LOCAL_KV_PATH so state survives restarts.
+ */
+export interface KeyValueStore {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, options?: { ex?: number }): Promise<void>;
+  del(key: string): Promise<void>;
+  // Counter increment; the TTL is applied when the counter is created
+  incr(key: string, options?: { ex?: number }): Promise<number>;
+  sadd(key: string, ...members: string[]): Promise<void>;
+  srem(key: string, ...members: string[]): Promise<void>;
+  smembers(key: string): Promise<string[]>;
+  rpush<T>(key: string, ...values: T[]): Promise<void>;
+  lrange<T>(key: string, start: number, stop: number): Promise<T[]>;
+}
+
+// Check if Vercel KV is properly configured
+export const isKVConfigured = () =>
+  Boolean(process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN);
+
+class VercelKVStore implements KeyValueStore {
+  async get<T>(key: string): Promise<T | null> {
+    return (await kv.get<T>(key)) ?? null;
+  }
+
+  async set<T>(key: string, value: T, options?: { ex?: number }) {
+    if (options?.ex) {
+      await kv.set(key, value, { ex: options.ex });
+    } else {
+      await kv.set(key, value);
+    }
+  }
+
+  async del(key: string) {
+    await kv.del(key);
+  }
+
+  async incr(key: string, options?: { ex?: number }): Promise<number> {
+    const value = await kv.incr(key);
+    if (value === 1 && options?.ex) {
+      await kv.expire(key, options.ex);
+    }
+    return value;
+  }
+
+  async sadd(key: string, ...members: string[]) {
+    if (members.length === 0) return;
+    await kv.sadd(key, members[0], ...members.slice(1));
+  }
+
+  async srem(key: string, ...members: string[]) {
+    if (members.length === 0) return;
+    await kv.srem(key, ...members);
+  }
+
+  async smembers(key: string): Promise<string[]> {
+    const members = await kv.smembers(key);
+    return (members ?? []).map((m) => String(m));
+  }
+
+  async rpush<T>(key: string, ...values: T[]) {
+    if (values.length === 0) return;
+    await kv.rpush(key, ...values);
+  }
+
+  async lrange<T>(key: string, start: number, stop: number): Promise<T[]> {
+    return ((await kv.lrange(key, start, stop)) ?? []) as T[];
+  }
+}
+
+type LocalEntry = {
+  value: unknown;
+  expiresAt?: number;
+};
+
+class LocalKVStore implements KeyValueStore {
+  private data = new Map<string, LocalEntry>();
+  private loaded = false;
+
+  constructor(private readonly filePath?: string) {}
+
+  private async load() {
+    if (this.loaded) return;
+    this.loaded = true;
+    if (!this.filePath) return;
+    try {
+      const raw = await fs.readFile(this.filePath, "utf8");
+      const parsed = JSON.parse(raw) as Record<string, LocalEntry>;
+      for (const [key, entry] of Object.entries(parsed)) {
+        this.data.set(key, entry);
+      }
+    } catch {
+      // File missing or unreadable: start empty
+    }
+  }
+
+  private async persist() {
+    if (!this.filePath) return;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(
+      this.filePath,
+      JSON.stringify(Object.fromEntries(this.data))
+    );
+  }
+
+  private async read(key: string): Promise<unknown> {
+    await this.load();
+    const entry = this.data.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt && entry.expiresAt <= Date.now()) {
+      this.data.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  private async write(key: string, value: unknown, ex?: number) {
+    this.data.set(key, {
+      value,
+      expiresAt: ex ? Date.now() + ex * 1000 : undefined,
+    });
+    await this.persist();
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const value = await this.read(key);
+    return value === undefined ? null : (value as T);
+  }
+
+  async set<T>(key: string, value: T, options?: { ex?: number }) {
+    await this.load();
+    await this.write(key, value, options?.ex);
+  }
+
+  async del(key: string) {
+    await this.load();
+    this.data.delete(key);
+    await this.persist();
+  }
+
+  async incr(key: string, options?: { ex?: number }): Promise<number> {
+    await this.load();
+    const current = this.data.get(key);
+    const live =
+      current && (!current.expiresAt || current.expiresAt > Date.now());
+    const value = (live ? Number(current!.value) : 0) + 1;
+    this.data.set(key, {
+      value,
+      expiresAt: live
+        ? current!.expiresAt
+        : options?.ex
+        ? Date.now() + options.ex * 1000
+        : undefined,
+    });
+    await this.persist();
+    return value;
+  }
+
+  async sadd(key: string, ...members: string[]) {
+    const current = ((await this.read(key)) as string[] | undefined) ?? [];
+    const next = Array.from(new Set([...current, ...members]));
+    await this.write(key, next);
+  }
+
+  async srem(key: string, ...members: string[]) {
+    const current = ((await this.read(key)) as string[] | undefined) ?? [];
+    await this.write(
+      key,
+      current.filter((m) => !members.includes(m))
+    );
+  }
+
+  async smembers(key: string): Promise<string[]> {
+    return ((await this.read(key)) as string[] | undefined) ?? [];
+  }
+
+  async rpush<T>(key: string, ...values: T[]) {
+    const current = ((await this.read(key)) as T[] | undefined) ?? [];
+    await this.write(key, [...current, ...values]);
+  }
+
+  async lrange<T>(key: string, start: number, stop: number): Promise<T[]> {
+    const current = ((await this.read(key)) as T[] | undefined) ?? [];
+    // Redis semantics: negative indexes count from the end, stop is inclusive
+    const from = start < 0 ? Math.max(current.length + start, 0) : start;
+    const to = stop < 0 ? current.length + stop : stop;
+    return current.slice(from, to + 1);
+  }
+}
+
+let store: KeyValueStore | null = null;
+
+export function getKVStore(): KeyValueStore {
+  if (!store) {
+    store = isKVConfigured()
+      ? new VercelKVStore()
+      : new LocalKVStore(process.env.LOCAL_KV_PATH);
+  }
+  return store;
+}
@@ -0,0 +1,166 @@
+import { parseEventLogs, verifyTypedData } from "viem";
+import {
+  publicClient,
+  V2contractAddress,
+  V2contractAbi,
+} from "@/constants/contract";
+import { getKVStore } from "@/lib/kv-store";
+import {
+  LIMIT_ORDER_DOMAIN,
+  LIMIT_ORDER_TYPES,
+  getLimitOrderId,
+  toTypedMessage,
+  validateIntent,
+  type LimitOrder,
+  type LimitOrderIntent,
+} from "@/lib/limit-orders";
+
+// Server-side persistence for limit orders (Vercel KV or the local stand-in).
+// The open set holds every order the keeper still watches: open or triggered.
+const keys = {
+  order: (id: string) => `limit-order:${id.toLowerCase()}`,
+  open: "limit-orders:open",
+  owner: (address: string) => `limit-orders:owner:${address.toLowerCase()}`,
+};
+
+export class LimitOrderService {
+  private store = getKVStore();
+
+  async create(
+    intent: LimitOrderIntent,
+    signature: `0x${string}`
+  ): Promise<LimitOrder> {
+    const validationError = validateIntent(intent);
+    if (validationError) throw new Error(validationError);
+
+    const valid = await verifyTypedData({
+      address: intent.owner,
+      domain: LIMIT_ORDER_DOMAIN,
+      types: LIMIT_ORDER_TYPES,
+      primaryType: "LimitOrder",
+      message: toTypedMessage(intent),
+      signature,
+    });
+    if (!valid) throw new Error("Invalid order signature");
+
+    const id = getLimitOrderId(intent);
+    if (await this.get(id)) throw new Error("Order already exists");
+
+    const order: LimitOrder = {
+      ...intent,
+      id,
+      signature,
+      status: "open",
+      createdAt: Date.now(),
+    };
+    await this.store.set(keys.order(id), order);
+    await this.store.sadd(keys.open, id);
+    await this.store.sadd(keys.owner(intent.owner), id);
+    return order;
+  }
+
+  async get(id: string): Promise<LimitOrder | null> {
+    return this.store.get<LimitOrder>(keys.order(id));
+  }
+
+  async listByOwner(owner: string): Promise<LimitOrder[]> {
+    const ids = await this.store.smembers(keys.owner(owner));
+    const orders = await Promise.all(ids.map((id) => this.get(id)));
+    return orders
+      .filter((o): o is LimitOrder => o !== null)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  // Open and triggered orders; triggered ones still need expiring
+  async listActive(): Promise<LimitOrder[]> {
+    const ids = await this.store.smembers(keys.open);
+    const orders = await Promise.all(ids.map((id) => this.get(id)));
+    return orders.filter(
+      (o): o is LimitOrder => o?.status === "open" || o?.status === "triggered"
+    );
+  }
+
+  async cancel(id: string, signature: `0x${string}`): Promise<LimitOrder> {
+    const order = await this.get(id);
+    if (!order) throw new Error("Order not found");
+    if (order.status === "filled") throw new Error("Order already filled");
+
+    const valid = await verifyTypedData({
+      address: order.owner,
+      domain: LIMIT_ORDER_DOMAIN,
+      types: LIMIT_ORDER_TYPES,
+      primaryType: "CancelLimitOrder",
+      message: { orderId: order.id },
+      signature,
+    });
+    if (!valid) throw new Error("Invalid cancel signature");
+
+    return this.update(order, { status: "cancelled" });
+  }
+
+  async markTriggered(
+    order: LimitOrder,
+    probability: bigint
+  ): Promise<LimitOrder> {
+    return this.update(order, {
+      status: "triggered",
+      triggeredAt: Date.now(),
+      triggeredProbability: probability.toString(),
+    });
+  }
+
+  async markExpired(order: LimitOrder): Promise<LimitOrder> {
+    return this.update(order, { status: "expired" });
+  }
+
+  // Fills only on a receipt whose TradeExecuted log is the order's own
+  // trade: same market, option and quantity, with the owner on its side
+  async markFilled(
+    order: LimitOrder,
+    txHash: `0x${string}`
+  ): Promise<LimitOrder> {
+    if (order.status !== "open" && order.status !== "triggered") {
+      throw new Error(`Order is ${order.status}`);
+    }
+
+    const receipt = await publicClient.getTransactionReceipt({ hash: txHash });
+    if (receipt.status !== "success") {
+      throw new Error("Transaction reverted");
+    }
+
+    const owner = order.owner.toLowerCase();
+    const trades = parseEventLogs({
+      abi: V2contractAbi,
+      eventName: "TradeExecuted",
+      logs: receipt.logs,
+    }).filter(
+      (log) =>
+        log.address.toLowerCase() === V2contractAddress.toLowerCase() &&
+        log.args.marketId === BigInt(order.marketId) &&
+        log.args.optionId === BigInt(order.optionId) &&
+        log.args.quantity === BigInt(order.quantity) &&
+        (order.side === "buy"
+          ? log.args.buyer.toLowerCase() === owner
+          : log.args.seller.toLowerCase() === owner)
+    );
+    if (trades.length === 0) {
+      throw new Error("Transaction does not fill this order");
+    }
+
+    return this.update(order, { status: "filled", filledTxHash: txHash });
+  }
+
+  private async update(
+    order: LimitOrder,
+    patch: Partial<LimitOrder>
+  ): Promise<LimitOrder> {
+    const next = { ...order, ...patch };
+    await this.store.set(keys.order(order.id), next);
+    if (next.status !== "open" && next.status !== "triggered") {
+      await this.store.srem(keys.open, order.id);
+    }
+    return next;
+  }
+}
+
+export const limitOrderService = new LimitOrderService();
@@ -0,0 +1,133 @@
+import { hashTypedData } from "viem";
+import { base } from "viem/chains";
+import { V2contractAddress } from "@/constants/contract";
+
+/**
+ * Off-chain limit orders for V2 markets.
+ *
+ * Users sign an EIP-712 intent ("buy option X if its probability drops to P",
+ * "sell once it reaches P"). The keeper route watches getMarketOdds and flips
+ * matching orders to "triggered". Because the V2 contract only trades for
+ * msg.sender, the owner's wallet submits the trade, bounded by the signed
+ * limitAmount (max total cost for buys, min proceeds for sells).
+ */
+
+export type LimitOrderSide = "buy" | "sell";
+
+export type LimitOrderStatus =
+  | "open"
+  | "triggered"
+  | "filled"
+  | "cancelled"
+  | "expired";
+
+// Signed fields; bigints serialized as decimal strings
+export interface LimitOrderIntent {
+  owner: `0x${string}`;
+  marketId: string;
+  optionId: string;
+  side: LimitOrderSide;
+  quantity: string; // shares, 1e18-scaled
+  triggerProbability: string; // 0-1, 1e18-scaled
+  limitAmount: string; // max total cost (buy) / min proceeds (sell), 1e18
+  expiry: string; // unix seconds
+  nonce: string;
+}
+
+export interface LimitOrder extends LimitOrderIntent {
+  id: `0x${string}`; // EIP-712 hash of the intent
+  signature: `0x${string}`;
+  status: LimitOrderStatus;
+  createdAt: number;
+  triggeredAt?: number;
+  triggeredProbability?: string;
+  filledTxHash?: `0x${string}`;
+}
+
+export const LIMIT_ORDER_DOMAIN = {
+  name: "Policast Limit Orders",
+  version: "1",
+  chainId: base.id,
+  verifyingContract: V2contractAddress as `0x${string}`,
+} as const;
+
+export const LIMIT_ORDER_TYPES = {
+  LimitOrder: [
+    { name: "owner", type: "address" },
+    { name: "marketId", type: "uint256" },
+    { name: "optionId", type: "uint256" },
+    { name: "side", type: "uint8" },
+    { name: "quantity", type: "uint256" },
+    { name: "triggerProbability", type: "uint256" },
+    { name: "limitAmount", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+  ],
+  CancelLimitOrder: [{ name: "orderId", type: "bytes32" }],
+} as const;
+
+// EIP-712 message for an intent (shared by client signing and server checks)
+export function toTypedMessage(intent: LimitOrderIntent) {
+  return {
+    owner: intent.owner,
+    marketId: BigInt(intent.marketId),
+    optionId: BigInt(intent.optionId),
+    side: intent.side === "buy" ? 0 : 1,
+    quantity: BigInt(intent.quantity),
+    triggerProbability: BigInt(intent.triggerProbability),
+    limitAmount: BigInt(intent.limitAmount),
+    expiry: BigInt(intent.expiry),
+    nonce: BigInt(intent.nonce),
+  };
+}
+
+export function getLimitOrderId(intent: LimitOrderIntent): `0x${string}` {
+  return hashTypedData({
+    domain: LIMIT_ORDER_DOMAIN,
+    types: LIMIT_ORDER_TYPES,
+    primaryType: "LimitOrder",
+    message: toTypedMessage(intent),
+  });
+}
+
+export function validateIntent(intent: LimitOrderIntent): string | null {
+  try {
+    if (intent.side !== "buy" && intent.side !== "sell") {
+      return "Side must be buy or sell";
+    }
+    if (BigInt(intent.quantity) <= 0n) return "Quantity must be positive";
+    const trigger = BigInt(intent.triggerProbability);
+    if (trigger <= 0n || trigger >= 10n ** 18n) {
+      return "Trigger probability must be between 0 and 1";
+    }
+    if (BigInt(intent.limitAmount) <= 0n) {
+      return "Limit amount must be positive";
+    }
+    if (Number(intent.expiry) <= Math.floor(Date.now() / 1000)) {
+      return "Order already expired";
+    }
+    BigInt(intent.marketId);
+    BigInt(intent.optionId);
+    BigInt(intent.nonce);
+  } catch {
+    return "Order fields must be integers";
+  }
+  return null;
+}
+
+// Orders past their expiry are never traded, triggered or not
+export function isOrderExpired(
+  order: Pick<LimitOrder, "expiry">,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  return Number(order.expiry) <= now;
+}
+
+// Buy triggers at or below the target probability, sell at or above it
+export function isOrderTriggered(
+  order: Pick<LimitOrder, "side" | "triggerProbability">,
+  probability: bigint
+): boolean {
+  const trigger = BigInt(order.triggerProbability);
+  return order.side === "buy" ? probability <= trigger : probability >= trigger;
+}
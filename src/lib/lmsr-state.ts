@@ -0,0 +1,128 @@
+import {
+  PolicastViews,
+  PolicastViewsAbi,
+  V2contractAddress,
+  V2contractAbi,
+  publicClient,
+} from "@/constants/contract";
+import {
+  DEFAULT_FEE_RATE_BPS,
+  type BuyQuote,
+  type LMSRMarketState,
+  type SellQuote,
+} from "@/lib/lmsr";
+
+// Reading LMSR market state from the V2 contract. Shared by the client hooks
+// (useLMSRState) and server routes that quote with the off-chain engine.
+
+// Multicall entries for one market: b, platform fee, then every option
+export const lmsrStateContracts = (marketId: number, optionCount: number) => [
+  {
+    address: V2contractAddress,
+    abi: V2contractAbi,
+    functionName: "getMarketLMSRB",
+    args: [BigInt(marketId)],
+  } as const,
+  {
+    address: V2contractAddress,
+    abi: V2contractAbi,
+    functionName: "platformFeeRate",
+  } as const,
+  ...Array.from(
+    { length: optionCount },
+    (_, optionId) =>
+      ({
+        address: V2contractAddress,
+        abi: V2contractAbi,
+        functionName: "getMarketOption",
+        args: [BigInt(marketId), BigInt(optionId)],
+      } as const)
+  ),
+];
+
+type MulticallResult = { status: "success" | "failure"; result?: unknown };
+
+// Builds the market state from the results of lmsrStateContracts
+export function parseLMSRState(
+  results: readonly MulticallResult[]
+): LMSRMarketState | undefined {
+  const [bResult, feeResult, ...optionResults] = results;
+  if (bResult?.status !== "success") return undefined;
+  if (optionResults.some((r) => r?.status !== "success")) return undefined;
+
+  const b = bResult.result as bigint;
+  if (!b || b <= 0n) return undefined;
+
+  return {
+    b,
+    feeRateBps:
+      feeResult?.status === "success"
+        ? (feeResult.result as bigint)
+        : DEFAULT_FEE_RATE_BPS,
+    shares: optionResults.map(
+      (r) =>
+        (r.result as readonly [string, string, bigint, bigint, bigint, boolean])[2]
+    ),
+  };
+}
+
+// Server-side read (no wagmi cache): the option count comes from
+// PolicastViews, then the state loads in one multicall. `tradable` is
+// false once the market has ended, resolved or been invalidated.
+export async function fetchLMSRState(
+  marketId: number
+): Promise<{ state: LMSRMarketState | undefined; tradable: boolean }> {
+  const [optionCount, tradable] = await Promise.all([
+    publicClient.readContract({
+      address: PolicastViews,
+      abi: PolicastViewsAbi,
+      functionName: "getMarketOptionCount",
+      args: [BigInt(marketId)],
+    }),
+    publicClient.readContract({
+      address: PolicastViews,
+      abi: PolicastViewsAbi,
+      functionName: "isMarketTradable",
+      args: [BigInt(marketId)],
+    }),
+  ]);
+  const results = await publicClient.multicall({
+    contracts: lmsrStateContracts(marketId, Number(optionCount)),
+    allowFailure: true,
+  });
+  return { state: parseLMSRState(results), tradable };
+}
+
+// The contract's own quote (PolicastViews.quoteBuy) for `quantity` shares.
+// Trade flows read it at confirm time so the bounds they submit never rest
+// on the off-chain engine alone.
+export async function fetchBuyQuote(
+  marketId: number,
+  optionId: number,
+  quantity: bigint
+): Promise<BuyQuote> {
+  const [rawCost, fee, totalCost, avgPricePerShare] =
+    await publicClient.readContract({
+      address: PolicastViews,
+      abi: PolicastViewsAbi,
+      functionName: "quoteBuy",
+      args: [BigInt(marketId), BigInt(optionId), quantity],
+    });
+  return { rawCost, fee, totalCost, avgPricePerShare };
+}
+
+// Sell-side counterpart of fetchBuyQuote (PolicastViews.quoteSell)
+export async function fetchSellQuote(
+  marketId: number,
+  optionId: number,
+  quantity: bigint
+): Promise<SellQuote> {
+  const [rawRefund, fee, netRefund, avgPricePerShare] =
+    await publicClient.readContract({
+      address: PolicastViews,
+      abi: PolicastViewsAbi,
+      functionName: "quoteSell",
+      args: [BigInt(marketId), BigInt(optionId), quantity],
+    });
+  return { rawRefund, fee, netRefund, avgPricePerShare };
+}
@@ -0,0 +1,318 @@
+/**
+ * Off-chain LMSR pricing engine for V2 markets.
+ *
+ * Mirrors the on-chain math behind PolicastViews.quoteBuy / quoteSell so the
+ * trading UIs can quote on every keystroke without an RPC round-trip:
+ *
+ *   C(q) = b * ln(Σ exp(q_i / b))          (cost function, in shares)
+ *   p_i  = exp(q_i / b) / Σ exp(q_j / b)   (marginal price = probability)
+ *
+ * Shares, b (getMarketLMSRB) and probabilities are 1e18-scaled. One share
+ * pays PAYOUT_PER_SHARE tokens at resolution, so token amounts are the share
+ * cost multiplied by the payout. Intermediate math runs at 1e36 precision and
+ * is rounded once at the end (costs up, refunds down) like the contract does.
+ */
+
+export const LMSR_SCALE = 10n ** 18n;
+export const PAYOUT_PER_SHARE = 100n * LMSR_SCALE; // 100 tokens per share
+export const FEE_DENOMINATOR = 10000n; // fee rates are in basis points
+export const DEFAULT_FEE_RATE_BPS = 200n; // 2% platform fee
+
+const PRECISION = 10n ** 36n;
+
+export interface LMSRMarketState {
+  b: bigint; // liquidity parameter from getMarketLMSRB
+  shares: readonly bigint[]; // totalShares per option (getMarketOption)
+  feeRateBps: bigint; // platformFeeRate
+}
+
+// Same field order as PolicastViews.quoteBuy
+export interface BuyQuote {
+  rawCost: bigint;
+  fee: bigint;
+  totalCost: bigint;
+  avgPricePerShare: bigint;
+}
+
+// Same field order as PolicastViews.quoteSell
+export interface SellQuote {
+  rawRefund: bigint;
+  fee: bigint;
+  netRefund: bigint;
+  avgPricePerShare: bigint;
+}
+
+// --- Fixed-point helpers (PRECISION-scaled) ---
+
+function divUp(a: bigint, b: bigint): bigint {
+  return a === 0n ? 0n : (a - 1n) / b + 1n;
+}
+
+// atanh(z) = z + z^3/3 + z^5/5 + ... for |z| < 1
+function atanh(z: bigint): bigint {
+  const z2 = (z * z) / PRECISION;
+  let term = z;
+  let sum = z;
+  for (let n = 3n; term !== 0n; n += 2n) {
+    term = (term * z2) / PRECISION;
+    sum += term / n;
+  }
+  return sum;
+}
+
+const LN2 = 2n * atanh(PRECISION / 3n); // ln 2 = 2 * atanh(1/3)
+
+// Natural log for x >= 1
+function ln(x: bigint): bigint {
+  if (x < PRECISION) throw new Error("ln: argument below 1");
+  let k = 0n;
+  let m = x;
+  while (m >= 2n * PRECISION) {
+    m /= 2n;
+    k += 1n;
+  }
+  // m in [1, 2): ln(m) = 2 * atanh((m - 1) / (m + 1))
+  const z = ((m - PRECISION) * PRECISION) / (m + PRECISION);
+  return k * LN2 + 2n * atanh(z);
+}
+
+// Exponential for x <= 0 (callers subtract the max exponent first)
+function expNonPositive(x: bigint): bigint {
+  if (x > 0n) throw new Error("exp: argument above 0");
+  // x = k * ln2 + r with r in (-ln2, 0]
+  const k = -x / LN2;
+  const r = x + k * LN2;
+  let term = PRECISION;
+  let sum = PRECISION;
+  for (let n = 1n; term !== 0n; n += 1n) {
+    term = (term * r) / (PRECISION * n);
+    sum += term;
+  }
+  return k >= 256n ? 0n : sum >> k;
+}
+
+// Scaled exponents q_i / b, the max exponent and Σ exp(q_i / b - max)
+function expTerms(shares: readonly bigint[], b: bigint) {
+  if (b <= 0n) throw new Error("LMSR liquidity parameter must be positive");
+  const exponents = shares.map((q) => (q * PRECISION) / b);
+  const max = exponents.reduce((m, e) => (e > m ? e : m), exponents[0] ?? 0n);
+  const terms = exponents.map((e) => expNonPositive(e - max));
+  const sum = terms.reduce((acc, t) => acc + t, 0n);
+  return { max, terms, sum };
+}
+
+// Cost function in PRECISION-scaled shares
+function costPrecise(shares: readonly bigint[], b: bigint): bigint {
+  const { max, sum } = expTerms(shares, b);
+  return (b * (max + ln(sum))) / LMSR_SCALE;
+}
+
+function withOptionDelta(
+  shares: readonly bigint[],
+  optionId: number,
+  delta: bigint
+): bigint[] {
+  if (optionId < 0 || optionId >= shares.length) {
+    throw new Error(`Invalid option ${optionId}`);
+  }
+  return shares.map((q, i) => (i === optionId ? q + delta : q));
+}
+
+// Convert a PRECISION-scaled share cost into 1e18-scaled tokens
+function toTokens(precise: bigint, roundUp: boolean): bigint {
+  const numerator = precise * (PAYOUT_PER_SHARE / LMSR_SCALE);
+  const denominator = PRECISION / LMSR_SCALE;
+  return roundUp ? divUp(numerator, denominator) : numerator / denominator;
+}
+
+// --- Public API ---
+
+// LMSR cost C(q) in 1e18-scaled tokens
+export function lmsrCost(shares: readonly bigint[], b: bigint): bigint {
+  return toTokens(costPrecise(shares, b), false);
+}
+
+// Marginal prices (probabilities, 1e18-scaled) for every option
+export function marginalPrices(state: LMSRMarketState): bigint[] {
+  const { terms, sum } = expTerms(state.shares, state.b);
+  return terms.map((t) => (t * LMSR_SCALE) / sum);
+}
+
+export function marginalPrice(
+  state: LMSRMarketState,
+  optionId: number
+): bigint {
+  return marginalPrices(state)[optionId] ?? 0n;
+}
+
+export function calculateFee(amount: bigint, feeRateBps: bigint): bigint {
+  return (amount * feeRateBps) / FEE_DENOMINATOR;
+}
+
+export function quoteBuy(
+  state: LMSRMarketState,
+  optionId: number,
+  quantity: bigint
+): BuyQuote {
+  if (quantity <= 0n) {
+    return { rawCost: 0n, fee: 0n, totalCost: 0n, avgPricePerShare: 0n };
+  }
+  const before = costPrecise(state.shares, state.b);
+  const after = costPrecise(
+    withOptionDelta(state.shares, optionId, quantity),
+    state.b
+  );
+  const rawCost = toTokens(after - before, true);
+  const fee = calculateFee(rawCost, state.feeRateBps);
+  const totalCost = rawCost + fee;
+  return {
+    rawCost,
+    fee,
+    totalCost,
+    avgPricePerShare: (totalCost * LMSR_SCALE) / quantity,
+  };
+}
+
+export function quoteSell(
+  state: LMSRMarketState,
+  optionId: number,
+  quantity: bigint
+): SellQuote {
+  if (quantity <= 0n) {
+    return { rawRefund: 0n, fee: 0n, netRefund: 0n, avgPricePerShare: 0n };
+  }
+  if (quantity > (state.shares[optionId] ?? 0n)) {
+    throw new Error("Cannot sell more shares than exist for this option");
+  }
+  const before = costPrecise(state.shares, state.b);
+  const after = costPrecise(
+    withOptionDelta(state.shares, optionId, -quantity),
+    state.b
+  );
+  const rawRefund = toTokens(before - after, false);
+  const fee = calculateFee(rawRefund, state.feeRateBps);
+  const netRefund = rawRefund - fee;
+  return {
+    rawRefund,
+    fee,
+    netRefund,
+    avgPricePerShare: (netRefund * LMSR_SCALE) / quantity,
+  };
+}
+
+// Smallest share increment the budget solver resolves (1e-6 share)
+export const SHARE_STEP = 10n ** 12n;
+
+/**
+ * Largest quantity (rounded down to SHARE_STEP) whose total cost including
+ * the fee fits in `budget`. Cost is monotonic in quantity, so this is a
+ * binary search bounded by the spot price: every share costs at least the
+ * current token price.
+ */
+export function maxSharesForBudget(
+  state: LMSRMarketState,
+  optionId: number,
+  budget: bigint
+): bigint {
+  const spot = probabilityToTokenPrice(marginalPrice(state, optionId));
+  if (budget <= 0n || spot <= 0n) return 0n;
+
+  let lo = 0n;
+  let hi = (budget * LMSR_SCALE) / spot / SHARE_STEP + 1n;
+  while (lo < hi) {
+    const mid = (lo + hi + 1n) / 2n;
+    if (quoteBuy(state, optionId, mid * SHARE_STEP).totalCost <= budget) {
+      lo = mid;
+    } else {
+      hi = mid - 1n;
+    }
+  }
+  return lo * SHARE_STEP;
+}
+
+/**
+ * Shares of `optionId` to buy (positive) or sell (negative) to move its
+ * probability to `target` (1e18-scaled, strictly between 0 and 1). Only q_i
+ * changes, so p_i' / (1 - p_i') = exp(d / b) * p_i / (1 - p_i), giving
+ * d = b * ln(p_i' (1 - p_i) / (p_i (1 - p_i'))).
+ */
+export function sharesToReachProbability(
+  state: LMSRMarketState,
+  optionId: number,
+  target: bigint
+): bigint {
+  if (target <= 0n || target >= LMSR_SCALE) {
+    throw new Error("Target probability must be between 0 and 1");
+  }
+  const current = marginalPrice(state, optionId);
+  if (current <= 0n || current >= LMSR_SCALE) return 0n;
+
+  const up = target * (LMSR_SCALE - current);
+  const down = current * (LMSR_SCALE - target);
+  if (up === down) return 0n;
+  // ln of a ratio >= 1; a move down is the negated log of the inverse
+  return up > down
+    ? (state.b * ln((up * PRECISION) / down)) / PRECISION
+    : -((state.b * ln((down * PRECISION) / up)) / PRECISION);
+}
+
+// Market state after a trade, for previewing post-trade odds
+export function applyTrade(
+  state: LMSRMarketState,
+  optionId: number,
+  delta: bigint
+): LMSRMarketState {
+  return {
+    ...state,
+    shares: withOptionDelta(state.shares, optionId, delta),
+  };
+}
+
+// --- Unit conversions shared by the trading components ---
+
+// Plain decimal share amounts: "12", "0.5", ".5", "3." (no sign or exponent)
+const SHARE_AMOUNT_PATTERN = /^(\d+\.?\d*|\.\d+)$/;
+
+// Convert a decimal share amount to 1e18 units (shares always have 18
+// decimals). Anything that is not a plain decimal ("1e5", "-1", "abc") is 0,
+// which every trade flow rejects as an invalid amount.
+export function sharesToWei(amount: string): bigint {
+  const trimmed = amount?.trim();
+  if (!trimmed || !SHARE_AMOUNT_PATTERN.test(trimmed)) return 0n;
+  const parts = trimmed.split(".");
+  const integer = parts[0] || "0";
+  const fraction = (parts[1] || "").padEnd(18, "0").slice(0, 18);
+  return BigInt(integer + fraction);
+}
+
+// tokenPrice is tokens/share (1e18), which equals prob * 100
+export function calculateProbabilityFromTokenPrice(tokenPrice: bigint): number {
+  const tp = Number(tokenPrice) / 1e18; // 0..100
+  return Math.max(0, Math.min(100, tp)); // percentage
+}
+
+export function calculateOddsFromTokenPrice(tokenPrice: bigint): number {
+  const prob = Number(tokenPrice) / 1e18 / 100; // 0..1
+  if (prob <= 0) return 0;
+  return 1 / prob;
+}
+
+// Probability (0-1, 1e18-scaled) to a clamped percentage
+export function probabilityToPercent(probability: bigint): number {
+  return Math.max(0, Math.min(100, (Number(probability) / 1e18) * 100));
+}
+
+// Probability (0-1, 1e18-scaled) to token price (0-100, 1e18-scaled)
+export function probabilityToTokenPrice(probability: bigint): bigint {
+  return (probability * PAYOUT_PER_SHARE) / LMSR_SCALE;
+}
+
+// Reduce x by bps basis points (minimum proceeds for sells)
+export function withNegBuffer(x: bigint, bps: number): bigint {
+  return (x * (FEE_DENOMINATOR - BigInt(bps))) / FEE_DENOMINATOR;
+}
+
+// Increase x by bps basis points (maximum cost for buys)
+export function withPosBuffer(x: bigint, bps: number): bigint {
+  return (x * (FEE_DENOMINATOR + BigInt(bps))) / FEE_DENOMINATOR;
+}
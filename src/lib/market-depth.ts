@@ -0,0 +1,91 @@
+import {
+  LMSR_SCALE,
+  applyTrade,
+  marginalPrices,
+  quoteBuy,
+  quoteSell,
+  sharesToReachProbability,
+  type LMSRMarketState,
+} from "@/lib/lmsr";
+
+/**
+ * Market depth for V2 markets: what it costs to push an option's
+ * probability up to a target, and what selling it down returns. Everything
+ * is computed off-chain from the LMSR state (getMarketLMSRB + shares).
+ */
+
+// Probability targets on the depth curve, in percent
+export const DEPTH_TARGETS = [10, 20, 30, 40, 50, 60, 70, 80, 90];
+
+export interface DepthPoint {
+  target: number; // percent
+  side: "buy" | "sell";
+  shares: bigint; // shares bought or sold to reach the target
+  amount: bigint; // total cost (buy) or net proceeds (sell), fee included
+  reachable: boolean; // false when not enough shares exist to sell down
+}
+
+/**
+ * One point per target other than the current probability: targets above it
+ * are reached by buying, targets below by selling. Selling cannot take an
+ * option below zero outstanding shares, so low targets may be unreachable.
+ */
+export function depthCurve(
+  state: LMSRMarketState,
+  optionId: number
+): DepthPoint[] {
+  const points: DepthPoint[] = [];
+  for (const target of DEPTH_TARGETS) {
+    const delta = sharesToReachProbability(
+      state,
+      optionId,
+      (BigInt(target) * LMSR_SCALE) / 100n
+    );
+    if (delta > 0n) {
+      points.push({
+        target,
+        side: "buy",
+        shares: delta,
+        amount: quoteBuy(state, optionId, delta).totalCost,
+        reachable: true,
+      });
+    } else if (delta < 0n) {
+      const shares = -delta;
+      const reachable = shares <= (state.shares[optionId] ?? 0n);
+      points.push({
+        target,
+        side: "sell",
+        shares,
+        amount: reachable ? quoteSell(state, optionId, shares).netRefund : 0n,
+        reachable,
+      });
+    }
+  }
+  return points;
+}
+
+export interface WhatIfResult {
+  amount: bigint; // total cost (buy) or net proceeds (sell)
+  before: bigint[]; // probabilities, 1e18-scaled
+  after: bigint[];
+}
+
+// Odds of every option before and after a hypothetical trade
+export function whatIf(
+  state: LMSRMarketState,
+  optionId: number,
+  side: "buy" | "sell",
+  quantity: bigint
+): WhatIfResult {
+  const before = marginalPrices(state);
+  if (quantity <= 0n) return { amount: 0n, before, after: before };
+  const delta = side === "buy" ? quantity : -quantity;
+  return {
+    amount:
+      side === "buy"
+        ? quoteBuy(state, optionId, quantity).totalCost
+        : quoteSell(state, optionId, quantity).netRefund,
+    before,
+    after: marginalPrices(applyTrade(state, optionId, delta)),
+  };
+}
@@ -0,0 +1,255 @@
+import {
+  CATEGORY_LABELS,
+  MarketCategory,
+  MarketType,
+} from "@/lib/constants";
+import {
+  getDraftCost,
+  validateDraft,
+  type DurationLimits,
+  type MarketDraft,
+} from "@/lib/market-templates";
+
+/**
+ * Bulk market import from CSV or JSON.
+ *
+ * CSV needs a header row. Column names (case-insensitive):
+ *   question, description, options, optionDescriptions, category,
+ *   durationDays, liquidity, marketType, maxFreeParticipants,
+ *   freeTokensPerUser, earlyResolution
+ * `options` and `optionDescriptions` are "|"-separated. JSON is an array of
+ * objects with the same keys; `options` may also be an array of strings or
+ * { name, description } objects.
+ */
+
+export const MAX_IMPORT_ROWS = 50;
+
+export const SAMPLE_IMPORT_CSV = [
+  "question,description,options,category,durationDays,liquidity,marketType,maxFreeParticipants,freeTokensPerUser,earlyResolution",
+  '"Who wins District 1?","Resolves to the certified winner.","Smith|Jones",Politics,7,5000,paid,,,false',
+  '"Will turnout exceed 60%?","Official turnout figure.","Yes|No",Politics,3,4000,free,50,100,true',
+].join("\n");
+
+export type ImportFormat = "csv" | "json";
+
+export interface ImportRow {
+  row: number; // 1-based, excluding the CSV header
+  draft: MarketDraft | null;
+  error: string | null;
+}
+
+type RawRecord = Record<string, unknown>;
+
+// Accepted spellings for each field, compared lowercase
+const FIELD_ALIASES: Record<string, string[]> = {
+  question: ["question"],
+  description: ["description"],
+  options: ["options", "optionnames"],
+  optionDescriptions: ["optiondescriptions"],
+  category: ["category"],
+  durationDays: ["durationdays", "duration"],
+  liquidity: ["liquidity", "initialliquidity"],
+  marketType: ["markettype", "type"],
+  maxFreeParticipants: ["maxfreeparticipants"],
+  freeTokensPerUser: ["freetokensperuser", "freesharesperuser"],
+  earlyResolution: ["earlyresolution", "earlyresolutionallowed"],
+};
+
+// RFC 4180-style parsing: quoted fields, "" escapes, newlines in quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+const pick = (record: RawRecord, field: string): unknown => {
+  const aliases = FIELD_ALIASES[field];
+  const key = Object.keys(record).find((k) =>
+    aliases.includes(k.toLowerCase().replace(/[\s_-]/g, ""))
+  );
+  return key === undefined ? undefined : record[key];
+};
+
+const asString = (value: unknown) =>
+  value === undefined || value === null ? "" : String(value).trim();
+
+const splitList = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.map(asString)
+    : asString(value)
+    ? asString(value)
+        .split("|")
+        .map((item) => item.trim())
+    : [];
+
+function parseOptions(record: RawRecord) {
+  const raw = pick(record, "options");
+  if (
+    Array.isArray(raw) &&
+    raw.some((item) => typeof item === "object" && item !== null)
+  ) {
+    return raw.map((item) => ({
+      name: asString((item as RawRecord).name),
+      description: asString((item as RawRecord).description),
+    }));
+  }
+  const descriptions = splitList(pick(record, "optionDescriptions"));
+  return splitList(raw).map((name, i) => ({
+    name,
+    description: descriptions[i] ?? "",
+  }));
+}
+
+// Category by enum number or label ("Politics", "sports")
+function parseCategory(value: unknown): MarketCategory | null {
+  const text = asString(value);
+  if (!text) return MarketCategory.OTHER;
+  if (/^\d+$/.test(text)) {
+    const id = Number(text);
+    return id in CATEGORY_LABELS ? (id as MarketCategory) : null;
+  }
+  const match = Object.entries(CATEGORY_LABELS).find(
+    ([, label]) => label.toLowerCase() === text.toLowerCase()
+  );
+  return match ? (Number(match[0]) as MarketCategory) : null;
+}
+
+function parseMarketType(value: unknown): MarketType | null {
+  const text = asString(value).toLowerCase().replace(/[\s_-]/g, "");
+  if (!text || text === "paid" || text === "0") return MarketType.PAID;
+  if (text === "free" || text === "freeentry" || text === "1") {
+    return MarketType.FREE_ENTRY;
+  }
+  return null;
+}
+
+function parseBoolean(value: unknown): boolean {
+  if (typeof value === "boolean") return value;
+  return ["true", "yes", "1", "y"].includes(asString(value).toLowerCase());
+}
+
+export function recordToDraft(record: RawRecord): {
+  draft: MarketDraft | null;
+  error: string | null;
+} {
+  const category = parseCategory(pick(record, "category"));
+  if (category === null) {
+    return { draft: null, error: "Unknown category" };
+  }
+  const marketType = parseMarketType(pick(record, "marketType"));
+  if (marketType === null) {
+    return { draft: null, error: "Market type must be paid or free" };
+  }
+
+  const draft: MarketDraft = {
+    question: asString(pick(record, "question")),
+    description: asString(pick(record, "description")),
+    options: parseOptions(record),
+    category,
+    marketType,
+    durationDays: asString(pick(record, "durationDays")),
+    initialLiquidity: asString(pick(record, "liquidity")),
+    earlyResolutionAllowed: parseBoolean(pick(record, "earlyResolution")),
+  };
+  if (marketType === MarketType.FREE_ENTRY) {
+    draft.maxFreeParticipants = asString(pick(record, "maxFreeParticipants"));
+    draft.freeSharesPerUser = asString(pick(record, "freeTokensPerUser"));
+  }
+  return { draft, error: null };
+}
+
+function parseRecords(text: string, format: ImportFormat): RawRecord[] {
+  if (format === "json") {
+    const parsed = JSON.parse(text);
+    const records = Array.isArray(parsed) ? parsed : parsed?.markets;
+    if (!Array.isArray(records)) {
+      throw new Error("JSON must be an array of markets");
+    }
+    return records as RawRecord[];
+  }
+
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new Error("CSV is empty");
+  return rows.map((cells) =>
+    Object.fromEntries(header.map((name, i) => [name.trim(), cells[i] ?? ""]))
+  );
+}
+
+/**
+ * Parse and validate an import file. Every row is returned with either a
+ * draft or the first error found, so the UI can show the whole file at once.
+ */
+export function parseMarketImport(
+  text: string,
+  format: ImportFormat,
+  limits?: DurationLimits
+): ImportRow[] {
+  const records = parseRecords(text, format);
+  if (records.length === 0) throw new Error("No markets found");
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Import at most ${MAX_IMPORT_ROWS} markets at a time`);
+  }
+
+  return records.map((record, index) => {
+    const row = index + 1;
+    try {
+      const { draft, error } = recordToDraft(record);
+      if (!draft) return { row, draft: null, error };
+      const validationError = validateDraft(draft, limits);
+      if (validationError) return { row, draft: null, error: validationError };
+      try {
+        getDraftCost(draft);
+      } catch {
+        return { row, draft: null, error: "Amounts must be plain numbers" };
+      }
+      return { row, draft, error: null };
+    } catch (error) {
+      return {
+        row,
+        draft: null,
+        error: error instanceof Error ? error.message : "Invalid row",
+      };
+    }
+  });
+}
+
+export const detectImportFormat = (
+  fileName: string,
+  text: string
+): ImportFormat =>
+  fileName.toLowerCase().endsWith(".json") || /^\s*[[{]/.test(text)
+    ? "json"
+    : "csv";
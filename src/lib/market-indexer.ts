@@ -0,0 +1,511 @@
+import { createPublicClient, http, type PublicClient } from "viem";
+import { V2contractAddress, V2contractAbi } from "@/constants/contract";
+import { getKVStore, type KeyValueStore } from "@/lib/kv-store";
+
+// Events ingested from the V2 contract. Everything else is ignored.
+const INDEXED_EVENT_NAMES = [
+  "MarketCreated",
+  "MarketValidated",
+  "MarketResolved",
+  "MarketInvalidated",
+  "MarketDisputed",
+  "TradeExecuted",
+  "FeeAccrued",
+  "FreeTokensClaimed",
+  "Claimed",
+  "AdminLiquidityWithdrawn",
+  "UnusedPrizePoolWithdrawn",
+] as const;
+
+const INDEXED_EVENTS = V2contractAbi.filter(
+  (item) =>
+    item.type === "event" &&
+    (INDEXED_EVENT_NAMES as readonly string[]).includes(item.name)
+);
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// Market record as stored by the indexer (bigints serialized as strings)
+export interface IndexedMarket {
+  marketId: number;
+  question: string;
+  options: string[];
+  endTime: string;
+  category: number;
+  marketType: number;
+  creator: string;
+  createdBlock: string;
+  validated: boolean;
+  resolved: boolean;
+  invalidated: boolean;
+  disputed: boolean;
+  winningOptionId: number | null;
+  adminLiquidityWithdrawn: boolean;
+  prizePoolWithdrawn: boolean;
+}
+
+export interface IndexedTrade {
+  marketId: number;
+  optionId: number;
+  buyer: string;
+  seller: string;
+  price: string; // 1e18-scaled tokens per share
+  quantity: string; // 1e18-scaled shares
+  blockNumber: string;
+  timestamp: number; // unix seconds
+  txHash: string;
+  logIndex: number;
+}
+
+// Platform fee taken on a trade. The event has no trader; match it to the
+// TradeExecuted log of the same transaction.
+export interface IndexedFee {
+  marketId: number;
+  optionId: number;
+  isBuy: boolean;
+  rawAmount: string; // 1e18-scaled tokens before the fee
+  fee: string; // 1e18-scaled tokens
+  blockNumber: string;
+  txHash: string;
+  logIndex: number;
+}
+
+export interface IndexerState {
+  lastBlock: string;
+  updatedAt: number;
+  // Set once a sync reaches the safe head; stays set afterwards
+  caughtUp?: boolean;
+}
+
+export interface IndexerSyncResult {
+  fromBlock: string;
+  toBlock: string;
+  logsProcessed: number;
+  caughtUp: boolean;
+}
+
+export const indexerKeys = {
+  state: "indexer:state",
+  lock: "indexer:lock",
+  markets: "indexer:markets",
+  market: (marketId: number) => `indexer:market:${marketId}`,
+  marketTrades: (marketId: number) => `indexer:market:${marketId}:trades`,
+  marketFees: (marketId: number) => `indexer:market:${marketId}:fees`,
+  userMarkets: (address: string) =>
+    `indexer:user:${address.toLowerCase()}:markets`,
+  userTrades: (address: string) =>
+    `indexer:user:${address.toLowerCase()}:trades`,
+  userClaims: (address: string) =>
+    `indexer:user:${address.toLowerCase()}:claims`,
+  creatorMarkets: (address: string) =>
+    `indexer:creator:${address.toLowerCase()}:markets`,
+};
+
+interface MarketIndexerConfig {
+  client: PublicClient;
+  store: KeyValueStore;
+  contractAddress: `0x${string}`;
+  startBlock: bigint;
+  // Blocks per eth_getLogs request (most providers cap the range)
+  batchSize: bigint;
+  // Maximum blocks processed per sync() call so requests stay bounded
+  maxBlocksPerSync: bigint;
+  // Stay this many blocks behind head to avoid indexing reorged logs
+  confirmations: bigint;
+  // Indexed lookups are only served within this many blocks of the safe head
+  maxLagBlocks: bigint;
+}
+
+export class MarketIndexer {
+  private blockTimestamps = new Map<bigint, number>();
+
+  constructor(private readonly config: MarketIndexerConfig) {}
+
+  async getState(): Promise<IndexerState | null> {
+    return this.config.store.get<IndexerState>(indexerKeys.state);
+  }
+
+  private async getSafeHead(): Promise<bigint> {
+    const { client, confirmations } = this.config;
+    const head = await client.getBlockNumber();
+    return head > confirmations ? head - confirmations : 0n;
+  }
+
+  // Usable once the backfill has reached head and the last processed block
+  // is still within maxLagBlocks of it
+  async isReady(): Promise<boolean> {
+    const state = await this.getState();
+    if (!state?.caughtUp) return false;
+    const lag = (await this.getSafeHead()) - BigInt(state.lastBlock);
+    return lag <= this.config.maxLagBlocks;
+  }
+
+  // Used by request handlers: pull in the few blocks since the last cron run
+  // and report whether indexed lookups can be trusted. False while the
+  // backfill is running or when catch-up leaves the index too far behind.
+  async ensureFresh(maxBlocks: bigint = 5000n): Promise<boolean> {
+    const state = await this.getState();
+    if (!state?.caughtUp) return false;
+    try {
+      await this.sync({ maxBlocks });
+    } catch (error) {
+      console.warn("Indexer catch-up failed:", error);
+    }
+    try {
+      return await this.isReady();
+    } catch (error) {
+      console.warn("Indexer readiness check failed:", error);
+      return false;
+    }
+  }
+
+  async sync(options?: { maxBlocks?: bigint }): Promise<IndexerSyncResult> {
+    const { client, store, startBlock, batchSize } = this.config;
+    const maxBlocks = options?.maxBlocks ?? this.config.maxBlocksPerSync;
+
+    const state = await this.getState();
+    const fromBlock = state ? BigInt(state.lastBlock) + 1n : startBlock;
+    const safeHead = await this.getSafeHead();
+
+    if (fromBlock > safeHead) {
+      // State written before the flag existed: already at head
+      if (state && !state.caughtUp) {
+        await store.set<IndexerState>(indexerKeys.state, {
+          ...state,
+          caughtUp: true,
+        });
+      }
+      return {
+        fromBlock: fromBlock.toString(),
+        toBlock: (fromBlock - 1n).toString(),
+        logsProcessed: 0,
+        caughtUp: true,
+      };
+    }
+
+    // Best-effort lock so overlapping cron/request triggers don't double-ingest
+    if (await store.get<number>(indexerKeys.lock)) {
+      throw new Error("Indexer sync already in progress");
+    }
+    await store.set(indexerKeys.lock, Date.now(), { ex: 120 });
+
+    const toBlock =
+      fromBlock + maxBlocks - 1n < safeHead
+        ? fromBlock + maxBlocks - 1n
+        : safeHead;
+    let logsProcessed = 0;
+
+    try {
+      for (let start = fromBlock; start <= toBlock; start += batchSize) {
+        const end =
+          start + batchSize - 1n < toBlock ? start + batchSize - 1n : toBlock;
+
+        const logs = await client.getLogs({
+          address: this.config.contractAddress,
+          events: INDEXED_EVENTS as any,
+          fromBlock: start,
+          toBlock: end,
+        });
+
+        for (const log of logs) {
+          await this.applyLog(log as any);
+        }
+        logsProcessed += logs.length;
+
+        await store.set<IndexerState>(indexerKeys.state, {
+          lastBlock: end.toString(),
+          updatedAt: Date.now(),
+          caughtUp: state?.caughtUp || end >= safeHead,
+        });
+      }
+    } finally {
+      await store.del(indexerKeys.lock);
+    }
+
+    return {
+      fromBlock: fromBlock.toString(),
+      toBlock: toBlock.toString(),
+      logsProcessed,
+      caughtUp: toBlock >= safeHead,
+    };
+  }
+
+  async getMarket(marketId: number): Promise<IndexedMarket | null> {
+    return this.config.store.get<IndexedMarket>(indexerKeys.market(marketId));
+  }
+
+  async getMarketIds(): Promise<number[]> {
+    return toSortedIds(await this.config.store.smembers(indexerKeys.markets));
+  }
+
+  async getUserMarkets(address: string): Promise<number[]> {
+    return toSortedIds(
+      await this.config.store.smembers(indexerKeys.userMarkets(address))
+    );
+  }
+
+  async getUserClaims(address: string): Promise<number[]> {
+    return toSortedIds(
+      await this.config.store.smembers(indexerKeys.userClaims(address))
+    );
+  }
+
+  async getCreatorMarkets(address: string): Promise<number[]> {
+    return toSortedIds(
+      await this.config.store.smembers(indexerKeys.creatorMarkets(address))
+    );
+  }
+
+  async getMarketTrades(marketId: number): Promise<IndexedTrade[]> {
+    return dedupeTrades(
+      await this.config.store.lrange<IndexedTrade>(
+        indexerKeys.marketTrades(marketId),
+        0,
+        -1
+      )
+    );
+  }
+
+  async getMarketFees(marketId: number): Promise<IndexedFee[]> {
+    return dedupeTrades(
+      await this.config.store.lrange<IndexedFee>(
+        indexerKeys.marketFees(marketId),
+        0,
+        -1
+      )
+    );
+  }
+
+  async getUserTrades(address: string): Promise<IndexedTrade[]> {
+    return dedupeTrades(
+      await this.config.store.lrange<IndexedTrade>(
+        indexerKeys.userTrades(address),
+        0,
+        -1
+      )
+    );
+  }
+
+  // Addresses with a positive net share balance, derived from indexed trades
+  async getMarketHolders(marketId: number): Promise<string[]> {
+    const contract = this.config.contractAddress.toLowerCase();
+    const balances = new Map<string, bigint>();
+    for (const trade of await this.getMarketTrades(marketId)) {
+      const quantity = BigInt(trade.quantity);
+      const buyer = trade.buyer.toLowerCase();
+      const seller = trade.seller.toLowerCase();
+      if (buyer && buyer !== ZERO_ADDRESS && buyer !== contract) {
+        balances.set(buyer, (balances.get(buyer) ?? 0n) + quantity);
+      }
+      if (seller && seller !== ZERO_ADDRESS && seller !== contract) {
+        balances.set(seller, (balances.get(seller) ?? 0n) - quantity);
+      }
+    }
+    return Array.from(balances.entries())
+      .filter(([, balance]) => balance > 0n)
+      .map(([address]) => address);
+  }
+
+  private async updateMarket(
+    marketId: number,
+    patch: Partial<IndexedMarket>
+  ): Promise<void> {
+    const existing = await this.getMarket(marketId);
+    if (!existing) {
+      // Event for a market created before startBlock; nothing to patch
+      console.debug(`Indexer: skipping update for unknown market ${marketId}`);
+      return;
+    }
+    await this.config.store.set(indexerKeys.market(marketId), {
+      ...existing,
+      ...patch,
+    });
+  }
+
+  private async addParticipant(address: string, marketId: number) {
+    if (!address || address.toLowerCase() === ZERO_ADDRESS) return;
+    if (
+      address.toLowerCase() === this.config.contractAddress.toLowerCase()
+    ) {
+      return;
+    }
+    await this.config.store.sadd(
+      indexerKeys.userMarkets(address),
+      String(marketId)
+    );
+  }
+
+  private async getBlockTimestamp(blockNumber: bigint): Promise<number> {
+    const cached = this.blockTimestamps.get(blockNumber);
+    if (cached !== undefined) return cached;
+    const block = await this.config.client.getBlock({ blockNumber });
+    const timestamp = Number(block.timestamp);
+    this.blockTimestamps.set(blockNumber, timestamp);
+    return timestamp;
+  }
+
+  private async applyLog(log: {
+    eventName: (typeof INDEXED_EVENT_NAMES)[number];
+    args: Record<string, any>;
+    blockNumber: bigint;
+    transactionHash: `0x${string}`;
+    logIndex: number;
+  }): Promise<void> {
+    const { store } = this.config;
+    const args = log.args;
+    const marketId = Number(args.marketId);
+
+    switch (log.eventName) {
+      case "MarketCreated": {
+        const market: IndexedMarket = {
+          marketId,
+          question: String(args.question ?? ""),
+          options: (args.options ?? []).map((o: unknown) => String(o)),
+          endTime: BigInt(args.endTime ?? 0n).toString(),
+          category: Number(args.category ?? 0),
+          marketType: Number(args.marketType ?? 0),
+          creator: String(args.creator ?? ""),
+          createdBlock: log.blockNumber.toString(),
+          validated: false,
+          resolved: false,
+          invalidated: false,
+          disputed: false,
+          winningOptionId: null,
+          adminLiquidityWithdrawn: false,
+          prizePoolWithdrawn: false,
+        };
+        await store.set(indexerKeys.market(marketId), market);
+        await store.sadd(indexerKeys.markets, String(marketId));
+        if (market.creator) {
+          await store.sadd(
+            indexerKeys.creatorMarkets(market.creator),
+            String(marketId)
+          );
+        }
+        break;
+      }
+      case "MarketValidated":
+        await this.updateMarket(marketId, { validated: true });
+        break;
+      case "MarketResolved":
+        await this.updateMarket(marketId, {
+          resolved: true,
+          winningOptionId: Number(args.winningOptionId),
+        });
+        break;
+      case "MarketInvalidated":
+        await this.updateMarket(marketId, { invalidated: true });
+        break;
+      case "MarketDisputed":
+        await this.updateMarket(marketId, { disputed: true });
+        break;
+      case "AdminLiquidityWithdrawn":
+        await this.updateMarket(marketId, { adminLiquidityWithdrawn: true });
+        break;
+      case "UnusedPrizePoolWithdrawn":
+        await this.updateMarket(marketId, { prizePoolWithdrawn: true });
+        break;
+      case "TradeExecuted": {
+        const trade: IndexedTrade = {
+          marketId,
+          optionId: Number(args.optionId),
+          buyer: String(args.buyer ?? ""),
+          seller: String(args.seller ?? ""),
+          price: BigInt(args.price ?? 0n).toString(),
+          quantity: BigInt(args.quantity ?? 0n).toString(),
+          blockNumber: log.blockNumber.toString(),
+          timestamp: await this.getBlockTimestamp(log.blockNumber),
+          txHash: log.transactionHash,
+          logIndex: log.logIndex,
+        };
+        await store.rpush(indexerKeys.marketTrades(marketId), trade);
+        for (const party of new Set([
+          trade.buyer.toLowerCase(),
+          trade.seller.toLowerCase(),
+        ])) {
+          if (!party || party === ZERO_ADDRESS) continue;
+          if (party === this.config.contractAddress.toLowerCase()) continue;
+          await store.rpush(indexerKeys.userTrades(party), trade);
+          await this.addParticipant(party, marketId);
+        }
+        break;
+      }
+      case "FeeAccrued": {
+        const fee: IndexedFee = {
+          marketId,
+          optionId: Number(args.optionId),
+          isBuy: Boolean(args.isBuy),
+          rawAmount: BigInt(args.rawAmount ?? 0n).toString(),
+          fee: BigInt(args.fee ?? 0n).toString(),
+          blockNumber: log.blockNumber.toString(),
+          txHash: log.transactionHash,
+          logIndex: log.logIndex,
+        };
+        await store.rpush(indexerKeys.marketFees(marketId), fee);
+        break;
+      }
+      case "FreeTokensClaimed":
+        await this.addParticipant(String(args.user), marketId);
+        break;
+      case "Claimed":
+        await this.addParticipant(String(args.user), marketId);
+        await store.sadd(
+          indexerKeys.userClaims(String(args.user)),
+          String(marketId)
+        );
+        break;
+    }
+  }
+}
+
+function toSortedIds(members: string[]): number[] {
+  return members
+    .map((m) => Number(m))
+    .filter((m) => Number.isFinite(m))
+    .sort((a, b) => a - b);
+}
+
+// The trade a fee was taken on: same transaction and option, nearest log
+export function tradeForFee(
+  fee: IndexedFee,
+  trades: IndexedTrade[]
+): IndexedTrade | undefined {
+  return trades
+    .filter((t) => t.txHash === fee.txHash && t.optionId === fee.optionId)
+    .sort(
+      (a, b) =>
+        Math.abs(a.logIndex - fee.logIndex) -
+        Math.abs(b.logIndex - fee.logIndex)
+    )[0];
+}
+
+// A sync interrupted mid-range can re-append the same logs; drop duplicates
+function dedupeTrades<T extends { txHash: string; logIndex: number }>(
+  trades: T[]
+): T[] {
+  const seen = new Set<string>();
+  return trades.filter((t) => {
+    const id = `${t.txHash}:${t.logIndex}`;
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+}
+
+// Any RPC works here, including a local anvil node
+const indexerRpc =
+  process.env.INDEXER_RPC_URL ||
+  process.env.NEXT_PUBLIC_ALCHEMY_RPC_URL ||
+  "https://mainnet.base.org";
+
+export const marketIndexer = new MarketIndexer({
+  client: createPublicClient({ transport: http(indexerRpc) }) as PublicClient,
+  store: getKVStore(),
+  contractAddress: (process.env.INDEXER_CONTRACT_ADDRESS ||
+    V2contractAddress) as `0x${string}`,
+  startBlock: BigInt(process.env.INDEXER_START_BLOCK || "0"),
+  batchSize: BigInt(process.env.INDEXER_BATCH_SIZE || "2000"),
+  maxBlocksPerSync: BigInt(process.env.INDEXER_MAX_BLOCKS_PER_SYNC || "50000"),
+  confirmations: BigInt(process.env.INDEXER_CONFIRMATIONS || "3"),
+  maxLagBlocks: BigInt(process.env.INDEXER_MAX_LAG_BLOCKS || "100"),
+});
@@ -0,0 +1,221 @@
+import { parseEventLogs } from "viem";
+import {
+  publicClient,
+  V2contractAddress,
+  V2contractAbi,
+} from "@/constants/contract";
+import { getKVStore } from "@/lib/kv-store";
+import {
+  MAX_BATCH_SIZE,
+  MAX_SCHEDULE_OCCURRENCES,
+  matchesDraft,
+  validateDraft,
+  type MarketDraft,
+  type MarketTemplate,
+  type ScheduledMarketBatch,
+} from "@/lib/market-templates";
+
+// Server-side persistence for market templates and scheduled batches
+const keys = {
+  template: (id: string) => `market-template:${id}`,
+  templates: "market-templates",
+  batch: (id: string) => `market-schedule:${id}`,
+  creator: (address: string) =>
+    `market-schedules:creator:${address.toLowerCase()}`,
+  pending: "market-schedules:pending",
+};
+
+const newId = (prefix: string) =>
+  `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+
+export class MarketScheduleService {
+  private store = getKVStore();
+
+  // Templates are shared by every creator so the team can reuse them
+  async listTemplates(): Promise<MarketTemplate[]> {
+    const ids = await this.store.smembers(keys.templates);
+    const templates = await Promise.all(
+      ids.map((id) => this.store.get<MarketTemplate>(keys.template(id)))
+    );
+    return templates
+      .filter((t): t is MarketTemplate => t !== null)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async saveTemplate(input: {
+    id?: string;
+    name: string;
+    draft: MarketDraft;
+    createdBy: string;
+  }): Promise<MarketTemplate> {
+    const name = input.name.trim();
+    if (!name) throw new Error("Template name is required");
+    if (name.length > 80) {
+      throw new Error("Template name must be 80 characters or less");
+    }
+    // Templates keep their {{variables}}; everything else must already pass
+    // the schedule-time checks once rendered
+    const error = validateDraft(input.draft, undefined, {
+      allowVariables: true,
+    });
+    if (error) throw new Error(error);
+
+    const now = Date.now();
+    const existing = input.id
+      ? await this.store.get<MarketTemplate>(keys.template(input.id))
+      : null;
+    const template: MarketTemplate = {
+      id: existing?.id ?? newId("template"),
+      name,
+      draft: input.draft,
+      createdBy: existing?.createdBy ?? input.createdBy.toLowerCase(),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    await this.store.set(keys.template(template.id), template);
+    await this.store.sadd(keys.templates, template.id);
+    return template;
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    await this.store.del(keys.template(id));
+    await this.store.srem(keys.templates, id);
+  }
+
+  async getBatch(id: string): Promise<ScheduledMarketBatch | null> {
+    return this.store.get<ScheduledMarketBatch>(keys.batch(id));
+  }
+
+  async schedule(input: {
+    creator: string;
+    batches: { scheduledFor: number; drafts: MarketDraft[] }[];
+    templateId?: string;
+  }): Promise<ScheduledMarketBatch[]> {
+    if (input.batches.length === 0) throw new Error("No batches to schedule");
+    if (input.batches.length > MAX_SCHEDULE_OCCURRENCES) {
+      throw new Error(
+        `At most ${MAX_SCHEDULE_OCCURRENCES} occurrences can be scheduled`
+      );
+    }
+    for (const { scheduledFor, drafts } of input.batches) {
+      if (!Number.isFinite(scheduledFor)) {
+        throw new Error("Invalid scheduled time");
+      }
+      if (drafts.length === 0) throw new Error("No markets to schedule");
+      if (drafts.length > MAX_BATCH_SIZE) {
+        throw new Error(`A batch can hold at most ${MAX_BATCH_SIZE} markets`);
+      }
+      for (const [index, draft] of drafts.entries()) {
+        const error = validateDraft(draft);
+        if (error) throw new Error(`Market ${index + 1}: ${error}`);
+      }
+    }
+
+    const created: ScheduledMarketBatch[] = [];
+    for (const { scheduledFor, drafts } of input.batches) {
+      const batch: ScheduledMarketBatch = {
+        id: newId("schedule"),
+        creator: input.creator.toLowerCase(),
+        scheduledFor,
+        drafts,
+        templateId: input.templateId,
+        status: "scheduled",
+        createdAt: Date.now(),
+      };
+      await this.store.set(keys.batch(batch.id), batch);
+      await this.store.sadd(keys.creator(batch.creator), batch.id);
+      await this.store.sadd(keys.pending, batch.id);
+      created.push(batch);
+    }
+    return created;
+  }
+
+  async listByCreator(creator: string): Promise<ScheduledMarketBatch[]> {
+    const ids = await this.store.smembers(keys.creator(creator));
+    const batches = await Promise.all(ids.map((id) => this.getBatch(id)));
+    return batches
+      .filter((b): b is ScheduledMarketBatch => b !== null)
+      .sort((a, b) => a.scheduledFor - b.scheduledFor);
+  }
+
+  async listPending(): Promise<ScheduledMarketBatch[]> {
+    const ids = await this.store.smembers(keys.pending);
+    const batches = await Promise.all(ids.map((id) => this.getBatch(id)));
+    return batches
+      .filter((b): b is ScheduledMarketBatch => b?.status === "scheduled")
+      .sort((a, b) => a.scheduledFor - b.scheduledFor);
+  }
+
+  async cancel(batch: ScheduledMarketBatch): Promise<ScheduledMarketBatch> {
+    if (batch.status !== "scheduled") {
+      throw new Error(`Batch is already ${batch.status}`);
+    }
+    return this.update(batch, { status: "cancelled" });
+  }
+
+  /**
+   * Mark a batch submitted once its transactions are mined. Wallets without
+   * atomic batching return one receipt per call, so every hash is checked.
+   * Each draft must match its own MarketCreated log from the batch creator
+   * (question, options, category and type), so the flag cannot be set with
+   * unrelated or earlier transactions.
+   */
+  async markSubmitted(
+    batch: ScheduledMarketBatch,
+    txHashes: `0x${string}`[]
+  ): Promise<ScheduledMarketBatch> {
+    if (batch.status !== "scheduled") {
+      throw new Error(`Batch is already ${batch.status}`);
+    }
+
+    const receipts = await Promise.all(
+      txHashes.map((hash) => publicClient.getTransactionReceipt({ hash }))
+    );
+    if (receipts.some((receipt) => receipt.status !== "success")) {
+      throw new Error("Transaction reverted");
+    }
+
+    const created = parseEventLogs({
+      abi: V2contractAbi,
+      eventName: "MarketCreated",
+      logs: receipts.flatMap((receipt) => receipt.logs),
+    }).filter(
+      (log) =>
+        log.address.toLowerCase() === V2contractAddress.toLowerCase() &&
+        log.args.creator.toLowerCase() === batch.creator
+    );
+    const unmatched = [...created];
+    const marketIds: string[] = [];
+    for (const draft of batch.drafts) {
+      const index = unmatched.findIndex((log) =>
+        matchesDraft(log.args, draft)
+      );
+      if (index === -1) {
+        throw new Error("Transaction did not create the scheduled markets");
+      }
+      marketIds.push(unmatched[index].args.marketId.toString());
+      unmatched.splice(index, 1);
+    }
+
+    return this.update(batch, {
+      status: "submitted",
+      submittedAt: Date.now(),
+      txHashes,
+      marketIds,
+    });
+  }
+
+  private async update(
+    batch: ScheduledMarketBatch,
+    patch: Partial<ScheduledMarketBatch>
+  ): Promise<ScheduledMarketBatch> {
+    const next = { ...batch, ...patch };
+    await this.store.set(keys.batch(batch.id), next);
+    if (next.status !== "scheduled") {
+      await this.store.srem(keys.pending, batch.id);
+    }
+    return next;
+  }
+}
+
+export const marketScheduleService = new MarketScheduleService();
@@ -0,0 +1,200 @@
+import {
+  publicClient,
+  PolicastViews,
+  PolicastViewsAbi,
+  V2contractAddress,
+  V2contractAbi,
+} from "@/constants/contract";
+import { fetchLMSRState } from "@/lib/lmsr-state";
+import { LMSR_SCALE, marginalPrices } from "@/lib/lmsr";
+import type {
+  MarketSnapshotEvent,
+  MarketStreamEvent,
+  MarketTradeEvent,
+} from "@/lib/market-stream";
+
+// Events pushed to stream subscribers. Everything else is ignored.
+const STREAMED_EVENT_NAMES = [
+  "TradeExecuted",
+  "MarketResolved",
+  "MarketInvalidated",
+] as const;
+
+type StreamedEvent = Extract<
+  (typeof V2contractAbi)[number],
+  { type: "event"; name: (typeof STREAMED_EVENT_NAMES)[number] }
+>;
+
+const STREAMED_EVENTS = V2contractAbi.filter(
+  (item): item is StreamedEvent =>
+    item.type === "event" &&
+    (STREAMED_EVENT_NAMES as readonly string[]).includes(item.name)
+);
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// How often the shared watcher polls for new logs
+const POLLING_INTERVAL_MS = 4000;
+
+type StreamListener = (event: MarketStreamEvent) => void;
+
+interface StreamedLog {
+  eventName: (typeof STREAMED_EVENT_NAMES)[number];
+  args: Record<string, any>;
+  transactionHash: `0x${string}`;
+}
+
+export class MarketStreamService {
+  private listeners = new Map<number, Set<StreamListener>>();
+  private unwatch: (() => void) | null = null;
+
+  // Starts the shared log watcher on the first subscriber and stops it when
+  // the last one leaves. Returns the unsubscribe function.
+  subscribe(marketId: number, listener: StreamListener): () => void {
+    const set = this.listeners.get(marketId) ?? new Set<StreamListener>();
+    set.add(listener);
+    this.listeners.set(marketId, set);
+    this.startWatching();
+
+    return () => {
+      set.delete(listener);
+      if (set.size === 0) this.listeners.delete(marketId);
+      if (this.listeners.size === 0) this.stopWatching();
+    };
+  }
+
+  async snapshot(marketId: number): Promise<MarketSnapshotEvent> {
+    // getMarketInfo: (question, description, endTime, category, marketType,
+    // resolved, invalidated, creator, lmsrB)
+    const [info, { state }] = await Promise.all([
+      publicClient.readContract({
+        address: PolicastViews,
+        abi: PolicastViewsAbi,
+        functionName: "getMarketInfo",
+        args: [BigInt(marketId)],
+      }),
+      fetchLMSRState(marketId),
+    ]);
+    const resolved = info[5];
+    const winningOptionId = resolved
+      ? Number(
+          await publicClient.readContract({
+            address: PolicastViews,
+            abi: PolicastViewsAbi,
+            functionName: "getMarketResolvedOutcome",
+            args: [BigInt(marketId)],
+          })
+        )
+      : null;
+
+    return {
+      type: "snapshot",
+      marketId,
+      prices: state ? marginalPrices(state).map(String) : [],
+      resolved,
+      invalidated: info[6],
+      winningOptionId,
+      at: Date.now(),
+    };
+  }
+
+  private startWatching() {
+    if (this.unwatch) return;
+    this.unwatch = publicClient.watchEvent({
+      address: V2contractAddress,
+      events: STREAMED_EVENTS,
+      pollingInterval: POLLING_INTERVAL_MS,
+      onLogs: (logs) => {
+        this.handleLogs(logs as unknown as StreamedLog[]).catch((error) =>
+          console.error("Market stream update failed:", error)
+        );
+      },
+      onError: (error) => console.error("Market stream watcher error:", error),
+    });
+  }
+
+  private stopWatching() {
+    this.unwatch?.();
+    this.unwatch = null;
+  }
+
+  private broadcast(event: MarketStreamEvent) {
+    this.listeners.get(event.marketId)?.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error("Market stream listener failed:", error);
+      }
+    });
+  }
+
+  // Only markets with subscribers are processed; prices are read once per
+  // market per batch of logs, after all of its trades
+  private async handleLogs(logs: StreamedLog[]) {
+    const byMarket = new Map<number, StreamedLog[]>();
+    for (const log of logs) {
+      const marketId = Number(log.args.marketId);
+      if (!this.listeners.has(marketId)) continue;
+      byMarket.set(marketId, [...(byMarket.get(marketId) ?? []), log]);
+    }
+
+    for (const [marketId, marketLogs] of Array.from(byMarket.entries())) {
+      const trades = marketLogs.filter((l) => l.eventName === "TradeExecuted");
+      const prices = trades.length > 0 ? await this.loadPrices(marketId) : [];
+
+      for (const log of marketLogs) {
+        const at = Date.now();
+        if (log.eventName === "TradeExecuted") {
+          this.broadcast(this.toTradeEvent(marketId, log, prices, at));
+        } else {
+          const resolved = log.eventName === "MarketResolved";
+          this.broadcast({
+            type: "status",
+            marketId,
+            resolved,
+            invalidated: !resolved,
+            winningOptionId: resolved
+              ? Number(log.args.winningOptionId)
+              : null,
+            at,
+          });
+        }
+      }
+    }
+  }
+
+  private async loadPrices(marketId: number): Promise<string[]> {
+    const { state } = await fetchLMSRState(marketId);
+    return state ? marginalPrices(state).map(String) : [];
+  }
+
+  private toTradeEvent(
+    marketId: number,
+    log: StreamedLog,
+    prices: string[],
+    at: number
+  ): MarketTradeEvent {
+    const buyer = String(log.args.buyer ?? "").toLowerCase();
+    const seller = String(log.args.seller ?? "").toLowerCase();
+    const contract = V2contractAddress.toLowerCase();
+    const isBuy = !!buyer && buyer !== ZERO_ADDRESS && buyer !== contract;
+    const price = BigInt(log.args.price ?? 0n);
+    const quantity = BigInt(log.args.quantity ?? 0n);
+
+    return {
+      type: "trade",
+      marketId,
+      optionId: Number(log.args.optionId),
+      side: isBuy ? "buy" : "sell",
+      trader: isBuy ? buyer : seller,
+      price: price.toString(),
+      quantity: quantity.toString(),
+      volume: ((price * quantity) / LMSR_SCALE).toString(),
+      prices,
+      txHash: log.transactionHash,
+      at,
+    };
+  }
+}
+
+export const marketStreamService = new MarketStreamService();
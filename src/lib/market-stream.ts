@@ -0,0 +1,54 @@
+/**
+ * Server-Sent Events for live V2 market updates. The server watches
+ * TradeExecuted / MarketResolved / MarketInvalidated logs once and pushes
+ * deltas to every client subscribed to /api/stream/market/[marketId].
+ *
+ * Amounts travel as decimal strings (1e18-scaled) since JSON has no bigint.
+ */
+
+// Current odds and status, sent when a client connects
+export interface MarketSnapshotEvent {
+  type: "snapshot";
+  marketId: number;
+  prices: string[]; // marginal price per option, 1e18-scaled
+  resolved: boolean;
+  invalidated: boolean;
+  winningOptionId: number | null;
+  at: number; // ms
+}
+
+export interface MarketTradeEvent {
+  type: "trade";
+  marketId: number;
+  optionId: number;
+  side: "buy" | "sell";
+  trader: string; // lowercase address
+  price: string; // tokens per share, pre-fee
+  quantity: string; // shares
+  volume: string; // tokens traded (price × quantity)
+  prices: string[]; // marginal prices after the trade
+  txHash: string;
+  at: number;
+}
+
+export interface MarketStatusEvent {
+  type: "status";
+  marketId: number;
+  resolved: boolean;
+  invalidated: boolean;
+  winningOptionId: number | null;
+  at: number;
+}
+
+export type MarketStreamEvent =
+  | MarketSnapshotEvent
+  | MarketTradeEvent
+  | MarketStatusEvent;
+
+// Seconds between keep-alive comments so proxies keep the connection open
+export const STREAM_HEARTBEAT_MS = 25_000;
+
+// One SSE frame; the event name lets clients addEventListener by type
+export function encodeStreamEvent(event: MarketStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
@@ -0,0 +1,411 @@
+import { encodeFunctionData, keccak256, parseEther, toBytes } from "viem";
+import {
+  V2contractAddress,
+  V2contractAbi,
+  tokenAddress,
+  tokenAbi,
+} from "@/constants/contract";
+import {
+  MIN_INITIAL_LIQUIDITY,
+  MarketCategory,
+  MarketType,
+} from "@/lib/constants";
+import { buildSignedMessage } from "@/lib/resolution-evidence";
+
+/**
+ * Market templates and scheduled creation batches.
+ *
+ * A template stores the CreateMarketV2 form with {{variable}} placeholders
+ * (e.g. "Will {{home}} beat {{away}} on {{date}}?"). Rendering a template
+ * for a start time fills the built-in date variables plus any custom ones.
+ * Rendered drafts are queued as a batch for a future time; when it is due
+ * the creator signs one EIP-5792 batch with a single approval sized to the
+ * total and one createMarket call per draft.
+ */
+
+export interface MarketDraftOption {
+  name: string;
+  description: string;
+}
+
+export interface MarketDraft {
+  question: string;
+  description: string;
+  options: MarketDraftOption[];
+  category: MarketCategory;
+  marketType: MarketType;
+  durationDays: string;
+  initialLiquidity: string; // whole tokens
+  earlyResolutionAllowed: boolean;
+  maxFreeParticipants?: string;
+  freeSharesPerUser?: string; // whole tokens per participant
+}
+
+export interface MarketTemplate {
+  id: string;
+  name: string;
+  draft: MarketDraft;
+  createdBy: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ScheduledBatchStatus = "scheduled" | "submitted" | "cancelled";
+
+export interface ScheduledMarketBatch {
+  id: string;
+  creator: string;
+  scheduledFor: number; // unix ms
+  drafts: MarketDraft[];
+  templateId?: string;
+  status: ScheduledBatchStatus;
+  createdAt: number;
+  submittedAt?: number;
+  txHashes?: `0x${string}`[];
+  marketIds?: string[];
+}
+
+export const MIN_MARKET_OPTIONS = 2;
+export const MAX_MARKET_OPTIONS = 10;
+export const MAX_BATCH_SIZE = 20;
+export const MAX_SCHEDULE_OCCURRENCES = 52;
+
+// Filled from the batch's scheduled time; everything else is user supplied
+export const BUILT_IN_VARIABLES = [
+  "date",
+  "endDate",
+  "weekday",
+  "week",
+  "month",
+  "year",
+] as const;
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z][\w]*)\s*\}\}/g;
+const HAS_VARIABLE = /\{\{\s*[a-zA-Z][\w]*\s*\}\}/;
+
+export const hasUnfilledVariables = (text: string) => HAS_VARIABLE.test(text);
+
+const draftStrings = (draft: MarketDraft) => [
+  draft.question,
+  draft.description,
+  ...draft.options.flatMap((option) => [option.name, option.description]),
+];
+
+// Custom variables used anywhere in the draft, in first-seen order
+export function extractTemplateVariables(draft: MarketDraft): string[] {
+  const found = new Set<string>();
+  for (const text of draftStrings(draft)) {
+    for (const match of Array.from(text.matchAll(VARIABLE_PATTERN))) {
+      if (!(BUILT_IN_VARIABLES as readonly string[]).includes(match[1])) {
+        found.add(match[1]);
+      }
+    }
+  }
+  return Array.from(found);
+}
+
+// ISO-8601 week number
+function isoWeek(date: Date): number {
+  const target = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+  const day = target.getUTCDay() || 7;
+  target.setUTCDate(target.getUTCDate() + 4 - day);
+  const yearStart = new Date(Date.UTC(target.getUTCFullYear(), 0, 1));
+  const days = (target.getTime() - yearStart.getTime()) / 86400000;
+  return Math.ceil((days + 1) / 7);
+}
+
+export function builtInVariables(
+  startAt: number,
+  durationDays: number
+): Record<string, string> {
+  const start = new Date(startAt);
+  const end = new Date(startAt + durationDays * 24 * 60 * 60 * 1000);
+  const dateFormat: Intl.DateTimeFormatOptions = {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  };
+  return {
+    date: start.toLocaleDateString("en-US", dateFormat),
+    endDate: end.toLocaleDateString("en-US", dateFormat),
+    weekday: start.toLocaleDateString("en-US", {
+      weekday: "long",
+      timeZone: "UTC",
+    }),
+    week: String(isoWeek(start)),
+    month: start.toLocaleDateString("en-US", {
+      month: "long",
+      timeZone: "UTC",
+    }),
+    year: String(start.getUTCFullYear()),
+  };
+}
+
+// Unknown placeholders are left in place so validation can flag them
+export function substituteVariables(
+  text: string,
+  variables: Record<string, string>
+): string {
+  return text.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    variables[name] !== undefined ? variables[name] : placeholder
+  );
+}
+
+export function renderDraft(
+  draft: MarketDraft,
+  variables: Record<string, string>,
+  startAt: number
+): MarketDraft {
+  const all = {
+    ...builtInVariables(startAt, parseFloat(draft.durationDays) || 0),
+    ...variables,
+  };
+  return {
+    ...draft,
+    question: substituteVariables(draft.question, all),
+    description: substituteVariables(draft.description, all),
+    options: draft.options.map((option) => ({
+      name: substituteVariables(option.name, all),
+      description: substituteVariables(option.description, all),
+    })),
+  };
+}
+
+// MIN_MARKET_DURATION / MAX_MARKET_DURATION read from the V2 contract
+export interface DurationLimits {
+  minSeconds: bigint;
+  maxSeconds: bigint;
+}
+
+export const draftDurationSeconds = (draft: MarketDraft) =>
+  BigInt(Math.floor(parseFloat(draft.durationDays) * 24 * 60 * 60));
+
+const formatDuration = (seconds: bigint) =>
+  seconds % 86400n === 0n
+    ? `${seconds / 86400n} day(s)`
+    : `${Number(seconds) / 3600} hour(s)`;
+
+// Same rules as the CreateMarketV2 form, for drafts ready to submit. With
+// contract limits the duration is checked against them instead of >= 1 day.
+// Templates pass allowVariables, as their placeholders are filled later.
+export function validateDraft(
+  draft: MarketDraft,
+  limits?: DurationLimits,
+  options?: { allowVariables?: boolean }
+): string | null {
+  if (
+    !options?.allowVariables &&
+    draftStrings(draft).some(hasUnfilledVariables)
+  ) {
+    return "Draft still contains unfilled {{variables}}";
+  }
+  if (!draft.question.trim()) return "Question is required";
+  if (draft.question.length > 200) {
+    return "Question must be 200 characters or less";
+  }
+  if (!draft.description.trim()) return "Description is required";
+  if (draft.description.length > 1000) {
+    return "Description must be 1000 characters or less";
+  }
+  if (draft.options.length < MIN_MARKET_OPTIONS) {
+    return `At least ${MIN_MARKET_OPTIONS} options are required`;
+  }
+  if (draft.options.length > MAX_MARKET_OPTIONS) {
+    return `A maximum of ${MAX_MARKET_OPTIONS} options is allowed`;
+  }
+  if (draft.options.some((option) => !option.name.trim())) {
+    return "All options must have names";
+  }
+  if (draft.options.some((option) => option.name.length > 50)) {
+    return "Option names must be 50 characters or less";
+  }
+  if (draft.options.some((option) => option.description.length > 500)) {
+    return "Option descriptions must be 500 characters or less";
+  }
+  const duration = parseFloat(draft.durationDays);
+  if (isNaN(duration) || duration <= 0) {
+    return "Duration must be a positive number of days";
+  }
+  if (limits) {
+    const seconds = draftDurationSeconds(draft);
+    if (seconds < limits.minSeconds) {
+      return `Duration must be at least ${formatDuration(limits.minSeconds)}`;
+    }
+    if (seconds > limits.maxSeconds) {
+      return `Duration must be at most ${formatDuration(limits.maxSeconds)}`;
+    }
+  } else if (duration < 1) {
+    return "Duration must be at least 1 day";
+  }
+  const liquidity = parseFloat(draft.initialLiquidity);
+  if (isNaN(liquidity) || liquidity < MIN_INITIAL_LIQUIDITY) {
+    return `Initial liquidity must be at least ${MIN_INITIAL_LIQUIDITY} tokens`;
+  }
+  if (draft.marketType === MarketType.FREE_ENTRY) {
+    const participants = parseInt(draft.maxFreeParticipants || "");
+    const tokensPerUser = parseFloat(draft.freeSharesPerUser || "");
+    if (isNaN(participants) || participants < 1) {
+      return "Max free participants must be at least 1";
+    }
+    if (isNaN(tokensPerUser) || tokensPerUser <= 0) {
+      return "Free tokens per user must be greater than 0";
+    }
+  }
+  return null;
+}
+
+// Tokens pulled by createMarket: liquidity plus the free-entry prize pool
+export function getDraftCost(draft: MarketDraft): bigint {
+  const liquidity = parseEther(draft.initialLiquidity);
+  if (draft.marketType !== MarketType.FREE_ENTRY) return liquidity;
+  return (
+    liquidity +
+    parseEther(draft.freeSharesPerUser || "0") *
+      BigInt(draft.maxFreeParticipants || "0")
+  );
+}
+
+export function encodeCreateMarket(draft: MarketDraft): `0x${string}` {
+  const base = [
+    draft.question,
+    draft.description,
+    draft.options.map((option) => option.name),
+    draft.options.map((option) => option.description),
+    draftDurationSeconds(draft),
+    draft.category,
+    draft.marketType,
+    parseEther(draft.initialLiquidity),
+    draft.earlyResolutionAllowed,
+  ] as const;
+
+  if (draft.marketType === MarketType.FREE_ENTRY) {
+    return encodeFunctionData({
+      abi: V2contractAbi,
+      functionName: "createMarket",
+      args: [
+        ...base,
+        {
+          maxFreeParticipants: BigInt(draft.maxFreeParticipants || "0"),
+          tokensPerParticipant: parseEther(draft.freeSharesPerUser || "0"),
+        },
+      ],
+    });
+  }
+  return encodeFunctionData({
+    abi: V2contractAbi,
+    functionName: "createMarket",
+    args: base,
+  });
+}
+
+/**
+ * EIP-5792 calls for a batch of drafts: one approval sized to the total
+ * (skipped when the allowance already covers it) and one createMarket each.
+ */
+export function buildCreateMarketCalls(
+  drafts: MarketDraft[],
+  currentAllowance: bigint
+): { calls: { to: `0x${string}`; data: `0x${string}` }[]; total: bigint } {
+  const total = drafts.reduce((sum, draft) => sum + getDraftCost(draft), 0n);
+  const calls: { to: `0x${string}`; data: `0x${string}` }[] = [];
+
+  if (total > currentAllowance) {
+    calls.push({
+      to: tokenAddress as `0x${string}`,
+      data: encodeFunctionData({
+        abi: tokenAbi,
+        functionName: "approve",
+        args: [V2contractAddress, total],
+      }),
+    });
+  }
+  for (const draft of drafts) {
+    calls.push({
+      to: V2contractAddress as `0x${string}`,
+      data: encodeCreateMarket(draft),
+    });
+  }
+  return { calls, total };
+}
+
+export function isBatchDue(batch: ScheduledMarketBatch, now = Date.now()) {
+  return batch.status === "scheduled" && batch.scheduledFor <= now;
+}
+
+export type SchedulerAction =
+  | "save_template"
+  | "delete_template"
+  | "schedule"
+  | "cancel"
+  | "submit";
+
+const SCHEDULER_TITLES: Record<SchedulerAction, string> = {
+  save_template: "Policast save market template",
+  delete_template: "Policast delete market template",
+  schedule: "Policast schedule markets",
+  cancel: "Policast cancel scheduled markets",
+  submit: "Policast record scheduled markets",
+};
+
+// Drafts are signed by hash so the message stays readable in the wallet
+export const hashPayload = (payload: unknown) =>
+  keccak256(toBytes(JSON.stringify(payload)));
+
+export function buildSchedulerMessage(
+  action: SchedulerAction,
+  fields: Record<string, string | number>,
+  issuedAt: number
+): string {
+  return buildSignedMessage(SCHEDULER_TITLES[action], fields, issuedAt);
+}
+
+// Signed field sets, shared by the signing UI and the API routes
+export function templateFields(input: { name: string; draft: MarketDraft }) {
+  return {
+    Template: input.name,
+    Payload: hashPayload(input.draft),
+  };
+}
+
+// One signature covers every occurrence of a (possibly repeating) schedule
+export function scheduleFields(input: {
+  batches: { scheduledFor: number; drafts: MarketDraft[] }[];
+}) {
+  return {
+    Batches: input.batches.length,
+    "First run": new Date(
+      Math.min(...input.batches.map((batch) => batch.scheduledFor))
+    ).toISOString(),
+    Markets: input.batches.reduce((sum, b) => sum + b.drafts.length, 0),
+    Payload: hashPayload(input.batches),
+  };
+}
+
+export const deleteTemplateFields = (templateId: string) => ({
+  Template: templateId,
+});
+
+export const cancelBatchFields = (batchId: string) => ({ Batch: batchId });
+
+export const submitBatchFields = (batchId: string) => ({ Batch: batchId });
+
+// A MarketCreated log is a draft's market when every creation field matches
+export function matchesDraft(
+  created: {
+    question: string;
+    options: readonly string[];
+    category: number;
+    marketType: number;
+  },
+  draft: MarketDraft
+): boolean {
+  return (
+    created.question === draft.question &&
+    created.options.length === draft.options.length &&
+    created.options.every((name, i) => name === draft.options[i].name) &&
+    created.category === Number(draft.category) &&
+    created.marketType === Number(draft.marketType)
+  );
+}
@@ -0,0 +1,402 @@
+import { NeynarAPIClient } from "@neynar/nodejs-sdk";
+import { getKVStore, type KeyValueStore } from "@/lib/kv-store";
+import { marketIndexer, type IndexedMarket } from "@/lib/market-indexer";
+import {
+  CLOSING_LEAD_HOURS_OPTIONS,
+  normalizePreferences,
+  type NotificationEventType,
+  type NotificationPreferences,
+} from "@/lib/notifications";
+
+// Notification details stored per FID by /api/webhook
+export interface NotificationDetails {
+  url: string;
+  token: string;
+}
+
+export interface MarketNotification {
+  type: NotificationEventType;
+  marketId: number;
+  title: string;
+  body: string;
+  targetUrl: string;
+}
+
+export type SendStatus =
+  | "sent"
+  | "no_token"
+  | "disabled"
+  | "duplicate"
+  | "rate_limited"
+  | "invalid_token"
+  | "failed";
+
+export interface DispatchSummary {
+  events: { marketId: number; type: NotificationEventType }[];
+  results: Record<SendStatus, number>;
+}
+
+// Farcaster mini-app notification response
+interface SendNotificationResponse {
+  result?: {
+    successfulTokens?: string[];
+    invalidTokens?: string[];
+    rateLimitedTokens?: string[];
+  };
+}
+
+interface MarketStatusSnapshot {
+  resolved: boolean;
+  invalidated: boolean;
+  disputed: boolean;
+}
+
+export const notificationKeys = {
+  details: (fid: number | string) => `notification:${fid}`,
+  preferences: (fid: number | string) => `notification:prefs:${fid}`,
+  sent: (fid: number | string, notificationId: string) =>
+    `notification:sent:${fid}:${notificationId}`,
+  rate: (fid: number | string, window: number) =>
+    `notification:rate:${fid}:${window}`,
+  fids: (address: string) => `notification:fids:${address.toLowerCase()}`,
+  marketStatus: (marketId: number) => `notification:market:${marketId}`,
+  mockInbox: "notification:mock:inbox",
+};
+
+const DEDUPE_TTL_SECONDS = 7 * 24 * 60 * 60;
+const FID_CACHE_TTL_SECONDS = 24 * 60 * 60;
+const MAX_CLOSING_LEAD_HOURS = Math.max(...CLOSING_LEAD_HOURS_OPTIONS);
+
+interface NotificationServiceConfig {
+  store: KeyValueStore;
+  appUrl: string;
+  rateLimit: number; // notifications per FID per window
+  rateWindowSeconds: number;
+  urlOverride?: string; // route every send to e.g. the mock endpoint
+  neynarApiKey?: string;
+}
+
+export class NotificationService {
+  constructor(private readonly config: NotificationServiceConfig) {}
+
+  async saveDetails(fid: number | string, details: NotificationDetails) {
+    await this.config.store.set(notificationKeys.details(fid), details);
+  }
+
+  async removeDetails(fid: number | string) {
+    await this.config.store.del(notificationKeys.details(fid));
+  }
+
+  async getPreferences(fid: number | string): Promise<NotificationPreferences> {
+    return normalizePreferences(
+      await this.config.store.get<Partial<NotificationPreferences>>(
+        notificationKeys.preferences(fid)
+      )
+    );
+  }
+
+  async setPreferences(
+    fid: number | string,
+    preferences: Partial<NotificationPreferences>
+  ): Promise<NotificationPreferences> {
+    const next = normalizePreferences({
+      ...(await this.getPreferences(fid)),
+      ...preferences,
+    });
+    await this.config.store.set(notificationKeys.preferences(fid), next);
+    return next;
+  }
+
+  async hasDetails(fid: number | string): Promise<boolean> {
+    return (
+      (await this.config.store.get<NotificationDetails>(
+        notificationKeys.details(fid)
+      )) !== null
+    );
+  }
+
+  /**
+   * Send one notification to one FID.
+   *
+   * Checks run cheapest first: stored token, preferences, dedupe marker,
+   * then the per-FID rate limit. The dedupe marker is only written after a
+   * successful send so failed deliveries are retried on the next pass.
+   */
+  async sendToFid(
+    fid: number | string,
+    notification: MarketNotification
+  ): Promise<SendStatus> {
+    const { store } = this.config;
+    const details = await store.get<NotificationDetails>(
+      notificationKeys.details(fid)
+    );
+    if (!details) return "no_token";
+
+    const preferences = await this.getPreferences(fid);
+    if (!preferences.enabled || !preferences.events[notification.type]) {
+      return "disabled";
+    }
+
+    const notificationId = `${notification.type}-${notification.marketId}`;
+    if (await store.get(notificationKeys.sent(fid, notificationId))) {
+      return "duplicate";
+    }
+
+    const window = Math.floor(Date.now() / 1000 / this.config.rateWindowSeconds);
+    const count = await store.incr(notificationKeys.rate(fid, window), {
+      ex: this.config.rateWindowSeconds,
+    });
+    if (count > this.config.rateLimit) return "rate_limited";
+
+    try {
+      const response = await fetch(this.config.urlOverride || details.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          notificationId,
+          // Farcaster limits: title 32 chars, body 128 chars
+          title: notification.title.slice(0, 32),
+          body: notification.body.slice(0, 128),
+          targetUrl: notification.targetUrl,
+          tokens: [details.token],
+        }),
+      });
+      if (!response.ok) {
+        console.error(
+          `Notification to FID ${fid} failed: ${response.status} ${response.statusText}`
+        );
+        return "failed";
+      }
+
+      const data = (await response.json()) as SendNotificationResponse;
+      if (data.result?.invalidTokens?.includes(details.token)) {
+        await this.removeDetails(fid);
+        return "invalid_token";
+      }
+      if (data.result?.rateLimitedTokens?.includes(details.token)) {
+        return "rate_limited";
+      }
+
+      await store.set(notificationKeys.sent(fid, notificationId), Date.now(), {
+        ex: DEDUPE_TTL_SECONDS,
+      });
+      return "sent";
+    } catch (error) {
+      console.error(`Notification to FID ${fid} failed:`, error);
+      return "failed";
+    }
+  }
+
+  // Wallet -> FIDs via Neynar, cached in KV. Without an API key only cached
+  // (or manually seeded) mappings are used.
+  async resolveFids(addresses: string[]): Promise<Map<string, number[]>> {
+    const { store } = this.config;
+    const result = new Map<string, number[]>();
+    const missing: string[] = [];
+
+    for (const address of addresses) {
+      const cached = await store.get<number[]>(notificationKeys.fids(address));
+      if (cached) result.set(address.toLowerCase(), cached);
+      else missing.push(address.toLowerCase());
+    }
+
+    if (missing.length === 0 || !this.config.neynarApiKey) return result;
+
+    const neynar = new NeynarAPIClient({ apiKey: this.config.neynarApiKey });
+    for (let i = 0; i < missing.length; i += 25) {
+      const batch = missing.slice(i, i + 25);
+      try {
+        const usersMap = await neynar.fetchBulkUsersByEthOrSolAddress({
+          addresses: batch,
+          addressTypes: ["custody_address", "verified_address"],
+        });
+        const found: Record<string, number[]> = {};
+        for (const [address, users] of Object.entries(usersMap)) {
+          found[address.toLowerCase()] = (users as { fid: number }[]).map(
+            (user) => user.fid
+          );
+        }
+        for (const address of batch) {
+          const fids = found[address] ?? [];
+          result.set(address, fids);
+          await store.set(notificationKeys.fids(address), fids, {
+            ex: FID_CACHE_TTL_SECONDS,
+          });
+        }
+      } catch (error) {
+        console.error("Failed to resolve FIDs from Neynar:", error);
+      }
+    }
+    return result;
+  }
+
+  // Notify every holder of a market. closingInHours lets each user's
+  // closingLeadHours preference decide whether they want the warning yet.
+  async notifyHolders(
+    market: IndexedMarket,
+    notification: MarketNotification,
+    results: Record<SendStatus, number>,
+    closingInHours?: number
+  ) {
+    const holders = await marketIndexer.getMarketHolders(market.marketId);
+    const fidsByAddress = await this.resolveFids(holders);
+    const fids = new Set(Array.from(fidsByAddress.values()).flat());
+
+    for (const fid of Array.from(fids)) {
+      if (closingInHours !== undefined) {
+        const preferences = await this.getPreferences(fid);
+        if (closingInHours > preferences.closingLeadHours) continue;
+      }
+      const status = await this.sendToFid(fid, notification);
+      results[status]++;
+    }
+  }
+
+  /**
+   * One dispatcher pass over indexed markets.
+   *
+   * Resolution, invalidation and disputes are detected by diffing each
+   * market's status against the snapshot from the previous pass. Markets seen
+   * for the first time only record a baseline, so enabling the dispatcher
+   * does not notify about historical events.
+   */
+  async dispatch(): Promise<DispatchSummary> {
+    const { store } = this.config;
+    const summary: DispatchSummary = {
+      events: [],
+      results: {
+        sent: 0,
+        no_token: 0,
+        disabled: 0,
+        duplicate: 0,
+        rate_limited: 0,
+        invalid_token: 0,
+        failed: 0,
+      },
+    };
+    const now = Math.floor(Date.now() / 1000);
+
+    for (const marketId of await marketIndexer.getMarketIds()) {
+      const market = await marketIndexer.getMarket(marketId);
+      if (!market) continue;
+
+      const previous = await store.get<MarketStatusSnapshot>(
+        notificationKeys.marketStatus(marketId)
+      );
+      const current: MarketStatusSnapshot = {
+        resolved: market.resolved,
+        invalidated: market.invalidated,
+        disputed: market.disputed,
+      };
+
+      const events: NotificationEventType[] = [];
+      if (previous) {
+        if (current.resolved && !previous.resolved) {
+          events.push("market_resolved");
+        }
+        if (current.invalidated && !previous.invalidated) {
+          events.push("market_invalidated");
+        }
+        if (current.disputed && !previous.disputed) {
+          events.push("market_disputed");
+        }
+      }
+
+      for (const type of events) {
+        summary.events.push({ marketId, type });
+        await this.notifyHolders(
+          market,
+          this.buildNotification(type, market),
+          summary.results
+        );
+      }
+
+      const secondsLeft = Number(market.endTime) - now;
+      if (
+        !market.resolved &&
+        !market.invalidated &&
+        secondsLeft > 0 &&
+        secondsLeft <= MAX_CLOSING_LEAD_HOURS * 3600
+      ) {
+        summary.events.push({ marketId, type: "market_closing" });
+        await this.notifyHolders(
+          market,
+          this.buildNotification("market_closing", market, secondsLeft),
+          summary.results,
+          secondsLeft / 3600
+        );
+      }
+
+      await store.set(notificationKeys.marketStatus(marketId), current);
+    }
+
+    return summary;
+  }
+
+  buildNotification(
+    type: NotificationEventType,
+    market: IndexedMarket,
+    secondsLeft?: number
+  ): MarketNotification {
+    const question =
+      market.question.length > 100
+        ? `${market.question.slice(0, 97)}...`
+        : market.question;
+    const targetUrl = `${this.config.appUrl}/market/${market.marketId}`;
+
+    switch (type) {
+      case "market_resolved": {
+        const winner =
+          market.winningOptionId !== null
+            ? market.options[market.winningOptionId]
+            : undefined;
+        return {
+          type,
+          marketId: market.marketId,
+          title: "Market resolved",
+          body: winner
+            ? `"${question}" resolved: ${winner}. Claim your winnings.`
+            : `"${question}" has been resolved.`,
+          targetUrl,
+        };
+      }
+      case "market_invalidated":
+        return {
+          type,
+          marketId: market.marketId,
+          title: "Market invalidated",
+          body: `"${question}" was invalidated. Your position can be refunded.`,
+          targetUrl,
+        };
+      case "market_disputed":
+        return {
+          type,
+          marketId: market.marketId,
+          title: "Resolution disputed",
+          body: `The outcome of "${question}" is being disputed.`,
+          targetUrl,
+        };
+      case "market_closing": {
+        const hours = Math.max(1, Math.round((secondsLeft ?? 0) / 3600));
+        return {
+          type,
+          marketId: market.marketId,
+          title: "Market closing soon",
+          body: `"${question}" closes in about ${hours}h.`,
+          targetUrl,
+        };
+      }
+    }
+  }
+}
+
+export const notificationService = new NotificationService({
+  store: getKVStore(),
+  appUrl: process.env.NEXT_PUBLIC_APP_URL || "https://buster-mkt.vercel.app",
+  rateLimit: Number(process.env.NOTIFICATION_RATE_LIMIT || 5),
+  rateWindowSeconds: Number(
+    process.env.NOTIFICATION_RATE_WINDOW_SECONDS || 3600
+  ),
+  urlOverride: process.env.NOTIFICATION_URL_OVERRIDE || undefined,
+  neynarApiKey: process.env.NEYNAR_API_KEY || undefined,
+});
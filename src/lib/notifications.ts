@@ -0,0 +1,57 @@
+/**
+ * Farcaster mini-app notifications for market lifecycle events.
+ *
+ * Shared by the preferences UI and the server-side dispatcher, so this file
+ * must stay free of server-only imports.
+ */
+
+export type NotificationEventType =
+  | "market_resolved"
+  | "market_invalidated"
+  | "market_disputed"
+  | "market_closing";
+
+export interface NotificationPreferences {
+  enabled: boolean;
+  events: Record<NotificationEventType, boolean>;
+  closingLeadHours: number; // how early to warn before a market closes
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  enabled: true,
+  events: {
+    market_resolved: true,
+    market_invalidated: true,
+    market_disputed: true,
+    market_closing: true,
+  },
+  closingLeadHours: 24,
+};
+
+export const CLOSING_LEAD_HOURS_OPTIONS = [1, 6, 24, 48] as const;
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEventType, string> =
+  {
+    market_resolved: "Market resolved",
+    market_invalidated: "Market invalidated",
+    market_disputed: "Market disputed",
+    market_closing: "Market closing soon",
+  };
+
+// Merge stored (possibly partial or outdated) preferences over the defaults
+export function normalizePreferences(
+  input?: Partial<NotificationPreferences> | null
+): NotificationPreferences {
+  const lead = Number(input?.closingLeadHours);
+  return {
+    enabled: input?.enabled ?? DEFAULT_NOTIFICATION_PREFERENCES.enabled,
+    events: {
+      ...DEFAULT_NOTIFICATION_PREFERENCES.events,
+      ...(input?.events ?? {}),
+    },
+    closingLeadHours:
+      Number.isFinite(lead) && lead > 0 && lead <= 168
+        ? lead
+        : DEFAULT_NOTIFICATION_PREFERENCES.closingLeadHours,
+  };
+}
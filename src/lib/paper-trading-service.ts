@@ -0,0 +1,134 @@
+import { getKVStore } from "@/lib/kv-store";
+import type { LMSRMarketState } from "@/lib/lmsr";
+import { fetchLMSRState } from "@/lib/lmsr-state";
+import {
+  executePaperTrade,
+  newPaperAccount,
+  summarizePaperAccount,
+  type PaperAccount,
+  type PaperAccountSummary,
+  type PaperLeaderboardEntry,
+  type PaperTradeRequest,
+} from "@/lib/paper-trading";
+
+// Server-side paper accounts (Vercel KV or the local stand-in)
+const keys = {
+  account: (address: string) => `paper:account:${address.toLowerCase()}`,
+  accounts: "paper:accounts",
+  leaderboard: "paper:leaderboard",
+};
+
+// The leaderboard values every account, so it is cached briefly
+const LEADERBOARD_TTL_SECONDS = 60;
+
+export class PaperTradingService {
+  private store = getKVStore();
+
+  // Accounts are created lazily; a wallet that never traded gets a fresh one
+  async getAccount(address: string): Promise<PaperAccount> {
+    return (
+      (await this.store.get<PaperAccount>(keys.account(address))) ??
+      newPaperAccount(address, Date.now())
+    );
+  }
+
+  async getSummary(address: string): Promise<PaperAccountSummary> {
+    const account = await this.getAccount(address);
+    return summarizePaperAccount(account, await this.loadStates([account]));
+  }
+
+  async trade(
+    address: string,
+    request: PaperTradeRequest
+  ): Promise<PaperAccountSummary> {
+    const { state, tradable } = await fetchLMSRState(request.marketId);
+    if (!state) throw new Error("Market not found");
+    if (!tradable) throw new Error("Market is not open for trading");
+
+    const account = executePaperTrade(
+      await this.getAccount(address),
+      state,
+      request,
+      Date.now()
+    );
+    await this.store.set(keys.account(address), account);
+    await this.store.sadd(keys.accounts, account.address);
+
+    return summarizePaperAccount(
+      account,
+      new Map([[request.marketId, state]])
+    );
+  }
+
+  // Back to the starting balance with no positions; stays on the leaderboard
+  async reset(address: string): Promise<PaperAccountSummary> {
+    const now = Date.now();
+    const account = { ...newPaperAccount(address, now), resetAt: now };
+    await this.store.set(keys.account(address), account);
+    return summarizePaperAccount(account, new Map());
+  }
+
+  async leaderboard(limit = 100): Promise<PaperLeaderboardEntry[]> {
+    const cached = await this.store.get<PaperLeaderboardEntry[]>(
+      keys.leaderboard
+    );
+    if (cached) return cached.slice(0, limit);
+
+    const addresses = await this.store.smembers(keys.accounts);
+    const accounts = (
+      await Promise.all(
+        addresses.map((address) =>
+          this.store.get<PaperAccount>(keys.account(address))
+        )
+      )
+    ).filter((a): a is PaperAccount => a !== null && a.tradeCount > 0);
+
+    const states = await this.loadStates(accounts);
+    const entries = accounts
+      .map((account) => summarizePaperAccount(account, states))
+      .sort((a, b) => {
+        const diff = BigInt(b.equity) - BigInt(a.equity);
+        return diff > 0n ? 1 : diff < 0n ? -1 : 0;
+      })
+      .map(
+        (summary, i): PaperLeaderboardEntry => ({
+          rank: i + 1,
+          address: summary.account.address,
+          equity: summary.equity,
+          pnl: summary.pnl,
+          pnlPercent: summary.pnlPercent,
+          tradeCount: summary.account.tradeCount,
+        })
+      );
+
+    await this.store.set(keys.leaderboard, entries, {
+      ex: LEADERBOARD_TTL_SECONDS,
+    });
+    return entries.slice(0, limit);
+  }
+
+  // Live state for every market the accounts hold; one read per market
+  private async loadStates(
+    accounts: PaperAccount[]
+  ): Promise<Map<number, LMSRMarketState>> {
+    const marketIds = new Set(
+      accounts.flatMap((account) =>
+        Object.values(account.positions).map((p) => p.marketId)
+      )
+    );
+    const states = new Map<number, LMSRMarketState>();
+    await Promise.all(
+      Array.from(marketIds).map(async (marketId) => {
+        try {
+          const { state } = await fetchLMSRState(marketId);
+          if (state) states.set(marketId, state);
+        } catch (error) {
+          console.error(`Failed to load state for market ${marketId}:`, error);
+        }
+      })
+    );
+    return states;
+  }
+}
+
+export const paperTradingService = new PaperTradingService();
@@ -0,0 +1,280 @@
+import {
+  LMSR_SCALE,
+  applyTrade,
+  quoteBuy,
+  quoteSell,
+  type LMSRMarketState,
+} from "@/lib/lmsr";
+
+/**
+ * Paper trading: practice buys and sells against live V2 markets with a
+ * virtual balance. Nothing is sent on-chain.
+ *
+ * Each account trades against its own simulated LMSR state: the live state
+ * (getMarketOption / getMarketLMSRB) with the account's paper shares added
+ * on top. Paper buys move the price the account sees exactly like real buys
+ * would, while real trades by everyone else keep flowing in underneath.
+ *
+ * Accounts are stored server-side (paper-trading-service.ts) so the paper
+ * leaderboard cannot be self-reported. Amounts are 1e18-scaled bigints,
+ * serialized as decimal strings.
+ */
+
+export const PAPER_STARTING_BALANCE = 10_000n * LMSR_SCALE;
+// Most recent trades kept on the account
+export const MAX_PAPER_TRADES = 50;
+
+// Fired on window when paper mode is switched on or off
+export const PAPER_MODE_EVENT = "paper-mode-updated";
+// Fired on window after a paper trade or reset
+export const PAPER_ACCOUNT_EVENT = "paper-account-updated";
+
+const PAPER_MODE_KEY = "policast:paper-mode";
+
+export type PaperTradeSide = "buy" | "sell";
+
+export interface PaperPosition {
+  marketId: number;
+  optionId: number;
+  shares: string;
+  costBasis: string; // paper tokens spent on the shares still held
+}
+
+export interface PaperTrade {
+  marketId: number;
+  optionId: number;
+  side: PaperTradeSide;
+  quantity: string;
+  amount: string; // total cost (buy) or net proceeds (sell)
+  timestamp: number;
+}
+
+export interface PaperAccount {
+  address: string; // lowercase
+  balance: string;
+  positions: Record<string, PaperPosition>; // keyed by positionKey
+  trades: PaperTrade[]; // newest first
+  tradeCount: number;
+  createdAt: number;
+  resetAt?: number;
+}
+
+export interface PaperTradeRequest {
+  marketId: number;
+  optionId: number;
+  side: PaperTradeSide;
+  quantity: string;
+  // Max total cost (buy) / min net proceeds (sell), from the trade settings
+  limit: string;
+}
+
+export interface PaperPositionValue extends PaperPosition {
+  value: string; // what selling the position now would return
+}
+
+export interface PaperAccountSummary {
+  account: PaperAccount;
+  positions: PaperPositionValue[];
+  equity: string; // balance + position values
+  pnl: string;
+  pnlPercent: number;
+}
+
+export interface PaperLeaderboardEntry {
+  rank: number;
+  address: string;
+  equity: string;
+  pnl: string;
+  pnlPercent: number;
+  tradeCount: number;
+}
+
+export const positionKey = (marketId: number, optionId: number) =>
+  `${marketId}:${optionId}`;
+
+export function newPaperAccount(address: string, now: number): PaperAccount {
+  return {
+    address: address.toLowerCase(),
+    balance: PAPER_STARTING_BALANCE.toString(),
+    positions: {},
+    trades: [],
+    tradeCount: 0,
+    createdAt: now,
+  };
+}
+
+// Paper shares per option in one market (zeros where nothing is held)
+export function paperShares(
+  account: PaperAccount | null | undefined,
+  marketId: number,
+  optionCount: number
+): bigint[] {
+  return Array.from({ length: optionCount }, (_, optionId) =>
+    BigInt(account?.positions[positionKey(marketId, optionId)]?.shares ?? "0")
+  );
+}
+
+// Live state with the account's paper shares added on top
+export function simulatedState(
+  live: LMSRMarketState,
+  account: PaperAccount | null | undefined,
+  marketId: number
+): LMSRMarketState {
+  const held = paperShares(account, marketId, live.shares.length);
+  if (held.every((shares) => shares === 0n)) return live;
+  return {
+    ...live,
+    shares: live.shares.map((shares, optionId) => shares + held[optionId]),
+  };
+}
+
+/**
+ * Fill a paper trade against the account's simulated state. Returns the
+ * updated account; throws with a user-facing message if the trade is not
+ * possible (balance, holdings or the slippage limit).
+ */
+export function executePaperTrade(
+  account: PaperAccount,
+  live: LMSRMarketState,
+  request: PaperTradeRequest,
+  now: number
+): PaperAccount {
+  const { marketId, optionId, side } = request;
+  const quantity = BigInt(request.quantity);
+  const limit = BigInt(request.limit);
+  if (quantity <= 0n) throw new Error("Quantity must be greater than zero");
+  if (optionId < 0 || optionId >= live.shares.length) {
+    throw new Error("Invalid option");
+  }
+
+  const state = simulatedState(live, account, marketId);
+  const key = positionKey(marketId, optionId);
+  const position = account.positions[key];
+  const heldShares = BigInt(position?.shares ?? "0");
+  const costBasis = BigInt(position?.costBasis ?? "0");
+  let balance = BigInt(account.balance);
+  let amount: bigint;
+  let next: PaperPosition | undefined;
+
+  if (side === "buy") {
+    amount = quoteBuy(state, optionId, quantity).totalCost;
+    if (amount > limit) {
+      throw new Error("Price moved past your slippage limit");
+    }
+    if (amount > balance) throw new Error("Insufficient paper balance");
+    balance -= amount;
+    next = {
+      marketId,
+      optionId,
+      shares: (heldShares + quantity).toString(),
+      costBasis: (costBasis + amount).toString(),
+    };
+  } else {
+    if (quantity > heldShares) {
+      throw new Error("You don't hold that many paper shares");
+    }
+    amount = quoteSell(state, optionId, quantity).netRefund;
+    if (amount < limit) {
+      throw new Error("Price moved past your slippage limit");
+    }
+    balance += amount;
+    const remaining = heldShares - quantity;
+    next =
+      remaining > 0n
+        ? {
+            marketId,
+            optionId,
+            shares: remaining.toString(),
+            costBasis: (
+              costBasis -
+              (costBasis * quantity) / heldShares
+            ).toString(),
+          }
+        : undefined;
+  }
+
+  const positions = { ...account.positions };
+  if (next) positions[key] = next;
+  else delete positions[key];
+
+  const trade: PaperTrade = {
+    marketId,
+    optionId,
+    side,
+    quantity: quantity.toString(),
+    amount: amount.toString(),
+    timestamp: now,
+  };
+
+  return {
+    ...account,
+    balance: balance.toString(),
+    positions,
+    trades: [trade, ...account.trades].slice(0, MAX_PAPER_TRADES),
+    tradeCount: account.tradeCount + 1,
+  };
+}
+
+/**
+ * Mark an account to market: every position is valued at what selling it
+ * now would return, with sells in the same market chained so the total is
+ * achievable. Positions in markets without a state are valued at zero.
+ */
+export function summarizePaperAccount(
+  account: PaperAccount,
+  states: ReadonlyMap<number, LMSRMarketState>
+): PaperAccountSummary {
+  const working = new Map<number, LMSRMarketState>();
+  const positions: PaperPositionValue[] = [];
+  let positionsValue = 0n;
+
+  for (const position of Object.values(account.positions)) {
+    const { marketId, optionId } = position;
+    const live = states.get(marketId);
+    const shares = BigInt(position.shares);
+    let value = 0n;
+
+    if (live) {
+      const state =
+        working.get(marketId) ?? simulatedState(live, account, marketId);
+      try {
+        value = quoteSell(state, optionId, shares).netRefund;
+        working.set(marketId, applyTrade(state, optionId, -shares));
+      } catch (error) {
+        console.warn("Failed to value paper position:", error);
+      }
+    }
+
+    positions.push({ ...position, value: value.toString() });
+    positionsValue += value;
+  }
+
+  const equity = BigInt(account.balance) + positionsValue;
+  const pnl = equity - PAPER_STARTING_BALANCE;
+  return {
+    account,
+    positions,
+    equity: equity.toString(),
+    pnl: pnl.toString(),
+    pnlPercent: Number((pnl * 10000n) / PAPER_STARTING_BALANCE) / 100,
+  };
+}
+
+// --- Paper mode switch (per browser) ---
+
+export function loadPaperMode(): boolean {
+  if (typeof window === "undefined") return false;
+  try {
+    return localStorage.getItem(PAPER_MODE_KEY) === "1";
+  } catch {
+    return false;
+  }
+}
+
+export function savePaperMode(enabled: boolean) {
+  if (enabled) localStorage.setItem(PAPER_MODE_KEY, "1");
+  else localStorage.removeItem(PAPER_MODE_KEY);
+  window.dispatchEvent(
+    new CustomEvent(PAPER_MODE_EVENT, { detail: { enabled } })
+  );
+}
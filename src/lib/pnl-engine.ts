@@ -0,0 +1,427 @@
+import {
+  publicClient,
+  V2contractAddress,
+  V2contractAbi,
+  PolicastViews,
+  PolicastViewsAbi,
+} from "@/constants/contract";
+import {
+  marketIndexer,
+  tradeForFee,
+  type IndexedTrade,
+} from "@/lib/market-indexer";
+import {
+  DEFAULT_FEE_RATE_BPS,
+  LMSR_SCALE,
+  PAYOUT_PER_SHARE,
+  calculateFee,
+} from "@/lib/lmsr";
+import type {
+  MarketPnL,
+  OptionPnL,
+  PnLTimelinePoint,
+  PortfolioPnL,
+  PositionStatus,
+} from "@/types/pnl";
+
+// Normalized trade the ledger works on (price is tokens/share, pre-fee)
+export interface LedgerTrade {
+  marketId: number;
+  optionId: number;
+  isBuy: boolean;
+  price: bigint;
+  quantity: bigint;
+  timestamp: number;
+  fee?: bigint; // FeeAccrued amount; estimated from the fee rate when unset
+}
+
+export interface PositionState {
+  marketId: number;
+  optionId: number;
+  shares: bigint;
+  costBasis: bigint;
+  realizedPnL: bigint;
+  feesPaid: bigint;
+}
+
+interface MarketMeta {
+  question: string;
+  optionNames: string[];
+  resolved: boolean;
+  invalidated: boolean;
+  winningOptionId: number | null;
+}
+
+/**
+ * Rebuild per-position cost basis with the average-cost method.
+ *
+ * Buys add to shares and cost basis; sells release cost basis pro rata and
+ * book the difference to realized P&L. Platform fees are tracked separately
+ * so callers can report P&L before and after fees: each trade's charged fee
+ * when known, otherwise `feeRateBps` of its gross amount.
+ */
+export function buildLedger(
+  trades: LedgerTrade[],
+  feeRateBps: bigint
+): { positions: Map<string, PositionState>; timeline: PnLTimelinePoint[] } {
+  const positions = new Map<string, PositionState>();
+  const timeline: PnLTimelinePoint[] = [];
+  let realizedTotal = 0n;
+  let feesTotal = 0n;
+  let costBasisTotal = 0n;
+
+  const sorted = [...trades].sort((a, b) => a.timestamp - b.timestamp);
+  for (const trade of sorted) {
+    const key = `${trade.marketId}:${trade.optionId}`;
+    const position = positions.get(key) ?? {
+      marketId: trade.marketId,
+      optionId: trade.optionId,
+      shares: 0n,
+      costBasis: 0n,
+      realizedPnL: 0n,
+      feesPaid: 0n,
+    };
+
+    const gross = (trade.price * trade.quantity) / LMSR_SCALE;
+    const fee = trade.fee ?? calculateFee(gross, feeRateBps);
+    position.feesPaid += fee;
+    feesTotal += fee;
+
+    if (trade.isBuy) {
+      position.shares += trade.quantity;
+      position.costBasis += gross;
+      costBasisTotal += gross;
+    } else {
+      // Never release more basis than the position holds (e.g. partial history)
+      const quantity =
+        trade.quantity > position.shares ? position.shares : trade.quantity;
+      const released =
+        position.shares > 0n
+          ? (position.costBasis * quantity) / position.shares
+          : 0n;
+      const proceeds = (trade.price * quantity) / LMSR_SCALE;
+      position.shares -= quantity;
+      position.costBasis -= released;
+      position.realizedPnL += proceeds - released;
+      realizedTotal += proceeds - released;
+      costBasisTotal -= released;
+    }
+
+    positions.set(key, position);
+    timeline.push({
+      timestamp: trade.timestamp,
+      realizedPnL: realizedTotal.toString(),
+      feesPaid: feesTotal.toString(),
+      costBasis: costBasisTotal.toString(),
+    });
+  }
+
+  return { positions, timeline };
+}
+
+async function readCore<TReturn>(
+  functionName: string,
+  args: readonly any[] = []
+): Promise<TReturn> {
+  return (await publicClient.readContract({
+    address: V2contractAddress,
+    abi: V2contractAbi as any,
+    functionName: functionName as any,
+    args: args as any,
+  })) as unknown as TReturn;
+}
+
+async function readView<TReturn>(
+  functionName: string,
+  args: readonly any[] = []
+): Promise<TReturn> {
+  return (await publicClient.readContract({
+    address: PolicastViews,
+    abi: PolicastViewsAbi as any,
+    functionName: functionName as any,
+    args: args as any,
+  })) as unknown as TReturn;
+}
+
+export class PnLEngine {
+  async getPortfolioPnL(address: `0x${string}`): Promise<PortfolioPnL> {
+    const { trades, source } = await this.loadTrades(address);
+    const feeRateBps = await this.estimateFeeRate(trades);
+    const { positions, timeline } = buildLedger(trades, feeRateBps);
+
+    const byMarket = new Map<number, PositionState[]>();
+    for (const position of Array.from(positions.values())) {
+      byMarket.set(position.marketId, [
+        ...(byMarket.get(position.marketId) ?? []),
+        position,
+      ]);
+    }
+
+    const markets: MarketPnL[] = [];
+    for (const [marketId, marketPositions] of Array.from(byMarket.entries())) {
+      try {
+        markets.push(
+          await this.markMarket(address, marketId, marketPositions)
+        );
+      } catch (error) {
+        console.error(`P&L: failed to mark market ${marketId}:`, error);
+      }
+    }
+    markets.sort((a, b) => b.marketId - a.marketId);
+
+    const sum = (field: keyof MarketPnL) =>
+      markets.reduce((acc, m) => acc + BigInt(m[field] as string), 0n);
+    const realizedPnL = sum("realizedPnL");
+    const unrealizedPnL = sum("unrealizedPnL");
+    const feesPaid = sum("feesPaid");
+
+    return {
+      address,
+      source,
+      tradeCount: trades.length,
+      totals: {
+        costBasis: sum("costBasis").toString(),
+        marketValue: sum("marketValue").toString(),
+        realizedPnL: realizedPnL.toString(),
+        unrealizedPnL: unrealizedPnL.toString(),
+        feesPaid: feesPaid.toString(),
+        netPnL: (realizedPnL + unrealizedPnL).toString(),
+        feeAdjustedPnL: (realizedPnL + unrealizedPnL - feesPaid).toString(),
+      },
+      markets,
+      timeline,
+      updatedAt: Date.now(),
+    };
+  }
+
+  // A single market's positions, or null when the address never traded it
+  async getMarketPnL(
+    address: `0x${string}`,
+    marketId: number
+  ): Promise<MarketPnL | null> {
+    const { trades } = await this.loadTrades(address);
+    const marketTrades = trades.filter((t) => t.marketId === marketId);
+    if (marketTrades.length === 0) return null;
+
+    const feeRateBps = await this.estimateFeeRate(marketTrades);
+    const { positions } = buildLedger(marketTrades, feeRateBps);
+    return this.markMarket(address, marketId, Array.from(positions.values()));
+  }
+
+  // Only trades without an indexed fee are priced at the current rate, so a
+  // fee-rate change never rewrites indexed history
+  private async estimateFeeRate(trades: LedgerTrade[]): Promise<bigint> {
+    if (trades.every((t) => t.fee !== undefined)) return DEFAULT_FEE_RATE_BPS;
+    return readCore<bigint>("platformFeeRate").catch(
+      () => DEFAULT_FEE_RATE_BPS
+    );
+  }
+
+  // Fees actually charged, keyed by the trade's txHash:logIndex. Indexed
+  // trades without a FeeAccrued log paid none.
+  private async loadIndexedFees(
+    trades: IndexedTrade[]
+  ): Promise<Map<string, bigint>> {
+    const fees = new Map<string, bigint>();
+    const marketIds = Array.from(new Set(trades.map((t) => t.marketId)));
+    for (const marketId of marketIds) {
+      const marketTrades = trades.filter((t) => t.marketId === marketId);
+      const txHashes = new Set(marketTrades.map((t) => t.txHash));
+      for (const fee of await marketIndexer.getMarketFees(marketId)) {
+        if (!txHashes.has(fee.txHash)) continue;
+        const trade = tradeForFee(fee, marketTrades);
+        if (trade) {
+          fees.set(`${trade.txHash}:${trade.logIndex}`, BigInt(fee.fee));
+        }
+      }
+    }
+    return fees;
+  }
+
+  // Prefer indexed TradeExecuted and FeeAccrued events; fall back to
+  // userTradeHistory with fees estimated at the current rate
+  async loadTrades(
+    address: `0x${string}`
+  ): Promise<{ trades: LedgerTrade[]; source: PortfolioPnL["source"] }> {
+    const user = address.toLowerCase();
+
+    if (await marketIndexer.ensureFresh()) {
+      const indexed = await marketIndexer.getUserTrades(address);
+      const fees = await this.loadIndexedFees(indexed);
+      return {
+        source: "indexer",
+        trades: indexed.map((t) => ({
+          marketId: t.marketId,
+          optionId: t.optionId,
+          isBuy: t.buyer.toLowerCase() === user,
+          price: BigInt(t.price),
+          quantity: BigInt(t.quantity),
+          timestamp: t.timestamp,
+          fee: fees.get(`${t.txHash}:${t.logIndex}`) ?? 0n,
+        })),
+      };
+    }
+
+    const portfolio = await readCore<readonly bigint[]>("userPortfolios", [
+      address,
+    ]);
+    const tradeCount = Number(portfolio[4] ?? 0n);
+    const trades: LedgerTrade[] = [];
+    for (let i = 0; i < tradeCount; i++) {
+      try {
+        const [marketId, optionId, buyer, , price, quantity, timestamp] =
+          await readCore<
+            readonly [bigint, bigint, string, string, bigint, bigint, bigint]
+          >("userTradeHistory", [address, BigInt(i)]);
+        trades.push({
+          marketId: Number(marketId),
+          optionId: Number(optionId),
+          isBuy: buyer.toLowerCase() === user,
+          price,
+          quantity,
+          timestamp: Number(timestamp),
+        });
+      } catch {
+        console.log(`Reached end of trade history at index ${i}`);
+        break;
+      }
+    }
+    return { source: "contract", trades };
+  }
+
+  private async loadMarketMeta(marketId: number): Promise<MarketMeta> {
+    const indexed = await marketIndexer.getMarket(marketId);
+    if (indexed) {
+      return {
+        question: indexed.question,
+        optionNames: indexed.options,
+        resolved: indexed.resolved,
+        invalidated: indexed.invalidated,
+        winningOptionId: indexed.winningOptionId,
+      };
+    }
+
+    // getMarketInfo: (question, description, endTime, category, marketType,
+    // resolved, invalidated, creator, lmsrB)
+    const info = await readView<readonly any[]>("getMarketInfo", [
+      BigInt(marketId),
+    ]);
+    const resolved = Boolean(info[5]);
+    const optionCount = Number(
+      await readView<bigint>("getMarketOptionCount", [BigInt(marketId)])
+    );
+    const optionNames: string[] = [];
+    for (let optionId = 0; optionId < optionCount; optionId++) {
+      const option = await readView<readonly any[]>("getMarketOption", [
+        BigInt(marketId),
+        BigInt(optionId),
+      ]);
+      optionNames.push(String(option[0] ?? `Option ${optionId + 1}`));
+    }
+    return {
+      question: String(info[0] ?? ""),
+      optionNames,
+      resolved,
+      invalidated: Boolean(info[6]),
+      winningOptionId: resolved
+        ? Number(
+            await readView<bigint>("getMarketResolvedOutcome", [
+              BigInt(marketId),
+            ])
+          )
+        : null,
+    };
+  }
+
+  private async markMarket(
+    address: `0x${string}`,
+    marketId: number,
+    positions: PositionState[]
+  ): Promise<MarketPnL> {
+    const meta = await this.loadMarketMeta(marketId);
+
+    const options: OptionPnL[] = [];
+    for (const position of positions.sort((a, b) => a.optionId - b.optionId)) {
+      let marketValue = 0n;
+      let status: PositionStatus = "closed";
+
+      if (position.shares > 0n) {
+        if (meta.invalidated) {
+          // Invalidated markets refund, so the basis is returned at cost
+          marketValue = position.costBasis;
+          status = "refunded";
+        } else if (meta.resolved) {
+          const won = meta.winningOptionId === position.optionId;
+          marketValue = won
+            ? (position.shares * PAYOUT_PER_SHARE) / LMSR_SCALE
+            : 0n;
+          status = won ? "won" : "lost";
+        } else {
+          marketValue = await readView<bigint>("calculateSellPrice", [
+            BigInt(marketId),
+            BigInt(position.optionId),
+            position.shares,
+          ]).catch(() => 0n);
+          status = "open";
+        }
+      }
+
+      const unrealizedPnL =
+        position.shares > 0n ? marketValue - position.costBasis : 0n;
+      const onChainCostBasis = await readCore<bigint>("userCostBasis", [
+        address,
+        BigInt(marketId),
+        BigInt(position.optionId),
+      ]).catch(() => null);
+
+      options.push({
+        marketId,
+        optionId: position.optionId,
+        optionName:
+          meta.optionNames[position.optionId] ??
+          `Option ${position.optionId + 1}`,
+        status,
+        shares: position.shares.toString(),
+        costBasis: position.costBasis.toString(),
+        avgEntryPrice: (position.shares > 0n
+          ? (position.costBasis * LMSR_SCALE) / position.shares
+          : 0n
+        ).toString(),
+        marketValue: marketValue.toString(),
+        realizedPnL: position.realizedPnL.toString(),
+        unrealizedPnL: unrealizedPnL.toString(),
+        feesPaid: position.feesPaid.toString(),
+        feeAdjustedPnL: (
+          position.realizedPnL +
+          unrealizedPnL -
+          position.feesPaid
+        ).toString(),
+        onChainCostBasis:
+          onChainCostBasis === null ? null : onChainCostBasis.toString(),
+      });
+    }
+
+    const sum = (field: keyof OptionPnL) =>
+      options.reduce((acc, o) => acc + BigInt(o[field] as string), 0n);
+    const realizedPnL = sum("realizedPnL");
+    const unrealizedPnL = sum("unrealizedPnL");
+    const feesPaid = sum("feesPaid");
+
+    return {
+      marketId,
+      question: meta.question,
+      resolved: meta.resolved,
+      invalidated: meta.invalidated,
+      options,
+      costBasis: sum("costBasis").toString(),
+      marketValue: sum("marketValue").toString(),
+      realizedPnL: realizedPnL.toString(),
+      unrealizedPnL: unrealizedPnL.toString(),
+      feesPaid: feesPaid.toString(),
+      netPnL: (realizedPnL + unrealizedPnL).toString(),
+      feeAdjustedPnL: (realizedPnL + unrealizedPnL - feesPaid).toString(),
+    };
+  }
+}
+
+export const pnlEngine = new PnLEngine();
@@ -0,0 +1,193 @@
+import { encodeFunctionData } from "viem";
+import {
+  V2contractAddress,
+  V2contractAbi,
+  tokenAddress,
+  tokenAbi,
+} from "@/constants/contract";
+import {
+  applyTrade,
+  maxSharesForBudget,
+  quoteBuy,
+  quoteSell,
+  type BuyQuote,
+  type LMSRMarketState,
+  type SellQuote,
+} from "@/lib/lmsr";
+import {
+  buyLimits,
+  sellLimits,
+  type TradeSettings,
+} from "@/lib/trade-settings";
+
+/**
+ * Batched exits and rebalances for V2 positions.
+ *
+ * Legs in the same market are quoted one after another against the state
+ * left by the previous leg (the batch executes them in order), so the
+ * slippage bounds hold for the whole batch rather than for each leg alone.
+ */
+
+export interface ExitLeg {
+  marketId: number;
+  optionId: number;
+  optionName: string;
+  quantity: bigint; // shares to sell, 1e18-scaled
+}
+
+export interface ExitLegQuote extends ExitLeg {
+  quote: SellQuote;
+  minPricePerShare: bigint;
+  minTotalProceeds: bigint;
+}
+
+export interface ExitPlan {
+  legs: ExitLegQuote[];
+  netProceeds: bigint;
+  minTotalProceeds: bigint;
+}
+
+export interface RebalancePlan {
+  marketId: number;
+  sell: ExitLegQuote;
+  buy: {
+    optionId: number;
+    optionName: string;
+    quantity: bigint;
+    quote: BuyQuote;
+    maxPricePerShare: bigint;
+    maxTotalCost: bigint;
+  };
+}
+
+interface BatchCall {
+  to: `0x${string}`;
+  data: `0x${string}`;
+}
+
+/**
+ * Quote selling every leg. Returns null while any market's LMSR state is
+ * still loading; throws if a leg cannot be quoted (e.g. more shares than
+ * the option has outstanding).
+ */
+export function planExit(
+  legs: ExitLeg[],
+  states: ReadonlyMap<number, LMSRMarketState>,
+  settings: TradeSettings
+): ExitPlan | null {
+  const working = new Map<number, LMSRMarketState>();
+  const quoted: ExitLegQuote[] = [];
+
+  for (const leg of legs) {
+    const state = working.get(leg.marketId) ?? states.get(leg.marketId);
+    if (!state) return null;
+
+    const quote = quoteSell(state, leg.optionId, leg.quantity);
+    quoted.push({ ...leg, quote, ...sellLimits(quote, settings) });
+    working.set(
+      leg.marketId,
+      applyTrade(state, leg.optionId, -leg.quantity)
+    );
+  }
+
+  return {
+    legs: quoted,
+    netProceeds: quoted.reduce((sum, l) => sum + l.quote.netRefund, 0n),
+    minTotalProceeds: quoted.reduce((sum, l) => sum + l.minTotalProceeds, 0n),
+  };
+}
+
+/**
+ * Move exposure inside one market: sell `sellQuantity` of one option and
+ * put the guaranteed proceeds (after slippage) into another. The buy is
+ * sized against the state after the sell and bounded so its max cost never
+ * exceeds what the sell is guaranteed to return.
+ */
+export function planRebalance(
+  marketId: number,
+  state: LMSRMarketState,
+  from: { optionId: number; optionName: string },
+  to: { optionId: number; optionName: string },
+  sellQuantity: bigint,
+  settings: TradeSettings
+): RebalancePlan | null {
+  if (from.optionId === to.optionId || sellQuantity <= 0n) return null;
+
+  const sellQuote = quoteSell(state, from.optionId, sellQuantity);
+  const sell: ExitLegQuote = {
+    marketId,
+    ...from,
+    quantity: sellQuantity,
+    quote: sellQuote,
+    ...sellLimits(sellQuote, settings),
+  };
+
+  const afterSell = applyTrade(state, from.optionId, -sellQuantity);
+  // Leave room for the buy-side slippage buffer inside the sell's floor
+  const budget =
+    (sell.minTotalProceeds * 10000n) / (10000n + BigInt(settings.slippageBps));
+  const quantity = maxSharesForBudget(afterSell, to.optionId, budget);
+  if (quantity <= 0n) return null;
+
+  const buyQuote = quoteBuy(afterSell, to.optionId, quantity);
+  return {
+    marketId,
+    sell,
+    buy: {
+      ...to,
+      quantity,
+      quote: buyQuote,
+      ...buyLimits(buyQuote, settings),
+    },
+  };
+}
+
+export const sellCall = (leg: ExitLegQuote): BatchCall => ({
+  to: V2contractAddress as `0x${string}`,
+  data: encodeFunctionData({
+    abi: V2contractAbi,
+    functionName: "sellShares",
+    args: [
+      BigInt(leg.marketId),
+      BigInt(leg.optionId),
+      leg.quantity,
+      leg.minPricePerShare,
+      leg.minTotalProceeds,
+    ],
+  }),
+});
+
+// [sell, approve?, buy]: the approval is only added when the current
+// allowance does not cover the buy's max cost
+export function rebalanceCalls(
+  plan: RebalancePlan,
+  allowance: bigint
+): { calls: BatchCall[]; includesApproval: boolean } {
+  const calls = [sellCall(plan.sell)];
+  const includesApproval = plan.buy.maxTotalCost > allowance;
+  if (includesApproval) {
+    calls.push({
+      to: tokenAddress as `0x${string}`,
+      data: encodeFunctionData({
+        abi: tokenAbi,
+        functionName: "approve",
+        args: [V2contractAddress, plan.buy.maxTotalCost],
+      }),
+    });
+  }
+  calls.push({
+    to: V2contractAddress as `0x${string}`,
+    data: encodeFunctionData({
+      abi: V2contractAbi,
+      functionName: "buyShares",
+      args: [
+        BigInt(plan.marketId),
+        BigInt(plan.buy.optionId),
+        plan.buy.quantity,
+        plan.buy.maxPricePerShare,
+        plan.buy.maxTotalCost,
+      ],
+    }),
+  });
+  return { calls, includesApproval };
+}
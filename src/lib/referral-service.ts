@@ -0,0 +1,349 @@
+import type { NextRequest, NextResponse } from "next/server";
+import { NeynarAPIClient } from "@neynar/nodejs-sdk";
+import { getKVStore, type KeyValueStore } from "@/lib/kv-store";
+import {
+  marketIndexer,
+  tradeForFee,
+} from "@/lib/market-indexer";
+import {
+  DEFAULT_REFERRAL_SHARE_BPS,
+  REFERRAL_COOKIE,
+  generateReferralCode,
+  isReferralCode,
+  type ReferralAttribution,
+  type ReferralCode,
+  type ReferralLedgerEntry,
+  type ReferralPayoutRow,
+  type ReferralSummary,
+  type ReferralTotals,
+} from "@/lib/referrals";
+
+export const referralKeys = {
+  code: (code: string) => `referral:code:${code}`,
+  addressCode: (address: string) =>
+    `referral:address:${address.toLowerCase()}`,
+  attribution: (referee: string) =>
+    `referral:referee:${referee.toLowerCase()}`,
+  referees: (referrer: string) =>
+    `referral:referees:${referrer.toLowerCase()}`,
+  ledger: (referrer: string) => `referral:ledger:${referrer.toLowerCase()}`,
+  totals: (referrer: string) => `referral:totals:${referrer.toLowerCase()}`,
+  referrers: "referral:referrers", // addresses with a code
+  feeCursor: (marketId: number) => `referral:cursor:${marketId}`,
+  lock: "referral:lock",
+};
+
+export interface AccrualResult {
+  feesProcessed: number;
+  credits: number;
+  credited: string; // 1e18-scaled tokens
+}
+
+const RECENT_ENTRIES = 20;
+const ZERO_TOTALS: ReferralTotals = { earned: "0", paid: "0" };
+
+interface ReferralServiceConfig {
+  store: KeyValueStore;
+  shareBps: number; // share of each platform fee credited to the referrer
+  neynarApiKey?: string; // resolves a referee FID to its verified wallets
+}
+
+// The signed-in referee. For Farcaster sign-ins `address` is the FID's
+// custody address, which rarely trades.
+export interface RefereeIdentity {
+  address: string;
+  fid?: number;
+}
+
+export class ReferralService {
+  constructor(private readonly config: ReferralServiceConfig) {}
+
+  get shareBps() {
+    return this.config.shareBps;
+  }
+
+  async getCode(address: string): Promise<ReferralCode | null> {
+    const { store } = this.config;
+    const code = await store.get<string>(referralKeys.addressCode(address));
+    return code ? store.get<ReferralCode>(referralKeys.code(code)) : null;
+  }
+
+  async lookupCode(code: string): Promise<ReferralCode | null> {
+    return this.config.store.get<ReferralCode>(referralKeys.code(code));
+  }
+
+  // One code per address; later calls return the existing one
+  async getOrCreateCode(address: string, fid?: number): Promise<ReferralCode> {
+    const { store } = this.config;
+    const existing = await this.getCode(address);
+    if (existing) return existing;
+
+    let code = generateReferralCode();
+    while (await this.lookupCode(code)) code = generateReferralCode();
+    const record: ReferralCode = {
+      code,
+      address: address.toLowerCase(),
+      fid,
+      createdAt: Date.now(),
+    };
+    await store.set(referralKeys.code(code), record);
+    await store.set(referralKeys.addressCode(address), code);
+    await store.sadd(referralKeys.referrers, record.address);
+    return record;
+  }
+
+  /**
+   * Record `referee` as referred by the owner of `code`. First touch wins:
+   * an existing attribution is never replaced. Self-referrals are refused.
+   */
+  async attribute(
+    referee: string,
+    code: string
+  ): Promise<ReferralAttribution | null> {
+    const { store } = this.config;
+    const existing = await store.get<ReferralAttribution>(
+      referralKeys.attribution(referee)
+    );
+    if (existing) return existing;
+
+    const owner = await this.lookupCode(code);
+    if (!owner || owner.address === referee.toLowerCase()) return null;
+
+    const attribution: ReferralAttribution = {
+      referee: referee.toLowerCase(),
+      referrer: owner.address,
+      code,
+      attributedAt: Date.now(),
+    };
+    await store.set(referralKeys.attribution(referee), attribution);
+    await store.sadd(referralKeys.referees(owner.address), attribution.referee);
+    return attribution;
+  }
+
+  /**
+   * Wallets a referee trades from: the session address plus, for a FID,
+   * its verified eth addresses. Fees are matched on the trading wallet, so
+   * each of these is attributed. Falls back to the session address alone
+   * when Neynar is unavailable.
+   */
+  async refereeAddresses(referee: RefereeIdentity): Promise<string[]> {
+    const addresses = new Set([referee.address.toLowerCase()]);
+    const { neynarApiKey } = this.config;
+    if (referee.fid === undefined || !neynarApiKey) {
+      return Array.from(addresses);
+    }
+
+    try {
+      const neynar = new NeynarAPIClient({ apiKey: neynarApiKey });
+      const { users } = await neynar.fetchBulkUsers({ fids: [referee.fid] });
+      const verified = users[0]?.verified_addresses?.eth_addresses ?? [];
+      for (const address of verified) addresses.add(address.toLowerCase());
+    } catch (error) {
+      console.warn(`Referrals: could not resolve fid ${referee.fid}:`, error);
+    }
+    return Array.from(addresses);
+  }
+
+  // Attribute every wallet of the referee. Referrers cannot refer their own
+  // FID or any of its wallets.
+  async attributeIdentity(
+    referee: RefereeIdentity,
+    code: string
+  ): Promise<ReferralAttribution[]> {
+    const owner = await this.lookupCode(code);
+    if (!owner) return [];
+    if (referee.fid !== undefined && owner.fid === referee.fid) return [];
+    const addresses = await this.refereeAddresses(referee);
+    if (addresses.includes(owner.address)) return [];
+
+    const attributions: ReferralAttribution[] = [];
+    for (const address of addresses) {
+      const attribution = await this.attribute(address, code);
+      if (attribution) attributions.push(attribution);
+    }
+    return attributions;
+  }
+
+  async getTotals(referrer: string): Promise<ReferralTotals> {
+    return (
+      (await this.config.store.get<ReferralTotals>(
+        referralKeys.totals(referrer)
+      )) ?? ZERO_TOTALS
+    );
+  }
+
+  private async append(referrer: string, entry: ReferralLedgerEntry) {
+    const { store } = this.config;
+    const totals = await this.getTotals(referrer);
+    const amount = BigInt(entry.amount);
+    await store.rpush(referralKeys.ledger(referrer), entry);
+    await store.set(referralKeys.totals(referrer), {
+      earned: (
+        BigInt(totals.earned) + (entry.type === "credit" ? amount : 0n)
+      ).toString(),
+      paid: (
+        BigInt(totals.paid) + (entry.type === "payout" ? amount : 0n)
+      ).toString(),
+    });
+  }
+
+  async getSummary(address: string): Promise<ReferralSummary> {
+    const { store } = this.config;
+    const [code, referees, totals, recent] = await Promise.all([
+      this.getCode(address),
+      store.smembers(referralKeys.referees(address)),
+      this.getTotals(address),
+      store.lrange<ReferralLedgerEntry>(
+        referralKeys.ledger(address),
+        -RECENT_ENTRIES,
+        -1
+      ),
+    ]);
+    return {
+      code,
+      referees: referees.length,
+      totals,
+      owed: (BigInt(totals.earned) - BigInt(totals.paid)).toString(),
+      shareBps: this.config.shareBps,
+      recent: recent.reverse(),
+    };
+  }
+
+  /**
+   * Credit referrers for fees indexed since the last pass.
+   *
+   * Each market keeps a cursor into its indexed FeeAccrued list. A fee
+   * earns a credit when the trader it was taken from has a referrer and
+   * traded after being attributed.
+   */
+  async accrue(): Promise<AccrualResult> {
+    const { store, shareBps } = this.config;
+    // Same best-effort lock as the indexer: overlapping runs would credit
+    // the same fees twice
+    if (await store.get<number>(referralKeys.lock)) {
+      throw new Error("Referral accrual already in progress");
+    }
+    await store.set(referralKeys.lock, Date.now(), { ex: 120 });
+
+    const result = { feesProcessed: 0, credits: 0, credited: 0n };
+    try {
+      for (const marketId of await marketIndexer.getMarketIds()) {
+        const cursor =
+          (await store.get<number>(referralKeys.feeCursor(marketId))) ?? 0;
+        const fees = (await marketIndexer.getMarketFees(marketId)).slice(
+          cursor
+        );
+        if (fees.length === 0) continue;
+
+        const trades = await marketIndexer.getMarketTrades(marketId);
+        for (const fee of fees) {
+          result.feesProcessed++;
+          const trade = tradeForFee(fee, trades);
+          if (!trade) continue;
+          const trader = (
+            fee.isBuy ? trade.buyer : trade.seller
+          ).toLowerCase();
+          const attribution = await store.get<ReferralAttribution>(
+            referralKeys.attribution(trader)
+          );
+          if (!attribution) continue;
+          if (trade.timestamp * 1000 < attribution.attributedAt) continue;
+
+          const amount = (BigInt(fee.fee) * BigInt(shareBps)) / 10000n;
+          if (amount === 0n) continue;
+          await this.append(attribution.referrer, {
+            type: "credit",
+            amount: amount.toString(),
+            referee: trader,
+            marketId,
+            fee: fee.fee,
+            txHash: fee.txHash,
+            at: trade.timestamp,
+          });
+          result.credits++;
+          result.credited += amount;
+        }
+        await store.set(
+          referralKeys.feeCursor(marketId),
+          cursor + fees.length
+        );
+      }
+    } finally {
+      await store.del(referralKeys.lock);
+    }
+
+    return { ...result, credited: result.credited.toString() };
+  }
+
+  // Every referrer with an unpaid balance, largest first
+  async getPayouts(): Promise<ReferralPayoutRow[]> {
+    const { store } = this.config;
+    const rows: ReferralPayoutRow[] = [];
+    for (const referrer of await store.smembers(referralKeys.referrers)) {
+      const totals = await this.getTotals(referrer);
+      const owed = BigInt(totals.earned) - BigInt(totals.paid);
+      if (owed <= 0n) continue;
+      const code = await this.getCode(referrer);
+      rows.push({
+        referrer,
+        fid: code?.fid,
+        code: code?.code ?? "",
+        referees: (await store.smembers(referralKeys.referees(referrer)))
+          .length,
+        earned: totals.earned,
+        paid: totals.paid,
+        owed: owed.toString(),
+      });
+    }
+    return rows.sort((a, b) => (BigInt(b.owed) > BigInt(a.owed) ? 1 : -1));
+  }
+
+  // Record tokens sent to a referrer outside the app
+  async recordPayout(
+    referrer: string,
+    amount: bigint,
+    txHash?: string
+  ): Promise<ReferralTotals> {
+    const totals = await this.getTotals(referrer);
+    if (amount <= 0n || amount > BigInt(totals.earned) - BigInt(totals.paid)) {
+      throw new Error("Payout exceeds the referrer's unpaid balance");
+    }
+    await this.append(referrer, {
+      type: "payout",
+      amount: amount.toString(),
+      txHash,
+      at: Math.floor(Date.now() / 1000),
+    });
+    return this.getTotals(referrer);
+  }
+}
+
+export const referralService = new ReferralService({
+  store: getKVStore(),
+  shareBps: Number(
+    process.env.REFERRAL_FEE_SHARE_BPS || DEFAULT_REFERRAL_SHARE_BPS
+  ),
+  neynarApiKey: process.env.NEYNAR_API_KEY || undefined,
+});
+
+// Attribute `referee` to the first-touch code stored by a share link. The
+// caller clears the cookie afterwards: the first touch is settled either way.
+export async function attributeReferralCookie(
+  request: NextRequest,
+  referee: RefereeIdentity
+): Promise<ReferralAttribution[]> {
+  const code = request.cookies.get(REFERRAL_COOKIE)?.value;
+  return isReferralCode(code)
+    ? referralService.attributeIdentity(referee, code)
+    : [];
+}
+
+// Same attributes as when the link set it, or the iframe copy survives
+export function clearReferralCookie(response: NextResponse) {
+  response.cookies.set(REFERRAL_COOKIE, "", {
+    secure: true,
+    sameSite: "none",
+    path: "/",
+    maxAge: 0,
+  });
+}
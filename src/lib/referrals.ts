@@ -0,0 +1,101 @@
+/**
+ * Referral program: codes tied to a wallet (and FID for Farcaster
+ * sign-ins), first-touch attribution from `?ref=` links and a ledger that
+ * credits referrers a share of the fees their referees' trades accrue.
+ *
+ * Shared by the UI and the API, so this file must stay free of server-only
+ * imports.
+ */
+
+export const REFERRAL_PARAM = "ref";
+
+// First-touch code from a share link, kept until the visitor signs in.
+// SameSite=None so it also survives inside the Farcaster client's iframe.
+export const REFERRAL_COOKIE = "policast_ref";
+export const REFERRAL_COOKIE_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+export const DEFAULT_REFERRAL_SHARE_BPS = 1000; // 10% of platform fees
+
+const CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+export const REFERRAL_CODE_LENGTH = 8;
+
+export interface ReferralCode {
+  code: string;
+  address: string; // lowercase
+  fid?: number;
+  createdAt: number; // ms
+}
+
+export interface ReferralAttribution {
+  referee: string; // lowercase
+  referrer: string; // lowercase
+  code: string;
+  attributedAt: number; // ms; only later trades earn the referrer fees
+}
+
+export type ReferralLedgerEntry =
+  | {
+      type: "credit";
+      amount: string; // 1e18-scaled tokens
+      referee: string;
+      marketId: number;
+      fee: string; // the platform fee the credit is a share of
+      txHash: string;
+      at: number; // unix seconds of the trade
+    }
+  | {
+      type: "payout";
+      amount: string;
+      txHash?: string;
+      at: number; // unix seconds
+    };
+
+export interface ReferralTotals {
+  earned: string; // 1e18-scaled tokens
+  paid: string;
+}
+
+export interface ReferralSummary {
+  code: ReferralCode | null;
+  referees: number;
+  totals: ReferralTotals;
+  owed: string;
+  shareBps: number;
+  recent: ReferralLedgerEntry[]; // newest first
+}
+
+// One row of the admin payout export
+export interface ReferralPayoutRow {
+  referrer: string;
+  fid?: number;
+  code: string;
+  referees: number;
+  earned: string;
+  paid: string;
+  owed: string;
+}
+
+export function generateReferralCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(REFERRAL_CODE_LENGTH));
+  return Array.from(
+    bytes,
+    (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]
+  ).join("");
+}
+
+export function isReferralCode(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    new RegExp(`^[${CODE_ALPHABET}]{${REFERRAL_CODE_LENGTH}}$`).test(value)
+  );
+}
+
+// A market share link, or the home page when no market is given
+export function referralLink(
+  appUrl: string,
+  code: string,
+  marketId?: number | string
+): string {
+  const path = marketId === undefined ? "/" : `/market/${marketId}`;
+  return `${appUrl}${path}?${REFERRAL_PARAM}=${code}`;
+}
@@ -0,0 +1,139 @@
+import type { UrlMetadata } from "@/lib/url-metadata";
+
+/**
+ * Evidence attached to market resolutions and disputes.
+ *
+ * Resolvers record why they picked a winning option; users challenge a
+ * resolution with counter-evidence, which lands in the admin dispute queue.
+ * Submissions are signed with the wallet (personal_sign) so the server can
+ * attribute them without a session.
+ */
+
+export type DisputeStatus = "open" | "under_review" | "upheld" | "rejected";
+
+export const DISPUTE_STATUSES: DisputeStatus[] = [
+  "open",
+  "under_review",
+  "upheld",
+  "rejected",
+];
+
+export const MAX_EVIDENCE_SOURCES = 5;
+export const MAX_RATIONALE_LENGTH = 2000;
+// Signed submissions older than this are rejected (replay protection)
+export const SIGNATURE_MAX_AGE_MS = 10 * 60 * 1000;
+
+export interface EvidenceSource extends UrlMetadata {
+  url: string;
+}
+
+export interface ResolutionEvidence {
+  id: string;
+  marketId: string;
+  winningOptionId: number;
+  rationale: string;
+  sources: EvidenceSource[];
+  submittedBy: string;
+  txHash?: string;
+  createdAt: string;
+}
+
+export interface MarketDispute {
+  id: string;
+  marketId: string;
+  disputer: string;
+  reason: string;
+  sources: EvidenceSource[];
+  status: DisputeStatus;
+  reviewedBy?: string;
+  reviewNote?: string;
+  reviewedAt?: string;
+  createdAt: string;
+}
+
+// Queue entry for admins: the off-chain dispute plus on-chain state
+export interface DisputeQueueItem extends MarketDispute {
+  onChainDisputed: boolean | null;
+}
+
+export type EvidenceAction = "resolution" | "dispute" | "review";
+
+const ACTION_TITLES: Record<EvidenceAction, string> = {
+  resolution: "Policast resolution evidence",
+  dispute: "Policast market dispute",
+  review: "Policast dispute review",
+};
+
+/**
+ * Canonical text the wallet signs for a submission. The server rebuilds the
+ * same text from the request body, so any field change breaks the signature.
+ */
+export function buildEvidenceMessage(
+  action: EvidenceAction,
+  fields: Record<string, string | number>,
+  issuedAt: number
+): string {
+  return buildSignedMessage(ACTION_TITLES[action], fields, issuedAt);
+}
+
+// Title, sorted "key: value" lines and the issue time
+export function buildSignedMessage(
+  title: string,
+  fields: Record<string, string | number>,
+  issuedAt: number
+): string {
+  const lines = Object.keys(fields)
+    .sort()
+    .map((key) => `${key}: ${fields[key]}`);
+  return [
+    title,
+    ...lines,
+    `Issued at: ${new Date(issuedAt).toISOString()}`,
+  ].join("\n");
+}
+
+// Normalize user input: trim, dedupe, cap the count
+export function normalizeSourceUrls(urls: string[]): string[] {
+  return Array.from(
+    new Set(urls.map((url) => url.trim()).filter((url) => url.length > 0))
+  ).slice(0, MAX_EVIDENCE_SOURCES);
+}
+
+// Signed field sets, shared by the signing UI and the API routes
+export function resolutionFields(input: {
+  marketId: string | number;
+  winningOptionId: number;
+  rationale: string;
+  sourceUrls: string[];
+}) {
+  return {
+    Market: String(input.marketId),
+    "Winning option": input.winningOptionId,
+    Rationale: input.rationale,
+    Sources: normalizeSourceUrls(input.sourceUrls).join(" "),
+  };
+}
+
+export function disputeFields(input: {
+  marketId: string | number;
+  reason: string;
+  sourceUrls: string[];
+}) {
+  return {
+    Market: String(input.marketId),
+    Reason: input.reason,
+    Sources: normalizeSourceUrls(input.sourceUrls).join(" "),
+  };
+}
+
+export function reviewFields(input: {
+  disputeId: string;
+  status: DisputeStatus;
+  note?: string;
+}) {
+  return {
+    Dispute: input.disputeId,
+    Status: input.status,
+    Note: input.note ?? "",
+  };
+}
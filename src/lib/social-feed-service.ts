@@ -0,0 +1,220 @@
+import { NeynarAPIClient } from "@neynar/nodejs-sdk";
+import { getKVStore, type KeyValueStore } from "@/lib/kv-store";
+import {
+  marketIndexer,
+  type IndexedMarket,
+  type IndexedTrade,
+} from "@/lib/market-indexer";
+import { PAYOUT_PER_SHARE } from "@/lib/lmsr";
+import {
+  FEED_PAGE_SIZE,
+  type FeedPage,
+  type FeedTrade,
+  type FeedTrader,
+} from "@/lib/social-feed";
+
+interface FollowedUser extends FeedTrader {
+  addresses: string[]; // verified eth addresses, lowercase
+}
+
+export const socialFeedKeys = {
+  following: (fid: number) => `feed:following:${fid}`,
+  optOuts: "feed:optouts", // set of lowercase addresses
+  optOutFids: "feed:optouts:fids", // set of FIDs, from Farcaster sign-ins
+};
+
+// Who is opting out. A Farcaster session's address is the custody address,
+// which is not one of the verified addresses the feed matches, so the FID
+// is recorded as well.
+interface FeedIdentity {
+  address: string;
+  fid?: number;
+}
+
+const FOLLOWING_CACHE_TTL_SECONDS = 10 * 60;
+// Neynar returns at most 100 follows per page
+const FOLLOWING_PAGE_SIZE = 100;
+const MAX_FOLLOWING_PAGES = 5;
+
+interface SocialFeedServiceConfig {
+  store: KeyValueStore;
+  neynarApiKey?: string;
+}
+
+// Newest first: block, then log position within the block
+function compareTrades(a: IndexedTrade, b: IndexedTrade): number {
+  const blockA = BigInt(a.blockNumber);
+  const blockB = BigInt(b.blockNumber);
+  if (blockA !== blockB) return blockA > blockB ? -1 : 1;
+  return b.logIndex - a.logIndex;
+}
+
+const cursorOf = (trade: IndexedTrade) =>
+  `${trade.blockNumber}:${trade.logIndex}`;
+
+function isOlderThan(trade: IndexedTrade, cursor: string): boolean {
+  const [block, logIndex] = cursor.split(":");
+  return (
+    compareTrades(trade, {
+      blockNumber: block,
+      logIndex: Number(logIndex),
+    } as IndexedTrade) > 0
+  );
+}
+
+export class SocialFeedService {
+  constructor(private readonly config: SocialFeedServiceConfig) {}
+
+  async isOptedOut({ address, fid }: FeedIdentity): Promise<boolean> {
+    const { store } = this.config;
+    const optOuts = await store.smembers(socialFeedKeys.optOuts);
+    if (optOuts.includes(address.toLowerCase())) return true;
+    if (fid === undefined) return false;
+    const optOutFids = await store.smembers(socialFeedKeys.optOutFids);
+    return optOutFids.includes(String(fid));
+  }
+
+  async setOptOut(
+    { address, fid }: FeedIdentity,
+    optedOut: boolean
+  ): Promise<boolean> {
+    const { store } = this.config;
+    const member = address.toLowerCase();
+    if (optedOut) {
+      await store.sadd(socialFeedKeys.optOuts, member);
+      if (fid !== undefined) {
+        await store.sadd(socialFeedKeys.optOutFids, String(fid));
+      }
+    } else {
+      await store.srem(socialFeedKeys.optOuts, member);
+      if (fid !== undefined) {
+        await store.srem(socialFeedKeys.optOutFids, String(fid));
+      }
+    }
+    return optedOut;
+  }
+
+  // Accounts the FID follows that have a verified address, cached in KV
+  async getFollowing(fid: number): Promise<FollowedUser[]> {
+    const { store, neynarApiKey } = this.config;
+    const cached = await store.get<FollowedUser[]>(
+      socialFeedKeys.following(fid)
+    );
+    if (cached) return cached;
+    if (!neynarApiKey) throw new Error("NEYNAR_API_KEY is not configured");
+
+    const neynar = new NeynarAPIClient({ apiKey: neynarApiKey });
+    const following: FollowedUser[] = [];
+    let cursor: string | undefined;
+    for (let page = 0; page < MAX_FOLLOWING_PAGES; page++) {
+      const response = await neynar.fetchUserFollowing({
+        fid,
+        limit: FOLLOWING_PAGE_SIZE,
+        cursor,
+      });
+      for (const { user } of response.users) {
+        const addresses = (user.verified_addresses?.eth_addresses ?? []).map(
+          (address) => address.toLowerCase()
+        );
+        if (addresses.length === 0) continue;
+        following.push({
+          fid: user.fid,
+          username: user.username,
+          displayName: user.display_name,
+          pfpUrl: user.pfp_url,
+          addresses,
+        });
+      }
+      cursor = response.next?.cursor ?? undefined;
+      if (!cursor) break;
+    }
+
+    await store.set(socialFeedKeys.following(fid), following, {
+      ex: FOLLOWING_CACHE_TTL_SECONDS,
+    });
+    return following;
+  }
+
+  /**
+   * One page of trades by the accounts `fid` follows, newest first.
+   *
+   * A followed account is left out entirely when its FID or any of its
+   * verified addresses opted out, so a user hiding one wallet is not
+   * exposed through another.
+   */
+  async getFeed(
+    fid: number,
+    options: { cursor?: string; limit?: number } = {}
+  ): Promise<FeedPage> {
+    const limit = options.limit ?? FEED_PAGE_SIZE;
+    const { store } = this.config;
+    const optOuts = new Set(await store.smembers(socialFeedKeys.optOuts));
+    const optOutFids = new Set(
+      await store.smembers(socialFeedKeys.optOutFids)
+    );
+    const following = (await this.getFollowing(fid)).filter(
+      (user) =>
+        !optOutFids.has(String(user.fid)) &&
+        !user.addresses.some((address) => optOuts.has(address))
+    );
+
+    const traders = new Map<string, FeedTrader>();
+    for (const { addresses, ...trader } of following) {
+      for (const address of addresses) traders.set(address, trader);
+    }
+
+    const seen = new Set<string>();
+    const trades: { trade: IndexedTrade; address: string }[] = [];
+    for (const address of Array.from(traders.keys())) {
+      for (const trade of await marketIndexer.getUserTrades(address)) {
+        const id = `${trade.txHash}:${trade.logIndex}`;
+        if (seen.has(id)) continue;
+        if (options.cursor && !isOlderThan(trade, options.cursor)) continue;
+        seen.add(id);
+        trades.push({ trade, address });
+      }
+    }
+    trades.sort((a, b) => compareTrades(a.trade, b.trade));
+    const page = trades.slice(0, limit);
+
+    const markets = new Map<number, IndexedMarket | null>();
+    const items: FeedTrade[] = [];
+    for (const { trade, address } of page) {
+      if (!markets.has(trade.marketId)) {
+        markets.set(
+          trade.marketId,
+          await marketIndexer.getMarket(trade.marketId)
+        );
+      }
+      const market = markets.get(trade.marketId);
+      items.push({
+        id: `${trade.txHash}:${trade.logIndex}`,
+        trader: traders.get(address)!,
+        address,
+        side: trade.buyer.toLowerCase() === address ? "buy" : "sell",
+        marketId: trade.marketId,
+        question: market?.question ?? `Market #${trade.marketId}`,
+        optionId: trade.optionId,
+        optionName:
+          market?.options[trade.optionId] ?? `Option ${trade.optionId + 1}`,
+        quantity: trade.quantity,
+        price: trade.price,
+        avgPrice: Number(trade.price) / Number(PAYOUT_PER_SHARE),
+        timestamp: trade.timestamp,
+        txHash: trade.txHash,
+      });
+    }
+
+    return {
+      trades: items,
+      nextCursor:
+        trades.length > limit ? cursorOf(page[page.length - 1].trade) : null,
+      following: following.length,
+    };
+  }
+}
+
+export const socialFeedService = new SocialFeedService({
+  store: getKVStore(),
+  neynarApiKey: process.env.NEYNAR_API_KEY || undefined,
+});
@@ -0,0 +1,39 @@
+/**
+ * "Following" feed: recent trades by the Farcaster accounts a user follows.
+ *
+ * Shared by the feed UI and the API, so this file must stay free of
+ * server-only imports.
+ */
+
+export const FEED_PAGE_SIZE = 20;
+
+export interface FeedTrader {
+  fid: number;
+  username: string;
+  displayName?: string;
+  pfpUrl?: string;
+}
+
+export interface FeedTrade {
+  id: string; // txHash:logIndex
+  trader: FeedTrader;
+  address: string;
+  side: "buy" | "sell";
+  marketId: number;
+  question: string;
+  optionId: number;
+  optionName: string;
+  quantity: string; // 1e18-scaled shares
+  price: string; // 1e18-scaled tokens per share, before fees
+  // Average fill price as a share of the payout, 0..1. An LMSR fill moves
+  // the price, so this is not the odds before the trade.
+  avgPrice: number;
+  timestamp: number; // unix seconds
+  txHash: string;
+}
+
+export interface FeedPage {
+  trades: FeedTrade[];
+  nextCursor: string | null; // pass back as ?cursor= for older trades
+  following: number; // followed accounts with a verified address
+}
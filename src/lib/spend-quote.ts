@@ -0,0 +1,88 @@
+import {
+  PolicastViews,
+  PolicastViewsAbi,
+  publicClient,
+} from "@/constants/contract";
+import { SHARE_STEP } from "@/lib/lmsr";
+
+/**
+ * Spend-based buying against the live contract: the largest share count
+ * whose PolicastViews.quoteBuy total cost (fee included) fits in a token
+ * budget. Used while the LMSR state needed by the off-chain solver
+ * (`maxSharesForBudget` in lmsr.ts) is still loading.
+ *
+ * Each round is one multicall of quoteBuy candidates, so a solve costs a
+ * handful of RPC requests instead of one per bisection step.
+ */
+
+// Quantities probed per multicall while narrowing the bracket
+const CANDIDATES_PER_ROUND = 16n;
+// Bracketing probes 2^0..2^MAX_DOUBLINGS share steps (~1.4e8 shares)
+const MAX_DOUBLINGS = 47n;
+
+// For each quantity (in SHARE_STEP units): does its total cost fit? Reverted
+// quotes count as not fitting.
+async function fitsBudget(
+  marketId: number,
+  optionId: number,
+  steps: bigint[],
+  budget: bigint
+): Promise<boolean[]> {
+  const results = await publicClient.multicall({
+    contracts: steps.map((step) => ({
+      address: PolicastViews as `0x${string}`,
+      abi: PolicastViewsAbi,
+      functionName: "quoteBuy" as const,
+      args: [BigInt(marketId), BigInt(optionId), step * SHARE_STEP],
+    })),
+    allowFailure: true,
+  });
+  return results.map(
+    (result) =>
+      result.status === "success" &&
+      (result.result as readonly bigint[])[2] <= budget
+  );
+}
+
+export async function maxSharesForBudgetOnChain(
+  marketId: number,
+  optionId: number,
+  budget: bigint
+): Promise<bigint> {
+  if (budget <= 0n) return 0n;
+
+  // Cost is monotonic in quantity, so in each sorted batch the last fitting
+  // candidate bounds the answer from below and the next one from above.
+  // Bracket first: powers of two in one multicall
+  const doublings: bigint[] = [];
+  for (let k = 0n; k <= MAX_DOUBLINGS; k++) doublings.push(1n << k);
+  const bracket = (
+    await fitsBudget(marketId, optionId, doublings, budget)
+  ).lastIndexOf(true);
+  if (bracket === -1) return 0n;
+
+  let lo = doublings[bracket]; // fits
+  let hi = 2n * lo - 1n; // largest candidate not yet ruled out
+
+  // Narrow: probe evenly spaced points in (lo, hi] each round
+  while (lo < hi) {
+    const span = hi - lo;
+    const count = span < CANDIDATES_PER_ROUND ? span : CANDIDATES_PER_ROUND;
+    const points: bigint[] = [];
+    for (let i = 1n; i <= count; i++) {
+      points.push(lo + (span * i + count - 1n) / count);
+    }
+
+    const last = (
+      await fitsBudget(marketId, optionId, points, budget)
+    ).lastIndexOf(true);
+    if (last === -1) {
+      hi = points[0] - 1n;
+    } else {
+      lo = points[last];
+      if (last < points.length - 1) hi = points[last + 1] - 1n;
+    }
+  }
+
+  return lo * SHARE_STEP;
+}
@@ -1,4 +1,5 @@
-import { supabase, isSupabaseConfigured } from "@/lib/supabase";
+import { supabase, supabaseAs, isSupabaseConfigured } from "@/lib/supabase";
+import type { CommentStatus } from "@/lib/comment-moderation";
 
 export interface User {
   id: string;
@@ -15,6 +16,7 @@ export interface Comment {
   userId: string;
   parentId?: string;
   likesCount: number;
+  status: CommentStatus;
   createdAt: string;
   user?: User;
   replies?: Comment[];
@@ -42,22 +44,26 @@ export const upsertUser = async (userData: {
     };
   }
   try {
-    const { data, error } = await supabase
-      .from("users")
-      .upsert(
-        {
-          address: userData.address,
-          fid: userData.fid,
-          username: userData.username,
-          pfp_url: userData.pfpUrl,
-        },
-        {
-          onConflict: "address",
-          ignoreDuplicates: false,
-        }
-      )
-      .select()
-      .single();
+    // Older rows may hold checksummed addresses, so match case-insensitively
+    const existing = await getUser(userData.address);
+    const profile = {
+      fid: userData.fid,
+      username: userData.username,
+      pfp_url: userData.pfpUrl,
+    };
+    const db = supabaseAs(userData.address);
+    const { data, error } = existing
+      ? await db
+          .from("users")
+          .update(profile)
+          .eq("id", existing.id)
+          .select()
+          .single()
+      : await db
+          .from("users")
+          .insert({ address: userData.address.toLowerCase(), ...profile })
+          .select()
+          .single();
 
     if (error) {
       console.error("Error upserting user:", error);
@@ -91,7 +97,7 @@ export const getUser = async (address: string): Promise<User | null> => {
     const { data, error } = await supabase
       .from("users")
       .select("*")
-      .eq("address", address)
+      .ilike("address", address)
       .maybeSingle(); // Use maybeSingle() instead of single() to handle 0 or 1 rows
 
     if (error) {
@@ -176,6 +182,7 @@ export const getComments = async (
       user_id: string;
       parent_id: string | null;
       likes_count: number;
+      status: CommentStatus | null;
       created_at: string;
       users: {
         id: string;
@@ -194,6 +201,7 @@ export const getComments = async (
         userId: comment.user_id,
         parentId: comment.parent_id || undefined, // Convert null to undefined
         likesCount: comment.likes_count,
+        status: comment.status || "visible",
         createdAt: comment.created_at,
         hasLiked: userLikes.includes(comment.id),
         user: comment.users
@@ -256,6 +264,7 @@ export const createComment = async (commentData: {
       userId: `user_${commentData.userAddress}`,
       parentId: commentData.parentId,
       likesCount: 0,
+      status: "visible",
       createdAt: new Date().toISOString(),
       hasLiked: false,
       user: {
@@ -285,7 +294,7 @@ export const createComment = async (commentData: {
     }
 
     // Create comment
-    const { data, error } = await supabase
+    const { data, error } = await supabaseAs(commentData.userAddress)
       .from("comments")
       .insert({
         market_id: commentData.marketId,
@@ -320,6 +329,7 @@ export const createComment = async (commentData: {
       userId: data.user_id,
       parentId: data.parent_id,
       likesCount: data.likes_count,
+      status: data.status || "visible",
       createdAt: data.created_at,
       user: data.users
         ? {
@@ -337,6 +347,98 @@ export const createComment = async (commentData: {
   }
 };
 
+export const getCommentById = async (
+  commentId: string
+): Promise<Comment | null> => {
+  if (!isSupabaseConfigured()) {
+    return fallbackComments.find((c) => c.id === commentId) || null;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from("comments")
+      .select(
+        `
+        *,
+        users (
+          id,
+          address,
+          fid,
+          username,
+          pfp_url
+        )
+      `
+      )
+      .eq("id", commentId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error getting comment:", error);
+      return null;
+    }
+    if (!data) return null;
+
+    return {
+      id: data.id,
+      marketId: data.market_id,
+      content: data.content,
+      userId: data.user_id,
+      parentId: data.parent_id || undefined,
+      likesCount: data.likes_count,
+      status: data.status || "visible",
+      createdAt: data.created_at,
+      user: data.users
+        ? {
+            id: data.users.id,
+            address: data.users.address,
+            fid: data.users.fid || undefined,
+            username: data.users.username || undefined,
+            pfpUrl: data.users.pfp_url || undefined,
+          }
+        : undefined,
+    };
+  } catch (error) {
+    console.error("Error in getCommentById:", error);
+    return null;
+  }
+};
+
+// Moderators hide, restore or soft-delete a comment; rows are never removed
+export const setCommentStatus = async (
+  commentId: string,
+  status: CommentStatus,
+  moderator: string
+): Promise<boolean> => {
+  if (!isSupabaseConfigured()) {
+    const comment = fallbackComments.find((c) => c.id === commentId);
+    if (!comment) return false;
+    comment.status = status;
+    return true;
+  }
+
+  try {
+    const { data, error } = await supabaseAs(moderator, { moderator: true })
+      .from("comments")
+      .update({
+        status,
+        moderated_by: moderator.toLowerCase(),
+        moderated_at: new Date().toISOString(),
+      })
+      .eq("id", commentId)
+      .select("id");
+
+    if (error) {
+      console.error("Error updating comment status:", error);
+      return false;
+    }
+
+    return (data?.length ?? 0) > 0;
+  } catch (error) {
+    console.error("Error in setCommentStatus:", error);
+    return false;
+  }
+};
+
 export const toggleCommentLike = async (
   commentId: string,
   userAddress: string
@@ -363,6 +465,8 @@ export const toggleCommentLike = async (
       throw new Error("User not found");
     }
 
+    const db = supabaseAs(userAddress);
+
     // Check if user already liked this comment
     const { data: existingLike } = await supabase
       .from("comment_likes")
@@ -373,7 +477,7 @@ export const toggleCommentLike = async (
 
     if (existingLike) {
       // Unlike - remove the like
-      const { error } = await supabase
+      const { error } = await db
         .from("comment_likes")
         .delete()
         .eq("comment_id", commentId)
@@ -385,7 +489,7 @@ export const toggleCommentLike = async (
       }
     } else {
       // Like - add the like
-      const { error } = await supabase.from("comment_likes").insert({
+      const { error } = await db.from("comment_likes").insert({
         comment_id: commentId,
         user_id: user.id,
       });
@@ -421,7 +525,9 @@ export const getCommentCounts = async (
     console.warn("Supabase not configured, using fallback comment counts");
     const counts: Record<string, number> = {};
     marketIds.forEach((id) => {
-      counts[id] = fallbackComments.filter((c) => c.marketId === id).length;
+      counts[id] = fallbackComments.filter(
+        (c) => c.marketId === id && c.status !== "deleted"
+      ).length;
     });
     return counts;
   }
@@ -433,7 +539,8 @@ export const getCommentCounts = async (
       .from("comments")
       .select("market_id")
       .in("market_id", marketIds)
-      .eq("version", version);
+      .eq("version", version)
+      .neq("status", "deleted");
 
     if (error) {
       console.error("Error fetching comment counts:", error);
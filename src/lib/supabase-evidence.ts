@@ -0,0 +1,257 @@
+import { supabase, supabaseAs, isSupabaseConfigured } from "@/lib/supabase";
+import type {
+  DisputeStatus,
+  EvidenceSource,
+  MarketDispute,
+  ResolutionEvidence,
+} from "@/lib/resolution-evidence";
+
+// Fallback data for when Supabase is not configured
+const fallbackEvidence: ResolutionEvidence[] = [];
+const fallbackDisputes: MarketDispute[] = [];
+
+interface SupabaseEvidence {
+  id: string;
+  market_id: string;
+  winning_option_id: number;
+  rationale: string;
+  sources: EvidenceSource[] | null;
+  submitted_by: string;
+  tx_hash: string | null;
+  created_at: string;
+}
+
+interface SupabaseDispute {
+  id: string;
+  market_id: string;
+  disputer: string;
+  reason: string;
+  sources: EvidenceSource[] | null;
+  status: DisputeStatus;
+  reviewed_by: string | null;
+  review_note: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+const mapEvidence = (row: SupabaseEvidence): ResolutionEvidence => ({
+  id: row.id,
+  marketId: row.market_id,
+  winningOptionId: row.winning_option_id,
+  rationale: row.rationale,
+  sources: row.sources || [],
+  submittedBy: row.submitted_by,
+  txHash: row.tx_hash || undefined,
+  createdAt: row.created_at,
+});
+
+const mapDispute = (row: SupabaseDispute): MarketDispute => ({
+  id: row.id,
+  marketId: row.market_id,
+  disputer: row.disputer,
+  reason: row.reason,
+  sources: row.sources || [],
+  status: row.status,
+  reviewedBy: row.reviewed_by || undefined,
+  reviewNote: row.review_note || undefined,
+  reviewedAt: row.reviewed_at || undefined,
+  createdAt: row.created_at,
+});
+
+const fallbackId = (prefix: string) =>
+  `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+
+// Resolution evidence operations
+export const getResolutionEvidence = async (
+  marketId: string
+): Promise<ResolutionEvidence[]> => {
+  if (!isSupabaseConfigured()) {
+    return fallbackEvidence.filter((e) => e.marketId === marketId);
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from("resolution_evidence")
+      .select("*")
+      .eq("market_id", marketId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching resolution evidence:", error);
+      return [];
+    }
+
+    return (data as SupabaseEvidence[]).map(mapEvidence);
+  } catch (error) {
+    console.error("Error in getResolutionEvidence:", error);
+    return [];
+  }
+};
+
+export const createResolutionEvidence = async (evidence: {
+  marketId: string;
+  winningOptionId: number;
+  rationale: string;
+  sources: EvidenceSource[];
+  submittedBy: string;
+  txHash?: string;
+}): Promise<ResolutionEvidence | null> => {
+  if (!isSupabaseConfigured()) {
+    console.warn("Supabase not configured, using fallback evidence storage");
+    const record: ResolutionEvidence = {
+      id: fallbackId("evidence"),
+      ...evidence,
+      submittedBy: evidence.submittedBy.toLowerCase(),
+      createdAt: new Date().toISOString(),
+    };
+    fallbackEvidence.unshift(record);
+    return record;
+  }
+
+  try {
+    const { data, error } = await supabaseAs(evidence.submittedBy)
+      .from("resolution_evidence")
+      .insert({
+        market_id: evidence.marketId,
+        winning_option_id: evidence.winningOptionId,
+        rationale: evidence.rationale,
+        sources: evidence.sources,
+        submitted_by: evidence.submittedBy.toLowerCase(),
+        tx_hash: evidence.txHash || null,
+      })
+      .select("*")
+      .single();
+
+    if (error) {
+      console.error("Error creating resolution evidence:", error);
+      return null;
+    }
+
+    return mapEvidence(data as SupabaseEvidence);
+  } catch (error) {
+    console.error("Error in createResolutionEvidence:", error);
+    return null;
+  }
+};
+
+// Dispute operations
+export const getDisputes = async (filter: {
+  marketId?: string;
+  statuses?: DisputeStatus[];
+}): Promise<MarketDispute[]> => {
+  if (!isSupabaseConfigured()) {
+    return fallbackDisputes.filter(
+      (d) =>
+        (!filter.marketId || d.marketId === filter.marketId) &&
+        (!filter.statuses || filter.statuses.includes(d.status))
+    );
+  }
+
+  try {
+    let query = supabase
+      .from("market_disputes")
+      .select("*")
+      .order("created_at", { ascending: true });
+    if (filter.marketId) query = query.eq("market_id", filter.marketId);
+    if (filter.statuses) query = query.in("status", filter.statuses);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching disputes:", error);
+      return [];
+    }
+
+    return (data as SupabaseDispute[]).map(mapDispute);
+  } catch (error) {
+    console.error("Error in getDisputes:", error);
+    return [];
+  }
+};
+
+export const createDispute = async (dispute: {
+  marketId: string;
+  disputer: string;
+  reason: string;
+  sources: EvidenceSource[];
+}): Promise<MarketDispute | null> => {
+  if (!isSupabaseConfigured()) {
+    console.warn("Supabase not configured, using fallback dispute storage");
+    const record: MarketDispute = {
+      id: fallbackId("dispute"),
+      ...dispute,
+      disputer: dispute.disputer.toLowerCase(),
+      status: "open",
+      createdAt: new Date().toISOString(),
+    };
+    fallbackDisputes.push(record);
+    return record;
+  }
+
+  try {
+    const { data, error } = await supabaseAs(dispute.disputer)
+      .from("market_disputes")
+      .insert({
+        market_id: dispute.marketId,
+        disputer: dispute.disputer.toLowerCase(),
+        reason: dispute.reason,
+        sources: dispute.sources,
+      })
+      .select("*")
+      .single();
+
+    if (error) {
+      console.error("Error creating dispute:", error);
+      return null;
+    }
+
+    return mapDispute(data as SupabaseDispute);
+  } catch (error) {
+    console.error("Error in createDispute:", error);
+    return null;
+  }
+};
+
+export const updateDisputeStatus = async (
+  disputeId: string,
+  update: { status: DisputeStatus; reviewedBy: string; reviewNote?: string }
+): Promise<MarketDispute | null> => {
+  const reviewedAt = new Date().toISOString();
+
+  if (!isSupabaseConfigured()) {
+    const dispute = fallbackDisputes.find((d) => d.id === disputeId);
+    if (!dispute) return null;
+    dispute.status = update.status;
+    dispute.reviewedBy = update.reviewedBy.toLowerCase();
+    dispute.reviewNote = update.reviewNote;
+    dispute.reviewedAt = reviewedAt;
+    return dispute;
+  }
+
+  try {
+    // Callers have verified the reviewer's resolver/admin role
+    const { data, error } = await supabaseAs(update.reviewedBy, {
+      moderator: true,
+    })
+      .from("market_disputes")
+      .update({
+        status: update.status,
+        reviewed_by: update.reviewedBy.toLowerCase(),
+        review_note: update.reviewNote || null,
+        reviewed_at: reviewedAt,
+      })
+      .eq("id", disputeId)
+      .select("*")
+      .single();
+
+    if (error) {
+      console.error("Error updating dispute:", error);
+      return null;
+    }
+
+    return mapDispute(data as SupabaseDispute);
+  } catch (error) {
+    console.error("Error in updateDisputeStatus:", error);
+    return null;
+  }
+};
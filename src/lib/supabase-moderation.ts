@@ -0,0 +1,388 @@
+import { supabase, supabaseAs, isSupabaseConfigured } from "@/lib/supabase";
+import {
+  isSanctionActive,
+  type CommentReport,
+  type ModerationAction,
+  type ModerationLogEntry,
+  type ReportReason,
+  type ReportStatus,
+  type SanctionType,
+  type UserSanction,
+} from "@/lib/comment-moderation";
+
+// Fallback data for when Supabase is not configured
+const fallbackReports: CommentReport[] = [];
+const fallbackSanctions: UserSanction[] = [];
+const fallbackAuditLog: ModerationLogEntry[] = [];
+
+interface SupabaseReport {
+  id: string;
+  comment_id: string;
+  reporter: string;
+  reason: ReportReason;
+  details: string | null;
+  status: ReportStatus;
+  created_at: string;
+}
+
+interface SupabaseSanction {
+  id: string;
+  address: string;
+  type: SanctionType;
+  reason: string | null;
+  expires_at: string | null;
+  created_by: string;
+  lifted_at: string | null;
+  created_at: string;
+}
+
+interface SupabaseAuditEntry {
+  id: string;
+  moderator: string;
+  action: ModerationAction;
+  target_type: "comment" | "address";
+  target_id: string;
+  reason: string | null;
+  details: Record<string, unknown> | null;
+  created_at: string;
+}
+
+const mapReport = (row: SupabaseReport): CommentReport => ({
+  id: row.id,
+  commentId: row.comment_id,
+  reporter: row.reporter,
+  reason: row.reason,
+  details: row.details || undefined,
+  status: row.status,
+  createdAt: row.created_at,
+});
+
+const mapSanction = (row: SupabaseSanction): UserSanction => ({
+  id: row.id,
+  address: row.address,
+  type: row.type,
+  reason: row.reason || undefined,
+  expiresAt: row.expires_at || undefined,
+  createdBy: row.created_by,
+  liftedAt: row.lifted_at || undefined,
+  createdAt: row.created_at,
+});
+
+const mapAuditEntry = (row: SupabaseAuditEntry): ModerationLogEntry => ({
+  id: row.id,
+  moderator: row.moderator,
+  action: row.action,
+  targetType: row.target_type,
+  targetId: row.target_id,
+  reason: row.reason || undefined,
+  details: row.details || undefined,
+  createdAt: row.created_at,
+});
+
+const fallbackId = (prefix: string) =>
+  `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+
+// Report operations
+export const getReports = async (filter: {
+  statuses?: ReportStatus[];
+  commentId?: string;
+}): Promise<CommentReport[]> => {
+  if (!isSupabaseConfigured()) {
+    return fallbackReports.filter(
+      (r) =>
+        (!filter.commentId || r.commentId === filter.commentId) &&
+        (!filter.statuses || filter.statuses.includes(r.status))
+    );
+  }
+
+  try {
+    let query = supabase
+      .from("comment_reports")
+      .select("*")
+      .order("created_at", { ascending: true });
+    if (filter.commentId) query = query.eq("comment_id", filter.commentId);
+    if (filter.statuses) query = query.in("status", filter.statuses);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching comment reports:", error);
+      return [];
+    }
+
+    return (data as SupabaseReport[]).map(mapReport);
+  } catch (error) {
+    console.error("Error in getReports:", error);
+    return [];
+  }
+};
+
+// Returns null when the address already reported this comment
+export const createReport = async (report: {
+  commentId: string;
+  reporter: string;
+  reason: ReportReason;
+  details?: string;
+}): Promise<CommentReport | null> => {
+  const reporter = report.reporter.toLowerCase();
+
+  if (!isSupabaseConfigured()) {
+    if (
+      fallbackReports.some(
+        (r) => r.commentId === report.commentId && r.reporter === reporter
+      )
+    ) {
+      return null;
+    }
+    const record: CommentReport = {
+      id: fallbackId("report"),
+      ...report,
+      reporter,
+      status: "open",
+      createdAt: new Date().toISOString(),
+    };
+    fallbackReports.push(record);
+    return record;
+  }
+
+  try {
+    const { data, error } = await supabaseAs(reporter)
+      .from("comment_reports")
+      .insert({
+        comment_id: report.commentId,
+        reporter,
+        reason: report.reason,
+        details: report.details || null,
+      })
+      .select("*")
+      .single();
+
+    if (error) {
+      console.error("Error creating comment report:", error);
+      return null;
+    }
+
+    return mapReport(data as SupabaseReport);
+  } catch (error) {
+    console.error("Error in createReport:", error);
+    return null;
+  }
+};
+
+// Close every open report on a comment once a moderator has acted on it.
+// Writes here run as the moderator, whose validator role callers have checked.
+export const resolveReports = async (
+  commentId: string,
+  status: Exclude<ReportStatus, "open">,
+  moderator: string
+): Promise<void> => {
+  if (!isSupabaseConfigured()) {
+    fallbackReports
+      .filter((r) => r.commentId === commentId && r.status === "open")
+      .forEach((r) => (r.status = status));
+    return;
+  }
+
+  try {
+    const { error } = await supabaseAs(moderator, { moderator: true })
+      .from("comment_reports")
+      .update({ status })
+      .eq("comment_id", commentId)
+      .eq("status", "open");
+
+    if (error) console.error("Error resolving comment reports:", error);
+  } catch (error) {
+    console.error("Error in resolveReports:", error);
+  }
+};
+
+// Sanction operations
+export const getActiveSanctions = async (
+  address?: string
+): Promise<UserSanction[]> => {
+  if (!isSupabaseConfigured()) {
+    return fallbackSanctions.filter(
+      (s) =>
+        (!address || s.address === address.toLowerCase()) &&
+        isSanctionActive(s)
+    );
+  }
+
+  try {
+    let query = supabase
+      .from("user_sanctions")
+      .select("*")
+      .is("lifted_at", null)
+      .order("created_at", { ascending: false });
+    if (address) query = query.eq("address", address.toLowerCase());
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching sanctions:", error);
+      return [];
+    }
+
+    return (data as SupabaseSanction[])
+      .map(mapSanction)
+      .filter((s) => isSanctionActive(s));
+  } catch (error) {
+    console.error("Error in getActiveSanctions:", error);
+    return [];
+  }
+};
+
+export const createSanction = async (sanction: {
+  address: string;
+  type: SanctionType;
+  reason?: string;
+  expiresAt?: string;
+  createdBy: string;
+}): Promise<UserSanction | null> => {
+  if (!isSupabaseConfigured()) {
+    const record: UserSanction = {
+      id: fallbackId("sanction"),
+      ...sanction,
+      address: sanction.address.toLowerCase(),
+      createdBy: sanction.createdBy.toLowerCase(),
+      createdAt: new Date().toISOString(),
+    };
+    fallbackSanctions.unshift(record);
+    return record;
+  }
+
+  try {
+    const { data, error } = await supabaseAs(sanction.createdBy, {
+      moderator: true,
+    })
+      .from("user_sanctions")
+      .insert({
+        address: sanction.address.toLowerCase(),
+        type: sanction.type,
+        reason: sanction.reason || null,
+        expires_at: sanction.expiresAt || null,
+        created_by: sanction.createdBy.toLowerCase(),
+      })
+      .select("*")
+      .single();
+
+    if (error) {
+      console.error("Error creating sanction:", error);
+      return null;
+    }
+
+    return mapSanction(data as SupabaseSanction);
+  } catch (error) {
+    console.error("Error in createSanction:", error);
+    return null;
+  }
+};
+
+// Lift every active mute/ban on an address; returns how many were lifted
+export const liftSanctions = async (
+  address: string,
+  moderator: string
+): Promise<number> => {
+  const liftedAt = new Date().toISOString();
+
+  if (!isSupabaseConfigured()) {
+    const active = fallbackSanctions.filter(
+      (s) => s.address === address.toLowerCase() && isSanctionActive(s)
+    );
+    active.forEach((s) => (s.liftedAt = liftedAt));
+    return active.length;
+  }
+
+  try {
+    const { data, error } = await supabaseAs(moderator, { moderator: true })
+      .from("user_sanctions")
+      .update({ lifted_at: liftedAt })
+      .eq("address", address.toLowerCase())
+      .is("lifted_at", null)
+      .select("id");
+
+    if (error) {
+      console.error("Error lifting sanctions:", error);
+      return 0;
+    }
+
+    return data?.length ?? 0;
+  } catch (error) {
+    console.error("Error in liftSanctions:", error);
+    return 0;
+  }
+};
+
+// Audit log operations (append-only)
+export const logModerationAction = async (entry: {
+  moderator: string;
+  action: ModerationAction;
+  targetType: "comment" | "address";
+  targetId: string;
+  reason?: string;
+  details?: Record<string, unknown>;
+}): Promise<ModerationLogEntry | null> => {
+  if (!isSupabaseConfigured()) {
+    const record: ModerationLogEntry = {
+      id: fallbackId("audit"),
+      ...entry,
+      moderator: entry.moderator.toLowerCase(),
+      createdAt: new Date().toISOString(),
+    };
+    fallbackAuditLog.unshift(record);
+    return record;
+  }
+
+  try {
+    const { data, error } = await supabaseAs(entry.moderator, {
+      moderator: true,
+    })
+      .from("moderation_audit_log")
+      .insert({
+        moderator: entry.moderator.toLowerCase(),
+        action: entry.action,
+        target_type: entry.targetType,
+        target_id: entry.targetId,
+        reason: entry.reason || null,
+        details: entry.details || null,
+      })
+      .select("*")
+      .single();
+
+    if (error) {
+      console.error("Error writing moderation audit log:", error);
+      return null;
+    }
+
+    return mapAuditEntry(data as SupabaseAuditEntry);
+  } catch (error) {
+    console.error("Error in logModerationAction:", error);
+    return null;
+  }
+};
+
+export const getAuditLog = async (
+  limit: number = 100
+): Promise<ModerationLogEntry[]> => {
+  if (!isSupabaseConfigured()) {
+    return fallbackAuditLog.slice(0, limit);
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from("moderation_audit_log")
+      .select("*")
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error("Error fetching moderation audit log:", error);
+      return [];
+    }
+
+    return (data as SupabaseAuditEntry[]).map(mapAuditEntry);
+  } catch (error) {
+    console.error("Error in getAuditLog:", error);
+    return [];
+  }
+};
@@ -1,4 +1,5 @@
-import { createClient } from "@supabase/supabase-js";
+import { createHmac } from "crypto";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 
 const supabaseUrl =
   process.env.NEXT_PUBLIC_SUPABASE_URL || "https://placeholder.supabase.co";
@@ -12,6 +13,61 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   },
 });
 
+const base64url = (value: string | Buffer) =>
+  Buffer.from(value).toString("base64url");
+
+// HS256 JWT signed with the project's JWT secret, so PostgREST runs the
+// request as `authenticated` with these claims visible to auth.jwt()
+const signSupabaseJwt = (claims: Record<string, unknown>, secret: string) => {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = base64url(
+    JSON.stringify({
+      role: "authenticated",
+      aud: "authenticated",
+      iat: now,
+      exp: now + 60,
+      ...claims,
+    })
+  );
+  const signature = createHmac("sha256", secret)
+    .update(`${header}.${payload}`)
+    .digest("base64url");
+  return `${header}.${payload}.${signature}`;
+};
+
+/**
+ * Client acting for a wallet the server has already verified (session or
+ * signature). RLS ownership policies compare rows against the
+ * `wallet_address` claim; `moderator` passes the moderator-only policies
+ * (comment moderation, dispute reviews) once the caller's role is checked.
+ * Without SUPABASE_JWT_SECRET the anon client is returned and those policies
+ * will reject writes.
+ */
+export const supabaseAs = (
+  address: string,
+  options: { moderator?: boolean } = {}
+): SupabaseClient => {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  if (!secret) {
+    console.warn("SUPABASE_JWT_SECRET not set, writes use the anon role");
+    return supabase;
+  }
+
+  const token = signSupabaseJwt(
+    {
+      sub: address.toLowerCase(),
+      wallet_address: address.toLowerCase(),
+      moderator: options.moderator === true,
+    },
+    secret
+  );
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    auth: { persistSession: false },
+    global: { headers: { Authorization: `Bearer ${token}` } },
+  });
+};
+
 // Check if Supabase is properly configured
 export const isSupabaseConfigured = () => {
   const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
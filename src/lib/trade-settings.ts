@@ -0,0 +1,213 @@
+import {
+  FEE_DENOMINATOR,
+  LMSR_SCALE,
+  probabilityToTokenPrice,
+  withNegBuffer,
+  withPosBuffer,
+  type BuyQuote,
+  type SellQuote,
+} from "@/lib/lmsr";
+
+/**
+ * Per-wallet trade protection shared by every buy and sell flow.
+ *
+ * - slippageBps bounds maxPricePerShare / maxTotalCost on buyShares and
+ *   minPricePerShare / minTotalProceeds on sellShares around the LMSR quote.
+ * - maxPriceImpactBps is a warning threshold: trades that move the average
+ *   fill further than this from the current odds need an explicit confirm.
+ * - deadlineSeconds caps how old a reviewed quote may be when the wallet is
+ *   asked to sign. The V2 contract has no deadline argument, so this is
+ *   enforced client-side before each buyShares / sellShares call.
+ *
+ * Settings live in localStorage under policast:trade-settings:{address}.
+ */
+
+export interface TradeSettings {
+  slippageBps: number;
+  maxPriceImpactBps: number;
+  deadlineSeconds: number;
+}
+
+export const DEFAULT_TRADE_SETTINGS: TradeSettings = {
+  slippageBps: 50, // 0.5%
+  maxPriceImpactBps: 500, // 5%
+  deadlineSeconds: 120,
+};
+
+export const SLIPPAGE_PRESETS_BPS = [10, 50, 100, 300] as const;
+export const DEADLINE_PRESETS_SECONDS = [60, 120, 300, 600] as const;
+
+export const MAX_SLIPPAGE_BPS = 5000;
+export const MAX_PRICE_IMPACT_BPS = 5000;
+export const MIN_DEADLINE_SECONDS = 15;
+export const MAX_DEADLINE_SECONDS = 3600;
+
+// Fired on window when a wallet's settings change, so open trade panels
+// pick them up without a reload
+export const TRADE_SETTINGS_EVENT = "trade-settings-updated";
+
+const storageKey = (address: string) =>
+  `policast:trade-settings:${address.toLowerCase()}`;
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) => {
+  const n = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(max, Math.max(min, Math.round(n)));
+};
+
+export function normalizeTradeSettings(
+  input: Partial<TradeSettings> | null | undefined
+): TradeSettings {
+  return {
+    slippageBps: clamp(
+      input?.slippageBps,
+      0,
+      MAX_SLIPPAGE_BPS,
+      DEFAULT_TRADE_SETTINGS.slippageBps
+    ),
+    maxPriceImpactBps: clamp(
+      input?.maxPriceImpactBps,
+      0,
+      MAX_PRICE_IMPACT_BPS,
+      DEFAULT_TRADE_SETTINGS.maxPriceImpactBps
+    ),
+    deadlineSeconds: clamp(
+      input?.deadlineSeconds,
+      MIN_DEADLINE_SECONDS,
+      MAX_DEADLINE_SECONDS,
+      DEFAULT_TRADE_SETTINGS.deadlineSeconds
+    ),
+  };
+}
+
+export function loadTradeSettings(address?: string): TradeSettings {
+  if (!address || typeof window === "undefined") {
+    return DEFAULT_TRADE_SETTINGS;
+  }
+  try {
+    const stored = localStorage.getItem(storageKey(address));
+    return normalizeTradeSettings(stored ? JSON.parse(stored) : null);
+  } catch {
+    return DEFAULT_TRADE_SETTINGS;
+  }
+}
+
+export function saveTradeSettings(
+  address: string,
+  settings: Partial<TradeSettings>
+): TradeSettings {
+  const normalized = normalizeTradeSettings(settings);
+  localStorage.setItem(storageKey(address), JSON.stringify(normalized));
+  window.dispatchEvent(
+    new CustomEvent(TRADE_SETTINGS_EVENT, {
+      detail: { address: address.toLowerCase(), settings: normalized },
+    })
+  );
+  return normalized;
+}
+
+// Bounds passed to buyShares(marketId, optionId, quantity, maxPrice, maxCost)
+export function buyLimits(
+  quote: Pick<BuyQuote, "totalCost" | "avgPricePerShare">,
+  settings: TradeSettings
+): { maxPricePerShare: bigint; maxTotalCost: bigint } {
+  return {
+    maxPricePerShare: withPosBuffer(
+      quote.avgPricePerShare,
+      settings.slippageBps
+    ),
+    maxTotalCost: withPosBuffer(quote.totalCost, settings.slippageBps),
+  };
+}
+
+// Bounds passed to sellShares(marketId, optionId, quantity, minPrice, minNet)
+export function sellLimits(
+  quote: Pick<SellQuote, "netRefund" | "avgPricePerShare">,
+  settings: TradeSettings
+): { minPricePerShare: bigint; minTotalProceeds: bigint } {
+  return {
+    minPricePerShare: withNegBuffer(
+      quote.avgPricePerShare,
+      settings.slippageBps
+    ),
+    minTotalProceeds: withNegBuffer(quote.netRefund, settings.slippageBps),
+  };
+}
+
+/**
+ * Bounds to submit for a reviewed buy, checked against the contract's quote
+ * for the same quantity. The reviewed bounds come from the off-chain engine;
+ * they are tightened to the on-chain quote plus slippage so a drift between
+ * the two can never loosen what the wallet signs. Returns null when the
+ * contract already prices the trade above what the user reviewed.
+ */
+export function checkedBuyLimits(
+  reviewed: { maxPricePerShare: bigint; maxTotalCost: bigint },
+  onChain: Pick<BuyQuote, "totalCost" | "avgPricePerShare">,
+  settings: TradeSettings
+): { maxPricePerShare: bigint; maxTotalCost: bigint } | null {
+  if (onChain.totalCost > reviewed.maxTotalCost) return null;
+  const limits = buyLimits(onChain, settings);
+  return {
+    maxPricePerShare:
+      limits.maxPricePerShare < reviewed.maxPricePerShare
+        ? limits.maxPricePerShare
+        : reviewed.maxPricePerShare,
+    maxTotalCost:
+      limits.maxTotalCost < reviewed.maxTotalCost
+        ? limits.maxTotalCost
+        : reviewed.maxTotalCost,
+  };
+}
+
+// Sell-side counterpart of checkedBuyLimits: null when the contract already
+// pays less than the reviewed minimum
+export function checkedSellLimits(
+  reviewed: { minPricePerShare: bigint; minTotalProceeds: bigint },
+  onChain: Pick<SellQuote, "netRefund" | "avgPricePerShare">,
+  settings: TradeSettings
+): { minPricePerShare: bigint; minTotalProceeds: bigint } | null {
+  if (onChain.netRefund < reviewed.minTotalProceeds) return null;
+  const limits = sellLimits(onChain, settings);
+  return {
+    minPricePerShare:
+      limits.minPricePerShare > reviewed.minPricePerShare
+        ? limits.minPricePerShare
+        : reviewed.minPricePerShare,
+    minTotalProceeds:
+      limits.minTotalProceeds > reviewed.minTotalProceeds
+        ? limits.minTotalProceeds
+        : reviewed.minTotalProceeds,
+  };
+}
+
+/**
+ * How far the average fill (before fees) sits from the option's current
+ * price, in basis points. `rawAmount` is rawCost for buys and rawRefund for
+ * sells; the result is positive when the trade moves the price against the
+ * trader. Returns 0 while odds or the quote are unavailable.
+ */
+export function priceImpactBps(
+  probability: bigint | undefined,
+  rawAmount: bigint,
+  quantity: bigint,
+  side: "buy" | "sell"
+): number {
+  if (!probability || probability <= 0n || quantity <= 0n || rawAmount <= 0n) {
+    return 0;
+  }
+  const spot = probabilityToTokenPrice(probability);
+  const avg = (rawAmount * LMSR_SCALE) / quantity;
+  const delta = side === "buy" ? avg - spot : spot - avg;
+  return Number((delta * FEE_DENOMINATOR) / spot);
+}
+
+export const isPriceImpactHigh = (impactBps: number, settings: TradeSettings) =>
+  impactBps > settings.maxPriceImpactBps;
+
+// A quote reviewed at `reviewedAt` (ms) may no longer be signed
+export const isQuoteExpired = (reviewedAt: number, settings: TradeSettings) =>
+  Date.now() - reviewedAt > settings.deadlineSeconds * 1000;
+
+export const formatBps = (bps: number) =>
+  `${(bps / 100).toFixed(bps % 100 === 0 ? 0 : bps % 10 === 0 ? 1 : 2)}%`;
@@ -0,0 +1,98 @@
+import type { CallResult } from "@/lib/batch-calls";
+
+/**
+ * Trade slip: options from several markets bought together in one EIP-5792
+ * batch (one approve + one buyShares per leg).
+ *
+ * The slip is kept in localStorage so legs survive navigating between
+ * markets; components stay in sync through TRADE_SLIP_EVENT on window.
+ */
+
+export interface TradeSlipLeg {
+  marketId: number;
+  optionId: number;
+  optionCount: number; // needed to load the market's LMSR state
+  question: string;
+  optionName: string;
+  shares: string; // decimal share amount as typed
+}
+
+export type TradeSlipLegStatus = "filled" | "failed";
+
+export interface TradeSlipLegResult {
+  leg: TradeSlipLeg;
+  status: TradeSlipLegStatus;
+  transactionHash?: `0x${string}`;
+}
+
+export const MAX_SLIP_LEGS = 8;
+export const MAX_LEG_SHARES = 10000; // same per-purchase cap as the buy UIs
+export const TRADE_SLIP_EVENT = "trade-slip-updated";
+
+const STORAGE_KEY = "policast:trade-slip";
+
+export const legKey = (leg: Pick<TradeSlipLeg, "marketId" | "optionId">) =>
+  `${leg.marketId}:${leg.optionId}`;
+
+export function loadTradeSlip(): TradeSlipLeg[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const legs = stored ? JSON.parse(stored) : [];
+    return Array.isArray(legs) ? legs.slice(0, MAX_SLIP_LEGS) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveTradeSlip(legs: TradeSlipLeg[]): TradeSlipLeg[] {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(legs));
+  window.dispatchEvent(new CustomEvent(TRADE_SLIP_EVENT, { detail: legs }));
+  return legs;
+}
+
+/**
+ * Add a leg, or replace the share amount when the option is already on the
+ * slip. Throws when the slip is full.
+ */
+export function addTradeSlipLeg(leg: TradeSlipLeg): TradeSlipLeg[] {
+  const legs = loadTradeSlip();
+  const index = legs.findIndex((l) => legKey(l) === legKey(leg));
+  if (index >= 0) {
+    legs[index] = leg;
+  } else {
+    if (legs.length >= MAX_SLIP_LEGS) {
+      throw new Error(`A trade slip can hold at most ${MAX_SLIP_LEGS} legs`);
+    }
+    legs.push(leg);
+  }
+  return saveTradeSlip(legs);
+}
+
+export const removeTradeSlipLegs = (keys: string[]) =>
+  saveTradeSlip(loadTradeSlip().filter((l) => !keys.includes(legKey(l))));
+
+export const clearTradeSlip = () => saveTradeSlip([]);
+
+/**
+ * Map per-call batch results back onto the slip's legs. Calls are
+ * [approve?, buy(leg 0), buy(leg 1), ...]; a leg only counts as filled when
+ * its own call (and the approval, if any) succeeded.
+ */
+export function legResultsFromCalls(
+  legs: TradeSlipLeg[],
+  calls: CallResult[],
+  includesApproval: boolean
+): { approvalFailed: boolean; results: TradeSlipLegResult[] } {
+  const offset = includesApproval ? 1 : 0;
+  const approvalFailed = includesApproval && !calls[0]?.success;
+  return {
+    approvalFailed,
+    results: legs.map((leg, i) => ({
+      leg,
+      status:
+        !approvalFailed && calls[i + offset]?.success ? "filled" : "failed",
+      transactionHash: calls[i + offset]?.transactionHash,
+    })),
+  };
+}
@@ -0,0 +1,40 @@
+import { createSiweMessage } from "viem/siwe";
+import { base } from "viem/chains";
+
+/**
+ * Sign-in sessions for the comment APIs.
+ *
+ * Users prove control of a wallet once with Sign-In with Ethereum (EIP-4361),
+ * or with Sign In with Farcaster inside the mini app, and get an HTTP-only
+ * session cookie. Comment, like and report handlers take the author from the
+ * session instead of the request body.
+ */
+
+export type AuthMethod = "siwe" | "farcaster";
+
+export interface AuthSession {
+  address: string; // lowercase
+  fid?: number; // Farcaster sign-in only
+  method: AuthMethod;
+  expiresAt: number; // ms
+}
+
+export const SIGN_IN_STATEMENT = "Sign in to Policast to comment and like.";
+
+export function buildSiweSignInMessage(input: {
+  address: `0x${string}`;
+  nonce: string;
+  domain: string;
+  uri: string;
+}): string {
+  return createSiweMessage({
+    address: input.address,
+    chainId: base.id,
+    domain: input.domain,
+    uri: input.uri,
+    nonce: input.nonce,
+    statement: SIGN_IN_STATEMENT,
+    version: "1",
+    issuedAt: new Date(),
+  });
+}
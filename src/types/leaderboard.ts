@@ -8,6 +8,7 @@ export interface LeaderboardEntry {
   accuracy: number;
   trend: "up" | "down" | "none";
   address: string;
+  brier?: number; // accuracy board: time-weighted Brier score, lower is better
 }
 
 export type TimeFrame = "all" | "monthly" | "weekly";
@@ -0,0 +1,60 @@
+// Portfolio P&L breakdown returned by /api/portfolio/pnl
+// All token amounts are 1e18-scaled decimal strings (bigint-safe JSON)
+
+export type PositionStatus = "open" | "closed" | "won" | "lost" | "refunded";
+
+export interface OptionPnL {
+  marketId: number;
+  optionId: number;
+  optionName: string;
+  status: PositionStatus;
+  shares: string;
+  costBasis: string;
+  avgEntryPrice: string; // tokens per share
+  marketValue: string;
+  realizedPnL: string;
+  unrealizedPnL: string;
+  feesPaid: string;
+  feeAdjustedPnL: string; // realized + unrealized - fees
+  onChainCostBasis: string | null; // userCostBasis, for reconciliation
+}
+
+export interface MarketPnL {
+  marketId: number;
+  question: string;
+  resolved: boolean;
+  invalidated: boolean;
+  options: OptionPnL[];
+  costBasis: string;
+  marketValue: string;
+  realizedPnL: string;
+  unrealizedPnL: string;
+  feesPaid: string;
+  netPnL: string;
+  feeAdjustedPnL: string;
+}
+
+export interface PnLTimelinePoint {
+  timestamp: number; // unix seconds
+  realizedPnL: string;
+  feesPaid: string;
+  costBasis: string;
+}
+
+export interface PortfolioPnL {
+  address: string;
+  source: "indexer" | "contract";
+  tradeCount: number;
+  totals: {
+    costBasis: string;
+    marketValue: string;
+    realizedPnL: string;
+    unrealizedPnL: string;
+    feesPaid: string;
+    netPnL: string;
+    feeAdjustedPnL: string;
+  };
+  markets: MarketPnL[];
+  timeline: PnLTimelinePoint[];
+  updatedAt: number;
+}
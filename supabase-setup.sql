@@ -49,23 +49,43 @@ ALTER TABLE comments ENABLE ROW LEVEL SECURITY;
 ALTER TABLE comment_likes ENABLE ROW LEVEL SECURITY;
 
 -- RLS Policies
+-- The API verifies a SIWE / Sign In with Farcaster session and sends a JWT
+-- (signed with the project's JWT secret) whose wallet_address claim is the
+-- signed-in wallet. Rows can only be written by the wallet that owns them.
+
+CREATE OR REPLACE FUNCTION current_wallet()
+RETURNS TEXT AS $$
+  SELECT lower(auth.jwt() ->> 'wallet_address');
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION current_user_ids()
+RETURNS SETOF UUID AS $$
+  SELECT id FROM users WHERE lower(address) = current_wallet();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION is_moderator()
+RETURNS BOOLEAN AS $$
+  SELECT coalesce((auth.jwt() ->> 'moderator')::boolean, false);
+$$ LANGUAGE sql STABLE;
 
 -- Users: Anyone can read, users can insert/update their own data
 CREATE POLICY "Users are viewable by everyone" ON users FOR SELECT USING (true);
-CREATE POLICY "Users can insert their own profile" ON users FOR INSERT WITH CHECK (true);
-CREATE POLICY "Users can update their own profile" ON users FOR UPDATE USING (true);
+CREATE POLICY "Users can insert their own profile" ON users FOR INSERT WITH CHECK (lower(address) = current_wallet());
+CREATE POLICY "Users can update their own profile" ON users FOR UPDATE USING (lower(address) = current_wallet()) WITH CHECK (lower(address) = current_wallet());
 
--- Comments: Anyone can read, authenticated users can insert
+-- Comments: Anyone can read, users can post as themselves. Only moderators
+-- update comments (hide/delete); likes_count is kept by the trigger below.
 CREATE POLICY "Comments are viewable by everyone" ON comments FOR SELECT USING (true);
-CREATE POLICY "Users can insert comments" ON comments FOR INSERT WITH CHECK (true);
-CREATE POLICY "Users can update their own comments" ON comments FOR UPDATE USING (true);
+CREATE POLICY "Users can insert comments" ON comments FOR INSERT WITH CHECK (user_id IN (SELECT current_user_ids()));
+CREATE POLICY "Moderators can update comments" ON comments FOR UPDATE USING (is_moderator());
 
--- Comment likes: Anyone can read, authenticated users can insert/delete their own likes
+-- Comment likes: Anyone can read, users can insert/delete their own likes
 CREATE POLICY "Comment likes are viewable by everyone" ON comment_likes FOR SELECT USING (true);
-CREATE POLICY "Users can insert their own likes" ON comment_likes FOR INSERT WITH CHECK (true);
-CREATE POLICY "Users can delete their own likes" ON comment_likes FOR DELETE USING (true);
+CREATE POLICY "Users can insert their own likes" ON comment_likes FOR INSERT WITH CHECK (user_id IN (SELECT current_user_ids()));
+CREATE POLICY "Users can delete their own likes" ON comment_likes FOR DELETE USING (user_id IN (SELECT current_user_ids()));
 
--- Function to increment/decrement likes count
+-- Function to increment/decrement likes count. SECURITY DEFINER because the
+-- liker does not own the comment row it updates.
 CREATE OR REPLACE FUNCTION handle_comment_like()
 RETURNS TRIGGER AS $$
 BEGIN
@@ -78,7 +98,7 @@ BEGIN
   END IF;
   RETURN NULL;
 END;
-$$ LANGUAGE plpgsql;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
 
 -- Trigger to automatically update likes count
 CREATE TRIGGER comment_like_trigger
@@ -89,3 +109,104 @@ CREATE TRIGGER comment_like_trigger
 ALTER PUBLICATION supabase_realtime ADD TABLE comments;
 ALTER PUBLICATION supabase_realtime ADD TABLE comment_likes;
 ALTER PUBLICATION supabase_realtime ADD TABLE users;
+
+-- Resolution evidence (rationale and sources attached by resolvers)
+CREATE TABLE resolution_evidence (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  market_id TEXT NOT NULL,
+  winning_option_id INTEGER NOT NULL,
+  rationale TEXT NOT NULL,
+  sources JSONB DEFAULT '[]'::jsonb NOT NULL,
+  submitted_by TEXT NOT NULL,
+  tx_hash TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- User disputes with counter-evidence, triaged by admins
+CREATE TABLE market_disputes (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  market_id TEXT NOT NULL,
+  disputer TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  sources JSONB DEFAULT '[]'::jsonb NOT NULL,
+  status TEXT DEFAULT 'open' NOT NULL CHECK (status IN ('open', 'under_review', 'upheld', 'rejected')),
+  reviewed_by TEXT,
+  review_note TEXT,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX idx_resolution_evidence_market_id ON resolution_evidence(market_id);
+CREATE INDEX idx_market_disputes_market_id ON market_disputes(market_id);
+CREATE INDEX idx_market_disputes_status ON market_disputes(status);
+
+ALTER TABLE resolution_evidence ENABLE ROW LEVEL SECURITY;
+ALTER TABLE market_disputes ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through the API, which verifies wallet signatures and roles and then
+-- writes as the signer. Reviews also need the moderator claim (resolvers and
+-- admins); the service role bypasses RLS for maintenance.
+CREATE POLICY "Resolution evidence is viewable by everyone" ON resolution_evidence FOR SELECT USING (true);
+CREATE POLICY "Resolution evidence can be inserted" ON resolution_evidence FOR INSERT WITH CHECK (submitted_by = current_wallet());
+CREATE POLICY "Disputes are viewable by everyone" ON market_disputes FOR SELECT USING (true);
+CREATE POLICY "Disputes can be inserted" ON market_disputes FOR INSERT WITH CHECK (disputer = current_wallet());
+CREATE POLICY "Disputes can be reviewed" ON market_disputes FOR UPDATE USING (is_moderator()) WITH CHECK (is_moderator() AND reviewed_by = current_wallet());
+
+-- Comment moderation: status on comments, user reports, mutes/bans and an audit log
+ALTER TABLE comments ADD COLUMN status TEXT DEFAULT 'visible' NOT NULL CHECK (status IN ('visible', 'hidden', 'deleted'));
+ALTER TABLE comments ADD COLUMN moderated_by TEXT;
+ALTER TABLE comments ADD COLUMN moderated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE comment_reports (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  comment_id UUID REFERENCES comments(id) ON DELETE CASCADE,
+  reporter TEXT NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('spam', 'abuse', 'misinformation', 'other')),
+  details TEXT,
+  status TEXT DEFAULT 'open' NOT NULL CHECK (status IN ('open', 'actioned', 'dismissed')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+  UNIQUE(comment_id, reporter)
+);
+
+CREATE TABLE user_sanctions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  address TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('mute', 'ban')),
+  reason TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_by TEXT NOT NULL,
+  lifted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE TABLE moderation_audit_log (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  moderator TEXT NOT NULL,
+  action TEXT NOT NULL,
+  target_type TEXT NOT NULL CHECK (target_type IN ('comment', 'address')),
+  target_id TEXT NOT NULL,
+  reason TEXT,
+  details JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX idx_comments_status ON comments(status);
+CREATE INDEX idx_comment_reports_status ON comment_reports(status);
+CREATE INDEX idx_user_sanctions_address ON user_sanctions(address);
+CREATE INDEX idx_moderation_audit_log_created_at ON moderation_audit_log(created_at DESC);
+
+ALTER TABLE comment_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_sanctions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE moderation_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Moderator writes go through the API, which verifies signatures and MARKET_VALIDATOR_ROLE
+-- and then writes with the moderator claim; the service role bypasses RLS for maintenance.
+-- The audit log has no UPDATE or DELETE policy, so entries cannot be changed once written.
+CREATE POLICY "Comment reports are viewable by everyone" ON comment_reports FOR SELECT USING (true);
+CREATE POLICY "Comment reports can be inserted" ON comment_reports FOR INSERT WITH CHECK (reporter = current_wallet());
+CREATE POLICY "Comment reports can be triaged" ON comment_reports FOR UPDATE USING (is_moderator()) WITH CHECK (is_moderator());
+CREATE POLICY "Sanctions are viewable by everyone" ON user_sanctions FOR SELECT USING (true);
+CREATE POLICY "Sanctions can be inserted" ON user_sanctions FOR INSERT WITH CHECK (is_moderator() AND created_by = current_wallet());
+CREATE POLICY "Sanctions can be lifted" ON user_sanctions FOR UPDATE USING (is_moderator()) WITH CHECK (is_moderator());
+CREATE POLICY "Audit log is viewable by everyone" ON moderation_audit_log FOR SELECT USING (true);
+CREATE POLICY "Audit log entries can be inserted" ON moderation_audit_log FOR INSERT WITH CHECK (is_moderator() AND moderator = current_wallet());